@@ -9,6 +9,18 @@ export interface AdjustmentLog {
   delta?: any;
 }
 
+export interface HistoryEntry {
+  label: string;
+  timestamp: number;
+  before: EnuParams;
+  after: EnuParams;
+}
+
+// Consecutive changes with the same label inside this window become one undo step
+// (held-down keys, gizmo drags)
+const HISTORY_MERGE_WINDOW_MS = 750;
+const HISTORY_LIMIT = 200;
+
 export interface SplatAdjustments {
   initialParams: EnuParams;
   currentParams: EnuParams;
@@ -27,6 +39,9 @@ export interface SplatAdjustments {
 export class AdjustmentTracker {
   private adjustments: SplatAdjustments;
   private enabled: boolean = true;
+  private undoStack: HistoryEntry[] = [];
+  private redoStack: HistoryEntry[] = [];
+  private changeListeners: ((adjustments: SplatAdjustments) => void)[] = [];
 
   constructor(initialParams: EnuParams) {
     this.adjustments = {
@@ -171,6 +186,17 @@ export class AdjustmentTracker {
     console.log(`📊 Height: ${before.toFixed(2)}m → ${after.toFixed(2)}m (Δ: ${delta.toFixed(2)}m, total: ${this.adjustments.totalDeltas.tUp.toFixed(2)}m)`);
   }
 
+  // Log every field that differs between two placements, whatever changed them
+  public logChange(before: EnuParams, after: EnuParams): void {
+    if (before.scale !== after.scale) this.logScaleAdjustment(before.scale, after.scale);
+    if (before.yawRad !== after.yawRad) this.logYawAdjustment(before.yawRad, after.yawRad);
+    if (before.pitchRad !== after.pitchRad) this.logPitchAdjustment(before.pitchRad, after.pitchRad);
+    if (before.rollRad !== after.rollRad) this.logRollAdjustment(before.rollRad, after.rollRad);
+    if (before.tEast !== after.tEast || before.tNorth !== after.tNorth || before.tUp !== after.tUp) {
+      this.logPositionAdjustment(before.tEast, before.tNorth, before.tUp, after.tEast, after.tNorth, after.tUp);
+    }
+  }
+
   // Get summary of all adjustments
   public getSummary(): string {
     const lines = [
@@ -214,16 +240,19 @@ export class AdjustmentTracker {
 burbankLayer = new GaussianSplatLayer(
   "./splats/myscene/Burbank1Clean.ply",
   {
-    lon: -118.28507075,
-    lat: 34.18991967,
-    height: 327 + ${params.tUp.toFixed(2)} // Adjusted height
+    lon: -118.28457825,
+    lat: 34.18977717,
+    height: 329
   },
   {
-    x: ${params.pitchRad.toFixed(4)}, // pitch
-    y: ${params.yawRad.toFixed(4)},   // yaw
-    z: ${params.rollRad.toFixed(4)}   // roll
-  },
-  ${params.scale.toFixed(3)} // scale
+    scale: ${params.scale.toFixed(3)},
+    yawRad: ${params.yawRad.toFixed(4)},
+    pitchRad: ${params.pitchRad.toFixed(4)},
+    rollRad: ${params.rollRad.toFixed(4)},
+    tEast: ${params.tEast.toFixed(3)},
+    tNorth: ${params.tNorth.toFixed(3)},
+    tUp: ${params.tUp.toFixed(3)}
+  }
 );
 
 // Or apply directly to alignment controller:
@@ -238,6 +267,75 @@ alignmentController.setEnuParams({
 });`;
   }
 
+  // Record an undoable change; the controller calls this after applying new params
+  public recordHistory(label: string, before: EnuParams, after: EnuParams): void {
+    if (paramsEqual(before, after)) return;
+
+    const now = Date.now();
+    const last = this.undoStack[this.undoStack.length - 1];
+    if (last && last.label === label && now - last.timestamp < HISTORY_MERGE_WINDOW_MS && this.redoStack.length === 0) {
+      last.after = { ...after };
+      last.timestamp = now;
+    } else {
+      this.undoStack.push({ label, timestamp: now, before: { ...before }, after: { ...after } });
+      if (this.undoStack.length > HISTORY_LIMIT) this.undoStack.shift();
+    }
+
+    this.redoStack = [];
+    this.setCurrentParams(after);
+    this.notifyChange();
+  }
+
+  // Step back; returns the entry whose `before` params should be applied
+  public undo(): HistoryEntry | null {
+    const entry = this.undoStack.pop();
+    if (!entry) return null;
+
+    this.redoStack.push(entry);
+    this.setCurrentParams(entry.before);
+    this.notifyChange();
+    console.log(`↩️ Undo: ${entry.label} (${this.undoStack.length} more)`);
+    return entry;
+  }
+
+  // Step forward again; returns the entry whose `after` params should be applied
+  public redo(): HistoryEntry | null {
+    const entry = this.redoStack.pop();
+    if (!entry) return null;
+
+    this.undoStack.push(entry);
+    this.setCurrentParams(entry.after);
+    this.notifyChange();
+    console.log(`↪️ Redo: ${entry.label} (${this.redoStack.length} more)`);
+    return entry;
+  }
+
+  public canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  public canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  public getHistory(): { undo: HistoryEntry[]; redo: HistoryEntry[] } {
+    return { undo: [...this.undoStack], redo: [...this.redoStack] };
+  }
+
+  private setCurrentParams(params: EnuParams): void {
+    const initial = this.adjustments.initialParams;
+    this.adjustments.currentParams = { ...params };
+    this.adjustments.totalDeltas = {
+      scale: params.scale / initial.scale,
+      yawRad: params.yawRad - initial.yawRad,
+      pitchRad: params.pitchRad - initial.pitchRad,
+      rollRad: params.rollRad - initial.rollRad,
+      tEast: params.tEast - initial.tEast,
+      tNorth: params.tNorth - initial.tNorth,
+      tUp: params.tUp - initial.tUp
+    };
+  }
+
   // Get current params
   public getCurrentParams(): EnuParams {
     return { ...this.adjustments.currentParams };
@@ -259,6 +357,9 @@ alignmentController.setEnuParams({
         tUp: 0
       }
     };
+    this.undoStack = [];
+    this.redoStack = [];
+    this.notifyChange();
     console.log('📊 Adjustment Tracker reset with new initial params');
   }
 
@@ -272,4 +373,99 @@ alignmentController.setEnuParams({
   public exportJSON(): string {
     return JSON.stringify(this.adjustments, null, 2);
   }
+
+  // Inverse of exportJSON; throws if the JSON is not a tracker export
+  public importJSON(json: string): SplatAdjustments {
+    let data: unknown;
+    try {
+      data = JSON.parse(json);
+    } catch (error) {
+      throw new Error(`Adjustment session is not valid JSON: ${(error as Error).message}`);
+    }
+
+    const adjustments = parseAdjustments(data);
+    this.restore(adjustments);
+    return adjustments;
+  }
+
+  // Replace logs, totals and params with a saved session. Undo history starts fresh.
+  public restore(adjustments: SplatAdjustments): void {
+    this.adjustments = {
+      initialParams: { ...adjustments.initialParams },
+      currentParams: { ...adjustments.currentParams },
+      logs: adjustments.logs.map(log => ({ ...log })),
+      totalDeltas: { ...adjustments.totalDeltas }
+    };
+    this.undoStack = [];
+    this.redoStack = [];
+    this.notifyChange();
+    console.log(`📊 Adjustment session restored (${this.adjustments.logs.length} adjustments)`);
+  }
+
+  public getAdjustments(): SplatAdjustments {
+    return JSON.parse(JSON.stringify(this.adjustments));
+  }
+
+  // Called after every recorded change, undo/redo, reset and restore
+  public onChange(listener: (adjustments: SplatAdjustments) => void): () => void {
+    this.changeListeners.push(listener);
+    return () => {
+      this.changeListeners = this.changeListeners.filter(l => l !== listener);
+    };
+  }
+
+  private notifyChange(): void {
+    for (const listener of this.changeListeners) {
+      listener(this.adjustments);
+    }
+  }
+}
+
+function paramsEqual(a: EnuParams, b: EnuParams): boolean {
+  const keys: (keyof EnuParams)[] = ['scale', 'yawRad', 'pitchRad', 'rollRad', 'tEast', 'tNorth', 'tUp'];
+  return keys.every(key => Math.abs((a[key] as number) - (b[key] as number)) < 1e-9) &&
+    !!a.tiltLocked === !!b.tiltLocked &&
+    a.alignRotation === b.alignRotation;
+}
+
+const ADJUSTMENT_TYPES = ['scale', 'yaw', 'pitch', 'roll', 'position', 'height'];
+const PARAM_KEYS = ['scale', 'yawRad', 'pitchRad', 'rollRad', 'tEast', 'tNorth', 'tUp'];
+
+function parseAdjustments(data: any): SplatAdjustments {
+  const issues: string[] = [];
+
+  for (const field of ['initialParams', 'currentParams']) {
+    for (const key of PARAM_KEYS) {
+      if (typeof data?.[field]?.[key] !== 'number') issues.push(`${field}.${key} must be a number`);
+    }
+  }
+
+  if (!Array.isArray(data?.logs)) {
+    issues.push('logs must be an array');
+  } else {
+    data.logs.forEach((log: any, i: number) => {
+      if (typeof log?.timestamp !== 'number') issues.push(`logs[${i}].timestamp must be a number`);
+      if (!ADJUSTMENT_TYPES.includes(log?.type)) issues.push(`logs[${i}].type must be one of ${ADJUSTMENT_TYPES.join(', ')}`);
+    });
+  }
+
+  if (issues.length > 0) {
+    throw new Error(`Invalid adjustment session:\n  - ${issues.join('\n  - ')}`);
+  }
+
+  // Older exports may lack totals; derive them the same way the log methods do
+  const initial = data.initialParams;
+  const current = data.currentParams;
+  const totals = data.totalDeltas ?? {};
+  const totalDeltas = {
+    scale: typeof totals.scale === 'number' ? totals.scale : current.scale / initial.scale,
+    yawRad: typeof totals.yawRad === 'number' ? totals.yawRad : current.yawRad - initial.yawRad,
+    pitchRad: typeof totals.pitchRad === 'number' ? totals.pitchRad : current.pitchRad - initial.pitchRad,
+    rollRad: typeof totals.rollRad === 'number' ? totals.rollRad : current.rollRad - initial.rollRad,
+    tEast: typeof totals.tEast === 'number' ? totals.tEast : current.tEast - initial.tEast,
+    tNorth: typeof totals.tNorth === 'number' ? totals.tNorth : current.tNorth - initial.tNorth,
+    tUp: typeof totals.tUp === 'number' ? totals.tUp : current.tUp - initial.tUp
+  };
+
+  return { initialParams: initial, currentParams: current, logs: data.logs, totalDeltas };
 }
@@ -1,6 +1,12 @@
 import * as Cesium from 'cesium';
 import * as THREE from 'three';
 import { GaussianSplatLayer } from './gaussian-splat-layer';
+import { GeoRaster, rasterBounds, rasterToImageData } from './raster/geoRaster';
+import { renderSplatsOrtho } from './raster/orthoSplatRender';
+import { ImageryCapture } from './raster/imageryCapture';
+import { SplatArrays, readSplatArrays } from './export/plyExport';
+import { composeEnuMatrix } from './alignment/composeModelMatrix';
+import { EnuParams, GeoAnchor } from './types/alignment';
 
 export interface FeatureMetrics {
   roadWidth: number;          // Average road width in meters
@@ -19,14 +25,26 @@ export interface AlignmentScore {
   overallScore: number;       // Combined confidence score
 }
 
+// Best placement found by the search, not yet applied
+export interface IntelligentAlignmentProposal {
+  params: EnuParams;
+  score: AlignmentScore;
+  iterations: number;
+}
+
 export class AIAlignment {
   private cesiumViewer: Cesium.Viewer;
   private canvas: HTMLCanvasElement;
   private context: CanvasRenderingContext2D;
+  private imageryCapture: ImageryCapture;
   private referenceMetrics: FeatureMetrics | null = null;
+  // Grid of the last reference capture; splat renders are drawn on it so both
+  // images have the same ground sample distance
+  private referenceRaster: GeoRaster | null = null;
 
   constructor(cesiumViewer: Cesium.Viewer) {
     this.cesiumViewer = cesiumViewer;
+    this.imageryCapture = new ImageryCapture(cesiumViewer.imageryLayers);
     this.canvas = document.createElement('canvas');
     this.canvas.width = 2048;  // Higher resolution for better analysis
     this.canvas.height = 2048;
@@ -36,47 +54,55 @@ export class AIAlignment {
   public async performIntelligentAlignment(
     splatLayer: GaussianSplatLayer
   ): Promise<boolean> {
+    const proposal = await this.proposeIntelligentAlignment(splatLayer);
+
+    if (proposal.score.overallScore > 0.3) {
+      splatLayer.setEnuParams(proposal.params, 'ai alignment');
+      console.log(`✅ AI alignment successful! Score: ${proposal.score.overallScore.toFixed(3)}`);
+      return true;
+    } else {
+      console.log(`❌ AI alignment failed. Best score: ${proposal.score.overallScore.toFixed(3)}`);
+      return false;
+    }
+  }
+
+  // The best placement of the search without moving the layer; every candidate is
+  // rendered from the splat data with its own params
+  public async proposeIntelligentAlignment(
+    splatLayer: GaussianSplatLayer,
+    signal?: AbortSignal
+  ): Promise<IntelligentAlignmentProposal> {
     console.log('🤖 Starting AI-based intelligent alignment...');
 
     // Step 1: Analyze real-world reference data
     console.log('📊 Analyzing real-world features...');
-    const referenceMetrics = await this.analyzeRealWorldFeatures(
-      splatLayer.location.lon,
-      splatLayer.location.lat
-    );
+    const referenceMetrics = await this.analyzeRealWorldFeatures(splatLayer.getAnchor());
+    signal?.throwIfAborted();
 
     // Step 2: Analyze splat features
     console.log('🎯 Analyzing splat features...');
-    const splatMetrics = await this.analyzeSplatFeatures(splatLayer);
+    const splats = readSplatArrays(splatLayer);
+    const splatMetrics = await this.analyzeSplatFeatures(splats, splatLayer.getEnuParams(), splatLayer.getAnchor());
 
     // Step 3: Iterative alignment with multiple scales and positions
     console.log('🔄 Performing iterative alignment...');
-    const bestAlignment = await this.iterativeAlignment(
+    return this.iterativeAlignment(
       splatLayer,
+      splats,
       referenceMetrics,
-      splatMetrics
+      splatMetrics,
+      signal
     );
-
-    if (bestAlignment.overallScore > 0.3) {
-      console.log(`✅ AI alignment successful! Score: ${bestAlignment.overallScore.toFixed(3)}`);
-      return true;
-    } else {
-      console.log(`❌ AI alignment failed. Best score: ${bestAlignment.overallScore.toFixed(3)}`);
-      return false;
-    }
   }
 
-  private async analyzeRealWorldFeatures(
-    centerLon: number,
-    centerLat: number
-  ): Promise<FeatureMetrics> {
+  private async analyzeRealWorldFeatures(anchor: GeoAnchor): Promise<FeatureMetrics> {
     // Capture high-resolution satellite imagery
-    const imagery = await this.captureHighResImagery(centerLon, centerLat, 0.002);
+    const imagery = await this.captureHighResImagery(anchor, 0.002);
 
     // Analyze features using computer vision
     const roadAnalysis = this.analyzeRoadNetworks(imagery);
     const buildingAnalysis = this.analyzeBuildingPatterns(imagery);
-    const terrainAnalysis = await this.analyzeTerrainFeatures(centerLon, centerLat);
+    const terrainAnalysis = await this.analyzeTerrainFeatures(anchor.lon, anchor.lat);
 
     const metrics: FeatureMetrics = {
       roadWidth: roadAnalysis.averageWidth,
@@ -92,16 +118,14 @@ export class AIAlignment {
     return metrics;
   }
 
-  private async analyzeSplatFeatures(splatLayer: GaussianSplatLayer): Promise<FeatureMetrics> {
-    // Render splat from multiple angles for comprehensive analysis
-    const topView = await this.renderSplatView(splatLayer, 'top');
-    const oblique1 = await this.renderSplatView(splatLayer, 'oblique45');
-    const oblique2 = await this.renderSplatView(splatLayer, 'oblique-45');
+  private async analyzeSplatFeatures(splats: SplatArrays, params: EnuParams, anchor: GeoAnchor): Promise<FeatureMetrics> {
+    // Orthographic top-down render of the splat placed with params
+    const topView = await this.renderSplatView(splats, params, anchor);
 
-    // Analyze features from multiple perspectives
+    // Analyze features from the render
     const roadAnalysis = this.analyzeRoadNetworks(topView);
     const buildingAnalysis = this.analyzeBuildingPatterns(topView);
-    const depthAnalysis = this.analyzeDepthFeatures([topView, oblique1, oblique2]);
+    const depthAnalysis = this.analyzeDepthFeatures([topView]);
 
     return {
       roadWidth: roadAnalysis.averageWidth,
@@ -288,9 +312,11 @@ export class AIAlignment {
 
   private async iterativeAlignment(
     splatLayer: GaussianSplatLayer,
+    splats: SplatArrays,
     referenceMetrics: FeatureMetrics,
-    initialSplatMetrics: FeatureMetrics
-  ): Promise<AlignmentScore> {
+    initialSplatMetrics: FeatureMetrics,
+    signal?: AbortSignal
+  ): Promise<IntelligentAlignmentProposal> {
     let bestScore: AlignmentScore = {
       scaleScore: 0,
       rotationScore: 0,
@@ -327,6 +353,10 @@ export class AIAlignment {
       { lon: -0.0001, lat: -0.0001 }
     ];
 
+    const startParams = splatLayer.getEnuParams();
+    const anchor = splatLayer.getAnchor();
+    const metersPerDegree = 111320;
+    let bestParams = startParams;
     let iteration = 0;
     const maxIterations = scaleTests.length * rotationTests.length * positionTests.length;
 
@@ -335,26 +365,28 @@ export class AIAlignment {
         for (const positionOffset of positionTests) {
           iteration++;
 
-          // Apply test transformation
-          const testLocation = {
-            lon: splatLayer.location.lon + positionOffset.lon,
-            lat: splatLayer.location.lat + positionOffset.lat,
-            height: splatLayer.location.height
+          // Test transformation, offsets converted from degrees to ENU metres
+          const testParams: EnuParams = {
+            ...startParams,
+            tEast: startParams.tEast + positionOffset.lon * metersPerDegree * Math.cos(Cesium.Math.toRadians(anchor.lat)),
+            tNorth: startParams.tNorth + positionOffset.lat * metersPerDegree,
+            yawRad: rotation,
+            scale
           };
 
-          this.applySplatTransformation(splatLayer, testLocation, rotation, scale);
-
-          // Wait for transformation to settle
-          await new Promise(resolve => setTimeout(resolve, 100));
+          // Yield so the page stays responsive and a cancel can come in
+          await new Promise(resolve => setTimeout(resolve, 0));
+          signal?.throwIfAborted();
 
           // Analyze transformed splat
-          const transformedMetrics = await this.analyzeSplatFeatures(splatLayer);
+          const transformedMetrics = await this.analyzeSplatFeatures(splats, testParams, anchor);
 
           // Calculate alignment score
           const score = this.calculateAlignmentScore(referenceMetrics, transformedMetrics);
 
           if (score.overallScore > bestScore.overallScore) {
             bestScore = score;
+            bestParams = testParams;
             console.log(`🎯 New best score: ${score.overallScore.toFixed(3)} (iteration ${iteration}/${maxIterations})`);
             console.log(`   Scale: ${scale.toFixed(2)}, Rotation: ${(rotation * 180 / Math.PI).toFixed(1)}°`);
           }
@@ -367,7 +399,7 @@ export class AIAlignment {
       }
     }
 
-    return bestScore;
+    return { params: bestParams, score: bestScore, iterations: iteration };
   }
 
   private estimateScaleFromRoadWidth(
@@ -576,16 +608,28 @@ export class AIAlignment {
   }
 
   // Additional helper methods
-  private async captureHighResImagery(centerLon: number, centerLat: number, radius: number): Promise<ImageData> {
-    // Implementation similar to road-alignment.ts but with higher resolution
-    // ... (implementation details)
-    return new ImageData(this.canvas.width, this.canvas.height);
+  // Imagery within radius degrees of the anchor, north-up in the anchor's ENU frame
+  private async captureHighResImagery(anchor: GeoAnchor, radius: number): Promise<ImageData> {
+    const halfSize = radius * 111320; // degrees of latitude to meters
+    const raster = await this.imageryCapture.captureGrid(
+      anchor,
+      { west: -halfSize, south: -halfSize, east: halfSize, north: halfSize },
+      2 * halfSize / this.canvas.width
+    );
+    this.referenceRaster = raster;
+    return rasterToImageData(raster);
   }
 
-  private async renderSplatView(splatLayer: GaussianSplatLayer, viewType: string): Promise<ImageData> {
-    // Render splat from different angles
-    // ... (implementation details)
-    return new ImageData(this.canvas.width, this.canvas.height);
+  private async renderSplatView(splats: SplatArrays, params: EnuParams, anchor: GeoAnchor): Promise<ImageData> {
+    // Looking straight down ENU Up, on the reference grid so pixel sizes match whatever params scales the splat by
+    if (!this.referenceRaster) throw new Error('Capture the reference imagery before rendering the splat');
+    const modelToEnu = Cesium.Matrix4.toArray(composeEnuMatrix(params));
+    const raster = renderSplatsOrtho(splats, modelToEnu, anchor, {
+      bounds: rasterBounds(this.referenceRaster),
+      metersPerPixel: this.referenceRaster.metersPerPixel
+    });
+    console.log(`📸 Splat rendered top-down: ${raster.width}x${raster.height} at ${raster.metersPerPixel.toFixed(3)} m/pixel`);
+    return rasterToImageData(raster);
   }
 
   private analyzeDepthFeatures(views: ImageData[]): any {
@@ -621,28 +665,6 @@ export class AIAlignment {
     return 10; // Placeholder
   }
 
-  private applySplatTransformation(
-    splatLayer: GaussianSplatLayer,
-    location: { lon: number; lat: number; height: number },
-    rotation: number,
-    scale: number
-  ): void {
-    // Apply transformation to splat
-    splatLayer.location = location;
-    splatLayer.rotation.y = rotation;
-    splatLayer.scale = scale;
-
-    // Update position
-    const position = Cesium.Cartesian3.fromDegrees(location.lon, location.lat, location.height);
-    splatLayer.scene.position.set(position.x, position.y, position.z);
-    splatLayer.scene.rotation.y = rotation;
-
-    if (splatLayer.splatViewer && splatLayer.splatViewer.getSplatMesh()) {
-      const mesh = splatLayer.splatViewer.getSplatMesh();
-      mesh.scale.set(scale, scale, scale);
-    }
-  }
-
   private updateStatus(message: string): void {
     const statusDiv = document.getElementById('status-content');
     if (statusDiv) {
@@ -0,0 +1,71 @@
+import { GaussianSplatLayer } from './gaussian-splat-layer';
+import { EnuParams } from './types/alignment';
+import { KeymapRegistry } from './keymap';
+
+// Base step per key press, before the fine/coarse multiplier
+export interface AlignmentSteps {
+  moveMeters: number;     // east/north
+  heightMeters: number;
+  rotateDegrees: number;  // yaw/pitch/roll
+  scalePercent: number;
+}
+
+export const DEFAULT_ALIGNMENT_STEPS: AlignmentSteps = {
+  moveMeters: 0.25,
+  heightMeters: 1,
+  rotateDegrees: 0.25,
+  scalePercent: 1
+};
+
+// Register the manual alignment keys. Each press goes through layer.setEnuParams,
+// so undo history and sessions pick it up like any other change.
+export function registerAlignmentActions(
+  registry: KeymapRegistry,
+  getLayers: () => GaussianSplatLayer[],
+  steps: AlignmentSteps = DEFAULT_ALIGNMENT_STEPS
+): void {
+  const adjust = (id: string, change: (params: EnuParams, multiplier: number) => Partial<EnuParams>) =>
+    ({ multiplier }: { multiplier: number }) => {
+      for (const layer of getLayers()) {
+        layer.setEnuParams(change(layer.getEnuParams(), multiplier), `key ${id}`);
+
+        const p = layer.getEnuParams();
+        console.log(
+          `📊 ${id} ×${multiplier}: scale ${p.scale.toFixed(3)}, ` +
+          `yaw/pitch/roll ${[p.yawRad, p.pitchRad, p.rollRad].map(r => (r * 180 / Math.PI).toFixed(2)).join('/')}°, ` +
+          `ENU ${p.tEast.toFixed(2)}/${p.tNorth.toFixed(2)}/${p.tUp.toFixed(2)}m`
+        );
+      }
+    };
+
+  const rotate = (multiplier: number) => steps.rotateDegrees * multiplier * Math.PI / 180;
+  const scaleFactor = (multiplier: number) => 1 + steps.scalePercent * multiplier / 100;
+
+  const actions: Array<{ id: string; label: string; group: string; key: string; change: (p: EnuParams, m: number) => Partial<EnuParams> }> = [
+    { id: 'scale.up', label: 'Increase', group: 'Scale', key: 'M', change: (p, m) => ({ scale: p.scale * scaleFactor(m) }) },
+    { id: 'scale.down', label: 'Decrease', group: 'Scale', key: 'N', change: (p, m) => ({ scale: p.scale / scaleFactor(m) }) },
+    { id: 'yaw.left', label: 'Yaw +', group: 'Rotation', key: 'Q', change: (p, m) => ({ yawRad: p.yawRad + rotate(m) }) },
+    { id: 'yaw.right', label: 'Yaw -', group: 'Rotation', key: 'W', change: (p, m) => ({ yawRad: p.yawRad - rotate(m) }) },
+    { id: 'pitch.up', label: 'Pitch +', group: 'Rotation', key: 'A', change: (p, m) => ({ pitchRad: p.pitchRad + rotate(m) }) },
+    { id: 'pitch.down', label: 'Pitch -', group: 'Rotation', key: 'S', change: (p, m) => ({ pitchRad: p.pitchRad - rotate(m) }) },
+    { id: 'roll.left', label: 'Roll +', group: 'Rotation', key: 'Z', change: (p, m) => ({ rollRad: p.rollRad + rotate(m) }) },
+    { id: 'roll.right', label: 'Roll -', group: 'Rotation', key: 'X', change: (p, m) => ({ rollRad: p.rollRad - rotate(m) }) },
+    { id: 'move.north', label: 'North', group: 'Position', key: 'Y', change: (p, m) => ({ tNorth: p.tNorth + steps.moveMeters * m }) },
+    { id: 'move.south', label: 'South', group: 'Position', key: 'H', change: (p, m) => ({ tNorth: p.tNorth - steps.moveMeters * m }) },
+    { id: 'move.east', label: 'East', group: 'Position', key: 'J', change: (p, m) => ({ tEast: p.tEast + steps.moveMeters * m }) },
+    { id: 'move.west', label: 'West', group: 'Position', key: 'G', change: (p, m) => ({ tEast: p.tEast - steps.moveMeters * m }) },
+    { id: 'move.up', label: 'Up', group: 'Position', key: 'O', change: (p, m) => ({ tUp: p.tUp + steps.heightMeters * m }) },
+    { id: 'move.down', label: 'Down', group: 'Position', key: 'L', change: (p, m) => ({ tUp: p.tUp - steps.heightMeters * m }) }
+  ];
+
+  for (const action of actions) {
+    registry.register({
+      id: `splat.${action.id}`,
+      label: action.label,
+      group: action.group,
+      keys: [action.key],
+      step: true,
+      run: adjust(action.id, action.change)
+    });
+  }
+}
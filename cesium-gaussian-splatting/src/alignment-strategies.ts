@@ -0,0 +1,94 @@
+import * as Cesium from 'cesium';
+import { AlignmentStrategyRegistry } from './alignment-strategy';
+import { SimpleAlignment } from './simple-alignment';
+import { RoadAlignment } from './road-alignment';
+import { RealAIAlignment } from './real-ai-alignment';
+import { RoadDataProvider } from './road-data-provider';
+import { SurfaceAlignmentOptions, alignLayerToSurface } from './alignment/surfaceAlignment';
+
+// Register the built-in aligners. Each one only proposes a placement; nothing moves
+// until a proposal goes through registry.apply().
+// AIAlignment's feature search is left out: its road and building extractors are
+// still placeholders, so its score cannot rank candidates.
+export function registerAlignmentStrategies(
+  registry: AlignmentStrategyRegistry,
+  cesiumViewer: Cesium.Viewer,
+  getBuildingsTileset: () => Cesium.Cesium3DTileset | null = () => null,
+  roadDataProvider: RoadDataProvider = new RoadDataProvider()
+): void {
+  const simple = new SimpleAlignment(cesiumViewer);
+  const road = new RoadAlignment(cesiumViewer, roadDataProvider);
+  const realAI = new RealAIAlignment(cesiumViewer, roadDataProvider);
+
+  registry.register({
+    id: 'view.scale',
+    label: 'Scale to View',
+    description: 'Scale guessed from the width of the view, at most ×1.5 per run',
+    propose: async ({ layer, bounds, signal }) => {
+      signal?.throwIfAborted();
+      const { scale, suggestedScale, viewWidthMeters } = simple.proposeSafeScale(layer, bounds);
+      // A rule of thumb about typical capture sizes, not a measurement
+      return { params: { scale }, confidence: viewWidthMeters === null ? 0 : 0.1, diagnostics: { suggestedScale, viewWidthMeters } };
+    }
+  });
+
+  registry.register<{ searchRadius?: number }>({
+    id: 'imagery.registration',
+    label: 'Imagery Registration',
+    description: 'Top-down render registered onto imagery around the splat (Fourier–Mellin or keypoints)',
+    propose: async ({ layer, bounds, options, signal }) => {
+      // The capture is centred on the splat; bounds only set its size
+      const searchRadius = options?.searchRadius ?? (bounds
+        ? Math.max(bounds.north - bounds.south, (bounds.east - bounds.west) * Math.cos(Cesium.Math.toRadians((bounds.north + bounds.south) / 2))) / 2
+        : undefined);
+      const result = await road.alignSplatToRoads(layer, searchRadius, signal);
+      return { params: result.params, confidence: result.confidence, diagnostics: { position: result.position } };
+    }
+  });
+
+  registry.register({
+    id: 'osm.registration',
+    label: 'OSM + Imagery Registration',
+    description: 'Top-down render registered onto imagery and rasterised OpenStreetMap roads; the one that puts most splat roads on OSM roads wins',
+    propose: async ({ layer, bounds, signal }) => {
+      const { params, registration, source, roadSource, osmRoads, splatRoads } = await realAI.proposeRealAlignment(layer, bounds, signal);
+      return {
+        params,
+        confidence: registration.confidence,
+        diagnostics: {
+          source,
+          roadSource,
+          rotationDeg: Cesium.Math.toDegrees(registration.rotationRad),
+          scale: registration.scale,
+          shiftMeters: registration.translationMeters,
+          osmRoads,
+          splatRoads
+        }
+      };
+    }
+  });
+
+  registry.register<SurfaceAlignmentOptions>({
+    id: 'surface.icp',
+    label: 'Surface ICP',
+    description: 'Point-to-plane ICP of the splat onto the buildings tileset and terrain',
+    propose: async ({ layer, options, signal }) => {
+      const alignment = await alignLayerToSurface(layer, cesiumViewer.scene, { tileset: getBuildingsTileset(), ...options }, signal);
+      // Share of the splat that found the surface, less for a loose fit
+      const maxDistance = options?.maxCorrespondenceDistance ?? 3;
+      return {
+        params: alignment.params,
+        confidence: alignment.inlierRatio * Math.max(0, 1 - alignment.rmsMeters / maxDistance),
+        diagnostics: {
+          mode: alignment.mode,
+          iterations: alignment.iterations,
+          converged: alignment.converged,
+          rmsMeters: alignment.rmsMeters,
+          inlierRatio: alignment.inlierRatio,
+          surfaceSamples: alignment.surfaceSamples,
+          source: alignment.source
+        }
+      };
+    }
+  });
+}
@@ -0,0 +1,165 @@
+import { GaussianSplatLayer } from './gaussian-splat-layer';
+import { EnuParams } from './types/alignment';
+import { RoadDataBounds } from './road-data-provider';
+
+export interface AlignmentInput<O = Record<string, unknown>> {
+  layer: GaussianSplatLayer;
+  bounds?: RoadDataBounds;    // area to work in (degrees); each strategy has its own default
+  options?: O;                // strategy specific
+  signal?: AbortSignal;       // checked between steps; a cancelled run rejects with signal.reason
+}
+
+// What a strategy works out. It never moves the layer itself.
+export interface AlignmentEstimate {
+  params: Partial<EnuParams>; // only what the strategy changes
+  confidence: number;         // 0..1
+  diagnostics?: Record<string, unknown>;
+}
+
+export interface AlignmentStrategy<O = Record<string, unknown>> {
+  id: string;                 // e.g. 'imagery.registration'
+  label: string;
+  description?: string;
+  propose: (input: AlignmentInput<O>) => Promise<AlignmentEstimate>;
+}
+
+// An estimate completed against the placement it was computed from
+export interface AlignmentProposal {
+  strategyId: string;
+  label: string;
+  layer: GaussianSplatLayer;
+  before: EnuParams;
+  params: EnuParams;
+  confidence: number;
+  diagnostics: Record<string, unknown>;
+  durationMs: number;
+}
+
+export interface AlignmentComparison {
+  proposals: AlignmentProposal[]; // most confident first
+  failures: { strategyId: string; error: Error }[];
+}
+
+export interface ApplyProposalOptions {
+  minConfidence?: number;     // refuse less confident proposals (default 0)
+  force?: boolean;            // apply even if the layer moved since the proposal was made
+}
+
+// Registry of automatic aligners behind one interface, so the UI can list them, run one
+// or compare several on the same starting placement and then apply the proposal it picks
+export class AlignmentStrategyRegistry {
+  private strategies = new Map<string, AlignmentStrategy<any>>();
+  private changeListeners = new Set<() => void>();
+
+  public register<O>(strategy: AlignmentStrategy<O>): void {
+    if (this.strategies.has(strategy.id)) {
+      throw new Error(`Alignment strategy "${strategy.id}" is already registered`);
+    }
+
+    this.strategies.set(strategy.id, strategy);
+    this.notifyChange();
+  }
+
+  public unregister(id: string): void {
+    if (this.strategies.delete(id)) this.notifyChange();
+  }
+
+  public getStrategies(): AlignmentStrategy<any>[] {
+    return [...this.strategies.values()];
+  }
+
+  public getStrategy(id: string): AlignmentStrategy<any> | undefined {
+    return this.strategies.get(id);
+  }
+
+  // Called whenever a strategy is added or removed; returns an unsubscribe function
+  public onChange(listener: () => void): () => void {
+    this.changeListeners.add(listener);
+    return () => this.changeListeners.delete(listener);
+  }
+
+  public async run<O>(id: string, input: AlignmentInput<O>): Promise<AlignmentProposal> {
+    const strategy = this.strategies.get(id);
+    if (!strategy) {
+      throw new Error(`Unknown alignment strategy "${id}"`);
+    }
+    input.signal?.throwIfAborted();
+
+    const before = input.layer.getEnuParams();
+    const start = performance.now();
+    const estimate = await strategy.propose(input);
+    input.signal?.throwIfAborted();
+
+    return {
+      strategyId: id,
+      label: strategy.label,
+      layer: input.layer,
+      before,
+      params: { ...before, ...estimate.params },
+      confidence: Math.min(1, Math.max(0, estimate.confidence || 0)),
+      diagnostics: estimate.diagnostics ?? {},
+      durationMs: performance.now() - start
+    };
+  }
+
+  // Run strategies one after another (default: all of them). A failing strategy is
+  // reported and the rest still run; cancelling stops the whole comparison.
+  public async compare<O>(input: AlignmentInput<O>, ids: string[] = [...this.strategies.keys()]): Promise<AlignmentComparison> {
+    const comparison: AlignmentComparison = { proposals: [], failures: [] };
+
+    for (const id of ids) {
+      try {
+        comparison.proposals.push(await this.run(id, input));
+      } catch (error) {
+        if (input.signal?.aborted) throw error;
+        comparison.failures.push({ strategyId: id, error: error instanceof Error ? error : new Error(String(error)) });
+      }
+    }
+
+    comparison.proposals.sort((a, b) => b.confidence - a.confidence);
+    return comparison;
+  }
+
+  // Move the layer to a proposal in one undoable step, named after the strategy. Only the
+  // fields that differ are set, so a tilt lock on the layer still holds.
+  public apply(proposal: AlignmentProposal, options: ApplyProposalOptions = {}): void {
+    const { layer } = proposal;
+
+    if (!options.force) {
+      if (proposal.confidence < (options.minConfidence ?? 0)) {
+        throw new Error(`"${proposal.strategyId}" is not confident enough (${proposal.confidence.toFixed(2)})`);
+      }
+      if (!sameParams(layer.getEnuParams(), proposal.before)) {
+        throw new Error(`The layer moved since "${proposal.strategyId}" ran; run it again or apply with force`);
+      }
+    }
+
+    const change: Partial<EnuParams> = {};
+    const current = layer.getEnuParams();
+    for (const key of Object.keys(proposal.params) as (keyof EnuParams)[]) {
+      if (!sameValue(proposal.params[key], current[key])) copyParam(change, proposal.params, key);
+    }
+
+    layer.setEnuParams(change, proposal.strategyId);
+  }
+
+  private notifyChange(): void {
+    this.changeListeners.forEach(listener => listener());
+  }
+}
+
+function sameParams(a: EnuParams, b: EnuParams): boolean {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]) as Set<keyof EnuParams>;
+  return [...keys].every(key => sameValue(a[key], b[key]));
+}
+
+function copyParam<K extends keyof EnuParams>(target: Partial<EnuParams>, source: Partial<EnuParams>, key: K): void {
+  target[key] = source[key];
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((value, i) => value === b[i]);
+  }
+  return a === b;
+}
@@ -3,68 +3,94 @@ import * as Cesium from "cesium";
 import { EnuParams } from "../types/alignment";
 
 // Cache for ENU transforms (keyed by "lat,lon,height")
-const enuTransformCache = new Map<string, { ecefToEnu: Cesium.Matrix4; enuToEcef: Cesium.Matrix4 }>();
+const enuTransformCache = new Map<string, { enuToEcef: Cesium.Matrix4; ecefToEnu: Cesium.Matrix4 }>();
 
 function getCachedEnuTransforms(anchor: { lat: number; lon: number; height: number }) {
   const key = `${anchor.lat.toFixed(8)},${anchor.lon.toFixed(8)},${anchor.height.toFixed(2)}`;
 
   if (!enuTransformCache.has(key)) {
     const anchorECEF = Cesium.Cartesian3.fromDegrees(anchor.lon, anchor.lat, anchor.height);
-    const ecefToEnu = Cesium.Transforms.eastNorthUpToFixedFrame(anchorECEF);
-    const enuToEcef = Cesium.Matrix4.inverse(ecefToEnu, new Cesium.Matrix4());
+    // eastNorthUpToFixedFrame maps ENU coordinates at the anchor into ECEF
+    const enuToEcef = Cesium.Transforms.eastNorthUpToFixedFrame(anchorECEF);
+    const ecefToEnu = Cesium.Matrix4.inverseTransformation(enuToEcef, new Cesium.Matrix4());
 
-    enuTransformCache.set(key, { ecefToEnu, enuToEcef });
+    enuTransformCache.set(key, { enuToEcef, ecefToEnu });
     console.log(`📍 Cached ENU transforms for anchor: ${key}`);
   }
 
   return enuTransformCache.get(key)!;
 }
 
-export function composeModelMatrixENU(
-  anchor: { lat: number; lon: number; height: number },
-  p: EnuParams
-): Cesium.Matrix4 {
-  // Use cached ENU transforms
-  const { ecefToEnu, enuToEcef } = getCachedEnuTransforms(anchor);
-
-  // Scale matrix
-  const S = Cesium.Matrix4.fromScale(new Cesium.Cartesian3(p.scale, p.scale, p.scale));
-
-  // V2 rotation: R_align * Rz_yaw only
-  let R: Cesium.Matrix4;
+// ENU rotation of the model as a row-major 3x3. Tilt-locked: Rz(yaw) * R_align, so
+// R_align levels the capture and yaw turns it about ENU Up afterwards.
+// Otherwise: Rz(yaw) * Rx(pitch) * Ry(roll).
+export function composeEnuRotation(p: EnuParams): number[] {
+  const Rz = Cesium.Matrix3.fromRotationZ(p.yawRad);   // yaw about Up (Z)
+  let Rm: Cesium.Matrix3;
 
   if (p.tiltLocked && p.alignRotation) {
-    // Use cached alignment rotation + yaw only
-    const alignMatrix = Cesium.Matrix3.fromArray(p.alignRotation);
-    const yawMatrix = Cesium.Matrix3.fromRotationZ(p.yawRad);
-    const finalRotation = Cesium.Matrix3.multiply(alignMatrix, yawMatrix, new Cesium.Matrix3());
-    R = Cesium.Matrix4.fromRotation(finalRotation);
+    // alignRotation is stored row-major (see alignGroundToUp)
+    const alignMatrix = Cesium.Matrix3.fromRowMajorArray(p.alignRotation);
+    Rm = Cesium.Matrix3.multiply(Rz, alignMatrix, new Cesium.Matrix3());
   } else {
-    // Legacy: compose all three rotations
-    const Rz = Cesium.Matrix3.fromRotationZ(p.yawRad);   // yaw about Up (Z)
     const Rx = Cesium.Matrix3.fromRotationX(p.pitchRad); // pitch about East (X)
     const Ry = Cesium.Matrix3.fromRotationY(p.rollRad);  // roll about North (Y)
 
     // Compose rotations: Rz * Rx * Ry
-    let Rm = Cesium.Matrix3.multiply(Rz, Rx, new Cesium.Matrix3());
+    Rm = Cesium.Matrix3.multiply(Rz, Rx, new Cesium.Matrix3());
     Rm = Cesium.Matrix3.multiply(Rm, Ry, Rm);
-    R = Cesium.Matrix4.fromRotation(Rm);
   }
 
+  // Matrix3 is column-major
+  return [
+    Rm[0], Rm[3], Rm[6],
+    Rm[1], Rm[4], Rm[7],
+    Rm[2], Rm[5], Rm[8]
+  ];
+}
+
+// Model matrix in the anchor's ENU frame: T * R * S
+export function composeEnuMatrix(p: EnuParams): Cesium.Matrix4 {
+  // Scale matrix
+  const S = Cesium.Matrix4.fromScale(new Cesium.Cartesian3(p.scale, p.scale, p.scale));
+
+  const R = Cesium.Matrix4.fromRotation(Cesium.Matrix3.fromRowMajorArray(composeEnuRotation(p)));
+
   // Translation in ENU frame
   const T = Cesium.Matrix4.fromTranslation(new Cesium.Cartesian3(p.tEast, p.tNorth, p.tUp));
 
   // Compose in ENU: T * R * S
-  const M_ENU = Cesium.Matrix4.multiply(
+  return Cesium.Matrix4.multiply(
     T,
     Cesium.Matrix4.multiply(R, S, new Cesium.Matrix4()),
     new Cesium.Matrix4()
   );
+}
 
-  // Transform to ECEF: enuToEcef * M_ENU * ecefToEnu
-  return Cesium.Matrix4.multiply(
-    Cesium.Matrix4.multiply(enuToEcef, M_ENU, new Cesium.Matrix4()),
-    ecefToEnu,
-    new Cesium.Matrix4()
-  );
-}
\ No newline at end of file
+// Model matrix from splat units to ECEF: enuToEcef * T * R * S
+export function composeModelMatrixENU(
+  anchor: { lat: number; lon: number; height: number },
+  p: EnuParams
+): Cesium.Matrix4 {
+  const { enuToEcef } = getCachedEnuTransforms(anchor);
+  return Cesium.Matrix4.multiply(enuToEcef, composeEnuMatrix(p), new Cesium.Matrix4());
+}
+
+// The anchor's ENU frame to ECEF
+export function enuToEcefMatrix(anchor: { lat: number; lon: number; height: number }): Cesium.Matrix4 {
+  return Cesium.Matrix4.clone(getCachedEnuTransforms(anchor).enuToEcef);
+}
+
+// ECEF to the anchor's ENU frame
+export function ecefToEnuMatrix(anchor: { lat: number; lon: number; height: number }): Cesium.Matrix4 {
+  return Cesium.Matrix4.clone(getCachedEnuTransforms(anchor).ecefToEnu);
+}
+
+// Inverse of the legacy rotation chain above: recover yaw/pitch/roll from R = Rz(yaw) * Rx(pitch) * Ry(roll)
+export function decomposeEnuRotation(R: number[]): { yawRad: number; pitchRad: number; rollRad: number } {
+  // R is a row-major 3x3 matrix
+  const pitchRad = Math.asin(Math.max(-1, Math.min(1, R[7])));
+  const rollRad = Math.atan2(-R[6], R[8]);
+  const yawRad = Math.atan2(-R[1], R[4]);
+  return { yawRad, pitchRad, rollRad };
+}
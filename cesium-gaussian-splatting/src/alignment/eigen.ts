@@ -0,0 +1,64 @@
+// src/alignment/eigen.ts
+
+export type SymmetricEigen = {
+  values: number[];    // eigenvalues, ascending
+  vectors: number[][]; // vectors[k] is the unit eigenvector for values[k]
+};
+
+// Cyclic Jacobi eigen-decomposition for small symmetric matrices (3x3 covariance, 4x4 Horn matrix)
+export function symmetricEigen(matrix: number[][], maxSweeps: number = 50): SymmetricEigen {
+  const n = matrix.length;
+  const a = matrix.map(row => row.slice());
+  const v: number[][] = Array.from({ length: n }, (_, i) =>
+    Array.from({ length: n }, (_, j) => (i === j ? 1 : 0))
+  );
+
+  for (let sweep = 0; sweep < maxSweeps; sweep++) {
+    // Sum of off-diagonal magnitudes decides convergence
+    let off = 0;
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) {
+        off += Math.abs(a[i][j]);
+      }
+    }
+    if (off < 1e-14) break;
+
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        if (Math.abs(a[p][q]) < 1e-18) continue;
+
+        const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+
+        for (let k = 0; k < n; k++) {
+          const akp = a[k][p];
+          const akq = a[k][q];
+          a[k][p] = c * akp - s * akq;
+          a[k][q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < n; k++) {
+          const apk = a[p][k];
+          const aqk = a[q][k];
+          a[p][k] = c * apk - s * aqk;
+          a[q][k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < n; k++) {
+          const vkp = v[k][p];
+          const vkq = v[k][q];
+          v[k][p] = c * vkp - s * vkq;
+          v[k][q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+
+  // Columns of v are the eigenvectors; sort ascending by eigenvalue
+  const order = Array.from({ length: n }, (_, i) => i).sort((i, j) => a[i][i] - a[j][j]);
+
+  return {
+    values: order.map(i => a[i][i]),
+    vectors: order.map(i => v.map(row => row[i]))
+  };
+}
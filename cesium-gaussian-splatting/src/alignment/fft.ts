@@ -0,0 +1,126 @@
+// src/alignment/fft.ts
+
+// Complex image as separate real and imaginary planes, row-major
+export type ComplexImage = {
+  width: number;
+  height: number;
+  re: Float64Array;
+  im: Float64Array;
+};
+
+export function isPowerOfTwo(n: number): boolean {
+  return n > 0 && (n & (n - 1)) === 0;
+}
+
+export function nextPowerOfTwo(n: number): number {
+  let p = 1;
+  while (p < n) p *= 2;
+  return p;
+}
+
+// In-place iterative radix-2 FFT of one signal; inverse includes the 1/n factor
+export function fft(re: Float64Array, im: Float64Array, inverse: boolean = false): void {
+  const n = re.length;
+  if (!isPowerOfTwo(n)) throw new Error(`FFT length must be a power of two, got ${n}`);
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size *= 2) {
+    const angle = (inverse ? 2 : -2) * Math.PI / size;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    const half = size / 2;
+
+    for (let start = 0; start < n; start += size) {
+      let uRe = 1;
+      let uIm = 0;
+      for (let k = 0; k < half; k++) {
+        const a = start + k;
+        const b = a + half;
+        const tRe = re[b] * uRe - im[b] * uIm;
+        const tIm = re[b] * uIm + im[b] * uRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+
+        const next = uRe * wRe - uIm * wIm;
+        uIm = uRe * wIm + uIm * wRe;
+        uRe = next;
+      }
+    }
+  }
+
+  if (inverse) {
+    for (let i = 0; i < n; i++) {
+      re[i] /= n;
+      im[i] /= n;
+    }
+  }
+}
+
+// 2D FFT (rows, then columns) of a real or complex image; returns a new image
+export function fft2d(image: ComplexImage, inverse: boolean = false): ComplexImage {
+  const { width, height } = image;
+  const re = Float64Array.from(image.re);
+  const im = Float64Array.from(image.im);
+
+  const rowRe = new Float64Array(width);
+  const rowIm = new Float64Array(width);
+  for (let y = 0; y < height; y++) {
+    rowRe.set(re.subarray(y * width, (y + 1) * width));
+    rowIm.set(im.subarray(y * width, (y + 1) * width));
+    fft(rowRe, rowIm, inverse);
+    re.set(rowRe, y * width);
+    im.set(rowIm, y * width);
+  }
+
+  const colRe = new Float64Array(height);
+  const colIm = new Float64Array(height);
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) {
+      colRe[y] = re[y * width + x];
+      colIm[y] = im[y * width + x];
+    }
+    fft(colRe, colIm, inverse);
+    for (let y = 0; y < height; y++) {
+      re[y * width + x] = colRe[y];
+      im[y * width + x] = colIm[y];
+    }
+  }
+
+  return { width, height, re, im };
+}
+
+export function realImage(values: ArrayLike<number>, width: number, height: number): ComplexImage {
+  return { width, height, re: Float64Array.from(values), im: new Float64Array(width * height) };
+}
+
+// Normalised cross-power spectrum of a and b, back in the spatial domain. Its peak sits
+// at the shift that moves b onto a (wrapped around the image size).
+export function phaseCorrelation(a: ComplexImage, b: ComplexImage): Float64Array {
+  const A = fft2d(a);
+  const B = fft2d(b);
+  const n = A.re.length;
+  const cross: ComplexImage = { width: A.width, height: A.height, re: new Float64Array(n), im: new Float64Array(n) };
+
+  for (let i = 0; i < n; i++) {
+    // A * conj(B)
+    const re = A.re[i] * B.re[i] + A.im[i] * B.im[i];
+    const im = A.im[i] * B.re[i] - A.re[i] * B.im[i];
+    const magnitude = Math.hypot(re, im) + 1e-12;
+    cross.re[i] = re / magnitude;
+    cross.im[i] = im / magnitude;
+  }
+
+  return fft2d(cross, true).re;
+}
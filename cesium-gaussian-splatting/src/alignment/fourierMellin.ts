@@ -0,0 +1,389 @@
+// src/alignment/fourierMellin.ts
+import { EnuParams } from "../types/alignment";
+import { GeoRaster, rasterLuminance } from "../raster/geoRaster";
+import { ComplexImage, fft2d, nextPowerOfTwo, phaseCorrelation, realImage } from "./fft";
+
+export type RegistrationOptions = {
+  maxSize?: number;                  // images are box-downsampled to at most this many pixels per side (default 512)
+  features?: "intensity" | "edges";  // edges (gradient magnitude) cope better with map vs photo (default "edges")
+};
+
+// Similarity taking moving onto reference, in image coordinates with x to the right and
+// y UP (north-up rasters: x east, y north):  p_ref = c + scale * R(rotation) * (p_mov - c) + t
+// with c the image centre. rotationRad is counter-clockwise as the image is viewed.
+export type ImageRegistration = {
+  rotationRad: number;
+  scale: number;
+  translation: { x: number; y: number }; // pixels
+  confidence: number;       // 0..1, the lower of the translation and rotation/scale peak sharpness
+  peakToSidelobe: number;   // (peak - sidelobe mean) / sidelobe std of the translation correlation
+  rotationConfidence: number; // 1 - second peak / peak of the log-polar (rotation/scale) correlation
+};
+
+export type RasterRegistration = ImageRegistration & {
+  translationMeters: { east: number; north: number };
+  metersPerPixel: number;
+};
+
+// What registrationToEnuDelta needs; keypoint registrations provide it too
+export type SimilarityEstimate = Pick<RasterRegistration, "rotationRad" | "scale" | "translationMeters" | "confidence">;
+
+// Change to apply to EnuParams: yaw and translation are added, scale is multiplied
+export type EnuDelta = {
+  yawRad: number;
+  scaleFactor: number;
+  tEast: number;
+  tNorth: number;
+};
+
+type Prepared = {
+  size: number;       // padded square size (power of two)
+  factor: number;     // downsampling factor
+  offsetX: number;    // placement of the downsampled image in the padded square
+  offsetY: number;
+  image: Float64Array;
+};
+
+// Sidelobe statistics skip this many correlation cells around the peak
+const PEAK_EXCLUSION = 5;
+
+// Fourier–Mellin registration: rotation and scale from phase correlation of the log-polar
+// magnitude spectra (translation-invariant), then translation from phase correlation of the
+// de-rotated, de-scaled moving image. Magnitude spectra cannot tell θ from θ + π, so both are
+// tried and the sharper translation peak wins.
+export function registerImages(
+  reference: ArrayLike<number>,
+  moving: ArrayLike<number>,
+  width: number,
+  height: number,
+  options: RegistrationOptions & { referenceMask?: ArrayLike<number>; movingMask?: ArrayLike<number> } = {}
+): ImageRegistration {
+  if (reference.length !== width * height || moving.length !== width * height) {
+    throw new Error("Reference and moving images must both be width x height");
+  }
+
+  const maxSize = options.maxSize ?? 512;
+  const features = options.features ?? "edges";
+  const ref = prepare(reference, options.referenceMask, width, height, maxSize, features);
+  const mov = prepare(moving, options.movingMask, width, height, maxSize, features);
+  const n = ref.size;
+
+  // Rotation and scale from the log-polar spectra
+  const refPolar = logPolar(highPassMagnitude(ref.image, n), n);
+  const movPolar = logPolar(highPassMagnitude(mov.image, n), n);
+  const polarPeak = findPeak(phaseCorrelation(realImage(refPolar, n, n), realImage(movPolar, n, n)), n, n);
+
+  const logBase = Math.log(n / 2) / n;
+  const rotation = polarPeak.y * Math.PI / n;
+  const scale = Math.exp(-polarPeak.x * logBase);
+
+  // Translation for both rotation candidates; the higher correlation peak wins
+  let best: { rotation: number; peak: ReturnType<typeof findPeak> } | null = null;
+  for (const candidate of [rotation, rotation + Math.PI]) {
+    const warped = warpSimilarity(mov.image, n, candidate, scale);
+    const peak = findPeak(phaseCorrelation(realImage(ref.image, n, n), realImage(warped, n, n)), n, n);
+    if (!best || peak.value > best.peak.value) best = { rotation: candidate, peak };
+  }
+
+  // Peak position is (x right, y down) in the padded, downsampled frame about its centre;
+  // express it about the original image centre, in original pixels, y up
+  const theta = wrapAngle(best!.rotation);
+  const t = { x: best!.peak.x * ref.factor, y: -best!.peak.y * ref.factor };
+  const centerShift = {
+    x: (n / 2 - ref.offsetX) * ref.factor - width / 2,
+    y: -((n / 2 - ref.offsetY) * ref.factor - height / 2)
+  };
+  const cos = Math.cos(theta) * scale;
+  const sin = Math.sin(theta) * scale;
+  const translation = {
+    x: t.x + centerShift.x - (cos * centerShift.x - sin * centerShift.y),
+    y: t.y + centerShift.y - (sin * centerShift.x + cos * centerShift.y)
+  };
+
+  // A sharp translation peak after a wrong de-rotation is still a wrong answer, so a flat
+  // rotation peak caps the confidence
+  return {
+    rotationRad: theta,
+    scale,
+    translation,
+    confidence: Math.min(best!.peak.confidence, polarPeak.confidence),
+    peakToSidelobe: best!.peak.peakToSidelobe,
+    rotationConfidence: polarPeak.confidence
+  };
+}
+
+// Register two rasters on the same grid (e.g. ImageryCapture.captureLike(splatRender)).
+// Alpha is treated as coverage, so empty parts of a splat render do not count.
+export function registerRasters(reference: GeoRaster, moving: GeoRaster, options: RegistrationOptions = {}): RasterRegistration {
+  if (reference.width !== moving.width || reference.height !== moving.height ||
+      Math.abs(reference.metersPerPixel - moving.metersPerPixel) > 1e-9 * moving.metersPerPixel) {
+    throw new Error("Rasters must share size and metersPerPixel; capture one with the other's grid");
+  }
+
+  const ref = rasterLuminance(reference);
+  const mov = rasterLuminance(moving);
+  const registration = registerImages(ref.values, mov.values, moving.width, moving.height, {
+    ...options,
+    referenceMask: ref.mask,
+    movingMask: mov.mask
+  });
+
+  return {
+    ...registration,
+    translationMeters: {
+      east: registration.translation.x * moving.metersPerPixel,
+      north: registration.translation.y * moving.metersPerPixel
+    },
+    metersPerPixel: moving.metersPerPixel
+  };
+}
+
+// The registration as a change of the layer placement. moving must be a render of the layer
+// at params, in the ENU frame of its anchor (renderLayerOrtho does both).
+export function registrationToEnuDelta(
+  registration: SimilarityEstimate,
+  params: EnuParams,
+  moving: GeoRaster
+): EnuDelta {
+  // Raster centre in ENU
+  const cEast = moving.west + moving.width * moving.metersPerPixel / 2;
+  const cNorth = moving.north - moving.height * moving.metersPerPixel / 2;
+
+  // The layer origin goes through the same similarity as the image content
+  const cos = Math.cos(registration.rotationRad) * registration.scale;
+  const sin = Math.sin(registration.rotationRad) * registration.scale;
+  const dx = params.tEast - cEast;
+  const dy = params.tNorth - cNorth;
+  const tEast = cEast + cos * dx - sin * dy + registration.translationMeters.east;
+  const tNorth = cNorth + sin * dx + cos * dy + registration.translationMeters.north;
+
+  return {
+    yawRad: registration.rotationRad,
+    scaleFactor: registration.scale,
+    tEast: tEast - params.tEast,
+    tNorth: tNorth - params.tNorth
+  };
+}
+
+export function applyEnuDelta(params: EnuParams, delta: EnuDelta): Partial<EnuParams> {
+  return {
+    yawRad: params.yawRad + delta.yawRad,
+    scale: params.scale * delta.scaleFactor,
+    tEast: params.tEast + delta.tEast,
+    tNorth: params.tNorth + delta.tNorth
+  };
+}
+
+// Helper functions
+// Downsample, turn into features, remove the mean, window and centre in a power-of-two square
+function prepare(
+  values: ArrayLike<number>,
+  mask: ArrayLike<number> | undefined,
+  width: number,
+  height: number,
+  maxSize: number,
+  features: "intensity" | "edges"
+): Prepared {
+  const factor = Math.max(1, Math.ceil(Math.max(width, height) / maxSize));
+  const w = Math.max(1, Math.floor(width / factor));
+  const h = Math.max(1, Math.floor(height / factor));
+
+  const small = new Float64Array(w * h);
+  const weight = new Float64Array(w * h);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      let sum = 0;
+      let covered = 0;
+      for (let dy = 0; dy < factor; dy++) {
+        for (let dx = 0; dx < factor; dx++) {
+          const k = (y * factor + dy) * width + x * factor + dx;
+          const m = mask ? mask[k] : 1;
+          sum += values[k] * m;
+          covered += m;
+        }
+      }
+      small[y * w + x] = covered > 0 ? sum / covered : 0;
+      weight[y * w + x] = covered / (factor * factor);
+    }
+  }
+
+  // Edges at the border of the covered area are not image content: erode the mask first
+  const valid = new Float64Array(w * h);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      let min = 1;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const xx = Math.min(w - 1, Math.max(0, x + dx));
+          const yy = Math.min(h - 1, Math.max(0, y + dy));
+          min = Math.min(min, weight[yy * w + xx]);
+        }
+      }
+      valid[y * w + x] = min;
+    }
+  }
+
+  const feature = features === "edges" ? gradientMagnitude(small, w, h) : small;
+
+  // Zero mean over the valid area
+  let mean = 0;
+  let total = 0;
+  for (let k = 0; k < w * h; k++) {
+    mean += feature[k] * valid[k];
+    total += valid[k];
+  }
+  mean = total > 0 ? mean / total : 0;
+
+  const size = nextPowerOfTwo(Math.max(w, h));
+  const offsetX = Math.floor((size - w) / 2);
+  const offsetY = Math.floor((size - h) / 2);
+  const image = new Float64Array(size * size);
+  for (let y = 0; y < h; y++) {
+    const wy = hann(y, h);
+    for (let x = 0; x < w; x++) {
+      const k = y * w + x;
+      image[(y + offsetY) * size + x + offsetX] = (feature[k] - mean) * valid[k] * wy * hann(x, w);
+    }
+  }
+
+  return { size, factor, offsetX, offsetY, image };
+}
+
+function gradientMagnitude(image: Float64Array, w: number, h: number): Float64Array {
+  const result = new Float64Array(w * h);
+  const at = (x: number, y: number) => image[Math.min(h - 1, Math.max(0, y)) * w + Math.min(w - 1, Math.max(0, x))];
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      // Sobel
+      const gx = at(x + 1, y - 1) + 2 * at(x + 1, y) + at(x + 1, y + 1) - at(x - 1, y - 1) - 2 * at(x - 1, y) - at(x - 1, y + 1);
+      const gy = at(x - 1, y + 1) + 2 * at(x, y + 1) + at(x + 1, y + 1) - at(x - 1, y - 1) - 2 * at(x, y - 1) - at(x + 1, y - 1);
+      result[y * w + x] = Math.hypot(gx, gy);
+    }
+  }
+  return result;
+}
+
+function hann(i: number, n: number): number {
+  return n > 1 ? 0.5 - 0.5 * Math.cos(2 * Math.PI * i / (n - 1)) : 1;
+}
+
+// Centred magnitude spectrum with the Reddy–Chatterji high-pass, which suppresses the
+// low frequencies that dominate every natural image and carry little rotation information
+function highPassMagnitude(image: Float64Array, n: number): Float64Array {
+  const spectrum: ComplexImage = fft2d(realImage(image, n, n));
+  const result = new Float64Array(n * n);
+  for (let y = 0; y < n; y++) {
+    const fy = ((y + n / 2) % n) - n / 2; // frequency index of row y, centred
+    for (let x = 0; x < n; x++) {
+      const fx = ((x + n / 2) % n) - n / 2;
+      const c = Math.cos(Math.PI * fx / n) * Math.cos(Math.PI * fy / n);
+      const filter = (1 - c) * (2 - c);
+      const k = y * n + x;
+      // fftshift: frequency (0, 0) lands in the centre
+      result[(fy + n / 2) * n + fx + n / 2] = Math.hypot(spectrum.re[k], spectrum.im[k]) * filter;
+    }
+  }
+  return result;
+}
+
+// Rows are angles over [0, π) (the spectrum is point-symmetric), columns log radius up to n/2
+function logPolar(spectrum: Float64Array, n: number): Float64Array {
+  const result = new Float64Array(n * n);
+  const logBase = Math.log(n / 2) / n;
+  const c = n / 2;
+  for (let row = 0; row < n; row++) {
+    const angle = row * Math.PI / n;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    for (let col = 0; col < n; col++) {
+      const r = Math.exp(col * logBase);
+      // y up in the spectrum as in the image
+      result[row * n + col] = bilinear(spectrum, n, c + r * cos, c - r * sin);
+    }
+  }
+  return result;
+}
+
+// Moving image resampled into the reference frame for a candidate rotation and scale about the centre
+function warpSimilarity(image: Float64Array, n: number, rotation: number, scale: number): Float64Array {
+  const result = new Float64Array(n * n);
+  const c = n / 2;
+  const cos = Math.cos(rotation) / scale;
+  const sin = Math.sin(rotation) / scale;
+  for (let row = 0; row < n; row++) {
+    const y = c - row; // y up
+    for (let col = 0; col < n; col++) {
+      const x = col - c;
+      // Inverse similarity: R(-θ) / s
+      const sx = cos * x + sin * y;
+      const sy = -sin * x + cos * y;
+      result[row * n + col] = bilinear(image, n, c + sx, c - sy);
+    }
+  }
+  return result;
+}
+
+function bilinear(image: Float64Array, n: number, x: number, y: number): number {
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  if (x0 < 0 || y0 < 0 || x0 >= n - 1 || y0 >= n - 1) return 0;
+  const fx = x - x0;
+  const fy = y - y0;
+  const k = y0 * n + x0;
+  return (image[k] * (1 - fx) + image[k + 1] * fx) * (1 - fy) +
+    (image[k + n] * (1 - fx) + image[k + n + 1] * fx) * fy;
+}
+
+// Highest cell of a correlation surface with a parabolic sub-cell fit; shifts past half the
+// size wrap to negative. Confidence compares it with the best cell away from the peak.
+function findPeak(surface: Float64Array, width: number, height: number) {
+  let index = 0;
+  for (let k = 1; k < surface.length; k++) {
+    if (surface[k] > surface[index]) index = k;
+  }
+  const px = index % width;
+  const py = Math.floor(index / width);
+  const value = surface[index];
+
+  const at = (x: number, y: number) => surface[((y + height) % height) * width + ((x + width) % width)];
+  const refine = (minus: number, center: number, plus: number) => {
+    const denominator = minus - 2 * center + plus;
+    return denominator < 0 ? Math.max(-0.5, Math.min(0.5, 0.5 * (minus - plus) / denominator)) : 0;
+  };
+  let x = px + refine(at(px - 1, py), value, at(px + 1, py));
+  let y = py + refine(at(px, py - 1), value, at(px, py + 1));
+  if (x > width / 2) x -= width;
+  if (y > height / 2) y -= height;
+
+  // Sidelobe: everything outside a small window around the peak (with wrap-around)
+  let second = -Infinity;
+  let sum = 0;
+  let sumSq = 0;
+  let count = 0;
+  for (let yy = 0; yy < height; yy++) {
+    const dy = Math.min(Math.abs(yy - py), height - Math.abs(yy - py));
+    for (let xx = 0; xx < width; xx++) {
+      const dx = Math.min(Math.abs(xx - px), width - Math.abs(xx - px));
+      if (dx <= PEAK_EXCLUSION && dy <= PEAK_EXCLUSION) continue;
+      const v = surface[yy * width + xx];
+      second = Math.max(second, v);
+      sum += v;
+      sumSq += v * v;
+      count++;
+    }
+  }
+  const mean = count > 0 ? sum / count : 0;
+  const std = count > 0 ? Math.sqrt(Math.max(sumSq / count - mean * mean, 1e-24)) : 1;
+
+  return {
+    x,
+    y,
+    value,
+    confidence: value > 0 ? Math.max(0, Math.min(1, 1 - Math.max(second, 0) / value)) : 0,
+    peakToSidelobe: (value - mean) / std
+  };
+}
+
+function wrapAngle(angle: number): number {
+  return Math.atan2(Math.sin(angle), Math.cos(angle));
+}
@@ -0,0 +1,253 @@
+// src/alignment/groundDetection.ts
+import * as THREE from "three";
+import { EnuParams, Vec3 } from "../types/alignment";
+import { GaussianSplatLayer } from "../gaussian-splat-layer";
+import { SplatArrays } from "../export/plyExport";
+import { composeEnuRotation } from "./composeModelMatrix";
+import { alignGroundToUp, fitPlane } from "./planeFit";
+import { seededRandom } from "./statistics";
+
+export type GroundDetectionOptions = {
+  maxSamples?: number;        // splat centres drawn from the mesh (default 20000)
+  minOpacity?: number;        // 0..1, fainter splats (floaters) are skipped (default 0.2)
+  cellSize?: number;          // metres, grid for the lowest-band filter (default: extent / 50)
+  groundBand?: number;        // metres above the lowest point of a cell kept as ground candidates
+  distanceThreshold?: number; // metres, RANSAC inlier distance (default: 0.3% of extent, min 2 cm)
+  maxSlopeDeg?: number;       // planes steeper than this against the current up are walls (default 25)
+  iterations?: number;        // RANSAC hypotheses (default 400)
+  minInlierRatio?: number;    // of the ground candidates (default 0.15)
+  seed?: number;              // RANSAC sampling is seeded so a click always gives the same result
+};
+
+export type GroundPlane = {
+  points: Vec3[];        // inlier splat centres in model units, ready for alignGroundToUp
+  normal: Vec3;          // ground normal in model units, oriented towards upHint
+  upHint: Vec3;          // model-frame direction that is currently up in ENU
+  inlierRatio: number;   // inliers / ground candidates
+  rmsMeters: number;     // RMS distance of the inliers from the plane
+  tiltDeg: number;       // angle between the ground normal and the current ENU up
+  sampleCount: number;
+  candidateCount: number;
+};
+
+// Find the ground plane in a set of splat centres (model units). rotation (row-major 3x3)
+// and scale are the layer's current ENU rotation and scale: they give metric thresholds and
+// an up direction good enough to tell the ground from walls, even before the layer is levelled.
+export function detectGroundPlane(
+  centers: Vec3[],
+  rotation: number[],
+  scale: number,
+  options: GroundDetectionOptions = {}
+): GroundPlane {
+  if (centers.length < 3) throw new Error("Need at least 3 splat centres for ground detection");
+
+  // Work in metres with ENU axes
+  const enu = centers.map(c => scaleVec(mulMat3(rotation, c), scale));
+
+  const extent = horizontalExtent(enu);
+  const cellSize = options.cellSize ?? Math.max(extent / 50, 0.1);
+  const groundBand = options.groundBand ?? Math.max(cellSize, 0.25);
+  const threshold = options.distanceThreshold ?? Math.max(extent * 0.003, 0.02);
+  const minSlopeCos = Math.cos((options.maxSlopeDeg ?? 25) * Math.PI / 180);
+  const iterations = options.iterations ?? 400;
+  const minInlierRatio = options.minInlierRatio ?? 0.15;
+  const random = seededRandom(options.seed ?? 1);
+
+  // Vegetation, roof overhangs and upper walls sit above the lowest surface of their cell
+  const candidates = lowestBand(enu, cellSize, groundBand);
+  if (candidates.length < 3) throw new Error("Not enough ground candidates; is the capture empty?");
+
+  // RANSAC over near-horizontal planes; walls never produce a hypothesis
+  let bestNormal: Vec3 | null = null;
+  let bestOffset = 0;
+  let bestCount = 0;
+  for (let i = 0; i < iterations; i++) {
+    const a = enu[candidates[Math.floor(random() * candidates.length)]];
+    const b = enu[candidates[Math.floor(random() * candidates.length)]];
+    const c = enu[candidates[Math.floor(random() * candidates.length)]];
+
+    const n = cross(sub(b, a), sub(c, a));
+    const length = Math.hypot(n[0], n[1], n[2]);
+    if (length < 1e-9) continue;
+    const normal = scaleVec(n, (n[2] < 0 ? -1 : 1) / length);
+    if (normal[2] < minSlopeCos) continue;
+
+    const offset = dot(normal, a);
+    let count = 0;
+    for (const k of candidates) {
+      if (Math.abs(dot(normal, enu[k]) - offset) <= threshold) count++;
+    }
+    if (count > bestCount) {
+      bestNormal = normal;
+      bestOffset = offset;
+      bestCount = count;
+    }
+  }
+
+  if (!bestNormal || bestCount < minInlierRatio * candidates.length) {
+    throw new Error(`No ground plane found (best plane holds ${bestCount} of ${candidates.length} candidates)`);
+  }
+
+  // Refine with a least-squares fit on the inliers, then gather inliers of the refined plane
+  let inliers = planeInliers(enu, candidates, bestNormal, bestOffset, threshold);
+  for (let pass = 0; pass < 2; pass++) {
+    const fit = fitPlane(inliers.map(k => enu[k]));
+    const normal = fit.normal[2] < 0 ? scaleVec(fit.normal, -1) : fit.normal;
+    const refined = planeInliers(enu, candidates, normal, dot(normal, fit.centroid), threshold);
+    if (refined.length < 3) break;
+    inliers = refined;
+  }
+
+  const fit = fitPlane(inliers.map(k => enu[k]));
+  const normalEnu = fit.normal[2] < 0 ? scaleVec(fit.normal, -1) : fit.normal;
+  if (normalEnu[2] < minSlopeCos) {
+    throw new Error("Fitted ground plane is steeper than maxSlopeDeg");
+  }
+
+  // Back to model units: the inverse rotation is the transpose, scale drops out of directions
+  const upHint = mulMat3Transposed(rotation, [0, 0, 1]);
+  const normal = mulMat3Transposed(rotation, normalEnu);
+
+  return {
+    points: inliers.map(k => centers[k]),
+    normal,
+    upHint,
+    inlierRatio: inliers.length / candidates.length,
+    rmsMeters: fit.rms,
+    tiltDeg: Math.acos(Math.min(1, normalEnu[2])) * 180 / Math.PI,
+    sampleCount: centers.length,
+    candidateCount: candidates.length
+  };
+}
+
+// Evenly spread splat centres (model units) from a loaded layer, skipping faint splats
+export function sampleSplatCenters(layer: GaussianSplatLayer, maxSamples: number = 20000, minOpacity: number = 0.2): Vec3[] {
+  const mesh = layer.ready ? layer.splatViewer.getSplatMesh() : null;
+  if (!mesh) throw new Error("Splat layer is not loaded");
+
+  const count: number = mesh.getSplatCount();
+  const stride = Math.max(1, Math.floor(count / maxSamples));
+  const center = new THREE.Vector3();
+  const color = new THREE.Vector4();
+  const centers: Vec3[] = [];
+
+  for (let i = 0; i < count && centers.length < maxSamples; i += stride) {
+    mesh.getSplatColor(i, color);
+    if (color.w / 255 < minOpacity) continue;
+
+    mesh.getSplatCenter(i, center, false);
+    centers.push([center.x, center.y, center.z]);
+  }
+
+  return centers;
+}
+
+// The same sampling on splat arrays, e.g. from a PLY read without a viewer
+export function sampleSplatArrayCenters(splats: SplatArrays, maxSamples: number = 20000, minOpacity: number = 0.2): Vec3[] {
+  const stride = Math.max(1, Math.floor(splats.count / maxSamples));
+  const centers: Vec3[] = [];
+
+  for (let i = 0; i < splats.count && centers.length < maxSamples; i += stride) {
+    if (splats.colors[i * 4 + 3] / 255 < minOpacity) continue;
+    centers.push([splats.centers[i * 3], splats.centers[i * 3 + 1], splats.centers[i * 3 + 2]]);
+  }
+
+  return centers;
+}
+
+// Tilt lock onto a ground plane (model units): R_align levels the ground, pitch/roll are
+// zeroed because they are baked into it, and the yaw keeps the current heading
+export function groundAlignmentParams(params: EnuParams, groundPoints: Vec3[], upHint?: Vec3): Partial<EnuParams> {
+  const before = composeEnuRotation(params);
+  const hint: Vec3 = upHint ?? [before[6], before[7], before[8]];
+  const alignment = alignGroundToUp(groundPoints, hint);
+
+  // M = R_before * R_align^T is (nearly) a pure yaw when the ground was already level
+  const A = alignment.alignMatrix;
+  const m00 = before[0] * A[0] + before[1] * A[1] + before[2] * A[2];
+  const m10 = before[3] * A[0] + before[4] * A[1] + before[5] * A[2];
+
+  return {
+    alignRotation: alignment.alignMatrix,
+    tiltLocked: true,
+    yawRad: Math.atan2(m10, m00),
+    pitchRad: 0,
+    rollRad: 0
+  };
+}
+
+// Ground plane of a loaded layer, judged against its current placement
+export function detectLayerGround(layer: GaussianSplatLayer, options: GroundDetectionOptions = {}): GroundPlane {
+  const params = layer.getEnuParams();
+  const centers = sampleSplatCenters(layer, options.maxSamples, options.minOpacity);
+  return detectGroundPlane(centers, composeEnuRotation(params), params.scale, options);
+}
+
+// Helper functions
+function lowestBand(points: Vec3[], cellSize: number, band: number): number[] {
+  const lowest = new Map<string, number>();
+  const cellOf = (p: Vec3) => `${Math.floor(p[0] / cellSize)},${Math.floor(p[1] / cellSize)}`;
+
+  for (const p of points) {
+    const cell = cellOf(p);
+    const min = lowest.get(cell);
+    if (min === undefined || p[2] < min) lowest.set(cell, p[2]);
+  }
+
+  const kept: number[] = [];
+  points.forEach((p, k) => {
+    if (p[2] - lowest.get(cellOf(p))! <= band) kept.push(k);
+  });
+  return kept;
+}
+
+function planeInliers(points: Vec3[], indices: number[], normal: Vec3, offset: number, threshold: number): number[] {
+  return indices.filter(k => Math.abs(dot(normal, points[k]) - offset) <= threshold);
+}
+
+function horizontalExtent(points: Vec3[]): number {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const p of points) {
+    minX = Math.min(minX, p[0]);
+    maxX = Math.max(maxX, p[0]);
+    minY = Math.min(minY, p[1]);
+    maxY = Math.max(maxY, p[1]);
+  }
+  return Math.hypot(maxX - minX, maxY - minY);
+}
+
+function mulMat3(m: number[], v: Vec3): Vec3 {
+  return [
+    m[0] * v[0] + m[1] * v[1] + m[2] * v[2],
+    m[3] * v[0] + m[4] * v[1] + m[5] * v[2],
+    m[6] * v[0] + m[7] * v[1] + m[8] * v[2]
+  ];
+}
+
+function mulMat3Transposed(m: number[], v: Vec3): Vec3 {
+  return [
+    m[0] * v[0] + m[3] * v[1] + m[6] * v[2],
+    m[1] * v[0] + m[4] * v[1] + m[7] * v[2],
+    m[2] * v[0] + m[5] * v[1] + m[8] * v[2]
+  ];
+}
+
+function sub(a: Vec3, b: Vec3): Vec3 {
+  return [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+}
+
+function cross(a: Vec3, b: Vec3): Vec3 {
+  return [
+    a[1] * b[2] - a[2] * b[1],
+    a[2] * b[0] - a[0] * b[2],
+    a[0] * b[1] - a[1] * b[0]
+  ];
+}
+
+function dot(a: Vec3, b: Vec3): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+function scaleVec(v: Vec3, s: number): Vec3 {
+  return [v[0] * s, v[1] * s, v[2] * s];
+}
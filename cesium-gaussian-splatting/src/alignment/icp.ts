@@ -0,0 +1,370 @@
+// src/alignment/icp.ts
+import { Vec3 } from "../types/alignment";
+import { median } from "./statistics";
+
+// Reference surface in ENU metres, one unit normal per point
+export type SurfaceSamples = {
+  points: Vec3[];
+  normals: Vec3[];
+};
+
+// Regular east/north grid of surface heights (ENU up, NaN where nothing was sampled)
+export type HeightGrid = {
+  west: number;     // ENU east of column 0, metres
+  south: number;    // ENU north of row 0, metres
+  spacing: number;  // metres between samples
+  columns: number;
+  rows: number;
+  heights: Float64Array; // row-major, row 0 is the south edge
+};
+
+// Degrees of freedom the solve may change
+//   full:       rotation about all axes and translation
+//   tiltLocked: yaw and translation; tilt stays as it is
+//   yawOnly:    yaw and east/north translation; tilt and height stay as they are
+export type IcpMode = "full" | "tiltLocked" | "yawOnly";
+
+export type IcpOptions = {
+  mode?: IcpMode;                     // default "full"
+  estimateScale?: boolean;            // also solve a uniform scale (default false)
+  maxIterations?: number;             // default 50
+  maxCorrespondenceDistance?: number; // metres, pairs further apart are ignored (default 3)
+  minCorrespondenceDistance?: number; // metres, floor for the shrinking rejection radius (default 0.25)
+  maxSourcePoints?: number;           // source points are subsampled to this many (default 8000)
+  tolerance?: number;                 // stop when an update moves points less than this, metres (default 1e-3)
+};
+
+// x' = scale * R * (x - pivot) + pivot + translation, all in ENU metres
+export type IcpTransform = {
+  rotation: number[];   // row-major 3x3
+  translation: Vec3;
+  scale: number;
+  pivot: Vec3;
+};
+
+export type IcpResult = {
+  transform: IcpTransform;
+  mode: IcpMode;
+  iterations: number;
+  converged: boolean;
+  rmsMeters: number;          // point-to-plane RMS of the final correspondences
+  inlierRatio: number;        // source points with a correspondence in the final iteration
+  correspondences: number;
+};
+
+// Point-to-plane ICP: source points (ENU metres) are moved onto the surface by repeatedly
+// pairing each with its nearest surface sample and solving the linearised
+// sum (n · (x' - d))² with Huber weights for the allowed degrees of freedom.
+export function pointToPlaneIcp(source: Vec3[], target: SurfaceSamples, options: IcpOptions = {}): IcpResult {
+  if (target.points.length < 3) throw new Error("Need at least 3 surface samples for ICP");
+  if (source.length < 3) throw new Error("Need at least 3 source points for ICP");
+
+  const mode = options.mode ?? "full";
+  const estimateScale = options.estimateScale ?? false;
+  const maxIterations = options.maxIterations ?? 50;
+  const maxDistance = options.maxCorrespondenceDistance ?? 3;
+  const minDistance = options.minCorrespondenceDistance ?? 0.25;
+  const tolerance = options.tolerance ?? 1e-3;
+
+  const points = subsample(source, options.maxSourcePoints ?? 8000);
+  const pivot = centroid(points);
+  const tree = buildKdTree(target.points);
+
+  // Accumulated transform
+  let rotation = [1, 0, 0, 0, 1, 0, 0, 0, 1];
+  let translation: Vec3 = [0, 0, 0];
+  let scale = 1;
+
+  // Unknowns: [wx, wy, wz, tx, ty, tz, s], of which the mode keeps a subset
+  const columns = mode === "full" ? [0, 1, 2, 3, 4, 5] : mode === "tiltLocked" ? [2, 3, 4, 5] : [2, 3, 4];
+  if (estimateScale) columns.push(6);
+
+  let radius = maxDistance;
+  let converged = false;
+  let iterations = 0;
+  let rms = NaN;
+  let pairs = 0;
+
+  for (; iterations < maxIterations && !converged; iterations++) {
+    const k = columns.length;
+    const normal = Array.from({ length: k }, () => new Float64Array(k));
+    const rhs = new Float64Array(k);
+
+    // Correspondences at the current pose
+    const residuals: number[] = [];
+    const rows: { jacobian: number[]; residual: number }[] = [];
+    for (const p of points) {
+      const x = applyTransform(p, rotation, translation, scale, pivot);
+      const nearest = nearestNeighbour(tree, target.points, x);
+      if (nearest.distance2 > radius * radius) continue;
+
+      const d = target.points[nearest.index];
+      const n = target.normals[nearest.index];
+      const q: Vec3 = [x[0] - pivot[0], x[1] - pivot[1], x[2] - pivot[2]];
+      const residual = n[0] * (x[0] - d[0]) + n[1] * (x[1] - d[1]) + n[2] * (x[2] - d[2]);
+      // d(residual)/d(w) = q × n, d/dt = n, d/ds = n · q
+      const full = [
+        q[1] * n[2] - q[2] * n[1],
+        q[2] * n[0] - q[0] * n[2],
+        q[0] * n[1] - q[1] * n[0],
+        n[0], n[1], n[2],
+        n[0] * q[0] + n[1] * q[1] + n[2] * q[2]
+      ];
+      rows.push({ jacobian: columns.map(c => full[c]), residual });
+      residuals.push(Math.abs(residual));
+    }
+
+    pairs = rows.length;
+    if (pairs < k) break;
+
+    // Huber weights with a MAD scale estimate
+    const sigma = Math.max(1.4826 * median(residuals), 0.01);
+    const huber = 1.345 * sigma;
+    let sum2 = 0;
+    for (const { jacobian, residual } of rows) {
+      const w = Math.abs(residual) <= huber ? 1 : huber / Math.abs(residual);
+      sum2 += residual * residual;
+      for (let i = 0; i < k; i++) {
+        rhs[i] -= w * jacobian[i] * residual;
+        for (let j = 0; j < k; j++) normal[i][j] += w * jacobian[i] * jacobian[j];
+      }
+    }
+    rms = Math.sqrt(sum2 / pairs);
+
+    // A little damping keeps directions the surface cannot constrain (e.g. sliding along
+    // a flat roof) at zero instead of making the system singular
+    let trace = 0;
+    for (let i = 0; i < k; i++) trace += normal[i][i];
+    for (let i = 0; i < k; i++) normal[i][i] += 1e-6 * trace / k + 1e-12;
+
+    const solution = solveLinear(normal, rhs);
+    const step = [0, 0, 0, 0, 0, 0, 0];
+    columns.forEach((c, i) => { step[c] = solution[i]; });
+
+    // Compose the increment about the pivot: x'' = (1 + s) R_w (x' - pivot) + pivot + t
+    const increment = rotationFromVector([step[0], step[1], step[2]]);
+    const incrementScale = 1 + step[6];
+    rotation = multiply3(increment, rotation);
+    const rotated = multiplyVector3(increment, translation);
+    translation = [
+      incrementScale * rotated[0] + step[3],
+      incrementScale * rotated[1] + step[4],
+      incrementScale * rotated[2] + step[5]
+    ];
+    scale *= incrementScale;
+
+    // Largest displacement of a point within the source extent caused by this update
+    const extent = maxDistanceFrom(points, pivot) * scale;
+    const rotationAngle = Math.hypot(step[0], step[1], step[2]);
+    const movement = Math.hypot(step[3], step[4], step[5]) + (rotationAngle + Math.abs(step[6])) * extent;
+    converged = movement < tolerance;
+
+    // Tighten the rejection radius once the pose settles; doing it earlier drops the
+    // correspondences (mostly walls) that still have to pull the pose into place
+    if (movement < 0.1) radius = Math.max(minDistance, 4 * sigma, 0.85 * radius);
+  }
+
+  return {
+    transform: { rotation, translation, scale, pivot },
+    mode,
+    iterations,
+    converged,
+    rmsMeters: rms,
+    inlierRatio: pairs / points.length,
+    correspondences: pairs
+  };
+}
+
+// Surface samples from a height grid: the top surface with normals from central differences,
+// plus points with horizontal normals down every step higher than the grid spacing
+// (building walls), which is what pins down yaw and horizontal position
+export function heightGridSurface(grid: HeightGrid): SurfaceSamples {
+  const { columns, rows, spacing, heights } = grid;
+  const points: Vec3[] = [];
+  const normals: Vec3[] = [];
+  const at = (c: number, r: number) =>
+    c < 0 || r < 0 || c >= columns || r >= rows ? NaN : heights[r * columns + c];
+
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < columns; c++) {
+      const h = at(c, r);
+      if (!Number.isFinite(h)) continue;
+      const east = grid.west + c * spacing;
+      const north = grid.south + r * spacing;
+
+      // Slopes from neighbours on the same side of any step
+      const dzdx = slope(h, at(c - 1, r), at(c + 1, r), spacing);
+      const dzdy = slope(h, at(c, r - 1), at(c, r + 1), spacing);
+      const length = Math.hypot(dzdx, dzdy, 1);
+      points.push([east, north, h]);
+      normals.push([-dzdx / length, -dzdy / length, 1 / length]);
+
+      // Walls towards the east and north neighbours (each pair once)
+      for (const [dc, dr] of [[1, 0], [0, 1]]) {
+        const other = at(c + dc, r + dr);
+        if (!Number.isFinite(other) || Math.abs(other - h) <= spacing) continue;
+        // Normal points from the high side to the low side, the wall face seen from outside
+        const sign = other > h ? -1 : 1;
+        const low = Math.min(h, other);
+        const high = Math.max(h, other);
+        const wallEast = east + dc * spacing / 2;
+        const wallNorth = north + dr * spacing / 2;
+        for (let z = low + spacing / 2; z < high; z += spacing) {
+          points.push([wallEast, wallNorth, z]);
+          normals.push([sign * dc, sign * dr, 0]);
+        }
+      }
+    }
+  }
+
+  return { points, normals };
+}
+
+// Helper functions
+function slope(h: number, before: number, after: number, spacing: number): number {
+  const okBefore = Number.isFinite(before) && Math.abs(before - h) <= spacing;
+  const okAfter = Number.isFinite(after) && Math.abs(after - h) <= spacing;
+  if (okBefore && okAfter) return (after - before) / (2 * spacing);
+  if (okAfter) return (after - h) / spacing;
+  if (okBefore) return (h - before) / spacing;
+  return 0;
+}
+
+function applyTransform(p: Vec3, R: number[], t: Vec3, s: number, pivot: Vec3): Vec3 {
+  const x = p[0] - pivot[0];
+  const y = p[1] - pivot[1];
+  const z = p[2] - pivot[2];
+  return [
+    s * (R[0] * x + R[1] * y + R[2] * z) + pivot[0] + t[0],
+    s * (R[3] * x + R[4] * y + R[5] * z) + pivot[1] + t[1],
+    s * (R[6] * x + R[7] * y + R[8] * z) + pivot[2] + t[2]
+  ];
+}
+
+// Rodrigues: rotation by |w| about w
+function rotationFromVector(w: Vec3): number[] {
+  const angle = Math.hypot(w[0], w[1], w[2]);
+  if (angle < 1e-12) return [1, 0, 0, 0, 1, 0, 0, 0, 1];
+  const [x, y, z] = [w[0] / angle, w[1] / angle, w[2] / angle];
+  const c = Math.cos(angle);
+  const s = Math.sin(angle);
+  const C = 1 - c;
+  return [
+    c + x * x * C, x * y * C - z * s, x * z * C + y * s,
+    y * x * C + z * s, c + y * y * C, y * z * C - x * s,
+    z * x * C - y * s, z * y * C + x * s, c + z * z * C
+  ];
+}
+
+function multiply3(a: number[], b: number[]): number[] {
+  const result = new Array(9).fill(0);
+  for (let i = 0; i < 3; i++) {
+    for (let j = 0; j < 3; j++) {
+      for (let k = 0; k < 3; k++) result[i * 3 + j] += a[i * 3 + k] * b[k * 3 + j];
+    }
+  }
+  return result;
+}
+
+function multiplyVector3(m: number[], v: Vec3): Vec3 {
+  return [
+    m[0] * v[0] + m[1] * v[1] + m[2] * v[2],
+    m[3] * v[0] + m[4] * v[1] + m[5] * v[2],
+    m[6] * v[0] + m[7] * v[1] + m[8] * v[2]
+  ];
+}
+
+// Gaussian elimination with partial pivoting
+function solveLinear(matrix: Float64Array[], rhs: Float64Array): number[] {
+  const n = rhs.length;
+  const a = matrix.map((row, i) => [...row, rhs[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    if (Math.abs(a[col][col]) < 1e-18) continue;
+    for (let row = col + 1; row < n; row++) {
+      const f = a[row][col] / a[col][col];
+      for (let k = col; k <= n; k++) a[row][k] -= f * a[col][k];
+    }
+  }
+  const x = new Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    if (Math.abs(a[row][row]) < 1e-18) continue;
+    let sum = a[row][n];
+    for (let k = row + 1; k < n; k++) sum -= a[row][k] * x[k];
+    x[row] = sum / a[row][row];
+  }
+  return x;
+}
+
+function subsample(points: Vec3[], max: number): Vec3[] {
+  if (points.length <= max) return points;
+  const stride = points.length / max;
+  return Array.from({ length: max }, (_, i) => points[Math.floor(i * stride)]);
+}
+
+function centroid(points: Vec3[]): Vec3 {
+  const c: Vec3 = [0, 0, 0];
+  for (const p of points) {
+    c[0] += p[0]; c[1] += p[1]; c[2] += p[2];
+  }
+  return [c[0] / points.length, c[1] / points.length, c[2] / points.length];
+}
+
+function maxDistanceFrom(points: Vec3[], c: Vec3): number {
+  let max = 0;
+  for (const p of points) max = Math.max(max, Math.hypot(p[0] - c[0], p[1] - c[1], p[2] - c[2]));
+  return max;
+}
+
+// Static kd-tree over point indices: node i splits on axis[i] at point order[i]
+type KdTree = { order: Int32Array; axis: Int8Array };
+
+function buildKdTree(points: Vec3[]): KdTree {
+  const order = Int32Array.from(points.keys());
+  const axis = new Int8Array(points.length);
+
+  const build = (start: number, end: number, depth: number) => {
+    if (end - start <= 0) return;
+    const a = depth % 3;
+    const mid = (start + end) >> 1;
+    // Median split; a sort per node is fine for the few tens of thousands of samples used here
+    const slice = Array.from(order.subarray(start, end)).sort((i, j) => points[i][a] - points[j][a]);
+    order.set(slice, start);
+    axis[mid] = a;
+    build(start, mid, depth + 1);
+    build(mid + 1, end, depth + 1);
+  };
+  build(0, points.length, 0);
+
+  return { order, axis };
+}
+
+function nearestNeighbour(tree: KdTree, points: Vec3[], query: Vec3): { index: number; distance2: number } {
+  let best = -1;
+  let bestDistance2 = Infinity;
+
+  const search = (start: number, end: number) => {
+    if (end - start <= 0) return;
+    const mid = (start + end) >> 1;
+    const index = tree.order[mid];
+    const p = points[index];
+    const d2 = (p[0] - query[0]) ** 2 + (p[1] - query[1]) ** 2 + (p[2] - query[2]) ** 2;
+    if (d2 < bestDistance2) {
+      bestDistance2 = d2;
+      best = index;
+    }
+
+    const a = tree.axis[mid];
+    const diff = query[a] - p[a];
+    const [near, far] = diff < 0 ? [[start, mid], [mid + 1, end]] : [[mid + 1, end], [start, mid]];
+    search(near[0], near[1]);
+    if (diff * diff < bestDistance2) search(far[0], far[1]);
+  };
+  search(0, points.length);
+
+  return { index: best, distance2: bestDistance2 };
+}
@@ -0,0 +1,66 @@
+// src/alignment/keypointRegistration.ts
+import { GeoRaster, rasterLuminance } from "../raster/geoRaster";
+import { KeypointImageRegistration, KeypointOptions, registerImagesByKeypoints } from "./keypoints";
+import { KeypointWorkerRequest } from "./keypointWorker";
+
+export type KeypointRasterRegistration = KeypointImageRegistration & {
+  translationMeters: { east: number; north: number };
+  metersPerPixel: number;
+};
+
+// Keypoint + RANSAC registration of moving onto reference (same grid, e.g. a splat render and
+// ImageryCapture.captureLike of it). Runs in a module worker; where workers are unavailable
+// (node) it runs inline. The result feeds registrationToEnuDelta like a Fourier–Mellin one.
+export async function registerRastersByKeypoints(
+  reference: GeoRaster,
+  moving: GeoRaster,
+  options: KeypointOptions = {}
+): Promise<KeypointRasterRegistration> {
+  if (reference.width !== moving.width || reference.height !== moving.height ||
+      Math.abs(reference.metersPerPixel - moving.metersPerPixel) > 1e-9 * moving.metersPerPixel) {
+    throw new Error("Rasters must share size and metersPerPixel; capture one with the other's grid");
+  }
+
+  const request: KeypointWorkerRequest = {
+    reference: rasterLuminance(reference),
+    moving: rasterLuminance(moving),
+    width: moving.width,
+    height: moving.height,
+    options
+  };
+  const registration = typeof Worker === "undefined"
+    ? registerImagesByKeypoints(request.reference, request.moving, request.width, request.height, options)
+    : await runInWorker(request);
+
+  return {
+    ...registration,
+    translationMeters: {
+      east: registration.translation.x * moving.metersPerPixel,
+      north: registration.translation.y * moving.metersPerPixel
+    },
+    metersPerPixel: moving.metersPerPixel
+  };
+}
+
+// Helper functions
+// One worker per request: registrations are rare and the worker holds several large buffers
+function runInWorker(request: KeypointWorkerRequest): Promise<KeypointImageRegistration> {
+  const worker = new Worker(new URL("./keypointWorker.ts", import.meta.url), { type: "module" });
+  const transfer = [request.reference, request.moving]
+    .flatMap(image => [image.values, image.mask])
+    .filter((array): array is Float32Array => array instanceof Float32Array)
+    .map(array => array.buffer);
+
+  return new Promise((resolve, reject) => {
+    worker.onmessage = (event: MessageEvent<{ result?: KeypointImageRegistration; error?: string }>) => {
+      worker.terminate();
+      if (event.data.error) reject(new Error(event.data.error));
+      else resolve(event.data.result!);
+    };
+    worker.onerror = (event: ErrorEvent) => {
+      worker.terminate();
+      reject(new Error(event.message || "Keypoint worker failed"));
+    };
+    worker.postMessage(request, transfer);
+  });
+}
@@ -0,0 +1,20 @@
+// src/alignment/keypointWorker.ts
+// Module worker entry: keypoint registration off the main thread (see keypointRegistration.ts)
+import { KeypointOptions, LuminanceImage, registerImagesByKeypoints } from "./keypoints";
+
+export type KeypointWorkerRequest = {
+  reference: LuminanceImage;
+  moving: LuminanceImage;
+  width: number;
+  height: number;
+  options: KeypointOptions;
+};
+
+self.onmessage = (event: MessageEvent<KeypointWorkerRequest>) => {
+  const { reference, moving, width, height, options } = event.data;
+  try {
+    self.postMessage({ result: registerImagesByKeypoints(reference, moving, width, height, options) });
+  } catch (error) {
+    self.postMessage({ error: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,496 @@
+// src/alignment/keypoints.ts
+// Plain arrays in and out and no DOM or Cesium, so this runs in a worker (see keypointWorker.ts)
+import { seededRandom } from "./statistics";
+
+export type KeypointOptions = {
+  maxKeypoints?: number;       // per image over all pyramid levels (default 1500)
+  fastThreshold?: number;      // grey levels a FAST circle pixel must differ by (default 20)
+  pyramidLevels?: number;      // default 4
+  pyramidScale?: number;       // size ratio between levels (default 1.3)
+  maxHammingDistance?: number; // of the 256 descriptor bits (default 64)
+  ratio?: number;              // best / second best distance test (default 0.8)
+  inlierThreshold?: number;    // pixels, RANSAC reprojection tolerance (default 3)
+  iterations?: number;         // RANSAC hypotheses at most (default 2000)
+  minScale?: number;           // hypotheses outside the scale range are discarded (default 0.5)
+  maxScale?: number;           // default 2
+  minInliers?: number;         // fewer inliers give confidence 0 (default 8)
+  seed?: number;               // RANSAC sampling is seeded so a run is repeatable
+};
+
+export type Keypoint = {
+  x: number;      // pixels in the full-size image, y down
+  y: number;
+  level: number;  // pyramid level it was found on
+  angle: number;  // intensity-centroid orientation, radians in the y-down pixel frame
+  score: number;  // Harris response
+};
+
+export type KeypointSet = {
+  keypoints: Keypoint[];
+  descriptors: Uint32Array; // DESCRIPTOR_WORDS per keypoint
+};
+
+export type KeypointMatch = { reference: number; moving: number; distance: number };
+
+// Same convention as the Fourier–Mellin registration: x right, y up, about the image centre c,
+// p_ref = c + scale * R(rotation) * (p_mov - c) + translation
+export type KeypointImageRegistration = {
+  rotationRad: number;
+  scale: number;
+  translation: { x: number; y: number }; // pixels
+  confidence: number;      // 0..1 from inlier count and reprojection error
+  inliers: number;
+  matches: number;
+  rmsErrorPixels: number;  // reprojection error of the inliers
+  referenceKeypoints: number;
+  movingKeypoints: number;
+};
+
+export type LuminanceImage = {
+  values: ArrayLike<number>; // grey levels 0..255, row-major
+  mask?: ArrayLike<number>;  // 0..1 coverage; keypoints need full coverage around them
+};
+
+const DESCRIPTOR_WORDS = 8;   // 256 bits
+const PATCH_RADIUS = 13;      // descriptor test points stay within this box around the keypoint
+const ORIENTATION_RADIUS = 15;
+const BORDER = 24;            // keeps rotated test points and the orientation disc inside the image
+
+// rBRIEF test pairs, fixed for every image (x1, y1, x2, y2 per test)
+const TEST_PAIRS = createTestPairs();
+
+// Keypoints and descriptors of one image: FAST-9 corners ranked by Harris response on a small
+// pyramid, oriented by their intensity centroid, described by rotated BRIEF tests
+export function detectKeypoints(
+  image: LuminanceImage,
+  width: number,
+  height: number,
+  options: KeypointOptions = {}
+): KeypointSet {
+  const levels = options.pyramidLevels ?? 4;
+  const ratio = options.pyramidScale ?? 1.3;
+  const maxKeypoints = options.maxKeypoints ?? 1500;
+  const threshold = options.fastThreshold ?? 20;
+
+  const keypoints: Keypoint[] = [];
+  const descriptors: number[] = [];
+
+  let gray = Float32Array.from(image.values);
+  let mask = image.mask ? Float32Array.from(image.mask) : null;
+  let w = width;
+  let h = height;
+
+  // Share of keypoints per level in proportion to its area
+  const areaSum = Array.from({ length: levels }, (_, l) => Math.pow(ratio, -2 * l)).reduce((a, b) => a + b, 0);
+
+  for (let level = 0; level < levels; level++) {
+    if (w <= 2 * BORDER || h <= 2 * BORDER) break;
+    const levelScale = Math.pow(ratio, level);
+    const quota = Math.round(maxKeypoints * Math.pow(ratio, -2 * level) / areaSum);
+
+    const corners = fastCorners(gray, mask, w, h, threshold)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, quota);
+
+    const smooth = binomialBlur(binomialBlur(gray, w, h), w, h);
+    for (const corner of corners) {
+      const angle = intensityAngle(gray, w, corner.x, corner.y);
+      keypoints.push({
+        x: (corner.x + 0.5) * levelScale - 0.5,
+        y: (corner.y + 0.5) * levelScale - 0.5,
+        level,
+        angle,
+        score: corner.score
+      });
+      describe(smooth, w, corner.x, corner.y, angle, descriptors);
+    }
+
+    // Next level
+    const nw = Math.floor(width / Math.pow(ratio, level + 1));
+    const nh = Math.floor(height / Math.pow(ratio, level + 1));
+    const blurred = binomialBlur(gray, w, h);
+    gray = resize(blurred, w, h, nw, nh);
+    if (mask) mask = resize(mask, w, h, nw, nh);
+    w = nw;
+    h = nh;
+  }
+
+  return { keypoints, descriptors: Uint32Array.from(descriptors) };
+}
+
+// Mutual nearest neighbours in Hamming distance that also pass the ratio test
+export function matchKeypoints(reference: KeypointSet, moving: KeypointSet, options: KeypointOptions = {}): KeypointMatch[] {
+  const maxDistance = options.maxHammingDistance ?? 64;
+  const ratio = options.ratio ?? 0.8;
+  const nr = reference.keypoints.length;
+  const nm = moving.keypoints.length;
+  if (nr === 0 || nm === 0) return [];
+
+  const bestForReference = new Int32Array(nr).fill(-1);
+  const bestReferenceDistance = new Int32Array(nr).fill(1 << 30);
+  const candidates: KeypointMatch[] = [];
+
+  for (let m = 0; m < nm; m++) {
+    let best = -1;
+    let bestDistance = 1 << 30;
+    let second = 1 << 30;
+    for (let r = 0; r < nr; r++) {
+      const d = hamming(moving.descriptors, m, reference.descriptors, r);
+      if (d < bestDistance) {
+        second = bestDistance;
+        bestDistance = d;
+        best = r;
+      } else if (d < second) {
+        second = d;
+      }
+      if (d < bestReferenceDistance[r]) {
+        bestReferenceDistance[r] = d;
+        bestForReference[r] = m;
+      }
+    }
+    if (best >= 0 && bestDistance <= maxDistance && bestDistance < ratio * second) {
+      candidates.push({ reference: best, moving: m, distance: bestDistance });
+    }
+  }
+
+  return candidates.filter(match => bestForReference[match.reference] === match.moving);
+}
+
+// Similarity registration of two same-sized images from keypoint matches with RANSAC
+export function registerImagesByKeypoints(
+  reference: LuminanceImage,
+  moving: LuminanceImage,
+  width: number,
+  height: number,
+  options: KeypointOptions = {}
+): KeypointImageRegistration {
+  const threshold = options.inlierThreshold ?? 3;
+  const minInliers = options.minInliers ?? 8;
+
+  const referenceSet = detectKeypoints(reference, width, height, options);
+  const movingSet = detectKeypoints(moving, width, height, options);
+  const matches = matchKeypoints(referenceSet, movingSet, options);
+
+  // Centred, y-up coordinates
+  const toCentred = (k: Keypoint): [number, number] => [k.x + 0.5 - width / 2, height / 2 - (k.y + 0.5)];
+  const refPoints = matches.map(m => toCentred(referenceSet.keypoints[m.reference]));
+  const movPoints = matches.map(m => toCentred(movingSet.keypoints[m.moving]));
+
+  const fit = ransacSimilarity(refPoints, movPoints, threshold, options);
+  const inliers = fit ? fit.inliers.length : 0;
+  const confidence = fit && inliers >= minInliers
+    ? Math.min(1, inliers / (4 * minInliers)) * Math.max(0, 1 - fit.rms / threshold)
+    : 0;
+
+  return {
+    rotationRad: fit ? Math.atan2(fit.b, fit.a) : 0,
+    scale: fit ? Math.hypot(fit.a, fit.b) : 1,
+    translation: fit ? { x: fit.tx, y: fit.ty } : { x: 0, y: 0 },
+    confidence,
+    inliers,
+    matches: matches.length,
+    rmsErrorPixels: fit ? fit.rms : NaN,
+    referenceKeypoints: referenceSet.keypoints.length,
+    movingKeypoints: movingSet.keypoints.length
+  };
+}
+
+// Helper functions
+type Similarity = { a: number; b: number; tx: number; ty: number }; // [a -b; b a] * p + t
+
+// Two-point similarity hypotheses, then least-squares refits on the consensus set
+function ransacSimilarity(
+  ref: [number, number][],
+  mov: [number, number][],
+  threshold: number,
+  options: KeypointOptions
+): (Similarity & { inliers: number[]; rms: number }) | null {
+  const n = ref.length;
+  if (n < 2) return null;
+
+  const maxIterations = options.iterations ?? 2000;
+  const minScale = options.minScale ?? 0.5;
+  const maxScale = options.maxScale ?? 2;
+  const random = seededRandom(options.seed ?? 1);
+  const threshold2 = threshold * threshold;
+
+  let best: Similarity | null = null;
+  let bestInliers: number[] = [];
+  let iterations = maxIterations;
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const i = Math.floor(random() * n);
+    const j = Math.floor(random() * n);
+    if (i === j) continue;
+
+    const mx = mov[j][0] - mov[i][0];
+    const my = mov[j][1] - mov[i][1];
+    const rx = ref[j][0] - ref[i][0];
+    const ry = ref[j][1] - ref[i][1];
+    const length2 = mx * mx + my * my;
+    if (length2 < 100) continue; // points too close give unstable rotation and scale
+
+    const a = (mx * rx + my * ry) / length2;
+    const b = (mx * ry - my * rx) / length2;
+    const scale = Math.hypot(a, b);
+    if (scale < minScale || scale > maxScale) continue;
+
+    const model = { a, b, tx: ref[i][0] - (a * mov[i][0] - b * mov[i][1]), ty: ref[i][1] - (b * mov[i][0] + a * mov[i][1]) };
+    const inliers = consensus(model, ref, mov, threshold2);
+    if (inliers.length > bestInliers.length) {
+      best = model;
+      bestInliers = inliers;
+
+      // Adaptive stop for 99.9% confidence of one all-inlier sample
+      const w = inliers.length / n;
+      const needed = Math.log(0.001) / Math.log(Math.max(1 - w * w, 1e-12));
+      iterations = Math.min(maxIterations, Math.max(50, Math.ceil(needed)));
+    }
+  }
+
+  if (!best || bestInliers.length < 2) return null;
+
+  for (let refit = 0; refit < 3; refit++) {
+    const model = leastSquaresSimilarity(ref, mov, bestInliers);
+    const inliers = consensus(model, ref, mov, threshold2);
+    if (inliers.length < 2) break;
+    best = model;
+    bestInliers = inliers;
+  }
+
+  let sum = 0;
+  for (const k of bestInliers) sum += residual2(best, ref[k], mov[k]);
+  return { ...best, inliers: bestInliers, rms: Math.sqrt(sum / bestInliers.length) };
+}
+
+function consensus(model: Similarity, ref: [number, number][], mov: [number, number][], threshold2: number): number[] {
+  const inliers: number[] = [];
+  for (let k = 0; k < ref.length; k++) {
+    if (residual2(model, ref[k], mov[k]) <= threshold2) inliers.push(k);
+  }
+  return inliers;
+}
+
+function residual2(model: Similarity, ref: [number, number], mov: [number, number]): number {
+  const dx = model.a * mov[0] - model.b * mov[1] + model.tx - ref[0];
+  const dy = model.b * mov[0] + model.a * mov[1] + model.ty - ref[1];
+  return dx * dx + dy * dy;
+}
+
+// Closed-form least-squares similarity (2D Umeyama without reflection)
+function leastSquaresSimilarity(ref: [number, number][], mov: [number, number][], indices: number[]): Similarity {
+  let rx = 0, ry = 0, mx = 0, my = 0;
+  for (const k of indices) {
+    rx += ref[k][0]; ry += ref[k][1];
+    mx += mov[k][0]; my += mov[k][1];
+  }
+  rx /= indices.length; ry /= indices.length;
+  mx /= indices.length; my /= indices.length;
+
+  let dot = 0, cross = 0, norm = 0;
+  for (const k of indices) {
+    const px = mov[k][0] - mx, py = mov[k][1] - my;
+    const qx = ref[k][0] - rx, qy = ref[k][1] - ry;
+    dot += px * qx + py * qy;
+    cross += px * qy - py * qx;
+    norm += px * px + py * py;
+  }
+  const a = norm > 0 ? dot / norm : 1;
+  const b = norm > 0 ? cross / norm : 0;
+  return { a, b, tx: rx - (a * mx - b * my), ty: ry - (b * mx + a * my) };
+}
+
+// Offsets of the 16-pixel Bresenham circle of radius 3, clockwise from the top
+const CIRCLE: [number, number][] = [
+  [0, -3], [1, -3], [2, -2], [3, -1], [3, 0], [3, 1], [2, 2], [1, 3],
+  [0, 3], [-1, 3], [-2, 2], [-3, 1], [-3, 0], [-3, -1], [-2, -2], [-1, -3]
+];
+
+// FAST-9 corners with Harris scores after 3x3 non-maximum suppression
+function fastCorners(
+  gray: Float32Array,
+  mask: Float32Array | null,
+  w: number,
+  h: number,
+  threshold: number
+): { x: number; y: number; score: number }[] {
+  const scores = new Float32Array(w * h);
+  const offsets = CIRCLE.map(([dx, dy]) => dy * w + dx);
+
+  for (let y = BORDER; y < h - BORDER; y++) {
+    for (let x = BORDER; x < w - BORDER; x++) {
+      const k = y * w + x;
+      if (mask && !covered(mask, w, x, y)) continue;
+
+      const center = gray[k];
+      const high = center + threshold;
+      const low = center - threshold;
+
+      // Quick rejection: of 4 compass pixels at least 3 must be on one side for a 9-arc
+      let brighter = 0;
+      let darker = 0;
+      for (let q = 0; q < 16; q += 4) {
+        const v = gray[k + offsets[q]];
+        if (v > high) brighter++;
+        else if (v < low) darker++;
+      }
+      if (brighter < 3 && darker < 3) continue;
+
+      if (hasArc(gray, k, offsets, high, 1) || hasArc(gray, k, offsets, low, -1)) {
+        scores[k] = Math.max(harris(gray, w, x, y), 1e-6);
+      }
+    }
+  }
+
+  const corners: { x: number; y: number; score: number }[] = [];
+  for (let y = BORDER; y < h - BORDER; y++) {
+    for (let x = BORDER; x < w - BORDER; x++) {
+      const k = y * w + x;
+      const s = scores[k];
+      if (s <= 0) continue;
+      if (s < scores[k - 1] || s <= scores[k + 1] || s < scores[k - w - 1] || s < scores[k - w] ||
+          s < scores[k - w + 1] || s <= scores[k + w - 1] || s <= scores[k + w] || s <= scores[k + w + 1]) continue;
+      corners.push({ x, y, score: s });
+    }
+  }
+  return corners;
+}
+
+// 9 contiguous circle pixels beyond the bound (above it for sign 1, below for -1)
+function hasArc(gray: Float32Array, k: number, offsets: number[], bound: number, sign: number): boolean {
+  let run = 0;
+  for (let q = 0; q < 16 + 8; q++) {
+    const v = gray[k + offsets[q % 16]];
+    if ((v - bound) * sign > 0) {
+      if (++run >= 9) return true;
+    } else {
+      run = 0;
+    }
+  }
+  return false;
+}
+
+// Harris response over a 7x7 window of central-difference gradients
+function harris(gray: Float32Array, w: number, x: number, y: number): number {
+  let xx = 0, xy = 0, yy = 0;
+  for (let dy = -3; dy <= 3; dy++) {
+    for (let dx = -3; dx <= 3; dx++) {
+      const k = (y + dy) * w + x + dx;
+      const gx = gray[k + 1] - gray[k - 1];
+      const gy = gray[k + w] - gray[k - w];
+      xx += gx * gx;
+      xy += gx * gy;
+      yy += gy * gy;
+    }
+  }
+  return xx * yy - xy * xy - 0.04 * (xx + yy) * (xx + yy);
+}
+
+function covered(mask: Float32Array, w: number, x: number, y: number): boolean {
+  // The descriptor patch corners and centre must all be inside the covered area
+  return mask[y * w + x] > 0.99 &&
+    mask[(y - PATCH_RADIUS) * w + x - PATCH_RADIUS] > 0.99 && mask[(y - PATCH_RADIUS) * w + x + PATCH_RADIUS] > 0.99 &&
+    mask[(y + PATCH_RADIUS) * w + x - PATCH_RADIUS] > 0.99 && mask[(y + PATCH_RADIUS) * w + x + PATCH_RADIUS] > 0.99;
+}
+
+function intensityAngle(gray: Float32Array, w: number, x: number, y: number): number {
+  let m10 = 0;
+  let m01 = 0;
+  const r2 = ORIENTATION_RADIUS * ORIENTATION_RADIUS;
+  for (let dy = -ORIENTATION_RADIUS; dy <= ORIENTATION_RADIUS; dy++) {
+    for (let dx = -ORIENTATION_RADIUS; dx <= ORIENTATION_RADIUS; dx++) {
+      if (dx * dx + dy * dy > r2) continue;
+      const v = gray[(y + dy) * w + x + dx];
+      m10 += dx * v;
+      m01 += dy * v;
+    }
+  }
+  return Math.atan2(m01, m10);
+}
+
+function describe(smooth: Float32Array, w: number, x: number, y: number, angle: number, out: number[]): void {
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const at = (dx: number, dy: number) =>
+    smooth[(y + Math.round(sin * dx + cos * dy)) * w + x + Math.round(cos * dx - sin * dy)];
+
+  for (let word = 0; word < DESCRIPTOR_WORDS; word++) {
+    let bits = 0;
+    for (let bit = 0; bit < 32; bit++) {
+      const p = (word * 32 + bit) * 4;
+      if (at(TEST_PAIRS[p], TEST_PAIRS[p + 1]) < at(TEST_PAIRS[p + 2], TEST_PAIRS[p + 3])) bits |= 1 << bit;
+    }
+    out.push(bits >>> 0);
+  }
+}
+
+function hamming(a: Uint32Array, i: number, b: Uint32Array, j: number): number {
+  let distance = 0;
+  for (let word = 0; word < DESCRIPTOR_WORDS; word++) {
+    let v = (a[i * DESCRIPTOR_WORDS + word] ^ b[j * DESCRIPTOR_WORDS + word]) >>> 0;
+    v = v - ((v >>> 1) & 0x55555555);
+    v = (v & 0x33333333) + ((v >>> 2) & 0x33333333);
+    distance += (((v + (v >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+  }
+  return distance;
+}
+
+// Isotropic Gaussian test points (sigma = patch / 5, as in BRIEF), clamped to the patch
+function createTestPairs(): Int8Array {
+  const random = seededRandom(0x5eed);
+  const gaussian = () => {
+    const u = Math.max(random(), 1e-12);
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+  };
+  const sigma = (2 * PATCH_RADIUS + 1) / 5;
+  const pairs = new Int8Array(DESCRIPTOR_WORDS * 32 * 4);
+  for (let i = 0; i < pairs.length; i++) {
+    pairs[i] = Math.max(-PATCH_RADIUS, Math.min(PATCH_RADIUS, Math.round(gaussian() * sigma)));
+  }
+  return pairs;
+}
+
+// Separable [1 4 6 4 1] / 16
+function binomialBlur(image: Float32Array, w: number, h: number): Float32Array {
+  const kernel = [1 / 16, 4 / 16, 6 / 16, 4 / 16, 1 / 16];
+  const temp = new Float32Array(w * h);
+  const result = new Float32Array(w * h);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      let sum = 0;
+      for (let i = -2; i <= 2; i++) sum += kernel[i + 2] * image[y * w + Math.min(w - 1, Math.max(0, x + i))];
+      temp[y * w + x] = sum;
+    }
+  }
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      let sum = 0;
+      for (let i = -2; i <= 2; i++) sum += kernel[i + 2] * temp[Math.min(h - 1, Math.max(0, y + i)) * w + x];
+      result[y * w + x] = sum;
+    }
+  }
+  return result;
+}
+
+// Bilinear resize with pixel centres aligned
+function resize(image: Float32Array, w: number, h: number, nw: number, nh: number): Float32Array {
+  const result = new Float32Array(nw * nh);
+  const sx = w / nw;
+  const sy = h / nh;
+  for (let y = 0; y < nh; y++) {
+    const fy = Math.min(h - 1, Math.max(0, (y + 0.5) * sy - 0.5));
+    const y0 = Math.floor(fy);
+    const y1 = Math.min(h - 1, y0 + 1);
+    const ty = fy - y0;
+    for (let x = 0; x < nw; x++) {
+      const fx = Math.min(w - 1, Math.max(0, (x + 0.5) * sx - 0.5));
+      const x0 = Math.floor(fx);
+      const x1 = Math.min(w - 1, x0 + 1);
+      const tx = fx - x0;
+      result[y * nw + x] =
+        (image[y0 * w + x0] * (1 - tx) + image[y0 * w + x1] * tx) * (1 - ty) +
+        (image[y1 * w + x0] * (1 - tx) + image[y1 * w + x1] * tx) * ty;
+    }
+  }
+  return result;
+}
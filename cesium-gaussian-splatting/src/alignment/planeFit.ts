@@ -1,7 +1,16 @@
 // src/alignment/planeFit.ts
 import { Vec3, PlaneAlignment } from "../types/alignment";
+import { symmetricEigen } from "./eigen";
 
-export function estimatePlaneNormal(points: Vec3[]): Vec3 {
+export type PlaneFit = {
+  centroid: Vec3;
+  normal: Vec3;      // unit normal, sign arbitrary
+  rms: number;       // RMS distance of the points from the plane
+  eigenvalues: Vec3; // covariance eigenvalues, ascending
+};
+
+// Least-squares plane: the normal is the covariance eigenvector with the smallest eigenvalue
+export function fitPlane(points: Vec3[]): PlaneFit {
   if (points.length < 3) throw new Error("Need at least 3 points for plane fitting");
 
   // Compute centroid
@@ -15,50 +24,48 @@ export function estimatePlaneNormal(points: Vec3[]): Vec3 {
   centroid[1] /= points.length;
   centroid[2] /= points.length;
 
-  // Center points and build covariance matrix
-  const centered = points.map(p => [p[0] - centroid[0], p[1] - centroid[1], p[2] - centroid[2]] as Vec3);
-
-  // 3x3 covariance matrix
+  // 3x3 covariance matrix of the centered points
   const cov = [
     [0, 0, 0],
     [0, 0, 0],
     [0, 0, 0]
   ];
 
-  for (const p of centered) {
+  for (const p of points) {
+    const d = [p[0] - centroid[0], p[1] - centroid[1], p[2] - centroid[2]];
     for (let i = 0; i < 3; i++) {
       for (let j = 0; j < 3; j++) {
-        cov[i][j] += p[i] * p[j];
+        cov[i][j] += d[i] * d[j];
       }
     }
   }
 
-  // Scale by number of points
   for (let i = 0; i < 3; i++) {
     for (let j = 0; j < 3; j++) {
       cov[i][j] /= points.length;
     }
   }
 
-  // Find eigenvector with smallest eigenvalue using simplified power iteration
-  // For plane fitting, we want the eigenvector corresponding to the smallest eigenvalue
-  let normal: Vec3 = [0, 0, 1]; // Initial guess
-
-  // Simple approach: the normal is approximately the direction with minimal variance
-  // Use the cross product of two principal directions for robustness
-  if (centered.length >= 2) {
-    const v1 = centered[0];
-    const v2 = centered[1];
-    normal = crossProduct(v1, v2);
-    normal = normalize(normal);
-  }
+  const { values, vectors } = symmetricEigen(cov);
 
-  // Ensure normal points roughly upward (positive Z component)
-  if (normal[2] < 0) {
-    normal = [-normal[0], -normal[1], -normal[2]];
+  // All points on a line (or one spot) leave the plane undetermined
+  if (values[1] <= 1e-12 * Math.max(values[2], 1e-300)) {
+    throw new Error("Points are collinear; cannot fit a plane");
   }
 
-  return normal;
+  return {
+    centroid,
+    normal: normalize(vectors[0] as Vec3),
+    rms: Math.sqrt(Math.max(values[0], 0)),
+    eigenvalues: [values[0], values[1], values[2]]
+  };
+}
+
+// Plane normal oriented towards upHint (the frame's +Z unless the caller knows better)
+export function estimatePlaneNormal(points: Vec3[], upHint: Vec3 = [0, 0, 1]): Vec3 {
+  const normal = fitPlane(points).normal;
+  const dot = normal[0] * upHint[0] + normal[1] * upHint[1] + normal[2] * upHint[2];
+  return dot < 0 ? [-normal[0], -normal[1], -normal[2]] : normal;
 }
 
 export function quaternionBetween(a: Vec3, b: Vec3): [number, number, number, number] {
@@ -96,8 +103,10 @@ export function quaternionBetween(a: Vec3, b: Vec3): [number, number, number, nu
   ];
 }
 
-export function alignGroundToUp(points: Vec3[]): PlaneAlignment {
-  const normal = estimatePlaneNormal(points);
+// Rotation taking the ground plane of the points onto +Z. upHint says which side of the
+// plane is up in the points' frame, so captures stored upside down or Y-up level correctly.
+export function alignGroundToUp(points: Vec3[], upHint: Vec3 = [0, 0, 1]): PlaneAlignment {
+  const normal = estimatePlaneNormal(points, upHint);
   const up: Vec3 = [0, 0, 1];
 
   const quat = quaternionBetween(normal, up);
@@ -0,0 +1,434 @@
+// src/alignment/roadGraph.ts
+import * as Cesium from "cesium";
+import type { OSMRoad } from "../road-data-provider";
+import { GeoAnchor } from "../types/alignment";
+import { GeoRaster, rasterPixelToEnu } from "../raster/geoRaster";
+import { ecefToEnuMatrix } from "./composeModelMatrix";
+
+// Metres in the east/north plane of an ENU frame
+export type GraphPoint = { east: number; north: number };
+
+// Where an edge leaves a node. Bearings are radians counter-clockwise from east.
+export type RoadGraphArm = { edge: number; bearing: number };
+
+export type RoadGraphNode = {
+  id: number;
+  position: GraphPoint;
+  degree: number;        // edge ends at the node; a loop counts twice
+  arms: RoadGraphArm[];  // counter-clockwise by bearing, starting nearest east
+  signature: number[];   // angle from each arm to the next counter-clockwise one; sums to 2π
+};
+
+export type RoadGraphEdge = {
+  id: number;
+  from: number;
+  to: number;
+  points: GraphPoint[];  // polyline from → to, both node positions included
+  length: number;        // metres along the polyline
+  bearing: number;       // direction of the chord from → to
+  width: number;         // metres, 0 when unknown
+};
+
+// Planar road network: junctions (degree 3+) and dead ends (degree 1) joined by edges.
+// Nodes where a road merely continues (degree 2) are merged away.
+export type RoadGraph = { nodes: RoadGraphNode[]; edges: RoadGraphEdge[] };
+
+export type SkeletonGraphOptions = {
+  roadMask?: ArrayLike<number>;  // road pixels (> 0) the skeleton was thinned from; gives edge widths
+  minSpurMeters?: number;        // dead ends shorter than this are thinning artefacts (default 8)
+  mergeMeters?: number;          // junctions closer than this are one crossing split by thinning (default 4)
+};
+
+// Arm bearings are taken to the point this far along an edge, so that curves further out
+// do not skew the junction angles
+const ARM_LENGTH_METERS = 15;
+
+const RING = [[-1, -1], [0, -1], [1, -1], [1, 0], [1, 1], [0, 1], [-1, 1], [-1, 0]];
+
+type RawEdge = { from: number; to: number; points: GraphPoint[]; width: number };
+
+// OSM roads in the ENU frame of origin. Ways are split where they share a vertex with
+// another way (or themselves), which is how OSM models junctions.
+export function roadGraphFromOsm(roads: OSMRoad[], origin: GeoAnchor): RoadGraph {
+  const ecefToEnu = ecefToEnuMatrix(origin);
+  const scratch = new Cesium.Cartesian3();
+  const project = ({ lat, lon }: { lat: number; lon: number }): GraphPoint => {
+    const enu = Cesium.Matrix4.multiplyByPoint(ecefToEnu, Cesium.Cartesian3.fromDegrees(lon, lat, origin.height), scratch);
+    return { east: enu.x, north: enu.y };
+  };
+  const keyOf = ({ lat, lon }: { lat: number; lon: number }) => `${lat.toFixed(6)},${lon.toFixed(6)}`;
+
+  // Same key as roadDataFromWays uses for intersections
+  const uses = new Map<string, number>();
+  for (const road of roads) {
+    for (const key of new Set(road.geometry.map(keyOf))) uses.set(key, (uses.get(key) ?? 0) + 1);
+  }
+
+  const positions: GraphPoint[] = [];
+  const nodeIds = new Map<string, number>();
+  const nodeFor = (point: { lat: number; lon: number }) => {
+    const key = keyOf(point);
+    if (!nodeIds.has(key)) {
+      nodeIds.set(key, positions.length);
+      positions.push(project(point));
+    }
+    return nodeIds.get(key)!;
+  };
+
+  const raw: RawEdge[] = [];
+  for (const road of roads) {
+    const geometry = road.geometry.filter((point, i) => i === 0 || keyOf(point) !== keyOf(road.geometry[i - 1]));
+    if (geometry.length < 2) continue;
+
+    let from = nodeFor(geometry[0]);
+    let points = [positions[from]];
+    for (let i = 1; i < geometry.length; i++) {
+      const last = i === geometry.length - 1;
+      if (!last && uses.get(keyOf(geometry[i]))! < 2) {
+        points.push(project(geometry[i]));
+        continue;
+      }
+      const to = nodeFor(geometry[i]);
+      points.push(positions[to]);
+      raw.push({ from, to, points, width: road.width });
+      from = to;
+      points = [positions[to]];
+    }
+  }
+
+  return buildGraph(positions, raw, 0, 0);
+}
+
+// Graph of a one-pixel-wide road skeleton on raster's grid (e.g. Zhang–Suen thinning of a
+// road mask of a splat render), in the raster's ENU frame. Skeleton pixels with three or
+// more neighbours are clustered into junction candidates (thinning leaves small blobs at
+// crossings); those that turn out to join only two edges are merged away. Dead ends have
+// one neighbour, or are where the skeleton runs out, e.g. at the raster edge.
+export function roadGraphFromSkeleton(skeleton: ArrayLike<number>, raster: GeoRaster, options: SkeletonGraphOptions = {}): RoadGraph {
+  const { width, height } = raster;
+  const on = (x: number, y: number) => x >= 0 && x < width && y >= 0 && y < height && skeleton[y * width + x] > 0;
+
+  // Classify skeleton pixels: 1 = dead end, 2 = junction candidate
+  const kind = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!on(x, y)) continue;
+      const neighbours = RING.filter(([dx, dy]) => on(x + dx, y + dy)).length;
+      if (neighbours === 1) kind[y * width + x] = 1;
+      else if (neighbours >= 3) kind[y * width + x] = 2;
+    }
+  }
+
+  // Touching junction pixels form one node at their centroid; every dead end is a node
+  const label = new Int32Array(width * height).fill(-1);
+  const positions: GraphPoint[] = [];
+  for (let start = 0; start < kind.length; start++) {
+    if (kind[start] === 0 || label[start] >= 0) continue;
+    const id = positions.length;
+    const cluster = [start];
+    label[start] = id;
+    for (let i = 0; i < cluster.length && kind[start] === 2; i++) {
+      const cx = cluster[i] % width;
+      const cy = Math.floor(cluster[i] / width);
+      for (const [dx, dy] of RING) {
+        const n = (cy + dy) * width + cx + dx;
+        if (on(cx + dx, cy + dy) && kind[n] === 2 && label[n] < 0) {
+          label[n] = id;
+          cluster.push(n);
+        }
+      }
+    }
+    const x = cluster.reduce((sum, p) => sum + p % width, 0) / cluster.length + 0.5;
+    const y = cluster.reduce((sum, p) => sum + Math.floor(p / width), 0) / cluster.length + 0.5;
+    positions.push(rasterPixelToEnu(raster, x, y));
+  }
+
+  // Walk the skeleton from every node until another node (or the same one, for loops)
+  const visited = new Uint8Array(width * height);
+  const adjacentNodes = new Set<string>();
+  const raw: RawEdge[] = [];
+  for (let p = 0; p < label.length; p++) {
+    if (label[p] < 0) continue;
+    const fromNode = label[p];
+    const px = p % width;
+    const py = Math.floor(p / width);
+
+    for (const [dx, dy] of RING) {
+      const q = (py + dy) * width + px + dx;
+      if (!on(px + dx, py + dy) || label[q] === fromNode) continue;
+      if (label[q] >= 0) {
+        // Two nodes side by side, joined once
+        const key = `${Math.min(fromNode, label[q])}-${Math.max(fromNode, label[q])}`;
+        if (!adjacentNodes.has(key)) {
+          adjacentNodes.add(key);
+          raw.push({ from: fromNode, to: label[q], points: [positions[fromNode], positions[label[q]]], width: 0 });
+        }
+        continue;
+      }
+      if (visited[q]) continue;
+
+      const path = [q];
+      visited[q] = 1;
+      let toNode = -1;
+      while (toNode < 0) {
+        const current = path[path.length - 1];
+        const next = nextSkeletonPixel(current, path.length, fromNode, width, on, label, visited);
+        if (next >= 0 && label[next] >= 0) {
+          toNode = label[next];
+        } else if (next >= 0) {
+          visited[next] = 1;
+          path.push(next);
+        } else {
+          // Nowhere left to go, e.g. a road running off the raster: a dead end
+          toNode = positions.length;
+          label[current] = toNode;
+          positions.push(rasterPixelToEnu(raster, current % width + 0.5, Math.floor(current / width) + 0.5));
+          path.pop();
+        }
+      }
+
+      const pixels = path.map(i => rasterPixelToEnu(raster, i % width + 0.5, Math.floor(i / width) + 0.5));
+      const points = simplifyPolyline([positions[fromNode], ...pixels, positions[toNode]], raster.metersPerPixel);
+      const edgeWidth = options.roadMask ? medianCrossWidth(options.roadMask, path, raster) : 0;
+      raw.push({ from: fromNode, to: toNode, points, width: edgeWidth });
+    }
+  }
+
+  return buildGraph(positions, raw, options.minSpurMeters ?? 8, options.mergeMeters ?? 4);
+}
+
+// Nodes with three or more edges
+export function graphJunctions(graph: RoadGraph): RoadGraphNode[] {
+  return graph.nodes.filter(node => node.degree >= 3);
+}
+
+// Helper functions
+// Next pixel of a skeleton walk: a node pixel if one is adjacent (the start node only once the
+// walk is long enough to be a loop), else an unvisited pixel, 4-neighbours before diagonals
+function nextSkeletonPixel(
+  current: number,
+  steps: number,
+  fromNode: number,
+  width: number,
+  on: (x: number, y: number) => boolean,
+  label: Int32Array,
+  visited: Uint8Array
+): number {
+  const cx = current % width;
+  const cy = Math.floor(current / width);
+  let step = -1;
+  for (const [dx, dy] of [[0, -1], [1, 0], [0, 1], [-1, 0], [-1, -1], [1, -1], [1, 1], [-1, 1]]) {
+    if (!on(cx + dx, cy + dy)) continue;
+    const n = (cy + dy) * width + cx + dx;
+    if (label[n] >= 0 && (label[n] !== fromNode || steps > 3)) return n;
+    if (label[n] < 0 && !visited[n] && step < 0) step = n;
+  }
+  return step;
+}
+
+// Median width of the road mask across the path, measured along the local normal every few pixels
+function medianCrossWidth(mask: ArrayLike<number>, path: number[], raster: GeoRaster): number {
+  const { width, height } = raster;
+  const inside = (x: number, y: number) => {
+    const ix = Math.floor(x);
+    const iy = Math.floor(y);
+    return ix >= 0 && ix < width && iy >= 0 && iy < height && mask[iy * width + ix] > 0;
+  };
+
+  const widths: number[] = [];
+  for (let i = 2; i < path.length - 2; i += 3) {
+    const dx = path[i + 2] % width - path[i - 2] % width;
+    const dy = Math.floor(path[i + 2] / width) - Math.floor(path[i - 2] / width);
+    const length = Math.hypot(dx, dy);
+    if (length === 0) continue;
+    const nx = -dy / length;
+    const ny = dx / length;
+    const x = path[i] % width + 0.5;
+    const y = Math.floor(path[i] / width) + 0.5;
+
+    let run = 0;
+    for (const side of [1, -1]) {
+      let t = 0.5;
+      while (t < 64 && inside(x + side * nx * t, y + side * ny * t)) t += 0.5;
+      run += t - 0.5;
+    }
+    widths.push(run * raster.metersPerPixel);
+  }
+
+  if (widths.length === 0) return 0;
+  widths.sort((a, b) => a - b);
+  return widths[Math.floor(widths.length / 2)];
+}
+
+// Douglas–Peucker, ends kept
+function simplifyPolyline(points: GraphPoint[], tolerance: number): GraphPoint[] {
+  if (points.length <= 2) return points;
+  const first = points[0];
+  const last = points[points.length - 1];
+  const dx = last.east - first.east;
+  const dy = last.north - first.north;
+  const length = Math.hypot(dx, dy);
+
+  let worst = 0;
+  let index = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    const px = points[i].east - first.east;
+    const py = points[i].north - first.north;
+    const distance = length > 0 ? Math.abs(px * dy - py * dx) / length : Math.hypot(px, py);
+    if (distance > worst) {
+      worst = distance;
+      index = i;
+    }
+  }
+
+  if (worst <= tolerance) return [first, last];
+  return [...simplifyPolyline(points.slice(0, index + 1), tolerance).slice(0, -1), ...simplifyPolyline(points.slice(index), tolerance)];
+}
+
+// Drop short spurs and tiny loops, contract short edges between junctions, merge degree-2
+// nodes, then number everything and measure it
+function buildGraph(positions: GraphPoint[], raw: RawEdge[], minSpurMeters: number, mergeMeters: number): RoadGraph {
+  let edges = raw.filter(edge => edge.points.length >= 2);
+  positions = [...positions];
+
+  for (let changed = true; changed;) {
+    changed = false;
+    const degree = edgeDegrees(positions.length, edges);
+
+    if (minSpurMeters > 0) {
+      const kept = edges.filter(edge => {
+        const spur = edge.from === edge.to ||
+          (degree[edge.from] === 1 && degree[edge.to] >= 3) || (degree[edge.to] === 1 && degree[edge.from] >= 3);
+        return !spur || polylineLength(edge.points) >= minSpurMeters;
+      });
+      if (kept.length < edges.length) {
+        edges = kept;
+        changed = true;
+        continue;
+      }
+    }
+
+    // Both ends of a short edge between junctions move to its middle
+    const short = edges.find(edge => edge.from !== edge.to && degree[edge.from] >= 3 && degree[edge.to] >= 3 &&
+      polylineLength(edge.points) < mergeMeters);
+    if (short) {
+      const { from, to } = short;
+      const middle = {
+        east: (positions[from].east + positions[to].east) / 2,
+        north: (positions[from].north + positions[to].north) / 2
+      };
+      positions[from] = middle;
+      edges = edges.filter(edge => edge !== short).map(edge => {
+        const points = [...edge.points];
+        const moved = { ...edge, from: edge.from === to ? from : edge.from, to: edge.to === to ? from : edge.to, points };
+        if (moved.from === from) points[0] = middle;
+        if (moved.to === from) points[points.length - 1] = middle;
+        return moved;
+      });
+      changed = true;
+      continue;
+    }
+
+    // A node where exactly two different edges meet joins them into one
+    for (let node = 0; node < positions.length && !changed; node++) {
+      if (degree[node] !== 2) continue;
+      const incident = edges.filter(edge => edge.from === node || edge.to === node);
+      if (incident.length !== 2) continue;
+
+      const [a, b] = incident.map(edge => edge.to === node ? edge : reverseEdge(edge));
+      const b2 = reverseEdge(b);
+      const lengthA = polylineLength(a.points);
+      const lengthB = polylineLength(b2.points);
+      const widths = [[a.width, lengthA], [b2.width, lengthB]].filter(([w]) => w > 0);
+      const merged: RawEdge = {
+        from: a.from,
+        to: b2.to,
+        points: [...a.points, ...b2.points.slice(1)],
+        width: widths.length === 0 ? 0 : widths.reduce((sum, [w, l]) => sum + w * l, 0) / widths.reduce((sum, [, l]) => sum + l, 0)
+      };
+      edges = [...edges.filter(edge => edge !== incident[0] && edge !== incident[1]), merged];
+      changed = true;
+    }
+  }
+
+  // Renumber the nodes still in use
+  const degree = edgeDegrees(positions.length, edges);
+  const newId = new Int32Array(positions.length).fill(-1);
+  const nodes: RoadGraphNode[] = [];
+  positions.forEach((position, i) => {
+    if (degree[i] === 0) return;
+    newId[i] = nodes.length;
+    nodes.push({ id: nodes.length, position, degree: degree[i], arms: [], signature: [] });
+  });
+
+  const graphEdges: RoadGraphEdge[] = edges.map((edge, id) => {
+    const first = edge.points[0];
+    const last = edge.points[edge.points.length - 1];
+    return {
+      id,
+      from: newId[edge.from],
+      to: newId[edge.to],
+      points: edge.points,
+      length: polylineLength(edge.points),
+      bearing: Math.atan2(last.north - first.north, last.east - first.east),
+      width: edge.width
+    };
+  });
+
+  for (const edge of graphEdges) {
+    nodes[edge.from].arms.push({ edge: edge.id, bearing: armBearing(edge.points) });
+    nodes[edge.to].arms.push({ edge: edge.id, bearing: armBearing([...edge.points].reverse()) });
+  }
+  for (const node of nodes) {
+    node.arms.sort((a, b) => a.bearing - b.bearing);
+    node.signature = node.arms.map((arm, i) => {
+      const next = node.arms[(i + 1) % node.arms.length];
+      return i === node.arms.length - 1 ? next.bearing + 2 * Math.PI - arm.bearing : next.bearing - arm.bearing;
+    });
+  }
+
+  return { nodes, edges: graphEdges };
+}
+
+function edgeDegrees(count: number, edges: RawEdge[]): Int32Array {
+  const degree = new Int32Array(count);
+  for (const edge of edges) {
+    degree[edge.from]++;
+    degree[edge.to]++;
+  }
+  return degree;
+}
+
+function reverseEdge(edge: RawEdge): RawEdge {
+  return { from: edge.to, to: edge.from, points: [...edge.points].reverse(), width: edge.width };
+}
+
+function polylineLength(points: GraphPoint[]): number {
+  let length = 0;
+  for (let i = 1; i < points.length; i++) {
+    length += Math.hypot(points[i].east - points[i - 1].east, points[i].north - points[i - 1].north);
+  }
+  return length;
+}
+
+// Direction from the first point to the point ARM_LENGTH_METERS along, in [0, 2π)
+function armBearing(points: GraphPoint[]): number {
+  const start = points[0];
+  let target = points[points.length - 1];
+  let travelled = 0;
+  for (let i = 1; i < points.length; i++) {
+    const step = Math.hypot(points[i].east - points[i - 1].east, points[i].north - points[i - 1].north);
+    if (travelled + step >= ARM_LENGTH_METERS) {
+      const t = (ARM_LENGTH_METERS - travelled) / step;
+      target = {
+        east: points[i - 1].east + t * (points[i].east - points[i - 1].east),
+        north: points[i - 1].north + t * (points[i].north - points[i - 1].north)
+      };
+      break;
+    }
+    travelled += step;
+  }
+
+  const bearing = Math.atan2(target.north - start.north, target.east - start.east);
+  return bearing < 0 ? bearing + 2 * Math.PI : bearing;
+}
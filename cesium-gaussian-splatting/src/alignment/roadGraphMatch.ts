@@ -0,0 +1,283 @@
+// src/alignment/roadGraphMatch.ts
+import { SimilarityEstimate } from "./fourierMellin";
+import { GraphPoint, RoadGraph, RoadGraphNode, graphJunctions } from "./roadGraph";
+
+export type GraphMatchOptions = {
+  center?: GraphPoint;            // rotation and scale are about this point, e.g. the render centre (default the origin)
+  maxRotationRad?: number;        // how far off the heading may be (default π: anything)
+  maxShiftMeters?: number;        // how far off the position may be (default: anything)
+  estimateScale?: boolean;        // solve scale once two or more junctions match (default true)
+  scaleRange?: [number, number];  // solved scales outside this are rejected (default [0.5, 2])
+  angleTolerance?: number;        // radians; arm bearings that agree within this match (default 12°)
+  distanceTolerance?: number;     // metres; junctions and edges this close match (default 6)
+};
+
+// Similarity taking the moving graph onto the reference, in the convention of
+// ImageRegistration:  p_ref = c + scale * R(rotation) * (p_mov - c) + t  with c = center
+export type GraphMatch = SimilarityEstimate & {
+  junctionPairs: { moving: number; reference: number }[];  // node ids matched under the transform
+  coverage: number;  // share of the moving edge length lying along reference edges
+};
+
+// p' = scale * R(theta) * p + (tx, ty), about the frame origin
+type Pose = { theta: number; scale: number; tx: number; ty: number };
+
+type EdgeSample = { point: GraphPoint; dx: number; dy: number; weight: number };
+
+// Graph-to-graph matching. Every junction of the moving graph (e.g. from the splat skeleton)
+// is tried against every reference junction (OSM) whose arms it can be turned onto; arms may
+// be missing in the moving graph, not added. Each such pairing fixes rotation and position,
+// and is scored by how much of the moving network then lies along reference roads, so one
+// distinctive junction is enough. With two or more junctions matched, the pose (and scale)
+// is refined by least squares on the junction positions. Confidence is the best coverage
+// less that of the best clearly different pose, so symmetric crossings without a heading
+// prior come out ambiguous.
+export function matchRoadGraphs(moving: RoadGraph, reference: RoadGraph, options: GraphMatchOptions = {}): GraphMatch {
+  const center = options.center ?? { east: 0, north: 0 };
+  const maxRotation = options.maxRotationRad ?? Math.PI;
+  const maxShift = options.maxShiftMeters ?? Infinity;
+  const estimateScale = options.estimateScale ?? true;
+  const [minScale, maxScale] = options.scaleRange ?? [0.5, 2];
+  const angleTolerance = options.angleTolerance ?? 12 * Math.PI / 180;
+  const distanceTolerance = options.distanceTolerance ?? 6;
+
+  const movingJunctions = graphJunctions(moving);
+  const referenceJunctions = graphJunctions(reference);
+  const none: GraphMatch = {
+    rotationRad: 0, scale: 1, translationMeters: { east: 0, north: 0 }, confidence: 0, junctionPairs: [], coverage: 0
+  };
+  if (movingJunctions.length === 0 || referenceJunctions.length === 0) return none;
+
+  const index = new SegmentIndex(reference, distanceTolerance);
+  const samples = sampleEdges(moving, distanceTolerance / 2);
+  const totalWeight = samples.reduce((sum, sample) => sum + sample.weight, 0);
+  const maxCross = Math.sin(2 * angleTolerance);
+
+  const coverage = (pose: Pose) => {
+    const cos = Math.cos(pose.theta);
+    const sin = Math.sin(pose.theta);
+    let covered = 0;
+    for (const { point, dx, dy, weight } of samples) {
+      const p = applyPose(pose, point);
+      if (index.near(p, cos * dx - sin * dy, sin * dx + cos * dy, maxCross)) covered += weight;
+    }
+    return totalWeight > 0 ? covered / totalWeight : 0;
+  };
+
+  const pairJunctions = (pose: Pose) => {
+    const candidates: { moving: RoadGraphNode; reference: RoadGraphNode; distance: number }[] = [];
+    for (const a of movingJunctions) {
+      const p = applyPose(pose, a.position);
+      for (const b of referenceJunctions) {
+        const distance = Math.hypot(p.east - b.position.east, p.north - b.position.north);
+        if (distance < distanceTolerance) candidates.push({ moving: a, reference: b, distance });
+      }
+    }
+    candidates.sort((x, y) => x.distance - y.distance);
+    const used = new Set<RoadGraphNode>();
+    return candidates.filter(pair => {
+      if (used.has(pair.moving) || used.has(pair.reference)) return false;
+      used.add(pair.moving);
+      used.add(pair.reference);
+      return true;
+    });
+  };
+
+  const withinPrior = (pose: Pose) => {
+    const shifted = applyPose(pose, center);
+    return Math.abs(wrapAngle(pose.theta)) <= maxRotation &&
+      pose.scale >= minScale && pose.scale <= maxScale &&
+      Math.hypot(shifted.east - center.east, shifted.north - center.north) <= maxShift;
+  };
+
+  const scored: { pose: Pose; score: number; coverage: number; pairs: ReturnType<typeof pairJunctions> }[] = [];
+  const seen = new Set<string>();
+  for (const a of movingJunctions) {
+    for (const b of referenceJunctions) {
+      if (b.degree < a.degree) continue;
+
+      for (const anchorArm of b.arms) {
+        const theta = armRotation(a, b, wrapAngle(anchorArm.bearing - a.arms[0].bearing), angleTolerance);
+        if (theta === null) continue;
+        let pose = poseFromPair(a.position, b.position, theta, 1);
+        if (!withinPrior(pose)) continue;
+
+        const key = `${Math.round(theta / angleTolerance)}|${Math.round(pose.tx / distanceTolerance)}|${Math.round(pose.ty / distanceTolerance)}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        let pairs = pairJunctions(pose);
+        let covered = coverage(pose);
+        if (pairs.length >= 2) {
+          const refined = solvePose(pairs.map(pair => pair.moving.position), pairs.map(pair => pair.reference.position), estimateScale);
+          if (withinPrior(refined)) {
+            const refinedCoverage = coverage(refined);
+            if (refinedCoverage >= covered) {
+              pose = refined;
+              covered = refinedCoverage;
+              pairs = pairJunctions(pose);
+            }
+          }
+        }
+        scored.push({ pose, coverage: covered, pairs, score: covered + 1e-3 * pairs.length });
+      }
+    }
+  }
+  if (scored.length === 0) return none;
+
+  scored.sort((x, y) => y.score - x.score);
+  const best = scored[0];
+  const bestCenter = applyPose(best.pose, center);
+  const rival = scored.find(({ pose }) => {
+    const c = applyPose(pose, center);
+    return Math.abs(wrapAngle(pose.theta - best.pose.theta)) > angleTolerance ||
+      Math.hypot(c.east - bestCenter.east, c.north - bestCenter.north) > distanceTolerance;
+  });
+
+  return {
+    rotationRad: wrapAngle(best.pose.theta),
+    scale: best.pose.scale,
+    // t = T + sR·c - c, so that the rotation is about center
+    translationMeters: { east: bestCenter.east - center.east, north: bestCenter.north - center.north },
+    confidence: Math.max(0, best.coverage - (rival?.coverage ?? 0)),
+    junctionPairs: best.pairs.map(pair => ({ moving: pair.moving.id, reference: pair.reference.id })),
+    coverage: best.coverage
+  };
+}
+
+// Helper functions
+// Rotation turning every arm of a onto a distinct arm of b, starting from the guess theta;
+// null if some arm has no partner within tolerance
+function armRotation(a: RoadGraphNode, b: RoadGraphNode, theta: number, tolerance: number): number | null {
+  const used = new Set<number>();
+  let sumSin = 0;
+  let sumCos = 0;
+  for (const arm of a.arms) {
+    let bestIndex = -1;
+    let bestDiff = tolerance;
+    b.arms.forEach((candidate, i) => {
+      const diff = Math.abs(wrapAngle(candidate.bearing - arm.bearing - theta));
+      if (!used.has(i) && diff <= bestDiff) {
+        bestIndex = i;
+        bestDiff = diff;
+      }
+    });
+    if (bestIndex < 0) return null;
+    used.add(bestIndex);
+    const residual = wrapAngle(b.arms[bestIndex].bearing - arm.bearing - theta);
+    sumSin += Math.sin(residual);
+    sumCos += Math.cos(residual);
+  }
+  return wrapAngle(theta + Math.atan2(sumSin, sumCos));
+}
+
+function poseFromPair(from: GraphPoint, to: GraphPoint, theta: number, scale: number): Pose {
+  const cos = Math.cos(theta) * scale;
+  const sin = Math.sin(theta) * scale;
+  return { theta, scale, tx: to.east - (cos * from.east - sin * from.north), ty: to.north - (sin * from.east + cos * from.north) };
+}
+
+// Least-squares 2D similarity (Umeyama), or rigid when scale is not estimated
+function solvePose(source: GraphPoint[], target: GraphPoint[], estimateScale: boolean): Pose {
+  const mean = (points: GraphPoint[]) => ({
+    east: points.reduce((sum, p) => sum + p.east, 0) / points.length,
+    north: points.reduce((sum, p) => sum + p.north, 0) / points.length
+  });
+  const cs = mean(source);
+  const ct = mean(target);
+
+  let dot = 0;
+  let cross = 0;
+  let variance = 0;
+  source.forEach((p, i) => {
+    const ax = p.east - cs.east;
+    const ay = p.north - cs.north;
+    const bx = target[i].east - ct.east;
+    const by = target[i].north - ct.north;
+    dot += ax * bx + ay * by;
+    cross += ax * by - ay * bx;
+    variance += ax * ax + ay * ay;
+  });
+
+  const theta = Math.atan2(cross, dot);
+  const scale = estimateScale && variance > 1e-9 ? Math.hypot(dot, cross) / variance : 1;
+  return poseFromPair(cs, ct, theta, scale);
+}
+
+function applyPose(pose: Pose, p: GraphPoint): GraphPoint {
+  const cos = Math.cos(pose.theta) * pose.scale;
+  const sin = Math.sin(pose.theta) * pose.scale;
+  return { east: cos * p.east - sin * p.north + pose.tx, north: sin * p.east + cos * p.north + pose.ty };
+}
+
+function wrapAngle(angle: number): number {
+  return angle - 2 * Math.PI * Math.round(angle / (2 * Math.PI));
+}
+
+// Points along every edge with the local unit direction and the length they stand for
+function sampleEdges(graph: RoadGraph, spacing: number): EdgeSample[] {
+  const samples: EdgeSample[] = [];
+  for (const edge of graph.edges) {
+    for (let i = 1; i < edge.points.length; i++) {
+      const a = edge.points[i - 1];
+      const b = edge.points[i];
+      const length = Math.hypot(b.east - a.east, b.north - a.north);
+      if (length === 0) continue;
+      const n = Math.max(1, Math.ceil(length / spacing));
+      const dx = (b.east - a.east) / length;
+      const dy = (b.north - a.north) / length;
+      for (let k = 0; k < n; k++) {
+        const t = (k + 0.5) / n;
+        samples.push({ point: { east: a.east + t * (b.east - a.east), north: a.north + t * (b.north - a.north) }, dx, dy, weight: length / n });
+      }
+    }
+  }
+  return samples;
+}
+
+// Reference edge segments bucketed on a grid of the match distance, for near-segment queries
+class SegmentIndex {
+  private cellSize: number;
+  private cells = new Map<string, number[]>();
+  private segments: { ax: number; ay: number; bx: number; by: number; dx: number; dy: number; length: number }[] = [];
+
+  constructor(graph: RoadGraph, cellSize: number) {
+    this.cellSize = cellSize;
+    for (const edge of graph.edges) {
+      for (let i = 1; i < edge.points.length; i++) {
+        const a = edge.points[i - 1];
+        const b = edge.points[i];
+        const length = Math.hypot(b.east - a.east, b.north - a.north);
+        if (length === 0) continue;
+
+        const id = this.segments.length;
+        this.segments.push({ ax: a.east, ay: a.north, bx: b.east, by: b.north, dx: (b.east - a.east) / length, dy: (b.north - a.north) / length, length });
+        const x0 = Math.floor(Math.min(a.east, b.east) / cellSize) - 1;
+        const x1 = Math.floor(Math.max(a.east, b.east) / cellSize) + 1;
+        const y0 = Math.floor(Math.min(a.north, b.north) / cellSize) - 1;
+        const y1 = Math.floor(Math.max(a.north, b.north) / cellSize) + 1;
+        for (let x = x0; x <= x1; x++) {
+          for (let y = y0; y <= y1; y++) {
+            const key = `${x},${y}`;
+            if (!this.cells.has(key)) this.cells.set(key, []);
+            this.cells.get(key)!.push(id);
+          }
+        }
+      }
+    }
+  }
+
+  // Whether a segment within cellSize of p runs along (dx, dy), either way
+  public near(p: GraphPoint, dx: number, dy: number, maxCross: number): boolean {
+    const ids = this.cells.get(`${Math.floor(p.east / this.cellSize)},${Math.floor(p.north / this.cellSize)}`);
+    if (!ids) return false;
+
+    for (const id of ids) {
+      const s = this.segments[id];
+      if (Math.abs(dx * s.dy - dy * s.dx) > maxCross) continue;
+      const t = Math.max(0, Math.min(s.length, (p.east - s.ax) * s.dx + (p.north - s.ay) * s.dy));
+      if (Math.hypot(p.east - (s.ax + t * s.dx), p.north - (s.ay + t * s.dy)) < this.cellSize) return true;
+    }
+    return false;
+  }
+}
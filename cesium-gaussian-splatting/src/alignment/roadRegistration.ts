@@ -0,0 +1,176 @@
+// src/alignment/roadRegistration.ts
+import * as Cesium from "cesium";
+import { EnuParams, GeoAnchor } from "../types/alignment";
+import type { OSMFeature, OSMFeatureKind, OSMRoad } from "../road-data-provider";
+import { SplatArrays } from "../export/plyExport";
+import { EnuBounds, GeoRaster, enuToRasterPixel, rasterPixelToEnu } from "../raster/geoRaster";
+import { renderSplatsOrtho } from "../raster/orthoSplatRender";
+import { rasterizeFeatures, rasterizeRoads, roadMaskRaster } from "../raster/roadRaster";
+import { composeEnuMatrix } from "./composeModelMatrix";
+import { EnuDelta, RasterRegistration, SimilarityEstimate, applyEnuDelta, registerRasters, registrationToEnuDelta } from "./fourierMellin";
+
+// What the render is registered onto: road centrelines, or mapped features
+export type AlignmentTarget = "roads" | OSMFeatureKind;
+export const ALIGNMENT_TARGETS: AlignmentTarget[] = ["roads", "building", "footway", "kerb", "crossing"];
+
+export type RoadRegistrationOptions = {
+  margin?: number;          // metres rendered around the splat footprint, the largest shift found (default 30)
+  maxSize?: number;         // render size in pixels when metersPerPixel is not given (default 1024)
+  metersPerPixel?: number;
+  features?: OSMFeature[];  // needed for targets other than roads
+  targets?: AlignmentTarget[]; // default ["roads"]
+};
+
+export type RoadRegistration = RasterRegistration & {
+  params: Partial<EnuParams>; // new placement for setEnuParams
+  delta: EnuDelta;
+  splatRaster: GeoRaster;     // top-down render the registration was computed on
+  roadRaster: GeoRaster;      // roads (or the other targets) drawn on the same grid
+};
+
+// Registration of the road pixels of a splat render onto roads drawn on the same grid
+export function registerRenderToRoads(splatRaster: GeoRaster, roads: OSMRoad[]): RasterRegistration {
+  return registerRasters(coveredRoadRaster(roads, splatRaster), roadMaskRaster(splatRaster), { features: "intensity" });
+}
+
+// Registration of a splat render onto mapped targets. Roads alone use the road mask of the
+// render; with other features everything is drawn filled and the render's edges are matched
+// to their outlines.
+export function registerRenderToTargets(
+  splatRaster: GeoRaster,
+  roads: OSMRoad[],
+  features: OSMFeature[],
+  targets: AlignmentTarget[]
+): { registration: RasterRegistration; targetRaster: GeoRaster } {
+  const kinds = targets.filter((target): target is OSMFeatureKind => target !== "roads");
+  if (kinds.length === 0) {
+    const targetRaster = coveredRoadRaster(roads, splatRaster);
+    return { registration: registerRasters(targetRaster, roadMaskRaster(splatRaster), { features: "intensity" }), targetRaster };
+  }
+
+  const targetRaster = rasterizeFeatures(features, splatRaster, kinds);
+  if (targets.includes("roads")) {
+    const roadRaster = rasterizeRoads(roads, splatRaster);
+    for (let k = 0; k < targetRaster.data.length; k += 4) {
+      targetRaster.data[k] = targetRaster.data[k + 1] = targetRaster.data[k + 2] = Math.max(targetRaster.data[k], roadRaster.data[k]);
+    }
+  }
+  for (let k = 3; k < targetRaster.data.length; k += 4) targetRaster.data[k] = splatRaster.data[k];
+
+  return { registration: registerRasters(targetRaster, splatRaster, { features: "edges" }), targetRaster };
+}
+
+// Share of the road pixels of a splat render that land on mapped roads once a registration
+// is applied. Registrations from imagery, roads and road graphs score their own confidence
+// differently; this ranks them on the same scale.
+export function roadOverlap(splatRaster: GeoRaster, roads: OSMRoad[], registration: SimilarityEstimate): number {
+  const mask = roadMaskRaster(splatRaster);
+  const mapped = rasterizeRoads(roads, splatRaster);
+  const { width, height } = splatRaster;
+
+  // p_ref = c + scale * R * (p - c) + t about the raster centre, in ENU metres
+  const center = rasterPixelToEnu(splatRaster, width / 2, height / 2);
+  const cos = Math.cos(registration.rotationRad) * registration.scale;
+  const sin = Math.sin(registration.rotationRad) * registration.scale;
+
+  let roadPixels = 0;
+  let onRoads = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const k = (y * width + x) * 4;
+      if (mask.data[k] === 0 || mask.data[k + 3] === 0) continue;
+      roadPixels++;
+
+      const p = rasterPixelToEnu(splatRaster, x + 0.5, y + 0.5);
+      const dx = p.east - center.east;
+      const dy = p.north - center.north;
+      const target = enuToRasterPixel(
+        splatRaster,
+        center.east + cos * dx - sin * dy + registration.translationMeters.east,
+        center.north + sin * dx + cos * dy + registration.translationMeters.north
+      );
+      const tx = Math.floor(target.x);
+      const ty = Math.floor(target.y);
+      if (tx >= 0 && ty >= 0 && tx < width && ty < height && mapped.data[(ty * width + tx) * 4] > 0) onRoads++;
+    }
+  }
+
+  return roadPixels > 0 ? onRoads / roadPixels : 0;
+}
+
+// Below this the registration peak is too ambiguous to move the splat
+export const MIN_REGISTRATION_CONFIDENCE = 0.25;
+
+// Candidates scored with roadOverlap: among those that pass MIN_REGISTRATION_CONFIDENCE the one
+// putting most road pixels on mapped roads wins, so a confident but repetitive match (e.g. keypoints
+// on parking bays) does not win by confidence alone. Without a confident one the most confident is
+// returned, and the caller rejects it.
+export function pickRegistration<T extends { registration: SimilarityEstimate; overlap: number }>(scored: T[]): T {
+  if (scored.length === 0) throw new Error("No registrations to pick from");
+  const confident = scored.filter(candidate => candidate.registration.confidence >= MIN_REGISTRATION_CONFIDENCE);
+  return confident.length > 0
+    ? confident.reduce((a, b) => b.overlap > a.overlap ? b : a)
+    : scored.reduce((a, b) => b.registration.confidence > a.registration.confidence ? b : a);
+}
+
+// Road alignment without a browser: the splats, placed with params around anchor, are rendered
+// top-down over their footprint plus a margin and registered onto the roads (or other targets)
+export function alignSplatsToRoads(
+  splats: SplatArrays,
+  anchor: GeoAnchor,
+  params: EnuParams,
+  roads: OSMRoad[],
+  options: RoadRegistrationOptions = {}
+): RoadRegistration {
+  const targets = options.targets ?? ["roads"];
+  const hasTargets = (targets.includes("roads") && roads.length > 0) ||
+    (options.features ?? []).some(feature => targets.includes(feature.kind));
+  if (!hasTargets) throw new Error(`Nothing to align to: no ${targets.join(", ")} in the map data`);
+
+  const modelToEnu = Cesium.Matrix4.toArray(composeEnuMatrix(params));
+  const footprint = splatFootprint(splats, modelToEnu, 0.01);
+  const margin = options.margin ?? 30;
+  const size = Math.max(footprint.east - footprint.west, footprint.north - footprint.south) + 2 * margin;
+  const centerEast = (footprint.west + footprint.east) / 2;
+  const centerNorth = (footprint.south + footprint.north) / 2;
+
+  const splatRaster = renderSplatsOrtho(splats, modelToEnu, anchor, {
+    bounds: { west: centerEast - size / 2, south: centerNorth - size / 2, east: centerEast + size / 2, north: centerNorth + size / 2 },
+    metersPerPixel: options.metersPerPixel ?? size / (options.maxSize ?? 1024)
+  });
+
+  const { registration, targetRaster } = registerRenderToTargets(splatRaster, roads, options.features ?? [], targets);
+  const delta = registrationToEnuDelta(registration, params, splatRaster);
+
+  return { ...registration, params: applyEnuDelta(params, delta), delta, splatRaster, roadRaster: targetRaster };
+}
+
+// Helper functions
+// Roads only where the render has splats: roads beyond the capture change the spectrum
+// enough to throw off the rotation estimate
+function coveredRoadRaster(roads: OSMRoad[], splatRaster: GeoRaster): GeoRaster {
+  const raster = rasterizeRoads(roads, splatRaster);
+  for (let k = 3; k < raster.data.length; k += 4) raster.data[k] = splatRaster.data[k];
+  return raster;
+}
+
+// East/north extent of the splat centres in ENU, without the outer trim fraction on each side
+function splatFootprint(splats: SplatArrays, m: number[], trim: number): EnuBounds {
+  if (splats.count === 0) throw new Error("The splat file is empty");
+
+  const stride = Math.max(1, Math.floor(splats.count / 50000));
+  const east: number[] = [];
+  const north: number[] = [];
+  for (let i = 0; i < splats.count; i += stride) {
+    const x = splats.centers[i * 3];
+    const y = splats.centers[i * 3 + 1];
+    const z = splats.centers[i * 3 + 2];
+    east.push(m[0] * x + m[4] * y + m[8] * z + m[12]);
+    north.push(m[1] * x + m[5] * y + m[9] * z + m[13]);
+  }
+  east.sort((a, b) => a - b);
+  north.sort((a, b) => a - b);
+
+  const cut = Math.floor(east.length * trim);
+  return { west: east[cut], east: east[east.length - 1 - cut], south: north[cut], north: north[north.length - 1 - cut] };
+}
@@ -0,0 +1,298 @@
+// src/alignment/roadWidthMeasurement.ts
+import type { OSMRoad } from "../road-data-provider";
+import { GeoRaster, geoToRasterPixel } from "../raster/geoRaster";
+import { roadMaskRaster } from "../raster/roadRaster";
+import { estimateRoadWidthMeters, metersPerUnitFromRoadWidth } from "./scaleCalibration";
+import { median, seededRandom } from "./statistics";
+
+export type RoadWidthOptions = {
+  spacingMeters?: number;       // between cross-sections along a road (default 2)
+  searchMeters?: number;        // how far the splat road may lie off the OSM centreline (default 6)
+  maxGapMeters?: number;        // non-road gaps bridged within a cross-section, e.g. markings (default 0.5)
+  minSections?: number;         // cross-sections a road needs to count (default 5)
+  bootstrapRounds?: number;     // resamples for the confidence interval (default 500)
+  seed?: number;                // bootstrap sampling is seeded so a run is repeatable
+};
+
+// Where the true width of a road comes from: its width tag, lanes × 3.6 m, or the highway class
+export type TrueWidthSource = "width" | "lanes" | "highway";
+
+export type RoadWidthMeasurement = {
+  roadId: string;
+  highway: string;
+  trueWidthMeters: number;
+  trueWidthFrom: TrueWidthSource;
+  measuredMeters: number;      // median cross-section in metres of the render (current placement)
+  measuredWidthUnits: number;  // the same in splat units
+  metersPerUnit: number;       // scale this road alone gives
+  sections: number;            // cross-sections kept
+};
+
+export type RoadWidthCalibration = {
+  metersPerUnit: number;          // the new EnuParams.scale
+  interval: [number, number];     // 95% confidence interval of metersPerUnit
+  scaleFactor: number;            // metersPerUnit over the scale the render was made at
+  roads: RoadWidthMeasurement[];
+  sections: number;               // cross-sections used
+  rejected: number;               // cross-sections dropped as outliers
+};
+
+// Cross-sections stop this far from a junction plus half the widest road there, clear of
+// the other road and of the corner flares
+const CORNER_RADIUS_METERS = 6;
+
+// The mask's variance window eats into the road edges next to textured ground; runs are
+// grown back by up to this much while the render keeps the road's tone
+const EDGE_REFINE_PIXELS = 3;
+const EDGE_TONE_TOLERANCE = 30;
+
+type Section = { along: number; offset: number; widthMeters: number };
+
+// Road widths measured in a top-down splat render, against OSM widths as ground truth, for
+// the splat scale. splatRender must be a render of the layer at metersPerUnit (its metres
+// are metres of the current placement); the placement should be roughly right, so that the
+// OSM centrelines fall within searchMeters of the roads in the render.
+//
+// Along every OSM road, cross-sections are taken every spacingMeters on the OSM normal
+// through the road mask of the render, keeping the road run nearest the centreline. Runs
+// that are truncated by the render's coverage or reach the end of the search are dropped,
+// as are sections near junctions. A slope of the run centres along the road means the
+// heading is off and the sections are oblique, and widths are corrected for it.
+//
+// Each section gives trueWidth / measured; outliers (cars, shadows, sidewalks of the same
+// tone) are dropped at 3 MADs of the log ratio. The scale is the median over the rest and
+// the interval a bootstrap over roads (over sections when fewer than three roads are seen,
+// which leaves errors in the OSM widths out). When roads with width or lanes tags give
+// enough sections, roads with only a highway class are not used.
+export function measureRoadWidths(
+  splatRender: GeoRaster,
+  roads: OSMRoad[],
+  metersPerUnit: number,
+  options: RoadWidthOptions = {}
+): RoadWidthCalibration {
+  const spacing = options.spacingMeters ?? 2;
+  const search = options.searchMeters ?? 6;
+  const minSections = options.minSections ?? 5;
+  const mpp = splatRender.metersPerPixel;
+  const mask = roadMaskRaster(splatRender);
+  const junctions = junctionClearances(roads);
+
+  const measured: { road: OSMRoad; trueWidth: number; from: TrueWidthSource; sections: Section[] }[] = [];
+  for (const road of roads) {
+    if (road.geometry.length < 2) continue;
+    const { trueWidth, from } = trueRoadWidth(road);
+    const points = road.geometry.map(point => geoToRasterPixel(splatRender, point.lon, point.lat));
+    const clearances = junctions
+      .map(junction => ({ ...geoToRasterPixel(splatRender, junction.lon, junction.lat), radius: junction.radiusMeters / mpp }));
+
+    const sections: Section[] = [];
+    let along = 0;
+    let next = spacing / 2 / mpp;
+    for (let i = 0; i + 1 < points.length; i++) {
+      const a = points[i];
+      const b = points[i + 1];
+      const length = Math.hypot(b.x - a.x, b.y - a.y);
+      if (length === 0) continue;
+      const dx = (b.x - a.x) / length;
+      const dy = (b.y - a.y) / length;
+
+      for (; next < along + length; next += spacing / mpp) {
+        const x = a.x + dx * (next - along);
+        const y = a.y + dy * (next - along);
+        if (clearances.some(c => Math.hypot(c.x - x, c.y - y) < c.radius)) continue;
+
+        const run = crossSection(splatRender, mask, x, y, -dy, dx, search / mpp, trueWidth / mpp, (options.maxGapMeters ?? 0.5) / mpp);
+        if (run) sections.push({ along: next * mpp, offset: run.center * mpp, widthMeters: run.length * mpp });
+      }
+      along += length;
+    }
+
+    if (sections.length > 0) measured.push({ road, trueWidth, from, sections: correctObliqueSections(sections, minSections) });
+  }
+
+  // Roads with mapped widths only, when they are enough on their own
+  const tagged = measured.filter(m => m.from !== "highway");
+  const used = tagged.reduce((sum, m) => sum + m.sections.length, 0) >= minSections ? tagged : measured;
+
+  // Outliers by the log of trueWidth / measured, pooled over all roads
+  const logRatios = used.flatMap(m => m.sections.map(s => Math.log(m.trueWidth / s.widthMeters)));
+  if (logRatios.length < minSections) {
+    throw new Error(`Only ${logRatios.length} road cross-sections could be measured - check the roads are visible and the splat is roughly placed`);
+  }
+  const center = median(logRatios);
+  const spread = Math.max(0.02, 1.4826 * median(logRatios.map(r => Math.abs(r - center))));
+
+  let rejected = 0;
+  const results: { measurement: RoadWidthMeasurement; factors: number[] }[] = [];
+  for (const m of used) {
+    const factors = m.sections.map(s => m.trueWidth / s.widthMeters).filter(f => Math.abs(Math.log(f) - center) <= 3 * spread);
+    rejected += m.sections.length - factors.length;
+    if (factors.length < minSections) {
+      rejected += factors.length;
+      continue;
+    }
+
+    const measuredMeters = m.trueWidth / median(factors);
+    const measuredWidthUnits = measuredMeters / metersPerUnit;
+    results.push({
+      factors,
+      measurement: {
+        roadId: m.road.id,
+        highway: m.road.tags.highway ?? m.road.type,
+        trueWidthMeters: m.trueWidth,
+        trueWidthFrom: m.from,
+        measuredMeters,
+        measuredWidthUnits,
+        metersPerUnit: metersPerUnitFromRoadWidth({ trueWidthMeters: m.trueWidth, measuredWidthUnits }),
+        sections: factors.length
+      }
+    });
+  }
+  if (results.length === 0) throw new Error("No road has enough consistent cross-sections to calibrate the scale");
+
+  const allFactors = results.flatMap(r => r.factors);
+  const scaleFactor = median(allFactors);
+
+  // Roads are the independent units once there are a few of them; sections along one road share its OSM width
+  const random = seededRandom(options.seed ?? 1);
+  const rounds = options.bootstrapRounds ?? 500;
+  const estimates: number[] = [];
+  for (let round = 0; round < rounds; round++) {
+    const resampled = results.length >= 3
+      ? results.map(() => results[Math.floor(random() * results.length)].factors).flat()
+      : allFactors.map(() => allFactors[Math.floor(random() * allFactors.length)]);
+    estimates.push(median(resampled));
+  }
+  estimates.sort((a, b) => a - b);
+  const lower = estimates[Math.floor(0.025 * (rounds - 1))];
+  const upper = estimates[Math.ceil(0.975 * (rounds - 1))];
+
+  return {
+    metersPerUnit: metersPerUnit * scaleFactor,
+    interval: [metersPerUnit * lower, metersPerUnit * upper],
+    scaleFactor,
+    roads: results.map(r => r.measurement),
+    sections: allFactors.length,
+    rejected
+  };
+}
+
+// Helper functions
+function trueRoadWidth(road: OSMRoad): { trueWidth: number; from: TrueWidthSource } {
+  const highway = road.tags.highway ?? road.type;
+  const width = parseFloat(road.tags.width ?? "");
+  if (Number.isFinite(width) && width > 0) return { trueWidth: width, from: "width" };
+
+  const lanes = parseInt(road.tags.lanes ?? "", 10);
+  if (Number.isFinite(lanes) && lanes > 0) return { trueWidth: estimateRoadWidthMeters(highway, lanes), from: "lanes" };
+  return { trueWidth: estimateRoadWidthMeters(highway), from: "highway" };
+}
+
+// Vertices shared by two or more roads, with how far sections must stay from them
+function junctionClearances(roads: OSMRoad[]): { lat: number; lon: number; radiusMeters: number }[] {
+  const shared = new Map<string, { lat: number; lon: number; count: number; widest: number }>();
+  for (const road of roads) {
+    const width = trueRoadWidth(road).trueWidth;
+    for (const key of new Set(road.geometry.map(p => `${p.lat.toFixed(6)},${p.lon.toFixed(6)}`))) {
+      const [lat, lon] = key.split(",").map(Number);
+      const entry = shared.get(key) ?? { lat, lon, count: 0, widest: 0 };
+      entry.count++;
+      entry.widest = Math.max(entry.widest, width);
+      shared.set(key, entry);
+    }
+  }
+  return [...shared.values()]
+    .filter(entry => entry.count >= 2)
+    .map(({ lat, lon, widest }) => ({ lat, lon, radiusMeters: widest / 2 + CORNER_RADIUS_METERS }));
+}
+
+// The road run of the mask crossing (x, y) along the unit normal (nx, ny), in pixels: the one
+// whose centre is nearest, within search. Null when none is found, when it runs into
+// uncovered pixels or to the end of the scan (an open paved area rather than a road).
+function crossSection(
+  render: GeoRaster,
+  mask: GeoRaster,
+  x: number,
+  y: number,
+  nx: number,
+  ny: number,
+  search: number,
+  expectedWidth: number,
+  maxGap: number
+): { center: number; length: number } | null {
+  const reach = search + 2 * expectedWidth;
+  const step = 0.5;
+  const pixel = (t: number): number => {
+    const ix = Math.floor(x + nx * t);
+    const iy = Math.floor(y + ny * t);
+    if (ix < 0 || iy < 0 || ix >= mask.width || iy >= mask.height) return -1;
+    const k = (iy * mask.width + ix) * 4;
+    return mask.data[k + 3] < 128 ? -1 : k;
+  };
+  const sample = (t: number): number => {
+    const k = pixel(t);
+    return k < 0 ? -1 : mask.data[k] > 0 ? 1 : 0;
+  };
+  const gray = (t: number): number => {
+    const k = pixel(t);
+    return k < 0 ? NaN : render.data[k] * 0.2 + render.data[k + 1] * 0.6 + render.data[k + 2] * 0.2;
+  };
+
+  // Runs of road samples, with gaps up to maxGap bridged; -1 marks where coverage ends
+  const runs: { start: number; end: number; open: boolean }[] = [];
+  let current: { start: number; end: number; open: boolean } | null = null;
+  let previous = -1;
+  for (let t = -reach; t <= reach; t += step) {
+    const value = sample(t);
+    if (value === 1) {
+      if (current && t - current.end <= maxGap + step) {
+        current.end = t;
+      } else {
+        current = { start: t, end: t, open: previous === -1 || t === -reach };
+        runs.push(current);
+      }
+    } else if (value === -1 && current && t - current.end <= step) {
+      current.open = true;
+    }
+    if (value !== 1 && current && t - current.end > maxGap + step) current = null;
+    previous = value;
+  }
+  if (current && current.end + step > reach) current.open = true;
+
+  let best: { start: number; end: number } | null = null;
+  for (const run of runs) {
+    if (run.open || Math.abs((run.start + run.end) / 2) > search) continue;
+    if (!best || Math.abs(run.start + run.end) < Math.abs(best.start + best.end)) best = run;
+  }
+  if (!best) return null;
+
+  // Grow the edges back while the render keeps the road's tone
+  const tones: number[] = [];
+  for (let t = best.start; t <= best.end; t += step) tones.push(gray(t));
+  const tone = median(tones.filter(Number.isFinite));
+  let start = best.start;
+  let end = best.end;
+  while (best.start - start < EDGE_REFINE_PIXELS && Math.abs(gray(start - step) - tone) <= EDGE_TONE_TOLERANCE) start -= step;
+  while (end - best.end < EDGE_REFINE_PIXELS && Math.abs(gray(end + step) - tone) <= EDGE_TONE_TOLERANCE) end += step;
+
+  const length = end - start + step;
+  return length >= 2 ? { center: (start + end) / 2, length } : null;
+}
+
+// When the run centres drift across the road as they go along it, the splat road is turned
+// against the OSM one by atan(drift) and each section is that much too wide
+function correctObliqueSections(sections: Section[], minSections: number): Section[] {
+  if (sections.length < minSections) return sections;
+  const meanAlong = sections.reduce((sum, s) => sum + s.along, 0) / sections.length;
+  const meanOffset = sections.reduce((sum, s) => sum + s.offset, 0) / sections.length;
+  let covariance = 0;
+  let variance = 0;
+  for (const s of sections) {
+    covariance += (s.along - meanAlong) * (s.offset - meanOffset);
+    variance += (s.along - meanAlong) ** 2;
+  }
+  if (variance === 0) return sections;
+
+  const cos = Math.cos(Math.atan(covariance / variance));
+  return sections.map(s => ({ ...s, widthMeters: s.widthMeters * cos }));
+}
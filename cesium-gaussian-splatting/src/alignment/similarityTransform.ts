@@ -0,0 +1,200 @@
+// src/alignment/similarityTransform.ts
+import { Vec3 } from "../types/alignment";
+import { symmetricEigen } from "./eigen";
+
+export type SimilarityTransform = {
+  scale: number;
+  rotation: number[];   // 3x3 rotation matrix, row-major
+  translation: Vec3;
+  residuals: number[];  // per-pair distance after fitting (target units)
+  rmsError: number;
+};
+
+// Least-squares similarity (scale, rotation, translation) mapping source onto target.
+// Rotation from Horn's quaternion method, scale and translation as in Umeyama.
+export function solveSimilarityTransform(source: Vec3[], target: Vec3[]): SimilarityTransform {
+  if (source.length !== target.length) throw new Error("Source and target point counts differ");
+  if (source.length < 3) throw new Error("Need at least 3 point pairs for a similarity transform");
+
+  const n = source.length;
+  const cs = centroid(source);
+  const ct = centroid(target);
+
+  const a = source.map(p => sub(p, cs));
+  const b = target.map(p => sub(p, ct));
+
+  // Cross-covariance S[i][j] = sum a_i * b_j
+  const S = [
+    [0, 0, 0],
+    [0, 0, 0],
+    [0, 0, 0]
+  ];
+  let sourceVariance = 0;
+  for (let k = 0; k < n; k++) {
+    for (let i = 0; i < 3; i++) {
+      for (let j = 0; j < 3; j++) {
+        S[i][j] += a[k][i] * b[k][j];
+      }
+    }
+    sourceVariance += dot(a[k], a[k]);
+  }
+
+  if (sourceVariance < 1e-12) throw new Error("Source points are coincident");
+
+  const [[sxx, sxy, sxz], [syx, syy, syz], [szx, szy, szz]] = S;
+  const N = [
+    [sxx + syy + szz, syz - szy, szx - sxz, sxy - syx],
+    [syz - szy, sxx - syy - szz, sxy + syx, szx + sxz],
+    [szx - sxz, sxy + syx, -sxx + syy - szz, syz + szy],
+    [sxy - syx, szx + sxz, syz + szy, -sxx - syy + szz]
+  ];
+
+  // Quaternion [w,x,y,z] is the eigenvector of the largest eigenvalue
+  const eigen = symmetricEigen(N);
+  const [w, x, y, z] = eigen.vectors[3];
+  const rotation = quaternionToRotation(w, x, y, z);
+
+  let projected = 0;
+  for (let k = 0; k < n; k++) {
+    projected += dot(b[k], rotate(rotation, a[k]));
+  }
+  const scale = projected / sourceVariance;
+  if (scale <= 0) throw new Error("Degenerate point configuration (negative scale)");
+
+  const rcs = rotate(rotation, cs);
+  const translation: Vec3 = [
+    ct[0] - scale * rcs[0],
+    ct[1] - scale * rcs[1],
+    ct[2] - scale * rcs[2]
+  ];
+
+  const residuals = source.map((p, k) => {
+    const mapped = applySimilarity({ scale, rotation, translation }, p);
+    return Math.sqrt(dot(sub(mapped, target[k]), sub(mapped, target[k])));
+  });
+  const rmsError = Math.sqrt(residuals.reduce((sum, r) => sum + r * r, 0) / n);
+
+  return { scale, rotation, translation, residuals, rmsError };
+}
+
+// Least-squares similarity with the rotation limited to yaw about up (z) after a fixed
+// levelling rotation: target ≈ scale * Rz(yaw) * level * source + translation.
+// level is a row-major 3x3 (default identity); two pairs are enough.
+export function solveYawSimilarityTransform(
+  source: Vec3[],
+  target: Vec3[],
+  level: number[] = [1, 0, 0, 0, 1, 0, 0, 0, 1]
+): SimilarityTransform & { yawRad: number } {
+  if (source.length !== target.length) throw new Error("Source and target point counts differ");
+  if (source.length < 2) throw new Error("Need at least 2 point pairs for a yaw-only similarity transform");
+
+  const n = source.length;
+  const levelled = source.map(p => rotate(level, p));
+  const cs = centroid(levelled);
+  const ct = centroid(target);
+
+  const a = levelled.map(p => sub(p, cs));
+  const b = target.map(p => sub(p, ct));
+
+  // Yaw from the horizontal cross terms, as in 2D Umeyama
+  let sin = 0;
+  let cos = 0;
+  let sourceVariance = 0;
+  for (let k = 0; k < n; k++) {
+    sin += a[k][0] * b[k][1] - a[k][1] * b[k][0];
+    cos += a[k][0] * b[k][0] + a[k][1] * b[k][1];
+    sourceVariance += dot(a[k], a[k]);
+  }
+
+  if (sourceVariance < 1e-12) throw new Error("Source points are coincident");
+
+  const yawRad = Math.atan2(sin, cos);
+  const yaw = [Math.cos(yawRad), -Math.sin(yawRad), 0, Math.sin(yawRad), Math.cos(yawRad), 0, 0, 0, 1];
+
+  let projected = 0;
+  for (let k = 0; k < n; k++) {
+    projected += dot(b[k], rotate(yaw, a[k]));
+  }
+  const scale = projected / sourceVariance;
+  if (scale <= 0) throw new Error("Degenerate point configuration (negative scale)");
+
+  const rcs = rotate(yaw, cs);
+  const translation: Vec3 = [
+    ct[0] - scale * rcs[0],
+    ct[1] - scale * rcs[1],
+    ct[2] - scale * rcs[2]
+  ];
+  const rotation = multiply(yaw, level);
+
+  const residuals = source.map((p, k) => {
+    const mapped = applySimilarity({ scale, rotation, translation }, p);
+    return Math.sqrt(dot(sub(mapped, target[k]), sub(mapped, target[k])));
+  });
+  const rmsError = Math.sqrt(residuals.reduce((sum, r) => sum + r * r, 0) / n);
+
+  return { scale, rotation, translation, residuals, rmsError, yawRad };
+}
+
+export function applySimilarity(
+  t: Pick<SimilarityTransform, "scale" | "rotation" | "translation">,
+  p: Vec3
+): Vec3 {
+  const r = rotate(t.rotation, p);
+  return [
+    t.scale * r[0] + t.translation[0],
+    t.scale * r[1] + t.translation[1],
+    t.scale * r[2] + t.translation[2]
+  ];
+}
+
+// Helper functions
+function centroid(points: Vec3[]): Vec3 {
+  const c: Vec3 = [0, 0, 0];
+  for (const p of points) {
+    c[0] += p[0];
+    c[1] += p[1];
+    c[2] += p[2];
+  }
+  return [c[0] / points.length, c[1] / points.length, c[2] / points.length];
+}
+
+function sub(a: Vec3, b: Vec3): Vec3 {
+  return [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+}
+
+function dot(a: Vec3, b: Vec3): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+function rotate(R: number[], p: Vec3): Vec3 {
+  return [
+    R[0] * p[0] + R[1] * p[1] + R[2] * p[2],
+    R[3] * p[0] + R[4] * p[1] + R[5] * p[2],
+    R[6] * p[0] + R[7] * p[1] + R[8] * p[2]
+  ];
+}
+
+// Row-major 3x3 product A * B
+function multiply(A: number[], B: number[]): number[] {
+  const out = new Array(9).fill(0);
+  for (let i = 0; i < 3; i++) {
+    for (let j = 0; j < 3; j++) {
+      for (let k = 0; k < 3; k++) {
+        out[i * 3 + j] += A[i * 3 + k] * B[k * 3 + j];
+      }
+    }
+  }
+  return out;
+}
+
+function quaternionToRotation(w: number, x: number, y: number, z: number): number[] {
+  const len = Math.sqrt(w * w + x * x + y * y + z * z);
+  w /= len; x /= len; y /= len; z /= len;
+
+  // Row-major 3x3 matrix as flat array
+  return [
+    1 - 2 * (y * y + z * z), 2 * (x * y - w * z),     2 * (x * z + w * y),
+    2 * (x * y + w * z),     1 - 2 * (x * x + z * z), 2 * (y * z - w * x),
+    2 * (x * z - w * y),     2 * (y * z + w * x),     1 - 2 * (x * x + y * y)
+  ];
+}
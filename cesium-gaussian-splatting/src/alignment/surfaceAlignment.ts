@@ -0,0 +1,194 @@
+// src/alignment/surfaceAlignment.ts
+import * as Cesium from "cesium";
+import { EnuParams, GeoAnchor, Vec3 } from "../types/alignment";
+import { GaussianSplatLayer } from "../gaussian-splat-layer";
+import { EnuBounds } from "../raster/geoRaster";
+import { composeEnuRotation, decomposeEnuRotation, ecefToEnuMatrix, enuToEcefMatrix } from "./composeModelMatrix";
+import { sampleSplatCenters } from "./groundDetection";
+import { HeightGrid, IcpMode, IcpOptions, IcpResult, heightGridSurface, pointToPlaneIcp } from "./icp";
+
+export type SurfaceSource = "buildings" | "terrain" | "buildings+terrain";
+
+export type SurfaceSamplingOptions = {
+  tileset?: Cesium.Cesium3DTileset | null; // buildings to sample (Viewer.getBuildingsTileset())
+  useTerrain?: boolean;        // sample world terrain as well (default true; skipped without height data)
+  spacing?: number;            // metres between surface samples (default 1)
+  maxSurfaceSamples?: number;  // spacing grows to stay below this; each tileset sample is a pick render (default 5000)
+};
+
+export type SurfaceAlignmentOptions = IcpOptions & SurfaceSamplingOptions & {
+  margin?: number;             // metres sampled around the splat footprint (default: maxCorrespondenceDistance + 5)
+  maxSplatSamples?: number;    // splat centres read from the mesh (default 20000)
+  minOpacity?: number;         // 0..1, fainter splats are ignored (default 0.2)
+};
+
+export type SurfaceAlignment = IcpResult & {
+  params: Partial<EnuParams>;  // new placement for setEnuParams
+  surfaceSamples: number;
+  source: SurfaceSource;
+};
+
+// Height grid of the scene surface over bounds (ENU metres of anchor). With a tileset the
+// scene is sampled at the most detailed level (buildings on top of the globe); terrain
+// fills in and lifts samples where the globe was coarser than the terrain data.
+export async function sampleSceneSurface(
+  scene: Cesium.Scene,
+  anchor: GeoAnchor,
+  bounds: EnuBounds,
+  options: SurfaceSamplingOptions = {}
+): Promise<{ grid: HeightGrid; source: SurfaceSource }> {
+  // sampleTerrainMostDetailed throws for providers without availability (the default ellipsoid)
+  const useTerrain = (options.useTerrain ?? true) && scene.terrainProvider.availability !== undefined;
+  const useBuildings = !!options.tileset && scene.sampleHeightSupported;
+  if (!useBuildings && !useTerrain) throw new Error("No surface to sample: buildings tileset missing and no terrain with height data");
+
+  const width = bounds.east - bounds.west;
+  const height = bounds.north - bounds.south;
+  const maxSamples = options.maxSurfaceSamples ?? 5000;
+  const spacing = Math.max(options.spacing ?? 1, Math.sqrt(width * height / maxSamples));
+  const columns = Math.max(2, Math.floor(width / spacing) + 1);
+  const rows = Math.max(2, Math.floor(height / spacing) + 1);
+
+  const enuToEcef = enuToEcefMatrix(anchor);
+  const cartographics: Cesium.Cartographic[] = [];
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < columns; c++) {
+      const ecef = Cesium.Matrix4.multiplyByPoint(
+        enuToEcef,
+        new Cesium.Cartesian3(bounds.west + c * spacing, bounds.south + r * spacing, 0),
+        new Cesium.Cartesian3()
+      );
+      cartographics.push(Cesium.Cartographic.fromCartesian(ecef));
+    }
+  }
+
+  const sceneHeights = useBuildings
+    ? await scene.sampleHeightMostDetailed(cartographics.map(c => c.clone()), otherPrimitives(scene, options.tileset!))
+    : null;
+  const terrainHeights = useTerrain
+    ? await Cesium.sampleTerrainMostDetailed(scene.terrainProvider, cartographics.map(c => c.clone()))
+    : null;
+
+  const ecefToEnu = ecefToEnuMatrix(anchor);
+  const heights = new Float64Array(rows * columns).fill(NaN);
+  for (let k = 0; k < cartographics.length; k++) {
+    const candidates = [sceneHeights?.[k]?.height, terrainHeights?.[k]?.height].filter(h => Number.isFinite(h));
+    if (candidates.length === 0) continue;
+
+    // Ellipsoid height to ENU up at this point
+    const ecef = Cesium.Cartesian3.fromRadians(cartographics[k].longitude, cartographics[k].latitude, Math.max(...candidates));
+    heights[k] = Cesium.Matrix4.multiplyByPoint(ecefToEnu, ecef, new Cesium.Cartesian3()).z;
+  }
+
+  const source: SurfaceSource = useBuildings && useTerrain ? "buildings+terrain" : useBuildings ? "buildings" : "terrain";
+  return { grid: { west: bounds.west, south: bounds.south, spacing, columns, rows, heights }, source };
+}
+
+// Point-to-plane ICP of the layer's splat centres against the scene surface, starting from
+// the current EnuParams. Tilt-locked layers are never tilted: "full" becomes "tiltLocked",
+// and without a mode the lock decides between the two.
+export async function alignLayerToSurface(
+  layer: GaussianSplatLayer,
+  scene: Cesium.Scene,
+  options: SurfaceAlignmentOptions = {},
+  signal?: AbortSignal
+): Promise<SurfaceAlignment> {
+  const params = layer.getEnuParams();
+  const mode = resolveMode(options.mode, params);
+
+  // Splat centres in ENU metres
+  const rotation = composeEnuRotation(params);
+  const source = sampleSplatCenters(layer, options.maxSplatSamples, options.minOpacity).map(m => enuPoint(m, rotation, params));
+  if (source.length < 3) throw new Error("Not enough visible splats for surface alignment");
+
+  const margin = options.margin ?? (options.maxCorrespondenceDistance ?? 3) + 5;
+  const footprint = trimmedFootprint(source, 0.01);
+  const { grid, source: surfaceSource } = await sampleSceneSurface(scene, layer.getAnchor(), {
+    west: footprint.west - margin,
+    south: footprint.south - margin,
+    east: footprint.east + margin,
+    north: footprint.north + margin
+  }, options);
+  // Sampling cannot be interrupted, but the ICP after it need not run
+  signal?.throwIfAborted();
+
+  const surface = heightGridSurface(grid);
+  if (surface.points.length < 3) throw new Error("No surface geometry under the splat; are tiles and terrain loaded?");
+
+  const result = pointToPlaneIcp(source, surface, { ...options, mode });
+  return {
+    ...result,
+    params: icpToEnuParams(result, params),
+    surfaceSamples: surface.points.length,
+    source: surfaceSource
+  };
+}
+
+// New placement from an ICP result computed on points placed with params
+export function icpToEnuParams(result: IcpResult, params: EnuParams): Partial<EnuParams> {
+  const { rotation: R, translation: t, scale: s, pivot: c } = result.transform;
+
+  // The splat origin moves like any other point
+  const d: Vec3 = [params.tEast - c[0], params.tNorth - c[1], params.tUp - c[2]];
+  const change: Partial<EnuParams> = {
+    tEast: s * (R[0] * d[0] + R[1] * d[1] + R[2] * d[2]) + c[0] + t[0],
+    tNorth: s * (R[3] * d[0] + R[4] * d[1] + R[5] * d[2]) + c[1] + t[1],
+    tUp: s * (R[6] * d[0] + R[7] * d[1] + R[8] * d[2]) + c[2] + t[2],
+    scale: params.scale * s
+  };
+
+  if (result.mode === "full") {
+    // R * R_before, back to the Euler chain (full mode never runs on tilt-locked layers)
+    const before = composeEnuRotation(params);
+    const after = new Array(9).fill(0);
+    for (let i = 0; i < 3; i++) {
+      for (let j = 0; j < 3; j++) {
+        for (let k = 0; k < 3; k++) after[i * 3 + j] += R[i * 3 + k] * before[k * 3 + j];
+      }
+    }
+    Object.assign(change, decomposeEnuRotation(after));
+  } else {
+    // A rotation about up composes with both rotation chains as a yaw offset
+    change.yawRad = params.yawRad + Math.atan2(R[3], R[0]);
+  }
+
+  return change;
+}
+
+// Helper functions
+function resolveMode(requested: IcpMode | undefined, params: EnuParams): IcpMode {
+  if (params.tiltLocked && (requested ?? "full") === "full") return "tiltLocked";
+  return requested ?? "full";
+}
+
+function enuPoint(m: Vec3, rotation: number[], params: EnuParams): Vec3 {
+  const s = params.scale;
+  return [
+    s * (rotation[0] * m[0] + rotation[1] * m[1] + rotation[2] * m[2]) + params.tEast,
+    s * (rotation[3] * m[0] + rotation[4] * m[1] + rotation[5] * m[2]) + params.tNorth,
+    s * (rotation[6] * m[0] + rotation[7] * m[1] + rotation[8] * m[2]) + params.tUp
+  ];
+}
+
+// East/north extent without the outer trim fraction on each side
+function trimmedFootprint(points: Vec3[], trim: number): EnuBounds {
+  const east = points.map(p => p[0]).sort((a, b) => a - b);
+  const north = points.map(p => p[1]).sort((a, b) => a - b);
+  const cut = Math.floor(points.length * trim);
+  return {
+    west: east[cut],
+    east: east[east.length - 1 - cut],
+    south: north[cut],
+    north: north[north.length - 1 - cut]
+  };
+}
+
+// Everything in the scene except the tileset, so overlays and helpers are not sampled
+function otherPrimitives(scene: Cesium.Scene, tileset: Cesium.Cesium3DTileset): object[] {
+  const excluded: object[] = [];
+  for (let i = 0; i < scene.primitives.length; i++) {
+    const primitive = scene.primitives.get(i);
+    if (primitive !== tileset) excluded.push(primitive);
+  }
+  return excluded;
+}
@@ -0,0 +1,213 @@
+// src/cli/align.ts
+// Road-based alignment without a browser, for batch runs:
+//   npm run align -- capture.ply --anchor=-118.3089,34.1808,160 --roads burbank.osm --level --manifest public/scenes/burbank.json
+import { readFile, writeFile } from "node:fs/promises";
+import { existsSync } from "node:fs";
+import { basename, dirname, relative, resolve } from "node:path";
+import { parseArgs } from "node:util";
+import { EnuParams, GeoAnchor } from "../types/alignment";
+import { DEFAULT_ENU_PARAMS } from "../gaussian-splat-layer";
+import { SCENE_MANIFEST_VERSION, SceneManifest, SplatEntry, parseSceneManifest, serializeSceneManifest } from "../scene-manifest";
+import { parseSplatPly } from "../export/plyImport";
+import { roadDataFromWays } from "../osm/roadData";
+import { parseWayBuffer } from "../osm/roadSources";
+import { composeEnuRotation } from "../alignment/composeModelMatrix";
+import { detectGroundPlane, groundAlignmentParams, sampleSplatArrayCenters } from "../alignment/groundDetection";
+import { ALIGNMENT_TARGETS, AlignmentTarget, alignSplatsToRoads } from "../alignment/roadRegistration";
+
+const USAGE = `Usage: npm run align -- <splat.ply> --roads <file> [options]
+
+Registers a top-down render of the splat onto local OSM roads and prints the new EnuParams.
+
+  --roads <file>           .osm XML, .osm.pbf, Overpass JSON or GeoJSON with highway ways (required)
+  --anchor=<lon,lat,h>     approximate position of the splat origin (use "=" for western
+                           longitudes); defaults to the manifest
+                           entry, then to the georef comments of a PLY exported in the ENU frame
+  --params <file>          starting EnuParams as JSON (default: manifest entry, else identity)
+  --yaw <deg>              starting heading, overrides the starting params
+  --scale <m/unit>         starting scale, overrides the starting params
+  --targets <list>         what to register onto: roads, building, footway, kerb, crossing,
+                           comma-separated (default roads)
+  --level                  lock the tilt to the detected ground plane before registering
+  --margin <m>             search area around the splat footprint (default 30)
+  --mpp <m>                render resolution (default: the area in 1024 pixels)
+  --min-confidence <0..1>  fail below this registration confidence (default 0.25)
+  --max-rotation <deg>     fail when the registration turns the splat by more than this
+  --out <file>             write the EnuParams JSON there instead of stdout
+  --manifest <file>        scene manifest to update, created if missing
+  --id <id>                manifest entry id (default: PLY file name without extension)
+  -h, --help`;
+
+async function main(): Promise<number> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      roads: { type: "string" },
+      anchor: { type: "string" },
+      params: { type: "string" },
+      yaw: { type: "string" },
+      scale: { type: "string" },
+      targets: { type: "string" },
+      level: { type: "boolean" },
+      margin: { type: "string" },
+      mpp: { type: "string" },
+      "min-confidence": { type: "string" },
+      "max-rotation": { type: "string" },
+      out: { type: "string" },
+      manifest: { type: "string" },
+      id: { type: "string" },
+      help: { type: "boolean", short: "h" }
+    }
+  });
+
+  if (values.help || positionals.length !== 1 || !values.roads) {
+    console.error(USAGE);
+    return values.help ? 0 : 1;
+  }
+
+  const plyPath = resolve(positionals[0]);
+  const id = values.id ?? basename(plyPath).replace(/\.[^.]+$/, "");
+  const minConfidence = numberOption(values["min-confidence"], "--min-confidence") ?? 0.25;
+  const margin = numberOption(values.margin, "--margin") ?? 30;
+  const maxRotationDeg = numberOption(values["max-rotation"], "--max-rotation");
+
+  const file = await readFile(plyPath);
+  const { splats, comments } = parseSplatPly(file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength));
+  log(`📦 ${basename(plyPath)}: ${splats.count} splats`);
+
+  const roadFile = await readFile(values.roads);
+  const ways = await parseWayBuffer(roadFile.buffer.slice(roadFile.byteOffset, roadFile.byteOffset + roadFile.byteLength), values.roads);
+  const { roads, features } = roadDataFromWays(ways);
+  log(`🛣️ ${basename(values.roads)}: ${roads.length} roads, ${features.length} other features`);
+  const targets = parseTargets(values.targets);
+
+  // Starting placement: flags over the manifest entry over the PLY's own georeference
+  const manifest = values.manifest && existsSync(values.manifest)
+    ? parseSceneManifest(JSON.parse(await readFile(values.manifest, "utf8")), values.manifest)
+    : null;
+  const entry = manifest?.splats.find(splat => splat.id === id);
+
+  const anchor = parseAnchor(values.anchor) ?? entry?.anchor ?? georefOrigin(comments);
+  if (!anchor) throw new Error("No anchor: pass --anchor lon,lat,height or a manifest with this entry");
+
+  let params: EnuParams = {
+    ...DEFAULT_ENU_PARAMS,
+    ...(entry?.enu ?? {}),
+    ...(values.params ? JSON.parse(await readFile(values.params, "utf8")) : {})
+  };
+  const yawDeg = numberOption(values.yaw, "--yaw");
+  if (yawDeg !== undefined) params.yawRad = yawDeg * Math.PI / 180;
+  params.scale = numberOption(values.scale, "--scale") ?? params.scale;
+
+  if (values.level) {
+    const ground = detectGroundPlane(sampleSplatArrayCenters(splats), composeEnuRotation(params), params.scale);
+    params = { ...params, ...groundAlignmentParams(params, ground.points, ground.upHint) };
+    log(`🟫 Levelled: tilt ${ground.tiltDeg.toFixed(2)}°, ${ground.points.length} ground inliers, RMS ${ground.rmsMeters.toFixed(3)} m`);
+  }
+
+  const result = alignSplatsToRoads(splats, anchor, params, roads, {
+    margin,
+    metersPerPixel: numberOption(values.mpp, "--mpp"),
+    features,
+    targets
+  });
+  log(`🧭 Registration: rotation ${(result.delta.yawRad * 180 / Math.PI).toFixed(2)}°, scale ×${result.delta.scaleFactor.toFixed(3)}, ` +
+    `shift ${result.delta.tEast.toFixed(2)} m E / ${result.delta.tNorth.toFixed(2)} m N, ` +
+    `confidence ${result.confidence.toFixed(2)} at ${result.metersPerPixel.toFixed(3)} m/pixel`);
+
+  if (result.confidence < minConfidence) {
+    log(`❌ Registration too ambiguous (confidence ${result.confidence.toFixed(2)} < ${minConfidence}); nothing written`);
+    return 2;
+  }
+
+  // Anything beyond the search area is a match with something else; keep the old placement
+  const shiftMeters = Math.hypot(result.translationMeters.east, result.translationMeters.north);
+  if (shiftMeters > margin) {
+    log(`❌ Registration moved the splat ${shiftMeters.toFixed(1)} m, more than --margin ${margin} m; nothing written`);
+    return 2;
+  }
+  const rotationDeg = Math.abs(result.rotationRad) * 180 / Math.PI;
+  if (maxRotationDeg !== undefined && rotationDeg > maxRotationDeg) {
+    log(`❌ Registration turned the splat ${rotationDeg.toFixed(1)}°, more than --max-rotation ${maxRotationDeg}°; nothing written`);
+    return 2;
+  }
+
+  const aligned: EnuParams = { ...params, ...result.params };
+  const json = JSON.stringify(aligned, null, 2) + "\n";
+  if (values.out) {
+    await writeFile(values.out, json);
+    log(`💾 EnuParams written to ${values.out}`);
+  } else {
+    process.stdout.write(json);
+  }
+
+  if (values.manifest) {
+    const updated = withEntry(manifest, values.manifest, {
+      ...(entry ?? { id, model: relative(dirname(resolve(values.manifest)), plyPath).split("\\").join("/") }),
+      anchor,
+      enu: aligned
+    });
+    await writeFile(values.manifest, serializeSceneManifest(updated));
+    log(`💾 ${entry ? "Updated" : "Added"} ${id} in ${values.manifest}`);
+  }
+
+  return 0;
+}
+
+// Helper functions
+function withEntry(manifest: SceneManifest | null, path: string, entry: SplatEntry): SceneManifest {
+  if (!manifest) {
+    return { version: SCENE_MANIFEST_VERSION, name: basename(path).replace(/\.[^.]+$/, ""), splats: [entry] };
+  }
+  const splats = manifest.splats.some(splat => splat.id === entry.id)
+    ? manifest.splats.map(splat => splat.id === entry.id ? entry : splat)
+    : [...manifest.splats, entry];
+  return { ...manifest, splats };
+}
+
+function parseAnchor(value: string | undefined): GeoAnchor | undefined {
+  if (value === undefined) return undefined;
+  const [lon, lat, height = 0] = value.split(",").map(Number);
+  if (![lon, lat, height].every(Number.isFinite)) throw new Error(`--anchor expects lon,lat[,height], got "${value}"`);
+  return { lon, lat, height };
+}
+
+// Origin written by writeGeoreferencedPly for ENU exports, where positions are already metres
+function georefOrigin(comments: string[]): GeoAnchor | undefined {
+  if (!comments.includes("georef_frame ENU")) return undefined;
+  const value = (key: string) => {
+    const comment = comments.find(c => c.startsWith(`${key} `));
+    return comment === undefined ? NaN : parseFloat(comment.slice(key.length));
+  };
+
+  const anchor = { lon: value("georef_origin_lon"), lat: value("georef_origin_lat"), height: value("georef_origin_height") };
+  return Object.values(anchor).every(Number.isFinite) ? anchor : undefined;
+}
+
+function parseTargets(value: string | undefined): AlignmentTarget[] {
+  if (value === undefined) return ["roads"];
+  const targets = value.split(",").map(target => target.trim()) as AlignmentTarget[];
+  const unknown = targets.filter(target => !ALIGNMENT_TARGETS.includes(target));
+  if (unknown.length > 0) throw new Error(`--targets expects ${ALIGNMENT_TARGETS.join(", ")}, got "${unknown.join(", ")}"`);
+  return targets;
+}
+
+function numberOption(value: string | undefined, name: string): number | undefined {
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  if (!Number.isFinite(number)) throw new Error(`${name} expects a number, got "${value}"`);
+  return number;
+}
+
+// Progress goes to stderr so stdout stays clean JSON
+function log(message: string): void {
+  process.stderr.write(message + "\n");
+}
+
+main().then(
+  code => process.exit(code),
+  error => {
+    console.error(`❌ ${(error as Error).message}`);
+    process.exit(1);
+  }
+);
@@ -1,120 +1,66 @@
 // src/controllers/AlignmentController.ts
 import * as Cesium from 'cesium';
-import * as THREE from 'three';
 import { GaussianSplatLayer } from '../gaussian-splat-layer';
-import { EnuParams } from '../types/alignment';
-import { composeModelMatrixENU } from '../alignment/composeModelMatrix';
-import { alignGroundToUp } from '../alignment/planeFit';
+import { EnuParams, Vec3 } from '../types/alignment';
+import { composeEnuRotation } from '../alignment/composeModelMatrix';
+import { estimatePlaneNormal } from '../alignment/planeFit';
+import { detectLayerGround, groundAlignmentParams, GroundDetectionOptions, GroundPlane } from '../alignment/groundDetection';
+import { alignLayerToSurface, SurfaceAlignment, SurfaceAlignmentOptions } from '../alignment/surfaceAlignment';
 import { metersPerUnitFromRoadWidth, estimateRoadWidthMeters } from '../alignment/scaleCalibration';
-import { AdjustmentTracker } from '../adjustment-tracker';
+import { measureRoadWidths, RoadWidthCalibration, RoadWidthOptions } from '../alignment/roadWidthMeasurement';
+import { renderLayerOrtho } from '../raster/orthoSplatRender';
+import type { OSMRoad } from '../road-data-provider';
+import { AdjustmentTracker, SplatAdjustments } from '../adjustment-tracker';
+import { SessionStore } from '../session-store';
 
-// Feature flag for Alignment V2
-const ALIGNMENT_V2 = true; // Set to false to use legacy behavior
+// Wait for a burst of adjustments to settle before writing the session
+const SESSION_SAVE_DELAY_MS = 500;
 
+// Alignment on top of the layer transform API. The layer owns the EnuParams; the
+// controller adds tracking, tilt locking and undo for every change, whoever makes it.
 export class AlignmentController {
   private splatLayer: GaussianSplatLayer;
   private cesiumViewer: Cesium.Viewer;
-  private enuParams: EnuParams;
-  private anchor: { lat: number; lon: number; height: number };
   public tracker: AdjustmentTracker; // Public so we can access from main.ts
+  private stopAutoSave: (() => void) | null = null;
+  private stopTracking: () => void;
+  // Set while history is being applied or a grouped change is running
+  private suppressHistory = false;
+  // Model-frame ground normal of the last tilt lock, for logResidualTilt
+  private groundNormal: Vec3 | null = null;
 
   constructor(splatLayer: GaussianSplatLayer, cesiumViewer: Cesium.Viewer) {
     this.splatLayer = splatLayer;
     this.cesiumViewer = cesiumViewer;
 
-    // Initialize anchor at splat location
-    this.anchor = {
-      lat: splatLayer.location.lat,
-      lon: splatLayer.location.lon,
-      height: splatLayer.location.height
-    };
-
-    // Initialize ENU parameters
-    this.enuParams = {
-      scale: splatLayer.scale || 1.0,
-      yawRad: splatLayer.rotation.y || 0,
-      pitchRad: splatLayer.rotation.x || 0,
-      rollRad: splatLayer.rotation.z || 0,
-      tEast: 0,
-      tNorth: 0,
-      tUp: 0
-    };
-
     // Initialize adjustment tracker
-    this.tracker = new AdjustmentTracker(this.enuParams);
-
-    // Disable auto-update for manual matrix control
-    if (splatLayer.scene) {
-      splatLayer.scene.matrixAutoUpdate = false;
-    }
-  }
-
-  // Apply transformations using V2 or legacy method
-  public applyTransformation(): void {
-    if (ALIGNMENT_V2) {
-      this.applyTransformationV2();
-    } else {
-      this.applyTransformationLegacy();
-    }
-  }
+    this.tracker = new AdjustmentTracker(splatLayer.getEnuParams());
 
-  private applyTransformationV2(): void {
-    // Compose matrix in ENU and convert to ECEF (without scale - we apply scale to mesh instead)
-    const paramsWithoutScale = { ...this.enuParams, scale: 1.0 };
-    const worldMatrix = composeModelMatrixENU(this.anchor, paramsWithoutScale);
-
-    // Apply to splat scene
-    if (this.splatLayer.scene) {
-      // Convert Cesium Matrix4 to THREE Matrix4
-      const cesiumArray = Cesium.Matrix4.toArray(worldMatrix);
-      const threeMatrix = new THREE.Matrix4();
-      threeMatrix.fromArray(cesiumArray);
-
-      this.splatLayer.scene.matrix.copy(threeMatrix);
-      // CRITICAL: Disable auto-update to prevent interference
-      this.splatLayer.scene.matrixAutoUpdate = false;
-    }
-
-    // Update layer properties for compatibility (but values might be different when tilt-locked)
-    this.splatLayer.location = this.anchor;
-    this.splatLayer.rotation = {
-      x: this.enuParams.pitchRad,  // Will be 0 when tilt-locked
-      y: this.enuParams.yawRad,
-      z: this.enuParams.rollRad    // Will be 0 when tilt-locked
-    };
-    this.splatLayer.scale = this.enuParams.scale;
-
-    // Apply scale to mesh only (not in matrix) to avoid double-scaling
-    this.splatLayer.updateScale();
+    // Keys, gizmo drags and aligners all end up here as log entries and undo steps
+    this.stopTracking = splatLayer.onTransformChange(event => {
+      if (!this.suppressHistory) {
+        this.tracker.logChange(event.before, event.params);
+        this.tracker.recordHistory(event.source, event.before, event.params);
+      }
+    });
   }
 
-  private applyTransformationLegacy(): void {
-    // Use existing update methods
-    this.splatLayer.location = this.anchor;
-    this.splatLayer.rotation.x = this.enuParams.pitchRad;
-    this.splatLayer.rotation.y = this.enuParams.yawRad;
-    this.splatLayer.rotation.z = this.enuParams.rollRad;
-    this.splatLayer.scale = this.enuParams.scale;
-
-    this.splatLayer.updatePosition();
-    this.splatLayer.updateScale();
+  private get enuParams(): EnuParams {
+    return this.splatLayer.getEnuParams();
   }
 
   // ENU parameter manipulation methods
   public adjustScale(factor: number): void {
     const before = this.enuParams.scale;
-    this.enuParams.scale = Math.max(0.1, Math.min(50.0, this.enuParams.scale * factor));
-    this.tracker.logScaleAdjustment(before, this.enuParams.scale);
-    this.applyTransformation();
-    console.log(`Scale adjusted to: ${this.enuParams.scale.toFixed(2)}`);
+    const scale = Math.max(0.1, Math.min(50.0, before * factor));
+    this.splatLayer.setEnuParams({ scale }, 'scale');
+    console.log(`Scale adjusted to: ${scale.toFixed(2)}`);
   }
 
   public adjustYaw(deltaRad: number): void {
     const before = this.enuParams.yawRad;
-    this.enuParams.yawRad += deltaRad;
-    this.tracker.logYawAdjustment(before, this.enuParams.yawRad);
-    this.applyTransformation();
-    console.log(`Yaw adjusted to: ${(this.enuParams.yawRad * 180 / Math.PI).toFixed(1)}°`);
+    this.splatLayer.setEnuParams({ yawRad: before + deltaRad }, 'yaw');
+    console.log(`Yaw adjusted to: ${((before + deltaRad) * 180 / Math.PI).toFixed(1)}°`);
   }
 
   public adjustPitch(deltaRad: number): void {
@@ -123,10 +69,8 @@ export class AlignmentController {
       return;
     }
     const before = this.enuParams.pitchRad;
-    this.enuParams.pitchRad += deltaRad;
-    this.tracker.logPitchAdjustment(before, this.enuParams.pitchRad);
-    this.applyTransformation();
-    console.log(`Pitch adjusted to: ${(this.enuParams.pitchRad * 180 / Math.PI).toFixed(1)}°`);
+    this.splatLayer.setEnuParams({ pitchRad: before + deltaRad }, 'pitch');
+    console.log(`Pitch adjusted to: ${((before + deltaRad) * 180 / Math.PI).toFixed(1)}°`);
   }
 
   public adjustRoll(deltaRad: number): void {
@@ -135,57 +79,66 @@ export class AlignmentController {
       return;
     }
     const before = this.enuParams.rollRad;
-    this.enuParams.rollRad += deltaRad;
-    this.tracker.logRollAdjustment(before, this.enuParams.rollRad);
-    this.applyTransformation();
-    console.log(`Roll adjusted to: ${(this.enuParams.rollRad * 180 / Math.PI).toFixed(1)}°`);
+    this.splatLayer.setEnuParams({ rollRad: before + deltaRad }, 'roll');
+    console.log(`Roll adjusted to: ${((before + deltaRad) * 180 / Math.PI).toFixed(1)}°`);
   }
 
   public adjustPosition(deltaEast: number, deltaNorth: number, deltaUp: number = 0): void {
-    const beforeE = this.enuParams.tEast;
-    const beforeN = this.enuParams.tNorth;
-    const beforeU = this.enuParams.tUp;
-
-    this.enuParams.tEast += deltaEast;
-    this.enuParams.tNorth += deltaNorth;
-    this.enuParams.tUp += deltaUp;
-
-    this.tracker.logPositionAdjustment(beforeE, beforeN, beforeU, this.enuParams.tEast, this.enuParams.tNorth, this.enuParams.tUp);
-    this.applyTransformation();
-    console.log(`Position adjusted: E=${this.enuParams.tEast.toFixed(3)}, N=${this.enuParams.tNorth.toFixed(3)}, U=${this.enuParams.tUp.toFixed(3)}`);
+    const { tEast, tNorth, tUp } = this.enuParams;
+    const after = { tEast: tEast + deltaEast, tNorth: tNorth + deltaNorth, tUp: tUp + deltaUp };
+    this.splatLayer.setEnuParams(after, 'position');
+    console.log(`Position adjusted: E=${after.tEast.toFixed(3)}, N=${after.tNorth.toFixed(3)}, U=${after.tUp.toFixed(3)}`);
   }
 
-  // Lock tilt using plane fitting
-  public lockTilt(groundPoints?: Array<[number, number, number]>): void {
+  // Lock tilt using plane fitting. groundPoints are in model units; upHint is the
+  // model-frame direction of up (defaults to what is up with the current rotation).
+  public lockTilt(groundPoints?: Vec3[], upHint?: Vec3): void {
     if (!groundPoints || groundPoints.length < 3) {
       console.warn('Insufficient ground points for plane fitting');
       return;
     }
 
     try {
-      const alignment = alignGroundToUp(groundPoints);
-
-      // Cache the alignment rotation and lock tilt
-      this.enuParams.alignRotation = alignment.alignMatrix;
-      this.enuParams.tiltLocked = true;
-
-      // Reset pitch/roll to zero (they're now baked into R_align)
-      this.enuParams.pitchRad = 0;
-      this.enuParams.rollRad = 0;
-
-      this.applyTransformation();
-
-      // Disable matrix auto-update to prevent interference
-      if (this.splatLayer.scene) {
-        this.splatLayer.scene.matrixAutoUpdate = false;
-      }
+      this.applyGroundAlignment(groundPoints, upHint, 'lock tilt');
+    } catch (error) {
+      console.error('Plane fitting failed:', error);
+    }
+  }
 
-      console.log(`✅ Tilt locked: alignment cached, pitch/roll zeroed, yaw preserved: ${(this.enuParams.yawRad * 180 / Math.PI).toFixed(1)}°`);
+  // One-click levelling: find the ground in the splat centres with RANSAC and lock tilt to it.
+  // Returns the detected plane, or null when no ground was found.
+  public autoLevel(options: GroundDetectionOptions = {}): GroundPlane | null {
+    try {
+      const ground = detectLayerGround(this.splatLayer, options);
+      console.log(
+        `🟫 Ground found: ${ground.points.length} inliers (${(ground.inlierRatio * 100).toFixed(0)}% of ` +
+        `${ground.candidateCount} candidates), RMS ${ground.rmsMeters.toFixed(3)}m, tilt ${ground.tiltDeg.toFixed(2)}°`
+      );
+      this.applyGroundAlignment(ground.points, ground.upHint, 'auto level');
+      return ground;
+    } catch (error) {
+      console.error('Automatic levelling failed:', error);
+      return null;
+    }
+  }
 
-      // Verify alignment worked
-      setTimeout(() => this.logResidualTilt(), 100);
+  // Snap the splat onto the buildings tileset and terrain with point-to-plane ICP, starting
+  // from the current placement. Pass the tileset from Viewer.getBuildingsTileset(); mode
+  // "yawOnly" keeps height and tilt, tilt-locked layers are never tilted.
+  // Returns the ICP result, or null when it failed.
+  public async alignToSurface(options: SurfaceAlignmentOptions = {}): Promise<SurfaceAlignment | null> {
+    try {
+      const alignment = await alignLayerToSurface(this.splatLayer, this.cesiumViewer.scene, options);
+      console.log(
+        `🏢 Surface ICP (${alignment.mode}) against ${alignment.surfaceSamples} ${alignment.source} samples: ` +
+        `${alignment.iterations} iterations${alignment.converged ? '' : ' (not converged)'}, ` +
+        `RMS ${alignment.rmsMeters.toFixed(3)}m, ${(alignment.inlierRatio * 100).toFixed(0)}% of splat points matched`
+      );
+      this.splatLayer.setEnuParams(alignment.params, 'surface icp');
+      return alignment;
     } catch (error) {
-      console.error('Plane fitting failed:', error);
+      console.error('Surface alignment failed:', error);
+      return null;
     }
   }
 
@@ -193,70 +146,219 @@ export class AlignmentController {
   public calibrateScaleFromRoadWidth(trueWidthMeters: number, measuredWidthUnits: number): void {
     try {
       const newScale = metersPerUnitFromRoadWidth({ trueWidthMeters, measuredWidthUnits });
-      this.enuParams.scale = newScale;
-      this.applyTransformation();
+      this.splatLayer.setEnuParams({ scale: newScale }, 'road width scale');
       console.log(`Scale calibrated from road width: ${newScale.toFixed(3)} m/unit`);
     } catch (error) {
       console.error('Road width calibration failed:', error);
     }
   }
 
+  // Measure the OSM roads' widths in a top-down render of the splat and set the scale from
+  // them. The splat must be levelled and roughly placed; the scale is only applied when its
+  // 95% interval is within maxRelativeError of it (default 10%).
+  // Returns the calibration, or null when nothing could be measured.
+  public calibrateScaleFromRoads(
+    roads: OSMRoad[],
+    options: RoadWidthOptions & { maxRelativeError?: number } = {}
+  ): RoadWidthCalibration | null {
+    try {
+      const currentScale = this.splatLayer.getEnuParams().scale;
+      const calibration = measureRoadWidths(renderLayerOrtho(this.splatLayer), roads, currentScale, options);
+      const [lower, upper] = calibration.interval;
+      console.table(calibration.roads.map((road) => ({
+        road: road.roadId,
+        highway: road.highway,
+        trueWidth: +road.trueWidthMeters.toFixed(2),
+        from: road.trueWidthFrom,
+        measuredUnits: +road.measuredWidthUnits.toFixed(3),
+        metersPerUnit: +road.metersPerUnit.toFixed(3),
+        sections: road.sections
+      })));
+      console.log(
+        `📏 Road widths: ${calibration.metersPerUnit.toFixed(3)} m/unit (95% ${lower.toFixed(3)}-${upper.toFixed(3)}) ` +
+        `from ${calibration.sections} cross-sections on ${calibration.roads.length} roads, ${calibration.rejected} rejected`
+      );
+
+      const relativeError = (upper - lower) / 2 / calibration.metersPerUnit;
+      if (relativeError > (options.maxRelativeError ?? 0.1)) {
+        console.warn(`⚠️ Scale not applied: ±${(relativeError * 100).toFixed(0)}% is too uncertain`);
+        return calibration;
+      }
+      this.splatLayer.setEnuParams({ scale: calibration.metersPerUnit }, 'road width scale');
+      return calibration;
+    } catch (error) {
+      console.error('Road width measurement failed:', error);
+      return null;
+    }
+  }
+
   // Get current ENU parameters (for debugging/inspection)
   public getEnuParams(): EnuParams {
-    return { ...this.enuParams };
+    return this.splatLayer.getEnuParams();
   }
 
-  // Verify tilt alignment (debugging helper)
+  // ENU anchor that all EnuParams are relative to
+  public getAnchor(): { lat: number; lon: number; height: number } {
+    return this.splatLayer.getAnchor();
+  }
+
+  // Verify tilt alignment (debugging helper): the fitted ground normal should map onto ENU up
   public logResidualTilt(): void {
-    if (!this.enuParams.tiltLocked || !this.enuParams.alignRotation) {
+    const params = this.enuParams;
+    if (!params.tiltLocked || !params.alignRotation || !this.groundNormal) {
       console.log('🔍 Tilt verification: Not tilt-locked');
       return;
     }
 
-    // Extract the final world matrix
-    const worldMatrix = composeModelMatrixENU(this.anchor, this.enuParams);
-    const array = Cesium.Matrix4.toArray(worldMatrix);
-
-    // Extract rotation part (upper-left 3x3)
-    const R = [
-      array[0], array[1], array[2],
-      array[4], array[5], array[6],
-      array[8], array[9], array[10]
+    const R = composeEnuRotation(params);
+    const n = this.groundNormal;
+    const up = [
+      R[0] * n[0] + R[1] * n[1] + R[2] * n[2],
+      R[3] * n[0] + R[4] * n[1] + R[5] * n[2],
+      R[6] * n[0] + R[7] * n[1] + R[8] * n[2]
     ];
-
-    // Check if Z-axis is close to [0,0,1] (pointing up)
-    const zAxis = [R[2], R[5], R[8]];
-    const upVector = [0, 0, 1];
-    const dot = zAxis[0] * upVector[0] + zAxis[1] * upVector[1] + zAxis[2] * upVector[2];
-    const tiltAngleDeg = Math.acos(Math.abs(dot)) * 180 / Math.PI;
+    const tiltAngleDeg = Math.acos(Math.max(-1, Math.min(1, up[2]))) * 180 / Math.PI;
 
     console.log(`🔍 Tilt verification:`, {
       tiltLocked: true,
-      zAxis: zAxis.map(v => v.toFixed(4)),
-      dotWithUp: dot.toFixed(4),
+      groundNormalEnu: up.map(v => v.toFixed(4)),
       residualTiltDeg: tiltAngleDeg.toFixed(2),
-      yawDeg: (this.enuParams.yawRad * 180 / Math.PI).toFixed(1),
+      yawDeg: (params.yawRad * 180 / Math.PI).toFixed(1),
       isAligned: tiltAngleDeg < 5.0 ? '✅' : '❌'
     });
   }
 
-  // Set ENU parameters directly
-  public setEnuParams(params: Partial<EnuParams>): void {
-    // Protect tilt lock from being overwritten
-    if (this.enuParams.tiltLocked) {
-      const { pitchRad, rollRad, alignRotation, tiltLocked, ...safeParams } = params;
-      if (pitchRad !== undefined || rollRad !== undefined) {
-        console.log(`⚠️ Pitch/Roll changes blocked: tilt is locked`);
-      }
-      Object.assign(this.enuParams, safeParams);
+  // Set ENU parameters directly. Recorded as one undo step unless recordHistory is false.
+  public setEnuParams(
+    params: Partial<EnuParams>,
+    options: { recordHistory?: boolean; label?: string } = {}
+  ): void {
+    if (options.recordHistory === false) {
+      this.withoutHistory(() => this.splatLayer.setEnuParams(params, options.label ?? 'set params'));
     } else {
-      Object.assign(this.enuParams, params);
+      this.splatLayer.setEnuParams(params, options.label ?? 'set params');
+    }
+  }
+
+  public undo(): boolean {
+    const entry = this.tracker.undo();
+    if (!entry) {
+      console.log('↩️ Nothing to undo');
+      return false;
+    }
+    this.restoreParams(entry.before);
+    return true;
+  }
+
+  public redo(): boolean {
+    const entry = this.tracker.redo();
+    if (!entry) {
+      console.log('↪️ Nothing to redo');
+      return false;
     }
-    this.applyTransformation();
+    this.restoreParams(entry.after);
+    return true;
   }
 
-  // Check if V2 is enabled
-  public static isV2Enabled(): boolean {
-    return ALIGNMENT_V2;
+  // Run something that moves the layer several times (e.g. an automatic aligner)
+  // and record the result as one undo step
+  public async trackExternal<T>(label: string, action: () => T | Promise<T>): Promise<T> {
+    const before = this.getEnuParams();
+    this.suppressHistory = true;
+    try {
+      return await action();
+    } finally {
+      this.suppressHistory = false;
+      const after = this.getEnuParams();
+      this.tracker.logChange(before, after);
+      this.tracker.recordHistory(label, before, after);
+    }
+  }
+
+  // Apply a saved session: tracker logs and totals are replaced, currentParams go to the layer
+  public restoreSession(adjustments: SplatAdjustments): void {
+    this.tracker.restore(adjustments);
+    this.restoreParams(adjustments.currentParams);
+  }
+
+  // Import a file written by tracker.exportJSON()
+  public async importSessionFile(file: File): Promise<void> {
+    const adjustments = this.tracker.importJSON(await file.text());
+    this.restoreParams(adjustments.currentParams);
+    console.log(`📂 Alignment session imported from ${file.name}`);
+  }
+
+  // Restore the session saved for this model (if any) and auto-save every change from now on.
+  // Returns true when a saved session was restored.
+  public async attachSessionStore(store: SessionStore, key: string = this.splatLayer.getModel()): Promise<boolean> {
+    this.stopAutoSave?.();
+
+    let restored = false;
+    try {
+      const session = await store.load(key);
+      if (session) {
+        this.restoreSession(session.adjustments);
+        console.log(`📂 Restored alignment session for ${key} from ${new Date(session.savedAt).toLocaleString()}`);
+        restored = true;
+      }
+    } catch (error) {
+      console.warn(`⚠️ Could not restore alignment session for ${key}:`, error);
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const unsubscribe = this.tracker.onChange(() => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        store.save(key, this.tracker.getAdjustments())
+          .catch(error => console.warn(`⚠️ Could not save alignment session for ${key}:`, error));
+      }, SESSION_SAVE_DELAY_MS);
+    });
+    this.stopAutoSave = () => {
+      clearTimeout(timer);
+      unsubscribe();
+      this.stopAutoSave = null;
+    };
+
+    return restored;
+  }
+
+  public dispose(): void {
+    this.stopTracking();
+    this.stopAutoSave?.();
+  }
+
+  // Apply params from the history as-is, including tilt lock state
+  private restoreParams(params: EnuParams): void {
+    this.withoutHistory(() => this.splatLayer.setEnuParams(
+      { tiltLocked: false, alignRotation: undefined, ...params },
+      'restore'
+    ));
+  }
+
+  // Cache R_align for the ground and lock tilt. Yaw is chosen so the heading the
+  // capture had before levelling is kept.
+  private applyGroundAlignment(groundPoints: Vec3[], upHint: Vec3 | undefined, label: string): void {
+    const before = composeEnuRotation(this.enuParams);
+    const hint: Vec3 = upHint ?? [before[6], before[7], before[8]];
+    const change = groundAlignmentParams(this.enuParams, groundPoints, hint);
+    const yawRad = change.yawRad!;
+
+    this.splatLayer.setEnuParams(change, label);
+    this.groundNormal = estimatePlaneNormal(groundPoints, hint);
+
+    console.log(`✅ Tilt locked: alignment cached, pitch/roll zeroed, heading kept at yaw ${(yawRad * 180 / Math.PI).toFixed(1)}°`);
+
+    // Verify alignment worked
+    setTimeout(() => this.logResidualTilt(), 100);
+  }
+
+  private withoutHistory(action: () => void): void {
+    const suppressed = this.suppressHistory;
+    this.suppressHistory = true;
+    try {
+      action();
+    } finally {
+      this.suppressHistory = suppressed;
+    }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,232 @@
+import * as Cesium from "cesium";
+import * as THREE from "three";
+
+import { GaussianSplatLayer } from "./gaussian-splat-layer";
+
+// Splat eye depth is stored log-encoded in 24 bits (RGB) so it survives the trip
+// through an 8-bit canvas into Cesium's post-process pipeline
+const MAX_ENCODED_DEPTH = 1000000; // meters, matches the Three camera far plane
+
+const packDepthFragmentShader = `
+  #include <packing>
+
+  uniform sampler2D tDepth;
+  uniform float cameraNear;
+  uniform float cameraFar;
+  uniform float logMaxDepth;
+
+  varying vec2 vUv;
+
+  void main() {
+    float depth = texture2D(tDepth, vUv).x;
+    float v = 1.0;
+    if (depth < 1.0) {
+      float eyeDepth = -perspectiveDepthToViewZ(depth, cameraNear, cameraFar);
+      v = clamp(log2(1.0 + eyeDepth) / logMaxDepth, 0.0, 1.0);
+    }
+
+    float scaled = floor(v * 16777215.0 + 0.5);
+    float r = floor(scaled / 65536.0);
+    float g = floor((scaled - r * 65536.0) / 256.0);
+    float b = scaled - r * 65536.0 - g * 256.0;
+    gl_FragColor = vec4(r, g, b, 255.0) / 255.0;
+  }
+`;
+
+const packDepthVertexShader = `
+  varying vec2 vUv;
+
+  void main() {
+    vUv = uv;
+    gl_Position = vec4(position.xy, 0.0, 1.0);
+  }
+`;
+
+// Runs inside Cesium after the scene is drawn: splat pixels only win where they
+// are closer to the camera than terrain, 3D tiles and entities
+const compositeFragmentShader = `
+  uniform sampler2D colorTexture;
+  uniform sampler2D depthTexture;
+  uniform sampler2D splatColor;
+  uniform sampler2D splatDepth;
+  uniform float logMaxDepth;
+
+  in vec2 v_textureCoordinates;
+
+  float unpackSplatDepth(vec3 rgb) {
+    float v = dot(floor(rgb * 255.0 + 0.5), vec3(65536.0, 256.0, 1.0)) / 16777215.0;
+    return exp2(v * logMaxDepth) - 1.0;
+  }
+
+  void main() {
+    vec4 sceneColor = texture(colorTexture, v_textureCoordinates);
+    vec4 splat = texture(splatColor, v_textureCoordinates);
+
+    if (splat.a <= 0.0) {
+      out_FragColor = sceneColor;
+      return;
+    }
+
+    float sceneDepth = czm_readDepth(depthTexture, v_textureCoordinates);
+    if (sceneDepth < 1.0) {
+      vec4 eye = czm_windowToEyeCoordinates(gl_FragCoord.xy, sceneDepth);
+      float sceneEyeDepth = -eye.z / eye.w;
+      float splatEyeDepth = unpackSplatDepth(texture(splatDepth, v_textureCoordinates).rgb);
+
+      if (splatEyeDepth > sceneEyeDepth) {
+        out_FragColor = sceneColor;
+        return;
+      }
+    }
+
+    out_FragColor = vec4(mix(sceneColor.rgb, splat.rgb, splat.a), sceneColor.a);
+  }
+`;
+
+export class DepthCompositor {
+  private cesiumScene: Cesium.Scene;
+  private threeRenderer: THREE.WebGLRenderer;
+  private layers: GaussianSplatLayer[] = [];
+
+  private depthTarget: THREE.WebGLRenderTarget;
+  private packScene: THREE.Scene;
+  private packCamera: THREE.OrthographicCamera;
+  private packMaterial: THREE.ShaderMaterial;
+
+  // Snapshots of the Three canvas handed to Cesium as textures
+  private colorCanvas: HTMLCanvasElement;
+  private depthCanvas: HTMLCanvasElement;
+
+  private stage: Cesium.PostProcessStage;
+
+  constructor(cesiumScene: Cesium.Scene, threeRenderer: THREE.WebGLRenderer) {
+    this.cesiumScene = cesiumScene;
+    this.threeRenderer = threeRenderer;
+
+    const size = threeRenderer.getSize(new THREE.Vector2());
+
+    this.depthTarget = new THREE.WebGLRenderTarget(size.x, size.y, {
+      depthTexture: new THREE.DepthTexture(size.x, size.y, THREE.UnsignedIntType)
+    });
+
+    this.packMaterial = new THREE.ShaderMaterial({
+      vertexShader: packDepthVertexShader,
+      fragmentShader: packDepthFragmentShader,
+      uniforms: {
+        tDepth: { value: this.depthTarget.depthTexture },
+        cameraNear: { value: 0.1 },
+        cameraFar: { value: MAX_ENCODED_DEPTH },
+        logMaxDepth: { value: Math.log2(1 + MAX_ENCODED_DEPTH) }
+      },
+      depthTest: false,
+      depthWrite: false
+    });
+    this.packScene = new THREE.Scene();
+    this.packScene.add(new THREE.Mesh(new THREE.PlaneGeometry(2, 2), this.packMaterial));
+    this.packCamera = new THREE.OrthographicCamera(-1, 1, 1, -1, 0, 1);
+
+    this.colorCanvas = document.createElement("canvas");
+    this.depthCanvas = document.createElement("canvas");
+    this.resize(size.x, size.y);
+
+    this.stage = new Cesium.PostProcessStage({
+      name: "gaussian_splat_depth_composite",
+      fragmentShader: compositeFragmentShader,
+      uniforms: {
+        splatColor: this.colorCanvas,
+        splatDepth: this.depthCanvas,
+        logMaxDepth: Math.log2(1 + MAX_ENCODED_DEPTH)
+      }
+    });
+    this.stage.enabled = false;
+    this.cesiumScene.postProcessStages.add(this.stage);
+  }
+
+  public addLayer(layer: GaussianSplatLayer) {
+    this.layers.push(layer);
+    this.stage.enabled = true;
+  }
+
+  public removeLayer(layer: GaussianSplatLayer) {
+    this.layers = this.layers.filter((l) => l !== layer);
+    this.stage.enabled = this.layers.length > 0;
+  }
+
+  // Draw order follows the overlay's layer list
+  public setLayerOrder(order: GaussianSplatLayer[]) {
+    this.layers = order.filter((layer) => this.layers.includes(layer));
+  }
+
+  public resize(width: number, height: number) {
+    this.depthTarget.setSize(width, height);
+    this.colorCanvas.width = width;
+    this.colorCanvas.height = height;
+    this.depthCanvas.width = width;
+    this.depthCanvas.height = height;
+  }
+
+  // Render depth-tested layers and hand colour + depth to Cesium's composite stage.
+  // Must run before Cesium draws the frame (scene.preRender). prepareLayer syncs the
+  // camera for a layer and returns the object to draw, so each layer can have its own origin.
+  public render(
+    camera: THREE.PerspectiveCamera,
+    prepareLayer: (layer: GaussianSplatLayer) => THREE.Object3D
+  ) {
+    this.layers.forEach((layer) => layer.updateDisplay());
+    const readyLayers = this.layers.filter((layer) => layer.ready && layer.visible);
+    this.stage.enabled = readyLayers.length > 0;
+    if (readyLayers.length === 0) return;
+
+    const renderer = this.threeRenderer;
+    const savedAutoClear = renderer.autoClear;
+    renderer.autoClear = false;
+
+    // 1. Depth pass: splats write depth where their footprint survives the alpha cutoff
+    renderer.setRenderTarget(this.depthTarget);
+    renderer.clear();
+    readyLayers.forEach((layer) => {
+      const root = prepareLayer(layer);
+      layer.splatViewer.update();
+
+      const material = layer.splatViewer.getSplatMesh().material;
+      const savedDepthWrite = material.depthWrite;
+      material.depthWrite = true;
+      renderer.render(root, camera);
+      material.depthWrite = savedDepthWrite;
+    });
+    renderer.setRenderTarget(null);
+
+    // 2. Encode eye depth into the canvas and snapshot it
+    this.packMaterial.uniforms.cameraNear.value = camera.near;
+    this.packMaterial.uniforms.cameraFar.value = camera.far;
+    renderer.clear();
+    renderer.render(this.packScene, this.packCamera);
+    this.copyCanvas(renderer.domElement, this.depthCanvas);
+
+    // 3. Colour pass with the usual blending
+    renderer.clear();
+    readyLayers.forEach((layer) => renderer.render(prepareLayer(layer), camera));
+    this.copyCanvas(renderer.domElement, this.colorCanvas);
+    renderer.clear();
+
+    renderer.autoClear = savedAutoClear;
+
+    // Re-assigning the canvases marks the uniforms dirty so Cesium re-uploads them
+    this.stage.uniforms.splatColor = this.colorCanvas;
+    this.stage.uniforms.splatDepth = this.depthCanvas;
+  }
+
+  private copyCanvas(source: HTMLCanvasElement, target: HTMLCanvasElement) {
+    const ctx = target.getContext("2d")!;
+    ctx.clearRect(0, 0, target.width, target.height);
+    ctx.drawImage(source, 0, 0, target.width, target.height);
+  }
+
+  public dispose() {
+    this.cesiumScene.postProcessStages.remove(this.stage);
+    this.depthTarget.depthTexture?.dispose();
+    this.depthTarget.dispose();
+    this.packMaterial.dispose();
+    this.layers = [];
+  }
+}
@@ -0,0 +1,14 @@
+// src/export/download.ts
+
+// Offer generated data as a file download
+export function downloadBlob(data: BlobPart, filename: string, type: string = "application/octet-stream"): void {
+  const blob = new Blob([data], { type });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+
+  URL.revokeObjectURL(url);
+}
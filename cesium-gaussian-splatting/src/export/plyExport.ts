@@ -0,0 +1,223 @@
+// src/export/plyExport.ts
+import * as Cesium from "cesium";
+import * as THREE from "three";
+import { EnuParams } from "../types/alignment";
+import { GaussianSplatLayer } from "../gaussian-splat-layer";
+import { composeModelMatrixENU, ecefToEnuMatrix } from "../alignment/composeModelMatrix";
+import { downloadBlob } from "./download";
+
+// Zeroth-order spherical harmonic constant used by 3DGS PLY files for f_dc_*
+export const SH_C0 = 0.28209479177387814;
+
+export type GeoOrigin = { lon: number; lat: number; height: number };
+
+// "enu": metres in the east/north/up frame of the published origin (float32 positions)
+// "ecef": WGS84 earth-centred coordinates, EPSG:4978 (float64 positions)
+export type ExportFrame = "enu" | "ecef";
+
+export type PlyExportOptions = {
+  frame: ExportFrame;
+  origin?: GeoOrigin;   // required for "enu"
+  comments?: string[];  // extra header comments
+};
+
+// Splat attributes in model units, as stored by the splat viewer
+export type SplatArrays = {
+  count: number;
+  centers: Float64Array;   // xyz
+  scales: Float32Array;    // linear xyz
+  rotations: Float32Array; // quaternion xyzw
+  colors: Uint8Array;      // rgba 0..255
+};
+
+export function readSplatArrays(layer: GaussianSplatLayer): SplatArrays {
+  const mesh = layer.ready ? layer.splatViewer.getSplatMesh() : null;
+  if (!mesh) throw new Error("Splat layer is not loaded");
+
+  const count: number = mesh.getSplatCount();
+  const arrays: SplatArrays = {
+    count,
+    centers: new Float64Array(count * 3),
+    scales: new Float32Array(count * 3),
+    rotations: new Float32Array(count * 4),
+    colors: new Uint8Array(count * 4)
+  };
+
+  const center = new THREE.Vector3();
+  const scale = new THREE.Vector3();
+  const rotation = new THREE.Quaternion();
+  const color = new THREE.Vector4();
+  for (let i = 0; i < count; i++) {
+    mesh.getSplatCenter(i, center, false);
+    mesh.getSplatScaleAndRotation(i, scale, rotation, false);
+    mesh.getSplatColor(i, color);
+
+    center.toArray(arrays.centers, i * 3);
+    scale.toArray(arrays.scales, i * 3);
+    rotation.toArray(arrays.rotations, i * 4);
+    color.toArray(arrays.colors, i * 4);
+  }
+
+  return arrays;
+}
+
+// Write splats as a binary 3DGS PLY with modelToEcef (column-major, splat units -> ECEF)
+// baked into every position, rotation and scale
+export function writeGeoreferencedPly(
+  splats: SplatArrays,
+  modelToEcef: ArrayLike<number>,
+  options: PlyExportOptions
+): ArrayBuffer {
+  if (options.frame === "enu" && !options.origin) {
+    throw new Error("An origin is required to export in the ENU frame");
+  }
+
+  const matrix = new THREE.Matrix4().fromArray(Array.from(modelToEcef));
+  if (options.frame === "enu") {
+    const ecefToEnu = Cesium.Matrix4.toArray(ecefToEnuMatrix(options.origin!));
+    matrix.premultiply(new THREE.Matrix4().fromArray(ecefToEnu));
+  }
+
+  // Split into uniform scale and pure rotation
+  const position = new THREE.Vector3();
+  const frameRotation = new THREE.Quaternion();
+  const frameScale = new THREE.Vector3();
+  matrix.decompose(position, frameRotation, frameScale);
+  const uniformScale = (frameScale.x + frameScale.y + frameScale.z) / 3;
+  if (Math.abs(frameScale.x - frameScale.y) > 1e-6 * uniformScale ||
+      Math.abs(frameScale.x - frameScale.z) > 1e-6 * uniformScale) {
+    throw new Error("Model matrix has non-uniform scale; Gaussians cannot be transformed exactly");
+  }
+
+  const useDouble = options.frame === "ecef";
+  const header = buildHeader(splats.count, useDouble, options);
+  const positionBytes = useDouble ? 24 : 12;
+  const vertexBytes = positionBytes + 4 * (3 + 1 + 3 + 4);
+
+  const headerBytes = new TextEncoder().encode(header);
+  const buffer = new ArrayBuffer(headerBytes.length + vertexBytes * splats.count);
+  new Uint8Array(buffer).set(headerBytes);
+  const view = new DataView(buffer, headerBytes.length);
+
+  const center = new THREE.Vector3();
+  const rotation = new THREE.Quaternion();
+  let offset = 0;
+  for (let i = 0; i < splats.count; i++) {
+    center.fromArray(splats.centers, i * 3).applyMatrix4(matrix);
+    if (useDouble) {
+      view.setFloat64(offset, center.x, true);
+      view.setFloat64(offset + 8, center.y, true);
+      view.setFloat64(offset + 16, center.z, true);
+    } else {
+      view.setFloat32(offset, center.x, true);
+      view.setFloat32(offset + 4, center.y, true);
+      view.setFloat32(offset + 8, center.z, true);
+    }
+    offset += positionBytes;
+
+    // Colour as DC spherical harmonic, opacity as logit
+    for (let c = 0; c < 3; c++) {
+      view.setFloat32(offset, (splats.colors[i * 4 + c] / 255 - 0.5) / SH_C0, true);
+      offset += 4;
+    }
+    view.setFloat32(offset, logit(splats.colors[i * 4 + 3] / 255), true);
+    offset += 4;
+
+    // Scales are stored as logs
+    for (let c = 0; c < 3; c++) {
+      view.setFloat32(offset, Math.log(Math.max(splats.scales[i * 3 + c] * uniformScale, 1e-12)), true);
+      offset += 4;
+    }
+
+    // rot_0 is w in the 3DGS convention
+    rotation.fromArray(splats.rotations, i * 4).premultiply(frameRotation).normalize();
+    view.setFloat32(offset, rotation.w, true);
+    view.setFloat32(offset + 4, rotation.x, true);
+    view.setFloat32(offset + 8, rotation.y, true);
+    view.setFloat32(offset + 12, rotation.z, true);
+    offset += 16;
+  }
+
+  return buffer;
+}
+
+// Export a layer placed by EnuParams around an anchor (the alignment V2 model matrix)
+export function exportPlyFromEnuParams(
+  layer: GaussianSplatLayer,
+  anchor: GeoOrigin,
+  params: EnuParams,
+  options: PlyExportOptions
+): ArrayBuffer {
+  const modelToEcef = Cesium.Matrix4.toArray(composeModelMatrixENU(anchor, params));
+  return writeGeoreferencedPly(readSplatArrays(layer), modelToEcef, {
+    ...options,
+    origin: options.origin ?? anchor
+  });
+}
+
+// Export a layer exactly as it is currently displayed
+export function exportPlyFromLayer(layer: GaussianSplatLayer, options: PlyExportOptions): ArrayBuffer {
+  return writeGeoreferencedPly(readSplatArrays(layer), layer.getModelMatrix().elements, {
+    ...options,
+    origin: options.origin ?? layer.getAnchor()
+  });
+}
+
+export function downloadPly(buffer: ArrayBuffer, filename: string): void {
+  downloadBlob(buffer, filename);
+}
+
+// Helper functions
+function buildHeader(count: number, useDouble: boolean, options: PlyExportOptions): string {
+  const positionType = useDouble ? "double" : "float";
+  const lines = [
+    "ply",
+    "format binary_little_endian 1.0",
+    "comment generated by cesium-gaussian-splatting",
+    ...georeferenceComments(options),
+    ...(options.comments ?? []).map(c => `comment ${c}`),
+    `element vertex ${count}`,
+    `property ${positionType} x`,
+    `property ${positionType} y`,
+    `property ${positionType} z`,
+    "property float f_dc_0",
+    "property float f_dc_1",
+    "property float f_dc_2",
+    "property float opacity",
+    "property float scale_0",
+    "property float scale_1",
+    "property float scale_2",
+    "property float rot_0",
+    "property float rot_1",
+    "property float rot_2",
+    "property float rot_3",
+    "end_header"
+  ];
+  return lines.join("\n") + "\n";
+}
+
+function georeferenceComments(options: PlyExportOptions): string[] {
+  if (options.frame === "ecef") {
+    return [
+      "comment georef_frame ECEF",
+      "comment georef_crs EPSG:4978",
+      "comment georef_units metre"
+    ];
+  }
+
+  const origin = options.origin!;
+  return [
+    "comment georef_frame ENU",
+    "comment georef_crs local east-north-up tangent frame on WGS84",
+    `comment georef_origin_lon ${origin.lon.toFixed(10)}`,
+    `comment georef_origin_lat ${origin.lat.toFixed(10)}`,
+    `comment georef_origin_height ${origin.height.toFixed(4)}`,
+    "comment georef_origin_crs EPSG:4979",
+    "comment georef_units metre"
+  ];
+}
+
+function logit(alpha: number): number {
+  const a = Math.min(Math.max(alpha, 1e-6), 1 - 1e-6);
+  return Math.log(a / (1 - a));
+}
@@ -0,0 +1,181 @@
+// src/export/plyImport.ts
+import { SH_C0, SplatArrays } from "./plyExport";
+
+export type PlyContents = {
+  splats: SplatArrays;
+  comments: string[];  // header comments, e.g. the georef_* lines written by writeGeoreferencedPly
+};
+
+type PlyProperty = { name: string; type: string; offset: number };
+type PlyElement = { name: string; count: number; properties: PlyProperty[]; stride: number };
+// Value of property column c of vertex i; only the columns a splat needs are ever read
+type VertexReader = (i: number, c: number) => number;
+
+const TYPE_SIZES: Record<string, number> = {
+  char: 1, int8: 1, uchar: 1, uint8: 1,
+  short: 2, int16: 2, ushort: 2, uint16: 2,
+  int: 4, int32: 4, uint: 4, uint32: 4,
+  float: 4, float32: 4, double: 8, float64: 8
+};
+
+// Read a 3DGS PLY (binary or ASCII) into the arrays the splat viewer would hold: linear
+// scales, xyzw quaternions and RGBA colours. Plain point clouds load too; their points
+// get zero scale and full opacity.
+export function parseSplatPly(buffer: ArrayBuffer): PlyContents {
+  const bytes = new Uint8Array(buffer);
+  const headerEnd = findHeaderEnd(bytes);
+  const header = new TextDecoder().decode(bytes.subarray(0, headerEnd)).split(/\r?\n/);
+  if (header[0].trim() !== "ply") throw new Error("Not a PLY file");
+
+  let format = "";
+  const comments: string[] = [];
+  const elements: PlyElement[] = [];
+  for (const line of header.slice(1)) {
+    const words = line.trim().split(/\s+/);
+    if (words[0] === "format") {
+      format = words[1];
+    } else if (words[0] === "comment") {
+      comments.push(line.trim().slice("comment".length).trim());
+    } else if (words[0] === "element") {
+      elements.push({ name: words[1], count: parseInt(words[2], 10), properties: [], stride: 0 });
+    } else if (words[0] === "property") {
+      const element = elements[elements.length - 1];
+      if (!element) throw new Error("PLY property before any element");
+      if (words[1] === "list") throw new Error(`PLY list property "${words[4]}" is not supported`);
+      if (!TYPE_SIZES[words[1]]) throw new Error(`Unknown PLY property type "${words[1]}"`);
+      element.properties.push({ name: words[2], type: words[1], offset: element.stride });
+      element.stride += TYPE_SIZES[words[1]];
+    }
+  }
+
+  const vertexIndex = elements.findIndex(e => e.name === "vertex");
+  if (vertexIndex < 0) throw new Error("PLY file has no vertex element");
+  const vertex = elements[vertexIndex];
+
+  let read: VertexReader;
+  if (format === "ascii") {
+    read = asciiReader(bytes.subarray(headerEnd), elements, vertexIndex);
+  } else if (format === "binary_little_endian" || format === "binary_big_endian") {
+    const start = headerEnd + elements.slice(0, vertexIndex).reduce((sum, e) => sum + e.count * e.stride, 0);
+    if (start + vertex.count * vertex.stride > bytes.length) throw new Error("PLY file is truncated");
+    read = binaryReader(new DataView(buffer, start), vertex, format === "binary_little_endian");
+  } else {
+    throw new Error(`Unsupported PLY format "${format}"`);
+  }
+
+  return { splats: toSplatArrays(read, vertex), comments };
+}
+
+// Helper functions
+function findHeaderEnd(bytes: Uint8Array): number {
+  const marker = new TextEncoder().encode("end_header");
+  const limit = Math.min(bytes.length, 1 << 16);
+  for (let i = 0; i + marker.length < limit; i++) {
+    let match = true;
+    for (let j = 0; j < marker.length && match; j++) match = bytes[i + j] === marker[j];
+    if (!match) continue;
+
+    // The header ends after the line break following end_header
+    let end = i + marker.length;
+    while (end < bytes.length && bytes[end] !== 0x0a) end++;
+    return end + 1;
+  }
+  throw new Error("PLY header has no end_header");
+}
+
+function binaryReader(view: DataView, vertex: PlyElement, littleEndian: boolean): VertexReader {
+  return (i, c) => {
+    const property = vertex.properties[c];
+    return readValue(view, i * vertex.stride + property.offset, property.type, littleEndian);
+  };
+}
+
+function readValue(view: DataView, offset: number, type: string, littleEndian: boolean): number {
+  switch (type) {
+    case "char": case "int8": return view.getInt8(offset);
+    case "uchar": case "uint8": return view.getUint8(offset);
+    case "short": case "int16": return view.getInt16(offset, littleEndian);
+    case "ushort": case "uint16": return view.getUint16(offset, littleEndian);
+    case "int": case "int32": return view.getInt32(offset, littleEndian);
+    case "uint": case "uint32": return view.getUint32(offset, littleEndian);
+    case "float": case "float32": return view.getFloat32(offset, littleEndian);
+    default: return view.getFloat64(offset, littleEndian);
+  }
+}
+
+function asciiReader(body: Uint8Array, elements: PlyElement[], vertexIndex: number): VertexReader {
+  const lines = new TextDecoder().decode(body).split(/\r?\n/).filter(line => line.trim() !== "");
+  const skip = elements.slice(0, vertexIndex).reduce((sum, e) => sum + e.count, 0);
+  if (lines.length < skip + elements[vertexIndex].count) throw new Error("PLY file is truncated");
+
+  // Vertices are read in order, so only the current line is kept split
+  let current = -1;
+  let words: string[] = [];
+  return (i, c) => {
+    if (i !== current) {
+      words = lines[skip + i].trim().split(/\s+/);
+      current = i;
+    }
+    return parseFloat(words[c]);
+  };
+}
+
+function toSplatArrays(read: VertexReader, vertex: PlyElement): SplatArrays {
+  const column = (name: string) => vertex.properties.findIndex(p => p.name === name);
+  const [x, y, z] = ["x", "y", "z"].map(column);
+  if (x < 0 || y < 0 || z < 0) throw new Error("PLY vertices have no x/y/z");
+
+  const scale = ["scale_0", "scale_1", "scale_2"].map(column);
+  const rotation = ["rot_0", "rot_1", "rot_2", "rot_3"].map(column);
+  const dc = ["f_dc_0", "f_dc_1", "f_dc_2"].map(column);
+  const rgb = ["red", "green", "blue"].map(column);
+  const opacity = column("opacity");
+  const alpha = column("alpha");
+  const hasScale = scale.every(c => c >= 0);
+  const hasRotation = rotation.every(c => c >= 0);
+  const hasDc = dc.every(c => c >= 0);
+  const hasRgb = rgb.every(c => c >= 0);
+  // Colours stored as floats are 0..1
+  const rgbScale = hasRgb && ["float", "float32", "double", "float64"].includes(vertex.properties[rgb[0]].type) ? 255 : 1;
+
+  const count = vertex.count;
+  const splats: SplatArrays = {
+    count,
+    centers: new Float64Array(count * 3),
+    scales: new Float32Array(count * 3),
+    rotations: new Float32Array(count * 4),
+    colors: new Uint8Array(count * 4)
+  };
+
+  for (let i = 0; i < count; i++) {
+    splats.centers[i * 3] = read(i, x);
+    splats.centers[i * 3 + 1] = read(i, y);
+    splats.centers[i * 3 + 2] = read(i, z);
+
+    // Scales are stored as logs
+    for (let k = 0; k < 3; k++) {
+      splats.scales[i * 3 + k] = hasScale ? Math.exp(read(i, scale[k])) : 0;
+    }
+
+    // rot_0 is w in the 3DGS convention
+    if (hasRotation) {
+      const [w, qx, qy, qz] = rotation.map(c => read(i, c));
+      const n = Math.hypot(w, qx, qy, qz) || 1;
+      splats.rotations.set([qx / n, qy / n, qz / n, w / n], i * 4);
+    } else {
+      splats.rotations[i * 4 + 3] = 1;
+    }
+
+    // Colour from the DC spherical harmonic, opacity from its logit
+    for (let k = 0; k < 3; k++) {
+      splats.colors[i * 4 + k] = hasDc
+        ? Math.round(Math.min(1, Math.max(0, 0.5 + SH_C0 * read(i, dc[k]))) * 255)
+        : hasRgb ? Math.round(read(i, rgb[k]) * rgbScale) : 128;
+    }
+    splats.colors[i * 4 + 3] = opacity >= 0
+      ? Math.round(255 / (1 + Math.exp(-read(i, opacity))))
+      : alpha >= 0 ? Math.round(read(i, alpha)) : 255;
+  }
+
+  return splats;
+}
@@ -0,0 +1,335 @@
+// src/export/tilesetExport.ts
+import * as Cesium from "cesium";
+import { EnuParams } from "../types/alignment";
+import { GaussianSplatLayer } from "../gaussian-splat-layer";
+import { composeModelMatrixENU } from "../alignment/composeModelMatrix";
+import { SH_C0, SplatArrays, GeoOrigin, readSplatArrays } from "./plyExport";
+import { writeGzip, writeZip } from "./zip";
+import { downloadBlob } from "./download";
+
+// Splat glTF content: a POINTS primitive with KHR_gaussian_splatting whose attributes
+// (POSITION, COLOR_0, SCALE, ROTATION) are all decoded from one SPZ v2 stream
+// (KHR_gaussian_splatting_compression_spz_2), the layout Cesium's splat renderer loads.
+// Only the DC colour is kept; spherical-harmonics bands are dropped.
+const SPLAT_EXTENSION = "KHR_gaussian_splatting";
+const SPZ_EXTENSION = "KHR_gaussian_splatting_compression_spz_2";
+
+// SPZ v2 quantisation (github.com/nianticlabs/spz): 24-bit fixed-point positions, DC colour
+// scaled by 0.15 around 0.5, log scales in 1/16 steps from -10, quaternion xyz with w >= 0
+const SPZ_MAGIC = 0x5053474e; // "NGSP"
+const SPZ_VERSION = 2;
+const SPZ_COLOR_SCALE = 0.15;
+
+export type TilesetExportOptions = {
+  maxSplatsPerTile?: number; // leaves are split until they hold at most this many splats
+  maxDepth?: number;
+};
+
+type Box = { min: number[]; max: number[] };
+
+type TileJson = {
+  boundingVolume: { box: number[] };
+  geometricError: number;
+  refine?: "ADD" | "REPLACE";
+  transform?: number[];
+  content?: { uri: string };
+  children?: TileJson[];
+};
+
+// Build tileset.json plus one glb per tile. rootTransform (column-major, splat units -> ECEF)
+// becomes the root tile transform, so tile contents stay in splat units.
+export function buildSplatTileset(
+  splats: SplatArrays,
+  rootTransform: ArrayLike<number>,
+  options: TilesetExportOptions = {}
+): Map<string, Uint8Array> {
+  if (splats.count === 0) throw new Error("No splats to export");
+
+  const maxSplatsPerTile = options.maxSplatsPerTile ?? 100000;
+  const maxDepth = options.maxDepth ?? 8;
+  const transform = Array.from(rootTransform);
+  const metersPerUnit = Math.hypot(transform[0], transform[1], transform[2]);
+
+  const files = new Map<string, Uint8Array>();
+  const all = new Uint32Array(splats.count);
+  for (let i = 0; i < all.length; i++) all[i] = i;
+
+  // Octree over splat centres; every tile carries a subsample of its region so the
+  // scene is visible from afar, and children REPLACE it with the full density
+  const build = (indices: Uint32Array, box: Box, depth: number, id: string): TileJson => {
+    const isLeaf = indices.length <= maxSplatsPerTile || depth >= maxDepth;
+    const stride = isLeaf ? 1 : Math.ceil(indices.length / maxSplatsPerTile);
+    const sample = stride === 1 ? indices : indices.filter((_, k) => k % stride === 0);
+
+    const uri = `tiles/${id}.glb`;
+    files.set(uri, writeSplatGlb(splats, sample));
+
+    const tile: TileJson = {
+      boundingVolume: { box: boundingBox(splats, indices) },
+      geometricError: 0,
+      content: { uri }
+    };
+    if (isLeaf) return tile;
+
+    tile.children = splitOctants(splats, indices, box)
+      .map((child, octant) => ({ child, octant }))
+      .filter(({ child }) => child.indices.length > 0)
+      .map(({ child, octant }) => build(child.indices, child.box, depth + 1, `${id}-${octant}`));
+
+    // Missing splats leave gaps about as wide as the subsample spacing
+    const size = box.max.map((v, k) => v - box.min[k]);
+    const volume = Math.max(size[0] * size[1] * size[2], 1e-9);
+    const spacing = Math.cbrt(volume / sample.length) * metersPerUnit;
+    const childError = Math.max(...tile.children.map(c => c.geometricError));
+    tile.geometricError = Math.max(spacing, childError * 1.5, 1e-3);
+
+    return tile;
+  };
+
+  const rootBox = centerBounds(splats, all);
+  const root = build(all, rootBox, 0, "0");
+  root.refine = "REPLACE";
+  root.transform = transform;
+
+  const diagonal = Math.hypot(...rootBox.max.map((v, k) => v - rootBox.min[k])) * metersPerUnit;
+  // Cesium only picks its splat renderer when the tileset declares both glTF extensions as required
+  const tileset = {
+    asset: { version: "1.1", generator: "cesium-gaussian-splatting" },
+    extensionsUsed: ["3DTILES_content_gltf"],
+    extensions: {
+      "3DTILES_content_gltf": {
+        extensionsUsed: [SPLAT_EXTENSION, SPZ_EXTENSION],
+        extensionsRequired: [SPLAT_EXTENSION, SPZ_EXTENSION]
+      }
+    },
+    geometricError: Math.max(diagonal, root.geometricError * 2),
+    root
+  };
+  files.set("tileset.json", new TextEncoder().encode(JSON.stringify(tileset, null, 2)));
+
+  return files;
+}
+
+// Tileset for a layer placed by EnuParams around an anchor, as a zip of tileset.json and tiles/
+export function exportTilesetFromEnuParams(
+  layer: GaussianSplatLayer,
+  anchor: GeoOrigin,
+  params: EnuParams,
+  options: TilesetExportOptions = {}
+): Uint8Array {
+  const rootTransform = Cesium.Matrix4.toArray(composeModelMatrixENU(anchor, params));
+  return writeZip(buildSplatTileset(readSplatArrays(layer), rootTransform, options));
+}
+
+// Tileset for a layer exactly as it is currently displayed
+export function exportTilesetFromLayer(layer: GaussianSplatLayer, options: TilesetExportOptions = {}): Uint8Array {
+  return writeZip(buildSplatTileset(readSplatArrays(layer), layer.getModelMatrix().elements, options));
+}
+
+export function downloadTileset(zip: Uint8Array, filename: string): void {
+  downloadBlob(zip, filename, "application/zip");
+}
+
+// Helper functions
+function centerBounds(splats: SplatArrays, indices: Uint32Array): Box {
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (const i of indices) {
+    for (let k = 0; k < 3; k++) {
+      const v = splats.centers[i * 3 + k];
+      if (v < min[k]) min[k] = v;
+      if (v > max[k]) max[k] = v;
+    }
+  }
+  return { min, max };
+}
+
+// Oriented box (3D Tiles layout) around the splat centres padded by 3 sigma of the largest splat
+function boundingBox(splats: SplatArrays, indices: Uint32Array): number[] {
+  const { min, max } = centerBounds(splats, indices);
+  let pad = 0;
+  for (const i of indices) {
+    pad = Math.max(pad, splats.scales[i * 3], splats.scales[i * 3 + 1], splats.scales[i * 3 + 2]);
+  }
+  pad *= 3;
+
+  const center = min.map((v, k) => (v + max[k]) / 2);
+  const half = min.map((v, k) => Math.max((max[k] - v) / 2 + pad, 1e-3));
+  return [
+    center[0], center[1], center[2],
+    half[0], 0, 0,
+    0, half[1], 0,
+    0, 0, half[2]
+  ];
+}
+
+function splitOctants(splats: SplatArrays, indices: Uint32Array, box: Box): { indices: Uint32Array; box: Box }[] {
+  const mid = box.min.map((v, k) => (v + box.max[k]) / 2);
+  const buckets: number[][] = Array.from({ length: 8 }, () => []);
+
+  for (const i of indices) {
+    const octant =
+      (splats.centers[i * 3] >= mid[0] ? 1 : 0) |
+      (splats.centers[i * 3 + 1] >= mid[1] ? 2 : 0) |
+      (splats.centers[i * 3 + 2] >= mid[2] ? 4 : 0);
+    buckets[octant].push(i);
+  }
+
+  return buckets.map((bucket, octant) => ({
+    indices: Uint32Array.from(bucket),
+    box: {
+      min: [0, 1, 2].map(k => (octant & (1 << k) ? mid[k] : box.min[k])),
+      max: [0, 1, 2].map(k => (octant & (1 << k) ? box.max[k] : mid[k]))
+    }
+  }));
+}
+
+// glTF is Y-up and 3D Tiles rotates it to Z-up on load, so splat coordinates
+// are written as (x, z, -y) and rotations are pre-rotated by -90° about X
+function writeSplatGlb(splats: SplatArrays, indices: Uint32Array): Uint8Array {
+  const n = indices.length;
+  const positions = new Float32Array(n * 3);
+  const rotations = new Float32Array(n * 4);
+
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  const h = Math.SQRT1_2;
+
+  indices.forEach((i, k) => {
+    const x = splats.centers[i * 3];
+    const y = splats.centers[i * 3 + 1];
+    const z = splats.centers[i * 3 + 2];
+    const p = [x, z, -y];
+    for (let c = 0; c < 3; c++) {
+      positions[k * 3 + c] = p[c];
+      min[c] = Math.min(min[c], p[c]);
+      max[c] = Math.max(max[c], p[c]);
+    }
+
+    // q' = qx(-90°) * q with qx(-90°) = (-h, 0, 0, h) in xyzw
+    const qx = splats.rotations[i * 4];
+    const qy = splats.rotations[i * 4 + 1];
+    const qz = splats.rotations[i * 4 + 2];
+    const qw = splats.rotations[i * 4 + 3];
+    rotations[k * 4] = h * (qx - qw);
+    rotations[k * 4 + 1] = h * (qy + qz);
+    rotations[k * 4 + 2] = h * (qz - qy);
+    rotations[k * 4 + 3] = h * (qw + qx);
+  });
+
+  const spz = writeSpz(splats, indices, positions, rotations);
+  const byteLength = Math.ceil(spz.length / 4) * 4;
+
+  // Accessors have no bufferView: the SPZ extension supplies their data
+  const gltf = {
+    asset: { version: "2.0", generator: "cesium-gaussian-splatting" },
+    extensionsUsed: [SPLAT_EXTENSION, SPZ_EXTENSION],
+    extensionsRequired: [SPLAT_EXTENSION, SPZ_EXTENSION],
+    buffers: [{ byteLength }],
+    bufferViews: [{ buffer: 0, byteOffset: 0, byteLength: spz.length }],
+    accessors: [
+      { componentType: 5126, count: n, type: "VEC3", min, max },
+      { componentType: 5121, normalized: true, count: n, type: "VEC4" },
+      { componentType: 5126, count: n, type: "VEC3" },
+      { componentType: 5126, count: n, type: "VEC4" }
+    ],
+    meshes: [{
+      primitives: [{
+        mode: 0,
+        attributes: {
+          POSITION: 0,
+          COLOR_0: 1,
+          [`${SPLAT_EXTENSION}:SCALE`]: 2,
+          [`${SPLAT_EXTENSION}:ROTATION`]: 3
+        },
+        extensions: { [SPLAT_EXTENSION]: { extensions: { [SPZ_EXTENSION]: { bufferView: 0 } } } }
+      }]
+    }],
+    nodes: [{ mesh: 0 }],
+    scenes: [{ nodes: [0] }],
+    scene: 0
+  };
+
+  const json = padTo4(new TextEncoder().encode(JSON.stringify(gltf)), 0x20);
+  const totalLength = 12 + 8 + json.length + 8 + byteLength;
+  const glb = new Uint8Array(totalLength);
+  const header = new DataView(glb.buffer);
+
+  header.setUint32(0, 0x46546c67, true); // "glTF"
+  header.setUint32(4, 2, true);
+  header.setUint32(8, totalLength, true);
+  header.setUint32(12, json.length, true);
+  header.setUint32(16, 0x4e4f534a, true); // "JSON"
+  glb.set(json, 20);
+
+  const binStart = 20 + json.length;
+  header.setUint32(binStart, byteLength, true);
+  header.setUint32(binStart + 4, 0x004e4942, true); // "BIN\0"
+  glb.set(spz, binStart + 8);
+
+  return glb;
+}
+
+// Gzipped SPZ v2 stream of the given splats; positions and rotations are already in the glTF frame
+function writeSpz(splats: SplatArrays, indices: Uint32Array, positions: Float32Array, rotations: Float32Array): Uint8Array {
+  const n = indices.length;
+
+  // As many fractional bits as the largest coordinate leaves in 24 bits
+  let maxAbs = 0;
+  for (let k = 0; k < positions.length; k++) maxAbs = Math.max(maxAbs, Math.abs(positions[k]));
+  const fractionalBits = maxAbs > 0 ? Math.max(0, Math.min(23, Math.floor(Math.log2((2 ** 23 - 1) / maxAbs)))) : 12;
+
+  const headerSize = 16;
+  const data = new Uint8Array(headerSize + n * (9 + 1 + 3 + 3 + 3));
+  const header = new DataView(data.buffer);
+  header.setUint32(0, SPZ_MAGIC, true);
+  header.setUint32(4, SPZ_VERSION, true);
+  header.setUint32(8, n, true);
+  header.setUint8(12, 0); // SH degree
+  header.setUint8(13, fractionalBits);
+  header.setUint8(14, 0); // flags: not antialiased
+
+  // Attribute blocks follow each other: positions, alphas, colours, scales, rotations
+  const alphaStart = headerSize + n * 9;
+  const colorStart = alphaStart + n;
+  const scaleStart = colorStart + n * 3;
+  const rotationStart = scaleStart + n * 3;
+  const fixedScale = 2 ** fractionalBits;
+
+  indices.forEach((i, k) => {
+    for (let c = 0; c < 3; c++) {
+      const fixed = Math.max(-(2 ** 23), Math.min(2 ** 23 - 1, Math.round(positions[k * 3 + c] * fixedScale)));
+      const offset = headerSize + (k * 3 + c) * 3;
+      data[offset] = fixed & 0xff;
+      data[offset + 1] = (fixed >> 8) & 0xff;
+      data[offset + 2] = (fixed >> 16) & 0xff;
+    }
+
+    data[alphaStart + k] = splats.colors[i * 4 + 3];
+    for (let c = 0; c < 3; c++) {
+      const dc = (splats.colors[i * 4 + c] / 255 - 0.5) / SH_C0;
+      data[colorStart + k * 3 + c] = toUint8(dc * SPZ_COLOR_SCALE * 255 + 127.5);
+      // Scales are per local splat axis and do not change with the frame
+      data[scaleStart + k * 3 + c] = toUint8((Math.log(Math.max(splats.scales[i * 3 + c], 1e-12)) + 10) * 16);
+    }
+
+    const q = rotations.subarray(k * 4, k * 4 + 4);
+    const norm = Math.hypot(q[0], q[1], q[2], q[3]) || 1;
+    const sign = q[3] < 0 ? -1 : 1;
+    for (let c = 0; c < 3; c++) {
+      data[rotationStart + k * 3 + c] = toUint8((sign * q[c] / norm) * 127.5 + 127.5);
+    }
+  });
+
+  return writeGzip(data);
+}
+
+function toUint8(value: number): number {
+  return Math.max(0, Math.min(255, Math.round(value)));
+}
+
+function padTo4(bytes: Uint8Array, fill: number): Uint8Array {
+  const padded = new Uint8Array(Math.ceil(bytes.length / 4) * 4).fill(fill);
+  padded.set(bytes);
+  return padded;
+}
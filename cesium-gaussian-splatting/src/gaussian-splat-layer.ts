@@ -1,135 +1,245 @@
 import * as Cesium from "cesium";
 import * as THREE from "three";
 import * as GaussianSplats3D from "@mkkellogg/gaussian-splats-3d";
+import { EnuParams, GeoAnchor } from "./types/alignment";
+import { composeModelMatrixENU, ecefToEnuMatrix } from "./alignment/composeModelMatrix";
+
+// Needed when the model URL has no file extension (e.g. blob URLs)
+export type SplatFileFormat = "ply" | "splat" | "ksplat";
+
+const SCENE_FORMATS: Record<SplatFileFormat, number> = {
+  splat: GaussianSplats3D.SceneFormat.Splat,
+  ksplat: GaussianSplats3D.SceneFormat.KSplat,
+  ply: GaussianSplats3D.SceneFormat.Ply,
+};
+
+export interface GaussianSplatLayerOptions {
+  // hide the splat behind terrain, 3D tiles and entities instead of drawing it on top
+  depthTest?: boolean;
+  visible?: boolean;
+  opacity?: number;
+  format?: SplatFileFormat;
+}
+
+export interface TransformChangeEvent {
+  layer: GaussianSplatLayer;
+  before: EnuParams;
+  params: EnuParams;
+  source: string; // what made the change, e.g. "keyboard" or "gizmo translate"
+}
+
+export type TransformChangeListener = (event: TransformChangeEvent) => void;
+
+export const DEFAULT_ENU_PARAMS: EnuParams = {
+  scale: 1,
+  yawRad: 0,
+  pitchRad: 0,
+  rollRad: 0,
+  tEast: 0,
+  tNorth: 0,
+  tUp: 0,
+};
 
 export class GaussianSplatLayer {
   public scene!: THREE.Scene;
   public splatViewer: GaussianSplats3D.Viewer;
   public ready: boolean;
+  public readonly depthTest: boolean;
+  // display state, picked up by ThreeOverlay every frame
+  public visible: boolean;
+  public opacity: number;
   private model: string;
-  private location: { lon: number; lat: number; height: number };
-  private rotation: { x: number; y: number; z: number };
-  private scale: number;
+  // The placement is anchor + EnuParams and nothing else; every adjuster goes
+  // through setEnuParams so the scene matrix and listeners stay in sync
+  private anchor: GeoAnchor;
+  private params: EnuParams;
+  private transformListeners = new Set<TransformChangeListener>();
+  private format?: SplatFileFormat;
+  private disposed = false;
+  private readyPromise: Promise<void>;
+  private resolveReady!: () => void;
+  private rejectReady!: (error: Error) => void;
 
   constructor(
     model: string,
-    location: { lon: number; lat: number; height: number },
-    rotation: { x: number; y: number; z: number },
-    initialScale: number = 1
+    anchor: GeoAnchor,
+    params: Partial<EnuParams> = {},
+    options: GaussianSplatLayerOptions = {}
   ) {
     this.ready = false;
+    this.depthTest = options.depthTest ?? false;
+    this.visible = options.visible ?? true;
+    this.opacity = options.opacity ?? 1;
+    this.format = options.format;
+    this.readyPromise = new Promise((resolve, reject) => {
+      this.resolveReady = resolve;
+      this.rejectReady = reject;
+    });
+    // A failed load is reported through whenReady(); nobody has to be waiting for it
+    this.readyPromise.catch(() => {});
     this.model = model;
-    this.location = location;
-    this.rotation = rotation;
-    this.scale = initialScale;
+    this.anchor = { ...anchor };
+    this.params = { ...DEFAULT_ENU_PARAMS, ...params };
+  }
 
-    window.addEventListener("keydown", (event) => {
-      this.adjustScene(event);
-    });
+  // Placement relative to the anchor's ENU frame
+  public getEnuParams(): EnuParams {
+    return { ...this.params };
   }
 
-  private adjustScene(event: KeyboardEvent) {
-    switch (event.key) {
-      case "q":
-        this.scene.rotateY(0.005);
-        break;
-      case "w":
-        this.scene.rotateY(-0.005);
-        break;
-      case "a":
-        this.scene.rotateX(0.005);
-        break;
-      case "s":
-        this.scene.rotateX(-0.005);
-        break;
-      case "z":
-        this.scene.rotateZ(0.005);
-        break;
-      case "x":
-        this.scene.rotateZ(-0.005);
-        break;
-      case "y":
-        this.location.lat += 0.0000025;
-        this.updatePosition();
-        break;
-      case "h":
-        this.location.lat -= 0.0000025;
-        this.updatePosition();
-        break;
-      case "j":
-        this.location.lon += 0.0000025;
-        this.updatePosition();
-        break;
-      case "g":
-        this.location.lon -= 0.0000025;
-        this.updatePosition();
-        break;
-      case "o": // Height increment
-        this.location.height += 1;
-        this.updatePosition();
-        break;
-      case "l": // Height decrement
-        this.location.height -= 1;
-        this.updatePosition();
-        break;
-      case "m":
-        this.scale += 0.05;
-        this.updateScale();
-        break;
-      case "n":
-        if (this.scale > 0.05) {
-          this.scale -= 0.05;
-          this.updateScale();
-        }
-        break;
+  public getAnchor(): GeoAnchor {
+    return { ...this.anchor };
+  }
+
+  // The single way to move the layer. Pitch and roll are ignored while the tilt is
+  // locked unless the change sets tiltLocked itself (e.g. undo restoring an older state).
+  public setEnuParams(change: Partial<EnuParams>, source: string = "api") {
+    const before = this.getEnuParams();
+    let next: Partial<EnuParams> = change;
+
+    if (this.params.tiltLocked && change.tiltLocked === undefined) {
+      const { pitchRad, rollRad, ...rest } = change;
+      if (pitchRad !== undefined || rollRad !== undefined) {
+        console.log(`⚠️ Pitch/Roll changes blocked: tilt is locked`);
+      }
+      next = rest;
     }
 
-    console.log(
-      "Model:",
-      this.model,
-      "\nRotation:",
-      this.scene.rotation.x,
-      this.scene.rotation.y,
-      this.scene.rotation.z,
-      "\nLoc:",
-      `Lon: ${this.location.lon}, Lat: ${this.location.lat}, Height: ${this.location.height}`,
-      "\nScale:",
-      this.scale
-    );
+    this.params = { ...this.params, ...next };
+    if (!(this.params.scale > 0)) {
+      this.params.scale = before.scale;
+    }
 
-    // Simple tracking - log each adjustment
-    console.log(`\n📊 ADJUSTMENT TRACKED:`);
-    console.log(`  Key: ${event.key}`);
-    console.log(`  Lon: ${this.location.lon.toFixed(8)}`);
-    console.log(`  Lat: ${this.location.lat.toFixed(8)}`);
-    console.log(`  Height: ${this.location.height.toFixed(2)}m`);
-    console.log(`  Rotation: X=${this.scene.rotation.x.toFixed(4)}, Y=${this.scene.rotation.y.toFixed(4)}, Z=${this.scene.rotation.z.toFixed(4)}`);
-    console.log(`  Scale: ${this.scale.toFixed(3)}\n`);
+    this.applyTransform();
+    this.emitTransformChange(before, source);
   }
 
-  private updatePosition() {
-    const position = Cesium.Cartesian3.fromDegrees(
-      this.location.lon,
-      this.location.lat,
-      this.location.height
+  // Move the splat origin to a geographic position, keeping the anchor
+  public moveTo(location: GeoAnchor, source: string = "api") {
+    const position = Cesium.Cartesian3.fromDegrees(location.lon, location.lat, location.height);
+    const enu = Cesium.Matrix4.multiplyByPoint(ecefToEnuMatrix(this.anchor), position, new Cesium.Cartesian3());
+    this.setEnuParams({ tEast: enu.x, tNorth: enu.y, tUp: enu.z }, source);
+  }
+
+  // Geographic position of the splat origin (anchor moved by the ENU translation)
+  public getLocation(): GeoAnchor {
+    const position = Cesium.Matrix4.getTranslation(
+      composeModelMatrixENU(this.anchor, this.params),
+      new Cesium.Cartesian3()
     );
-    this.scene.position.set(position.x, position.y, position.z);
+    const carto = Cesium.Cartographic.fromCartesian(position);
+    return {
+      lon: Cesium.Math.toDegrees(carto.longitude),
+      lat: Cesium.Math.toDegrees(carto.latitude),
+      height: carto.height,
+    };
+  }
+
+  // Called after every change with the params before and after; returns an unsubscribe function
+  public onTransformChange(listener: TransformChangeListener): () => void {
+    this.transformListeners.add(listener);
+    return () => this.transformListeners.delete(listener);
   }
 
-  private updateScale() {
-    if (this.splatViewer.getSplatMesh()) {
-      const mesh = this.splatViewer.getSplatMesh();
-      mesh.scale.set(this.scale, this.scale, this.scale);
+  // Resolves once the splat file is loaded and the mesh is in the scene; rejects when the
+  // file cannot be loaded or the layer is disposed first
+  public whenReady(): Promise<void> {
+    return this.readyPromise;
+  }
+
+  public setScale(scale: number, source: string = "scale") {
+    this.setEnuParams({ scale }, source);
+  }
+
+  // Bounds of the splat centres in model units, ignoring the given fraction of
+  // outliers at each end so stray floaters do not inflate the box
+  public getLocalBounds(trim: number = 0.02, maxSamples: number = 20000): THREE.Box3 {
+    const mesh = this.splatViewer?.getSplatMesh();
+    const count = this.ready && mesh ? mesh.getSplatCount() : 0;
+    if (count === 0) return new THREE.Box3();
+
+    const step = Math.max(1, Math.floor(count / maxSamples));
+    const xs: number[] = [];
+    const ys: number[] = [];
+    const zs: number[] = [];
+    const center = new THREE.Vector3();
+    for (let i = 0; i < count; i += step) {
+      mesh.getSplatCenter(i, center, false);
+      xs.push(center.x);
+      ys.push(center.y);
+      zs.push(center.z);
     }
+
+    const range = (values: number[]) => {
+      values.sort((a, b) => a - b);
+      const cut = Math.floor(values.length * trim);
+      return [values[cut], values[values.length - 1 - cut]];
+    };
+    const [minX, maxX] = range(xs);
+    const [minY, maxY] = range(ys);
+    const [minZ, maxZ] = range(zs);
+
+    return new THREE.Box3(new THREE.Vector3(minX, minY, minZ), new THREE.Vector3(maxX, maxY, maxZ));
   }
 
-  public setup(camera: THREE.Camera, renderer: THREE.Renderer) {
+  public getModel(): string {
+    return this.model;
+  }
+
+  // Matrix from splat units to ECEF as currently displayed (scene placement * mesh scale)
+  public getModelMatrix(): THREE.Matrix4 {
+    const mesh = this.splatViewer?.getSplatMesh();
+    if (!this.ready || !mesh) return this.scene.matrix.clone();
+
+    mesh.updateMatrix();
+    return this.scene.matrix.clone().multiply(mesh.matrix);
+  }
+
+  // ECEF position of the layer anchor, used as the origin for relative-to-center rendering
+  public getOrigin(target: THREE.Vector3 = new THREE.Vector3()): THREE.Vector3 {
     const position = Cesium.Cartesian3.fromDegrees(
-      this.location.lon,
-      this.location.lat,
-      this.location.height
+      this.anchor.lon,
+      this.anchor.lat,
+      this.anchor.height
     );
+    return target.set(position.x, position.y, position.z);
+  }
+
+  // Scene matrix = enuToEcef * T * R, the scale goes on the mesh so the gizmo
+  // and other children of the scene are not scaled with the splat
+  private applyTransform() {
+    if (!this.scene) return;
+
+    const matrix = composeModelMatrixENU(this.anchor, { ...this.params, scale: 1 });
+    this.scene.matrix.fromArray(Cesium.Matrix4.toArray(matrix));
+    this.scene.matrixWorldNeedsUpdate = true;
+
+    const mesh = this.ready ? this.splatViewer.getSplatMesh() : null;
+    if (mesh) {
+      mesh.scale.setScalar(this.params.scale);
+      mesh.updateMatrix();
+    }
+  }
+
+  private emitTransformChange(before: EnuParams, source: string) {
+    const event: TransformChangeEvent = { layer: this, before, params: this.getEnuParams(), source };
+    for (const listener of this.transformListeners) {
+      listener(event);
+    }
+  }
+
+  // Push visible/opacity into the Three scene and the splat shader
+  public updateDisplay() {
+    if (!this.ready) return;
 
+    this.scene.visible = this.visible;
+    const splatScene = this.splatViewer.getSplatScene(0);
+    if (splatScene) {
+      splatScene.opacity = Math.max(0, Math.min(1, this.opacity));
+    }
+  }
+
+  public setup(camera: THREE.Camera, renderer: THREE.Renderer) {
     this.splatViewer = new GaussianSplats3D.Viewer({
       selfDrivenMode: false,
       gpuAcceleratedSort: true,
@@ -139,15 +249,18 @@ export class GaussianSplatLayer {
       useBuiltInControls: false,
       camera: camera,
       renderer: renderer,
+      // needed for per-scene opacity
+      enableOptionalEffects: true,
     });
 
     // create parent scene and place at given position
     // placing the splat scene directly at a world location
     // results in jittering and inconsistent gaussian positions
-    // due to too large numbers
+    // due to too large numbers; ThreeOverlay rebases this
+    // scene and the camera onto the anchor every frame
     this.scene = new THREE.Scene();
-    this.scene.position.set(position.x, position.y, position.z);
-    this.scene.rotation.set(this.rotation.x, this.rotation.y, this.rotation.z);
+    this.scene.matrixAutoUpdate = false;
+    this.applyTransform();
 
     this.splatViewer
       .addSplatScene(this.model, {
@@ -155,12 +268,42 @@ export class GaussianSplatLayer {
         progressiveLoad: false,
         rotation: [0, 0, 0],
         scale: [1, 1, 1],
+        format: this.format ? SCENE_FORMATS[this.format] : undefined,
       })
       .then(() => {
-        const mesh = this.splatViewer.getSplatMesh();
-        mesh.scale.set(this.scale, this.scale, this.scale);
-        this.scene.add(mesh);
+        if (this.disposed) return;
+
+        this.scene.add(this.splatViewer.getSplatMesh());
         this.ready = true;
+        this.applyTransform();
+        this.resolveReady();
+      })
+      .catch((error) => {
+        // dispose() aborts the download; that rejection is expected
+        if (this.disposed) return;
+        this.rejectReady(error instanceof Error ? error : new Error(String(error)));
       });
   }
+
+  // Drop transform listeners and free the GPU buffers and sort worker of the splat viewer.
+  // The layer has to be removed from the overlay first and cannot be reused afterwards.
+  public async dispose(): Promise<void> {
+    if (this.disposed) return;
+    const loading = !this.ready;
+    this.disposed = true;
+    this.ready = false;
+    this.rejectReady(new Error(`${this.model} was disposed before it finished loading`));
+
+    this.transformListeners.clear();
+    this.scene?.removeFromParent();
+
+    if (this.splatViewer) {
+      try {
+        await this.splatViewer.dispose();
+      } catch (error) {
+        // Disposing mid-load aborts the download and rejects with it
+        if (!loading) throw error;
+      }
+    }
+  }
 }
@@ -0,0 +1,268 @@
+import * as Cesium from 'cesium';
+import * as THREE from 'three';
+import { GaussianSplatLayer } from './gaussian-splat-layer';
+import { AlignmentController } from './controllers/AlignmentController';
+import { EnuParams, Vec3 } from './types/alignment';
+import { solveSimilarityTransform, solveYawSimilarityTransform } from './alignment/similarityTransform';
+import { composeEnuRotation, decomposeEnuRotation } from './alignment/composeModelMatrix';
+
+export interface ControlPointPair {
+  id: number;
+  splatLocal: Vec3;   // splat units, before scale/rotation
+  mapEnu: Vec3;       // meters in the controller's ENU frame
+  mapEntity?: Cesium.Entity;
+}
+
+export interface GcpSolution {
+  params: EnuParams;
+  residuals: { id: number; meters: number }[];
+  rmsMeters: number;
+}
+
+export class GcpAlignment {
+  private cesiumViewer: Cesium.Viewer;
+  private splatLayer: GaussianSplatLayer;
+  private alignmentController: AlignmentController;
+  private pairs: ControlPointPair[] = [];
+  private pendingSplatPoint: Vec3 | null = null;
+  private nextId = 1;
+  private handler: Cesium.ScreenSpaceEventHandler | null = null;
+  // Points the shared splat camera at this layer before a raycast (Viewer.syncCameraToLayer)
+  private syncCamera: (layer: GaussianSplatLayer) => void;
+
+  constructor(
+    cesiumViewer: Cesium.Viewer,
+    splatLayer: GaussianSplatLayer,
+    alignmentController: AlignmentController,
+    syncCamera: (layer: GaussianSplatLayer) => void = () => {}
+  ) {
+    this.cesiumViewer = cesiumViewer;
+    this.splatLayer = splatLayer;
+    this.alignmentController = alignmentController;
+    this.syncCamera = syncCamera;
+  }
+
+  // Start picking: first click picks a point on the splat, the next click the matching point on the map
+  public startPicking(): void {
+    if (this.handler) return;
+
+    this.handler = new Cesium.ScreenSpaceEventHandler(this.cesiumViewer.scene.canvas);
+    this.handler.setInputAction((click: { position: Cesium.Cartesian2 }) => {
+      if (this.pendingSplatPoint) {
+        this.pickMapPoint(click.position);
+      } else {
+        this.pickSplatPoint(click.position);
+      }
+    }, Cesium.ScreenSpaceEventType.LEFT_CLICK);
+
+    console.log('📌 GCP picking enabled: click a point on the splat, then the same point on the map');
+  }
+
+  public stopPicking(): void {
+    if (this.handler) {
+      this.handler.destroy();
+      this.handler = null;
+    }
+    this.pendingSplatPoint = null;
+    console.log('📌 GCP picking disabled');
+  }
+
+  public isPicking(): boolean {
+    return this.handler !== null;
+  }
+
+  private pickSplatPoint(screenPosition: Cesium.Cartesian2): void {
+    const splatViewer = this.splatLayer.splatViewer;
+    const mesh = splatViewer?.getSplatMesh();
+
+    if (!this.splatLayer.ready || !mesh) {
+      console.warn('⚠️ Splat layer not ready for picking');
+      return;
+    }
+
+    // The camera was last placed for whichever layer rendered last
+    this.syncCamera(this.splatLayer);
+    const canvas = this.cesiumViewer.scene.canvas;
+    const hits: any[] = [];
+    splatViewer.raycaster.setFromCameraAndScreenPosition(
+      splatViewer.camera,
+      new THREE.Vector2(screenPosition.x, screenPosition.y),
+      new THREE.Vector2(canvas.clientWidth, canvas.clientHeight)
+    );
+    splatViewer.raycaster.intersectSplatMesh(mesh, hits);
+
+    if (hits.length === 0) {
+      console.warn('⚠️ No splat under cursor');
+      return;
+    }
+
+    // Use the splat centre in mesh-local coordinates so the solve is independent of the current transform
+    const center = new THREE.Vector3();
+    mesh.getSplatCenter(hits[0].splatIndex, center, false);
+    this.pendingSplatPoint = [center.x, center.y, center.z];
+
+    console.log(`📌 Splat point picked: [${center.x.toFixed(3)}, ${center.y.toFixed(3)}, ${center.z.toFixed(3)}] - now click the matching map point`);
+  }
+
+  private pickMapPoint(screenPosition: Cesium.Cartesian2): void {
+    const scene = this.cesiumViewer.scene;
+
+    // Depth pick hits terrain and 3D tiles; fall back to the globe surface
+    let position: Cesium.Cartesian3 | undefined;
+    if (scene.pickPositionSupported) {
+      position = scene.pickPosition(screenPosition);
+    }
+    if (!position) {
+      const ray = this.cesiumViewer.camera.getPickRay(screenPosition);
+      position = ray ? scene.globe.pick(ray, scene) : undefined;
+    }
+
+    if (!position) {
+      console.warn('⚠️ No terrain or tiles under cursor');
+      return;
+    }
+
+    this.addPair(this.pendingSplatPoint!, position);
+    this.pendingSplatPoint = null;
+  }
+
+  // Add a control point pair directly (map point in ECEF)
+  public addPair(splatLocal: Vec3, mapEcef: Cesium.Cartesian3): ControlPointPair {
+    const id = this.nextId++;
+    const mapEntity = this.cesiumViewer.entities.add({
+      name: `GCP ${id}`,
+      position: mapEcef,
+      point: {
+        pixelSize: 10,
+        color: Cesium.Color.CYAN,
+        outlineColor: Cesium.Color.BLACK,
+        outlineWidth: 2,
+        disableDepthTestDistance: Number.POSITIVE_INFINITY
+      },
+      label: {
+        text: `${id}`,
+        font: '12pt sans-serif',
+        fillColor: Cesium.Color.WHITE,
+        outlineColor: Cesium.Color.BLACK,
+        outlineWidth: 2,
+        style: Cesium.LabelStyle.FILL_AND_OUTLINE,
+        pixelOffset: new Cesium.Cartesian2(0, -20),
+        disableDepthTestDistance: Number.POSITIVE_INFINITY
+      }
+    });
+
+    const pair: ControlPointPair = {
+      id,
+      splatLocal,
+      mapEnu: this.ecefToEnu(mapEcef),
+      mapEntity
+    };
+    this.pairs.push(pair);
+
+    console.log(`📌 GCP ${id} added (${this.pairs.length} pairs)`);
+    return pair;
+  }
+
+  public removePair(id: number): void {
+    const pair = this.pairs.find(p => p.id === id);
+    if (!pair) return;
+
+    if (pair.mapEntity) {
+      this.cesiumViewer.entities.remove(pair.mapEntity);
+    }
+    this.pairs = this.pairs.filter(p => p.id !== id);
+  }
+
+  public clearPairs(): void {
+    for (const pair of this.pairs) {
+      if (pair.mapEntity) {
+        this.cesiumViewer.entities.remove(pair.mapEntity);
+      }
+    }
+    this.pairs = [];
+    this.pendingSplatPoint = null;
+  }
+
+  public getPairs(): ControlPointPair[] {
+    return [...this.pairs];
+  }
+
+  // Solve scale, rotation and translation by least squares (needs >= 3 pairs). When tilt
+  // is locked the rotation is limited to yaw on top of the levelling, pitch/roll are kept
+  // and 2 pairs are enough.
+  public solve(): GcpSolution {
+    const source = this.pairs.map(p => p.splatLocal);
+    const target = this.pairs.map(p => p.mapEnu);
+    const current = this.alignmentController.getEnuParams();
+
+    let fit;
+    let yawRad: number;
+    let pitchRad = current.pitchRad;
+    let rollRad = current.rollRad;
+    if (current.tiltLocked) {
+      // The rotation without its yaw is the levelling, from alignRotation or pitch/roll
+      fit = solveYawSimilarityTransform(source, target, composeEnuRotation({ ...current, yawRad: 0 }));
+      yawRad = fit.yawRad;
+    } else {
+      fit = solveSimilarityTransform(source, target);
+      ({ yawRad, pitchRad, rollRad } = decomposeEnuRotation(fit.rotation));
+    }
+
+    const params: EnuParams = {
+      ...current,
+      scale: fit.scale,
+      yawRad,
+      pitchRad,
+      rollRad,
+      tEast: fit.translation[0],
+      tNorth: fit.translation[1],
+      tUp: fit.translation[2]
+    };
+
+    return {
+      params,
+      residuals: this.pairs.map((p, i) => ({ id: p.id, meters: fit.residuals[i] })),
+      rmsMeters: fit.rmsError
+    };
+  }
+
+  // Solve and write the result into the alignment controller
+  public apply(): GcpSolution {
+    const solution = this.solve();
+    const tiltLocked = this.alignmentController.getEnuParams().tiltLocked;
+
+    if (tiltLocked) {
+      console.log('📌 Tilt is locked: solved for scale, yaw and translation only');
+    }
+
+    this.alignmentController.setEnuParams({
+      scale: solution.params.scale,
+      yawRad: solution.params.yawRad,
+      ...(tiltLocked ? {} : { pitchRad: solution.params.pitchRad, rollRad: solution.params.rollRad }),
+      tEast: solution.params.tEast,
+      tNorth: solution.params.tNorth,
+      tUp: solution.params.tUp
+    }, { label: 'gcp alignment' });
+
+    console.log(`✅ GCP alignment applied from ${this.pairs.length} pairs, RMS ${solution.rmsMeters.toFixed(3)}m`);
+    for (const residual of solution.residuals) {
+      console.log(`   GCP ${residual.id}: ${residual.meters.toFixed(3)}m`);
+    }
+
+    return solution;
+  }
+
+  private ecefToEnu(position: Cesium.Cartesian3): Vec3 {
+    const anchor = this.alignmentController.getAnchor();
+    const anchorECEF = Cesium.Cartesian3.fromDegrees(anchor.lon, anchor.lat, anchor.height);
+    const enuToFixed = Cesium.Transforms.eastNorthUpToFixedFrame(anchorECEF);
+    const fixedToEnu = Cesium.Matrix4.inverseTransformation(enuToFixed, new Cesium.Matrix4());
+    const enu = Cesium.Matrix4.multiplyByPoint(fixedToEnu, position, new Cesium.Cartesian3());
+    return [enu.x, enu.y, enu.z];
+  }
+
+  public dispose(): void {
+    this.stopPicking();
+    this.clearPairs();
+  }
+}
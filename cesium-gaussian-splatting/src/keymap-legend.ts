@@ -0,0 +1,100 @@
+import { KeymapRegistry, formatCombo } from './keymap';
+
+// Renders the controls legend from the keymap registry and re-renders it whenever
+// bindings change, so the legend can never disagree with the keys that work
+export class KeymapLegend {
+  private registry: KeymapRegistry;
+  private legend: HTMLElement;
+  private groups: HTMLElement;
+  private toggleButton: HTMLElement | null;
+  private stopListening: () => void;
+  private showListener = () => this.setVisible(true);
+
+  constructor(registry: KeymapRegistry, legend: HTMLElement, groups: HTMLElement, toggleButton: HTMLElement | null = null) {
+    this.registry = registry;
+    this.legend = legend;
+    this.groups = groups;
+    this.toggleButton = toggleButton;
+
+    this.toggleButton?.addEventListener('click', this.showListener);
+    this.stopListening = registry.onChange(() => this.render());
+    this.render();
+  }
+
+  public render(): void {
+    const byGroup = new Map<string, HTMLElement>();
+    this.groups.replaceChildren();
+
+    for (const action of this.registry.getActions()) {
+      const keys = this.registry.getBindings(action.id);
+      if (keys.length === 0) continue;
+
+      let group = byGroup.get(action.group);
+      if (!group) {
+        group = createGroup(action.group);
+        byGroup.set(action.group, group);
+        this.groups.appendChild(group);
+      }
+      const item = createItem(keys.map(formatCombo).join(' / '), action.label);
+      item.classList.add('clickable');
+      item.title = 'Click to run';
+      item.addEventListener('click', () => this.registry.run(action.id));
+      group.appendChild(item);
+    }
+
+    // How the step keys react to the fine/coarse modifiers
+    const { fine, coarse } = this.registry.getStepModifiers();
+    const modifiers = createGroup('Step Size');
+    modifiers.appendChild(createItem(`${fine.modifier}+key`, `×${fine.multiplier} (fine)`));
+    modifiers.appendChild(createItem(`${coarse.modifier}+key`, `×${coarse.multiplier} (coarse)`));
+    this.groups.appendChild(modifiers);
+  }
+
+  public isVisible(): boolean {
+    return this.legend.style.display !== 'none';
+  }
+
+  public setVisible(visible: boolean): void {
+    this.legend.style.display = visible ? 'block' : 'none';
+    if (this.toggleButton) {
+      this.toggleButton.style.display = visible ? 'none' : 'block';
+    }
+  }
+
+  public toggle(): void {
+    this.setVisible(!this.isVisible());
+  }
+
+  public dispose(): void {
+    this.stopListening();
+    this.toggleButton?.removeEventListener('click', this.showListener);
+  }
+}
+
+function createGroup(title: string): HTMLElement {
+  const group = document.createElement('div');
+  group.className = 'control-group';
+
+  const heading = document.createElement('div');
+  heading.className = 'control-group-title';
+  heading.textContent = title;
+  group.appendChild(heading);
+
+  return group;
+}
+
+function createItem(keys: string, label: string): HTMLElement {
+  const item = document.createElement('div');
+  item.className = 'control-item';
+
+  const key = document.createElement('span');
+  key.className = 'key';
+  key.textContent = keys;
+
+  const action = document.createElement('span');
+  action.className = 'action';
+  action.textContent = label;
+
+  item.append(key, action);
+  return item;
+}
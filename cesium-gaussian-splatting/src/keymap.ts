@@ -0,0 +1,269 @@
+// Bindings are written like "Q", "Shift+E" or "Ctrl+Shift+Z"
+export type KeyCombo = string;
+
+export type StepModifier = 'Shift' | 'Alt' | 'Ctrl';
+
+export interface KeyActionContext {
+  event: KeyboardEvent | null; // null when run from the UI (e.g. a legend click)
+  // 1 normally, stepModifiers.fine/coarse multiplier when a step action is held with them
+  multiplier: number;
+}
+
+export interface KeyAction {
+  id: string;                 // e.g. 'splat.yaw.left'
+  label: string;              // shown in the legend
+  group: string;              // legend section
+  keys: KeyCombo[];           // default bindings
+  // Step actions also fire with the fine/coarse modifier held, scaled by its multiplier
+  step?: boolean;
+  run: (context: KeyActionContext) => void;
+}
+
+export interface StepModifiers {
+  fine: { modifier: StepModifier; multiplier: number };
+  coarse: { modifier: StepModifier; multiplier: number };
+}
+
+export const DEFAULT_STEP_MODIFIERS: StepModifiers = {
+  fine: { modifier: 'Alt', multiplier: 0.1 },
+  coarse: { modifier: 'Shift', multiplier: 10 }
+};
+
+interface ParsedCombo {
+  key: string;
+  ctrl: boolean;
+  alt: boolean;
+  shift: boolean;
+}
+
+// Registry of keyboard actions with rebindable keys. One window listener dispatches
+// to them and stays quiet while the user is typing into a form field.
+export class KeymapRegistry {
+  private actions = new Map<string, KeyAction>();
+  private bindings = new Map<string, KeyCombo[]>();
+  private stepModifiers: StepModifiers;
+  private changeListeners = new Set<() => void>();
+  private target: Window | null = null;
+  private keydownListener = (event: KeyboardEvent) => this.dispatch(event);
+
+  constructor(stepModifiers: StepModifiers = DEFAULT_STEP_MODIFIERS) {
+    this.stepModifiers = stepModifiers;
+  }
+
+  public register(action: KeyAction): void {
+    if (this.actions.has(action.id)) {
+      throw new Error(`Key action "${action.id}" is already registered`);
+    }
+    for (const key of action.keys) parseCombo(key);
+
+    this.actions.set(action.id, action);
+    if (!this.bindings.has(action.id)) {
+      this.bindings.set(action.id, [...action.keys]);
+    }
+    this.notifyChange();
+  }
+
+  public unregister(id: string): void {
+    if (this.actions.delete(id)) this.notifyChange();
+  }
+
+  // Replace the keys of an action; an empty list unbinds it
+  public bind(id: string, keys: KeyCombo[]): void {
+    if (!this.actions.has(id)) {
+      throw new Error(`Unknown key action "${id}"`);
+    }
+    for (const key of keys) parseCombo(key);
+
+    this.bindings.set(id, [...keys]);
+    this.notifyChange();
+  }
+
+  public resetBindings(): void {
+    for (const action of this.actions.values()) {
+      this.bindings.set(action.id, [...action.keys]);
+    }
+    this.notifyChange();
+  }
+
+  public getActions(): KeyAction[] {
+    return [...this.actions.values()];
+  }
+
+  public getBindings(id: string): KeyCombo[] {
+    return [...(this.bindings.get(id) ?? [])];
+  }
+
+  // Bindings that differ from the defaults, e.g. to keep them in localStorage
+  public exportBindings(): Record<string, KeyCombo[]> {
+    const changed: Record<string, KeyCombo[]> = {};
+    for (const action of this.actions.values()) {
+      const keys = this.getBindings(action.id);
+      if (keys.join(',') !== action.keys.join(',')) changed[action.id] = keys;
+    }
+    return changed;
+  }
+
+  // Apply saved bindings; unknown actions and unparsable keys are skipped with a warning
+  public importBindings(bindings: Record<string, KeyCombo[]>): void {
+    for (const [id, keys] of Object.entries(bindings)) {
+      try {
+        this.bind(id, keys);
+      } catch (error) {
+        console.warn(`⚠️ Ignoring key binding for ${id}: ${(error as Error).message}`);
+      }
+    }
+  }
+
+  public getStepModifiers(): StepModifiers {
+    return this.stepModifiers;
+  }
+
+  public setStepModifiers(stepModifiers: StepModifiers): void {
+    this.stepModifiers = stepModifiers;
+    this.notifyChange();
+  }
+
+  // Called when actions, bindings or modifiers change; returns an unsubscribe function
+  public onChange(listener: () => void): () => void {
+    this.changeListeners.add(listener);
+    return () => this.changeListeners.delete(listener);
+  }
+
+  public attach(target: Window = window): void {
+    this.detach();
+    this.target = target;
+    target.addEventListener('keydown', this.keydownListener);
+  }
+
+  public detach(): void {
+    this.target?.removeEventListener('keydown', this.keydownListener);
+    this.target = null;
+  }
+
+  // Exact bindings win; otherwise a step action bound to the key without the
+  // fine/coarse modifier runs with that modifier's multiplier
+  public dispatch(event: KeyboardEvent): boolean {
+    if (event.defaultPrevented || isEditableTarget(event.target)) return false;
+
+    const pressed = comboFromEvent(event);
+    const exact = this.findAction(pressed);
+    if (exact) {
+      event.preventDefault();
+      exact.run({ event, multiplier: 1 });
+      return true;
+    }
+
+    for (const { modifier, multiplier } of [this.stepModifiers.fine, this.stepModifiers.coarse]) {
+      const field = modifierField(modifier);
+      if (!pressed[field]) continue;
+
+      const action = this.findAction({ ...pressed, [field]: false });
+      if (action?.step) {
+        event.preventDefault();
+        action.run({ event, multiplier });
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  // Run an action without a key press, e.g. when its legend entry is clicked
+  public run(id: string, multiplier: number = 1): void {
+    const action = this.actions.get(id);
+    if (!action) {
+      throw new Error(`Unknown key action "${id}"`);
+    }
+    action.run({ event: null, multiplier });
+  }
+
+  private findAction(pressed: ParsedCombo): KeyAction | undefined {
+    for (const action of this.actions.values()) {
+      const keys = this.bindings.get(action.id) ?? [];
+      if (keys.some(key => combosEqual(parseCombo(key), pressed))) return action;
+    }
+    return undefined;
+  }
+
+  private notifyChange(): void {
+    for (const listener of this.changeListeners) listener();
+  }
+}
+
+// Human-readable form of a binding for the legend
+export function formatCombo(combo: KeyCombo): string {
+  const { key, ctrl, alt, shift } = parseCombo(combo);
+  const name = key.length === 1 ? key.toUpperCase() : key;
+  return [ctrl && 'Ctrl', alt && 'Alt', shift && 'Shift', name].filter(Boolean).join('+');
+}
+
+// Helper functions
+function parseCombo(combo: KeyCombo): ParsedCombo {
+  // "Ctrl++" binds the plus key
+  const plus = combo === '+' || combo.endsWith('++');
+  const parts = (plus ? combo.slice(0, -1) : combo).split('+');
+  const last = parts.pop();
+  const key = plus ? '+' : last;
+  if (!key) throw new Error(`Invalid key binding "${combo}"`);
+
+  const parsed: ParsedCombo = { key: normalizeKey(key), ctrl: false, alt: false, shift: false };
+  for (const part of parts) {
+    switch (part.toLowerCase()) {
+      case 'ctrl':
+      case 'cmd':
+      case 'meta':
+        parsed.ctrl = true;
+        break;
+      case 'alt':
+      case 'option':
+        parsed.alt = true;
+        break;
+      case 'shift':
+        parsed.shift = true;
+        break;
+      default:
+        throw new Error(`Unknown modifier "${part}" in key binding "${combo}"`);
+    }
+  }
+  return parsed;
+}
+
+// Letters and digits come from event.code so Shift and Alt (which changes the
+// character on macOS) do not change the key; other keys use event.key
+function comboFromEvent(event: KeyboardEvent): ParsedCombo {
+  let key = event.key;
+  if (/^Key[A-Z]$/.test(event.code)) {
+    key = event.code.slice(3);
+  } else if (/^Digit[0-9]$/.test(event.code)) {
+    key = event.code.slice(5);
+  }
+
+  // Punctuation already carries Shift in the character ("?" is Shift+/)
+  const printable = key.length === 1 && !/[a-z0-9]/i.test(key);
+  return {
+    key: normalizeKey(key),
+    ctrl: event.ctrlKey || event.metaKey,
+    alt: event.altKey,
+    shift: event.shiftKey && !printable
+  };
+}
+
+function normalizeKey(key: string): string {
+  return key.length === 1 ? key.toLowerCase() : key;
+}
+
+function combosEqual(a: ParsedCombo, b: ParsedCombo): boolean {
+  return a.key === b.key && a.ctrl === b.ctrl && a.alt === b.alt && a.shift === b.shift;
+}
+
+function modifierField(modifier: StepModifier): 'ctrl' | 'alt' | 'shift' {
+  return modifier === 'Ctrl' ? 'ctrl' : modifier === 'Alt' ? 'alt' : 'shift';
+}
+
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (typeof HTMLElement === 'undefined' || !(target instanceof HTMLElement)) return false;
+  return target.isContentEditable ||
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement;
+}
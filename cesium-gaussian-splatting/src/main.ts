@@ -1,82 +1,350 @@
 import { GaussianSplatLayer } from "./gaussian-splat-layer";
 import { Viewer } from "./viewer";
+import { SplatDropLoader, DroppedSplat } from "./splat-drop-loader";
+import { AlignmentController } from "./controllers/AlignmentController";
+import { SessionStore } from "./session-store";
+import { GcpAlignment } from "./gcp-alignment";
+import { KeymapRegistry } from "./keymap";
+import { KeymapLegend } from "./keymap-legend";
+import { registerAlignmentActions } from "./alignment-keymap";
+import { AlignmentProposal, AlignmentStrategyRegistry } from "./alignment-strategy";
+import { registerAlignmentStrategies } from "./alignment-strategies";
+import { RoadDataProvider } from "./road-data-provider";
+import { RoadFileSource, roadSourcesFromConfig } from "./osm/roadSources";
+import { ExportFrame, exportPlyFromLayer, downloadPly } from "./export/plyExport";
+import { exportTilesetFromLayer, downloadTileset } from "./export/tilesetExport";
+import {
+  SCENE_MANIFEST_VERSION,
+  SceneManifest,
+  loadSceneManifest,
+  createLayerFromEntry,
+  entryFromLayer,
+  downloadSceneManifest
+} from "./scene-manifest";
+
+// Handles for the console, as used in the tips and docs
+declare global {
+  interface Window {
+    roadData: RoadDataProvider;
+    alignmentStrategies: AlignmentStrategyRegistry;
+    alignmentProposals: AlignmentProposal[];
+    keymap: KeymapRegistry;
+  }
+}
+
+const SCENE_MANIFEST_URL = "./scenes/burbank.json";
+const KEY_BINDINGS_STORAGE_KEY = "cesium-gaussian-splatting.keymap";
 
 const viewer = new Viewer();
-let burbankLayer: GaussianSplatLayer;
-
-// Starting values for tracking
-const INITIAL_VALUES = {
-  lon: -118.28457825,
-  lat: 34.18977717,
-  height: 329,
-  rotationX: -0.540857,
-  rotationY: 0.466542,
-  rotationZ: -0.237358,
-  scale: 56.750
-};
-
-function loadBurbankScene() {
-  // Burbank, California coordinates
-  // Lat: 34.18991967, Lon: -118.28507075, Alt: 327.70m
-  viewer.flyTo(-118.28507075, 34.18991967, 150, 0, -60, 2);
-
-  burbankLayer = new GaussianSplatLayer(
-    "./splats/myscene/Burbank1Clean.ply",
-    { lon: INITIAL_VALUES.lon, lat: INITIAL_VALUES.lat, height: INITIAL_VALUES.height },
-    { x: INITIAL_VALUES.rotationX, y: INITIAL_VALUES.rotationY, z: INITIAL_VALUES.rotationZ },
-    INITIAL_VALUES.scale
-  );
-
-  viewer.addGaussianSplatLayer(burbankLayer);
-}
-
-// Function to print final adjusted values
-function printFinalValues() {
-  if (!burbankLayer) {
-    console.error('❌ Splat layer not loaded yet');
+let manifest: SceneManifest | null = null;
+const layers = new Map<string, GaussianSplatLayer>();
+const controllers = new Map<string, AlignmentController>();
+const sessionStore = new SessionStore();
+
+// Every layer gets undo history and a session that survives reloads
+function trackLayer(id: string, layer: GaussianSplatLayer, sessionKey?: string) {
+  layers.set(id, layer);
+
+  const controller = new AlignmentController(layer, viewer.cesium);
+  controllers.set(id, controller);
+  controller.attachSessionStore(sessionStore, sessionKey);
+}
+
+async function loadScene(url: string) {
+  try {
+    manifest = await loadSceneManifest(url);
+  } catch (error) {
+    console.error(`❌ ${(error as Error).message}`);
     return;
   }
 
+  console.log(`📂 Loaded scene "${manifest.name}" with ${manifest.splats.length} splat(s)`);
+
+  if (manifest.roads) {
+    roadData.setSources(roadSourcesFromConfig(manifest.roads), manifest.roads.allowFabricated ?? false);
+    if (manifest.roads.cacheMaxAgeHours !== undefined) {
+      roadData.getTileCache().setMaxAge(manifest.roads.cacheMaxAgeHours * 60 * 60 * 1000);
+    }
+    console.log(`🛣️ Road sources: ${roadData.getSources().map((source) => source.name).join(", ") || "none"}`);
+  }
+
+  const camera = manifest.camera;
+  if (camera) {
+    viewer.flyTo(camera.lon, camera.lat, camera.height, camera.headingDeg, camera.pitchDeg, camera.durationSec ?? 2);
+  }
+
+  for (const entry of manifest.splats) {
+    const layer = createLayerFromEntry(entry);
+    viewer.addGaussianSplatLayer(layer);
+    trackLayer(entry.id, layer);
+  }
+}
+
+// Dropped files join the manifest so their alignment is saved with the scene.
+// The blob URL is only valid for this session, so the entry points at the file name.
+function addDroppedSplat({ file, layer }: DroppedSplat) {
+  if (!manifest) {
+    manifest = { version: SCENE_MANIFEST_VERSION, name: "Untitled", splats: [] };
+  }
+
+  let id = file.name.replace(/\.[^.]+$/, "");
+  for (let n = 2; layers.has(id); n++) {
+    id = `${file.name.replace(/\.[^.]+$/, "")}-${n}`;
+  }
+
+  const entry = entryFromLayer({ id, model: file.name, anchor: layer.getAnchor(), enu: layer.getEnuParams() }, layer);
+  manifest.splats.push(entry);
+  // blob URLs change on every drop, so the session is keyed by file name
+  trackLayer(id, layer, file.name);
+
+  console.log(`💡 Copy ${file.name} next to the saved manifest so it loads next time`);
+}
+
+// OSM extracts dropped onto the map become the first road source for the aligners.
+// A .json may also be an exported alignment session, so those are routed by content.
+function addDroppedFile(file: File): boolean {
+  if (/\.json$/i.test(file.name)) {
+    addDroppedJsonFile(file).catch((error) => console.error(`❌ Failed to load ${file.name}:`, error));
+    return true;
+  }
+  if (!/\.(osm|pbf|geojson)$/i.test(file.name)) return false;
+
+  addDroppedRoadFile(file);
+  return true;
+}
+
+async function addDroppedJsonFile(file: File) {
+  const data = JSON.parse(await file.text());
+
+  // Sessions written by AdjustmentTracker.exportJSON() go to the most recently added splat
+  if (data && typeof data === "object" && "initialParams" in data && "currentParams" in data) {
+    const id = [...controllers.keys()].pop();
+    if (!id) {
+      console.warn(`⚠️ No splat loaded to apply the session in ${file.name} to`);
+      return;
+    }
+    await controllers.get(id)!.importSessionFile(file);
+    return;
+  }
+
+  addDroppedRoadFile(file);
+}
+
+function addDroppedRoadFile(file: File) {
+  roadData.addSource(RoadFileSource.fromFile(file));
+  console.log(`🛣️ ${file.name} added as a road source`);
+}
+
+// Write the current alignment back into the manifest and download it
+function saveSceneManifest() {
+  if (!manifest) {
+    console.error('❌ Scene manifest not loaded yet');
+    return;
+  }
+
+  const saved: SceneManifest = {
+    ...manifest,
+    splats: manifest.splats.map((entry) => {
+      const layer = layers.get(entry.id);
+      return layer ? entryFromLayer(entry, layer) : entry;
+    })
+  };
+
   console.log('\n' + '='.repeat(70));
-  console.log('🎯 FINAL SPLAT POSITION - COPY THIS INTO main.ts');
-  console.log('='.repeat(70));
-  console.log('\nReplace the loadBurbankScene() function with:\n');
-  console.log('function loadBurbankScene() {');
-  console.log('  viewer.flyTo(-118.28507075, 34.18991967, 150, 0, -60, 2);');
-  console.log('');
-  console.log('  const burbankLayer = new GaussianSplatLayer(');
-  console.log('    "./splats/myscene/Burbank1Clean.ply",');
-  console.log(`    { lon: ${burbankLayer.location.lon.toFixed(8)}, lat: ${burbankLayer.location.lat.toFixed(8)}, height: ${burbankLayer.location.height.toFixed(2)} },`);
-  console.log(`    { x: ${burbankLayer.scene.rotation.x.toFixed(6)}, y: ${burbankLayer.scene.rotation.y.toFixed(6)}, z: ${burbankLayer.scene.rotation.z.toFixed(6)} },`);
-  console.log(`    ${burbankLayer.scale.toFixed(3)}`);
-  console.log('  );');
-  console.log('');
-  console.log('  viewer.addGaussianSplatLayer(burbankLayer);');
-  console.log('}');
-  console.log('\n' + '='.repeat(70));
-  console.log('📊 Summary of changes from initial:');
+  console.log('🎯 SAVED SCENE MANIFEST');
   console.log('='.repeat(70));
-  console.log(`Longitude:    ${INITIAL_VALUES.lon.toFixed(8)} → ${burbankLayer.location.lon.toFixed(8)} (Δ ${(burbankLayer.location.lon - INITIAL_VALUES.lon).toFixed(8)})`);
-  console.log(`Latitude:     ${INITIAL_VALUES.lat.toFixed(8)} → ${burbankLayer.location.lat.toFixed(8)} (Δ ${(burbankLayer.location.lat - INITIAL_VALUES.lat).toFixed(8)})`);
-  console.log(`Height:       ${INITIAL_VALUES.height.toFixed(2)}m → ${burbankLayer.location.height.toFixed(2)}m (Δ ${(burbankLayer.location.height - INITIAL_VALUES.height).toFixed(2)}m)`);
-  console.log(`Rotation X:   ${INITIAL_VALUES.rotationX.toFixed(6)} → ${burbankLayer.scene.rotation.x.toFixed(6)} (Δ ${(burbankLayer.scene.rotation.x - INITIAL_VALUES.rotationX).toFixed(6)})`);
-  console.log(`Rotation Y:   ${INITIAL_VALUES.rotationY.toFixed(6)} → ${burbankLayer.scene.rotation.y.toFixed(6)} (Δ ${(burbankLayer.scene.rotation.y - INITIAL_VALUES.rotationY).toFixed(6)})`);
-  console.log(`Rotation Z:   ${INITIAL_VALUES.rotationZ.toFixed(6)} → ${burbankLayer.scene.rotation.z.toFixed(6)} (Δ ${(burbankLayer.scene.rotation.z - INITIAL_VALUES.rotationZ).toFixed(6)})`);
-  console.log(`Scale:        ${INITIAL_VALUES.scale.toFixed(3)} → ${burbankLayer.scale.toFixed(3)} (Δ ${(burbankLayer.scale - INITIAL_VALUES.scale).toFixed(3)})`);
+  saved.splats.forEach((entry, i) => {
+    const before = manifest!.splats[i];
+    console.log(`\n${entry.id}:`);
+    console.log(`Longitude:    ${before.anchor.lon.toFixed(8)} → ${entry.anchor.lon.toFixed(8)}`);
+    console.log(`Latitude:     ${before.anchor.lat.toFixed(8)} → ${entry.anchor.lat.toFixed(8)}`);
+    console.log(`Height:       ${before.anchor.height.toFixed(2)}m → ${entry.anchor.height.toFixed(2)}m`);
+    console.log(`Pitch:        ${before.enu.pitchRad.toFixed(6)} → ${entry.enu.pitchRad.toFixed(6)}`);
+    console.log(`Yaw:          ${before.enu.yawRad.toFixed(6)} → ${entry.enu.yawRad.toFixed(6)}`);
+    console.log(`Roll:         ${before.enu.rollRad.toFixed(6)} → ${entry.enu.rollRad.toFixed(6)}`);
+    console.log(`Scale:        ${before.enu.scale.toFixed(3)} → ${entry.enu.scale.toFixed(3)}`);
+  });
+
+  const filename = SCENE_MANIFEST_URL.split("/").pop()!;
+  console.log(`\nCopy the downloaded ${filename} into public/scenes/ to keep this alignment.`);
   console.log('='.repeat(70) + '\n');
+
+  downloadSceneManifest(saved, filename);
+}
+
+// Download every loaded splat as a PLY with its current placement baked in
+function exportAlignedPlys(frame: ExportFrame) {
+  layers.forEach((layer, id) => {
+    if (!layer.ready) {
+      console.warn(`⚠️ ${id} is not loaded yet, skipping export`);
+      return;
+    }
+
+    const buffer = exportPlyFromLayer(layer, { frame });
+    downloadPly(buffer, `${id}-${frame}.ply`);
+    console.log(`💾 Exported ${id}-${frame}.ply (${(buffer.byteLength / 1e6).toFixed(1)} MB)`);
+  });
+}
+
+// Download every loaded splat as a zipped 3D Tiles tileset
+function exportTilesets() {
+  layers.forEach((layer, id) => {
+    if (!layer.ready) {
+      console.warn(`⚠️ ${id} is not loaded yet, skipping export`);
+      return;
+    }
+
+    const zip = exportTilesetFromLayer(layer);
+    downloadTileset(zip, `${id}-tileset.zip`);
+    console.log(`💾 Exported ${id}-tileset.zip (${(zip.byteLength / 1e6).toFixed(1)} MB)`);
+  });
+}
+
+// Automatic aligners only propose placements; compare them, then apply the one that looks
+// right from the console, e.g. alignmentStrategies.apply(alignmentProposals[0])
+// Roads come from the manifest's "roads" sources and dropped OSM files, else public Overpass
+const roadData = new RoadDataProvider();
+window.roadData = roadData;
+
+const alignmentStrategies = new AlignmentStrategyRegistry();
+registerAlignmentStrategies(alignmentStrategies, viewer.cesium, () => viewer.getBuildingsTileset(), roadData);
+let alignmentProposals: AlignmentProposal[] = [];
+let comparison: AbortController | null = null;
+
+// Run every strategy on every layer and list the proposals; pressing again cancels
+async function compareAligners() {
+  if (comparison) {
+    comparison.abort();
+    return;
+  }
+
+  comparison = new AbortController();
+  alignmentProposals = [];
+  try {
+    for (const [id, layer] of layers) {
+      console.log(`🧪 Comparing ${alignmentStrategies.getStrategies().length} aligners on ${id}...`);
+      const { proposals, failures } = await alignmentStrategies.compare({ layer, signal: comparison.signal });
+
+      console.table(proposals.map((p) => ({
+        strategy: p.strategyId,
+        confidence: +p.confidence.toFixed(2),
+        scale: +p.params.scale.toFixed(3),
+        yawDeg: +(p.params.yawRad * 180 / Math.PI).toFixed(2),
+        east: +p.params.tEast.toFixed(2),
+        north: +p.params.tNorth.toFixed(2),
+        up: +p.params.tUp.toFixed(2),
+        seconds: +(p.durationMs / 1000).toFixed(1)
+      })));
+      failures.forEach(({ strategyId, error }) => console.warn(`⚠️ ${strategyId} failed: ${error.message}`));
+      alignmentProposals.push(...proposals);
+    }
+    console.log('💡 Apply one with alignmentStrategies.apply(alignmentProposals[i])');
+  } catch (error) {
+    console.warn(`⚠️ Aligner comparison stopped: ${(error as Error).message}`);
+  } finally {
+    comparison = null;
+    window.alignmentProposals = alignmentProposals;
+  }
+}
+
+// Scale every layer from the widths of the roads around the view, measured in its render
+async function calibrateScaleFromRoads() {
+  try {
+    const data = await roadData.getRoadData(RoadDataProvider.boundsFromCesiumView(viewer.cesium, 500));
+    if (data.fabricated) {
+      console.warn('⚠️ Only fabricated road data is available here - add an OSM file or an Overpass source to measure against');
+      return;
+    }
+    controllers.forEach((c) => c.calibrateScaleFromRoads(data.roads));
+  } catch (error) {
+    console.warn(`⚠️ Road width calibration stopped: ${(error as Error).message}`);
+  }
+}
+
+// Ground control points on the most recently added splat: click a point on the splat,
+// then the same point on the map, and solve once there are at least 3 pairs (2 with tilt locked)
+let gcp: { id: string; alignment: GcpAlignment } | null = null;
+
+function toggleGcpPicking() {
+  const id = [...layers.keys()].pop();
+  if (!id) {
+    console.warn("⚠️ No splat loaded to pick control points on");
+    return;
+  }
+
+  if (gcp?.id !== id) {
+    gcp?.alignment.dispose();
+    gcp = { id, alignment: new GcpAlignment(viewer.cesium, layers.get(id)!, controllers.get(id)!, (layer) => viewer.syncCameraToLayer(layer)) };
+    console.log(`📌 Control points for ${id}`);
+  }
+
+  if (gcp.alignment.isPicking()) {
+    gcp.alignment.stopPicking();
+  } else {
+    gcp.alignment.startPicking();
+  }
 }
 
-// Add keyboard listener for saving final position
-document.addEventListener('keydown', (e) => {
-  // Press 'P' to print final values
-  if (e.key === 'p' || e.key === 'P') {
-    printFinalValues();
+function applyGcps() {
+  if (!gcp) {
+    console.warn("⚠️ No control points picked yet - press F to start");
+    return;
+  }
+
+  try {
+    gcp.alignment.apply();
+  } catch (error) {
+    console.warn(`⚠️ GCP alignment failed: ${(error as Error).message}`);
   }
-});
+}
+
+window.alignmentStrategies = alignmentStrategies;
+
+// Every key goes through one registry so bindings can be changed and the legend
+// is generated from it. Rebind from the console, e.g. keymap.bind("splat.yaw.left", ["U"]);
+// changed bindings are kept in localStorage.
+const keymap = new KeymapRegistry();
+registerAlignmentActions(keymap, () => [...layers.values()]);
+
+keymap.register({ id: "scene.save", label: "Save Manifest", group: "Save Position", keys: ["P"], run: saveSceneManifest });
+keymap.register({ id: "export.ply.enu", label: "Export PLY (ENU)", group: "Save Position", keys: ["E"], run: () => exportAlignedPlys("enu") });
+keymap.register({ id: "export.ply.ecef", label: "Export PLY (ECEF)", group: "Save Position", keys: ["Shift+E"], run: () => exportAlignedPlys("ecef") });
+keymap.register({ id: "export.tiles", label: "Export 3D Tiles", group: "Save Position", keys: ["T"], run: exportTilesets });
+keymap.register({ id: "splat.level", label: "Level to Ground", group: "Rotation", keys: ["K"], run: () => controllers.forEach((c) => c.autoLevel()) });
+keymap.register({ id: "splat.snap", label: "Snap to Buildings", group: "Position", keys: ["B"], run: () => controllers.forEach((c) => c.alignToSurface({ tileset: viewer.getBuildingsTileset() })) });
+keymap.register({ id: "splat.snap.yaw", label: "Snap to Buildings (Yaw Only)", group: "Position", keys: ["Shift+B"], run: () => controllers.forEach((c) => c.alignToSurface({ tileset: viewer.getBuildingsTileset(), mode: "yawOnly" })) });
+keymap.register({ id: "splat.scale.roads", label: "Scale from Road Widths", group: "Scale", keys: ["R"], run: calibrateScaleFromRoads });
+keymap.register({ id: "gcp.pick", label: "Pick Control Points", group: "Position", keys: ["F"], run: toggleGcpPicking });
+keymap.register({ id: "gcp.apply", label: "Apply Control Points", group: "Position", keys: ["Shift+F"], run: applyGcps });
+keymap.register({ id: "gcp.clear", label: "Clear Control Points", group: "Position", keys: ["Alt+F"], run: () => gcp?.alignment.clearPairs() });
+keymap.register({ id: "align.compare", label: "Compare Aligners", group: "Position", keys: ["C"], run: compareAligners });
+keymap.register({ id: "history.undo", label: "Undo", group: "History", keys: ["Ctrl+Z"], run: () => controllers.forEach((c) => c.undo()) });
+keymap.register({ id: "history.redo", label: "Redo", group: "History", keys: ["Ctrl+Shift+Z"], run: () => controllers.forEach((c) => c.redo()) });
+
+const legend = new KeymapLegend(
+  keymap,
+  document.getElementById("controls-legend")!,
+  document.getElementById("controls-legend-groups")!,
+  document.getElementById("toggle-legend")
+);
+keymap.register({ id: "legend.toggle", label: "Show/Hide Controls", group: "Help", keys: ["?"], run: () => legend.toggle() });
+
+// Saved bindings are applied once every action is registered, or bindings for later ones are dropped
+try {
+  keymap.importBindings(JSON.parse(localStorage.getItem(KEY_BINDINGS_STORAGE_KEY) ?? "{}"));
+} catch (error) {
+  console.warn("⚠️ Ignoring saved key bindings:", error);
+}
+keymap.onChange(() => localStorage.setItem(KEY_BINDINGS_STORAGE_KEY, JSON.stringify(keymap.exportBindings())));
+keymap.attach(window);
+window.keymap = keymap;
 
 if (viewer.cesium) {
-  loadBurbankScene();
+  loadScene(SCENE_MANIFEST_URL);
+  new SplatDropLoader(viewer, addDroppedSplat, addDroppedFile);
 
   console.log('💡 TIP: Adjust the splat using keyboard controls (see legend)');
-  console.log('💡 When done, press P to print final values to paste into code');
+  console.log('💡 When done, press P to download the updated scene manifest');
+  console.log('💡 Drop a .ply, .splat or .ksplat file onto the map to add it at the screen centre');
+  console.log('💡 Drop an .osm, .osm.pbf or GeoJSON extract to align against local roads');
 }
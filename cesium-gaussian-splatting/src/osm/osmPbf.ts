@@ -0,0 +1,359 @@
+// src/osm/osmPbf.ts
+import { OSMWay, isFeatureNode, isRoadOrFeatureWay } from "./roadData";
+
+// Reader for OSM PBF extracts (Geofabrik, BBBike, osmium), enough to pull out ways with
+// their node coordinates. Blocks are zlib-compressed or raw; lzma/zstd blocks are rejected.
+// https://wiki.openstreetmap.org/wiki/PBF_Format
+
+// Field numbers from osmformat.proto and fileformat.proto
+const BLOB = { raw: 1, zlibData: 3 };
+const BLOB_HEADER = { type: 1, dataSize: 3 };
+const BLOCK = { stringTable: 1, group: 2, granularity: 17, latOffset: 19, lonOffset: 20 };
+const GROUP = { node: 1, dense: 2, way: 3 };
+const NODE = { id: 1, keys: 2, values: 3, lat: 8, lon: 9 };
+const DENSE = { id: 1, lat: 8, lon: 9, keysValues: 10 };
+const WAY = { id: 1, keys: 2, values: 3, refs: 8, lat: 9, lon: 10 };
+
+type Block = {
+  strings: string[];
+  groups: Uint8Array[];
+  granularity: number;   // nanodegrees per coordinate unit
+  latOffset: number;     // nanodegrees
+  lonOffset: number;
+};
+
+// Ways for which keepWay(tags) holds (default: roads, paths, buildings and kerbs), with the
+// coordinates of their nodes, and tagged nodes for which keepNode holds (default: crossings)
+// as one-point elements. Nodes are looked up in a second pass over the file, so only the
+// referenced ones are ever held in memory.
+export async function parseOsmPbf(
+  buffer: ArrayBuffer,
+  keepWay: (tags: Record<string, string>) => boolean = isRoadOrFeatureWay,
+  keepNode: (tags: Record<string, string>) => boolean = isFeatureNode
+): Promise<OSMWay[]> {
+  const ways: { id: string; tags: Record<string, string>; refs: number[]; geometry?: { lat: number; lon: number }[] }[] = [];
+  const wanted = new Set<number>();
+  const nodeBlocks: number[] = [];
+
+  // Pass 1: the ways, and which blocks hold nodes
+  let index = 0;
+  for await (const block of dataBlocks(buffer)) {
+    const blockIndex = index++;
+    let hasNodes = false;
+    for (const group of block.groups) {
+      const fields = new ProtoReader(group);
+      for (let field = fields.next(); field !== null; field = fields.next()) {
+        if (field === GROUP.node || field === GROUP.dense) {
+          hasNodes = true;
+          fields.skip();
+        } else if (field === GROUP.way) {
+          const way = readWay(fields.bytes(), block);
+          if (!keepWay(way.tags)) continue;
+          ways.push(way);
+          if (!way.geometry) way.refs.forEach(ref => wanted.add(ref));
+        } else {
+          fields.skip();
+        }
+      }
+    }
+    if (hasNodes) nodeBlocks.push(blockIndex);
+  }
+
+  // Pass 2: coordinates of the nodes those ways reference, and the tagged nodes to keep
+  const nodes = new Map<number, { lat: number; lon: number }>();
+  const tagged: OSMWay[] = [];
+  const visit = (id: number, lat: number, lon: number, tags: Record<string, string> | null) => {
+    if (wanted.has(id)) nodes.set(id, { lat, lon });
+    if (tags && keepNode(tags)) tagged.push({ id: `node/${id}`, type: "node", geometry: [{ lat, lon }], tags });
+  };
+  for await (const block of dataBlocks(buffer, new Set(nodeBlocks))) {
+    for (const group of block.groups) {
+      const fields = new ProtoReader(group);
+      for (let field = fields.next(); field !== null; field = fields.next()) {
+        if (field === GROUP.dense) readDenseNodes(fields.bytes(), block, visit);
+        else if (field === GROUP.node) readNode(fields.bytes(), block, visit);
+        else fields.skip();
+      }
+    }
+  }
+
+  // Like the XML reader, references to nodes cut off by the extract are dropped
+  return [
+    ...tagged,
+    ...ways.map(way => ({
+      id: way.id,
+      tags: way.tags,
+      geometry: way.geometry ?? way.refs.map(ref => nodes.get(ref)).filter(Boolean)
+    }))
+  ];
+}
+
+// True for data that starts like a PBF file: a 4-byte header length, then an "OSMHeader" blob header
+export function isOsmPbf(buffer: ArrayBuffer): boolean {
+  const bytes = new Uint8Array(buffer, 0, Math.min(buffer.byteLength, 64));
+  return bytes.length > 16 && new TextDecoder().decode(bytes.subarray(4)).includes("OSMHeader");
+}
+
+// Helper functions
+// Minimal protobuf reader: field numbers in order, then the value by wire type
+class ProtoReader {
+  private data: Uint8Array;
+  private pos = 0;
+  private wireType = 0;
+
+  constructor(bytes: Uint8Array) {
+    this.data = bytes;
+  }
+
+  public next(): number | null {
+    if (this.pos >= this.data.length) return null;
+    const key = this.varint();
+    this.wireType = key % 8;
+    return Math.floor(key / 8);
+  }
+
+  // Unsigned varint; values up to 2^53 are exact
+  public varint(): number {
+    let result = 0;
+    let multiplier = 1;
+    for (;;) {
+      if (this.pos >= this.data.length) throw new Error("PBF varint runs past the end of its message");
+      const byte = this.data[this.pos++];
+      result += (byte & 0x7f) * multiplier;
+      if (byte < 0x80) return result;
+      multiplier *= 128;
+    }
+  }
+
+  // int64 varint in two's complement, so negative values take ten bytes; exact within ±2^53
+  public int64(): number {
+    let low = 0;
+    let high = 0;
+    for (let shift = 0; ; shift += 7) {
+      if (this.pos >= this.data.length) throw new Error("PBF varint runs past the end of its message");
+      const byte = this.data[this.pos++];
+      const bits = byte & 0x7f;
+      if (shift < 28) low |= bits << shift;
+      else if (shift === 28) {
+        low |= bits << 28;
+        high |= bits >>> 4;
+      } else if (shift < 64) high |= bits << (shift - 32);
+      if (byte < 0x80) return (high | 0) * 0x100000000 + (low >>> 0);
+    }
+  }
+
+  public sint(): number {
+    return zigzag(this.varint());
+  }
+
+  public bytes(): Uint8Array {
+    const length = this.varint();
+    if (this.pos + length > this.data.length) throw new Error("PBF field runs past the end of its message");
+    const value = this.data.subarray(this.pos, this.pos + length);
+    this.pos += length;
+    return value;
+  }
+
+  public string(): string {
+    return new TextDecoder().decode(this.bytes());
+  }
+
+  // Repeated varints, packed (wire type 2) or one per field
+  public varints(): number[] {
+    if (this.wireType !== 2) return [this.varint()];
+    const packed = new ProtoReader(this.bytes());
+    const values: number[] = [];
+    while (packed.pos < packed.data.length) values.push(packed.varint());
+    return values;
+  }
+
+  public skip(): void {
+    switch (this.wireType) {
+      case 0: this.varint(); break;
+      case 1: this.pos += 8; break;
+      case 2: this.bytes(); break;
+      case 5: this.pos += 4; break;
+      default: throw new Error(`Unsupported protobuf wire type ${this.wireType}`);
+    }
+  }
+}
+
+function zigzag(value: number): number {
+  return value % 2 === 1 ? -(value + 1) / 2 : value / 2;
+}
+
+// Running sums of delta-coded sint64 values
+function deltaDecode(values: number[]): number[] {
+  let sum = 0;
+  return values.map(value => (sum += zigzag(value)));
+}
+
+// Decoded OSMData blocks in file order; only the indices in `only` when given
+async function* dataBlocks(buffer: ArrayBuffer, only?: Set<number>): AsyncGenerator<Block> {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  let offset = 0;
+  let index = 0;
+
+  while (offset < bytes.length) {
+    if (offset + 4 > bytes.length) throw new Error("PBF file is truncated");
+    const headerLength = view.getInt32(offset);
+    offset += 4;
+
+    let type = "";
+    let dataSize = 0;
+    const header = new ProtoReader(bytes.subarray(offset, offset + headerLength));
+    for (let field = header.next(); field !== null; field = header.next()) {
+      if (field === BLOB_HEADER.type) type = header.string();
+      else if (field === BLOB_HEADER.dataSize) dataSize = header.varint();
+      else header.skip();
+    }
+    offset += headerLength;
+    if (offset + dataSize > bytes.length) throw new Error("PBF file is truncated");
+
+    const blob = bytes.subarray(offset, offset + dataSize);
+    offset += dataSize;
+
+    if (type !== "OSMData") continue;
+    if (!only || only.has(index)) yield readBlock(await inflateBlob(blob));
+    index++;
+  }
+}
+
+async function inflateBlob(blob: Uint8Array): Promise<Uint8Array> {
+  const fields = new ProtoReader(blob);
+  for (let field = fields.next(); field !== null; field = fields.next()) {
+    if (field === BLOB.raw) return fields.bytes();
+    if (field === BLOB.zlibData) {
+      const stream = new Blob([fields.bytes()]).stream().pipeThrough(new DecompressionStream("deflate"));
+      return new Uint8Array(await new Response(stream).arrayBuffer());
+    }
+    fields.skip();
+  }
+  throw new Error("PBF block uses an unsupported compression (only zlib and raw are read)");
+}
+
+function readBlock(bytes: Uint8Array): Block {
+  // The coordinate fields follow the groups, so the groups are only collected here
+  const block: Block = { strings: [], groups: [], granularity: 100, latOffset: 0, lonOffset: 0 };
+  const fields = new ProtoReader(bytes);
+  for (let field = fields.next(); field !== null; field = fields.next()) {
+    if (field === BLOCK.stringTable) {
+      const table = new ProtoReader(fields.bytes());
+      for (let entry = table.next(); entry !== null; entry = table.next()) {
+        if (entry === 1) block.strings.push(table.string());
+        else table.skip();
+      }
+    } else if (field === BLOCK.group) {
+      block.groups.push(fields.bytes());
+    } else if (field === BLOCK.granularity) {
+      block.granularity = fields.varint();
+    } else if (field === BLOCK.latOffset) {
+      block.latOffset = fields.int64();
+    } else if (field === BLOCK.lonOffset) {
+      block.lonOffset = fields.int64();
+    } else {
+      fields.skip();
+    }
+  }
+  return block;
+}
+
+function toDegrees(value: number, offset: number, block: Block): number {
+  return (offset + block.granularity * value) * 1e-9;
+}
+
+function readWay(bytes: Uint8Array, block: Block) {
+  let id = 0;
+  let keys: number[] = [];
+  let values: number[] = [];
+  let refs: number[] = [];
+  let lats: number[] = [];
+  let lons: number[] = [];
+
+  const fields = new ProtoReader(bytes);
+  for (let field = fields.next(); field !== null; field = fields.next()) {
+    if (field === WAY.id) id = fields.varint();
+    else if (field === WAY.keys) keys = keys.concat(fields.varints());
+    else if (field === WAY.values) values = values.concat(fields.varints());
+    else if (field === WAY.refs) refs = refs.concat(fields.varints());
+    else if (field === WAY.lat) lats = lats.concat(fields.varints());
+    else if (field === WAY.lon) lons = lons.concat(fields.varints());
+    else fields.skip();
+  }
+
+  const tags: Record<string, string> = {};
+  keys.forEach((key, i) => { tags[block.strings[key]] = block.strings[values[i]]; });
+
+  // Extracts made with "osmium add-locations-to-ways" carry the coordinates on the way
+  const geometry = lats.length > 0 && lats.length === lons.length
+    ? zipCoordinates(deltaDecode(lats), deltaDecode(lons), block)
+    : undefined;
+
+  return { id: String(id), tags, refs: deltaDecode(refs), geometry };
+}
+
+function zipCoordinates(lats: number[], lons: number[], block: Block): { lat: number; lon: number }[] {
+  return lats.map((lat, i) => ({
+    lat: toDegrees(lat, block.latOffset, block),
+    lon: toDegrees(lons[i], block.lonOffset, block)
+  }));
+}
+
+type NodeVisitor = (id: number, lat: number, lon: number, tags: Record<string, string> | null) => void;
+
+function readDenseNodes(bytes: Uint8Array, block: Block, visit: NodeVisitor): void {
+  let ids: number[] = [];
+  let lats: number[] = [];
+  let lons: number[] = [];
+  let keysValues: number[] = [];
+
+  const fields = new ProtoReader(bytes);
+  for (let field = fields.next(); field !== null; field = fields.next()) {
+    if (field === DENSE.id) ids = ids.concat(fields.varints());
+    else if (field === DENSE.lat) lats = lats.concat(fields.varints());
+    else if (field === DENSE.lon) lons = lons.concat(fields.varints());
+    else if (field === DENSE.keysValues) keysValues = keysValues.concat(fields.varints());
+    else fields.skip();
+  }
+
+  // keys_vals holds key/value string indices per node, each node's list ending in 0
+  const latValues = deltaDecode(lats);
+  const lonValues = deltaDecode(lons);
+  let k = 0;
+  deltaDecode(ids).forEach((id, i) => {
+    let tags: Record<string, string> | null = null;
+    while (k < keysValues.length && keysValues[k] !== 0) {
+      tags = tags ?? {};
+      tags[block.strings[keysValues[k]]] = block.strings[keysValues[k + 1]];
+      k += 2;
+    }
+    k++;
+    visit(id, toDegrees(latValues[i], block.latOffset, block), toDegrees(lonValues[i], block.lonOffset, block), tags);
+  });
+}
+
+function readNode(bytes: Uint8Array, block: Block, visit: NodeVisitor): void {
+  let id = 0;
+  let lat = 0;
+  let lon = 0;
+  let keys: number[] = [];
+  let values: number[] = [];
+
+  const fields = new ProtoReader(bytes);
+  for (let field = fields.next(); field !== null; field = fields.next()) {
+    if (field === NODE.id) id = fields.sint();
+    else if (field === NODE.keys) keys = keys.concat(fields.varints());
+    else if (field === NODE.values) values = values.concat(fields.varints());
+    else if (field === NODE.lat) lat = fields.sint();
+    else if (field === NODE.lon) lon = fields.sint();
+    else fields.skip();
+  }
+
+  let tags: Record<string, string> | null = null;
+  keys.forEach((key, i) => {
+    tags = tags ?? {};
+    tags[block.strings[key]] = block.strings[values[i]];
+  });
+  visit(id, toDegrees(lat, block.latOffset, block), toDegrees(lon, block.lonOffset, block), tags);
+}
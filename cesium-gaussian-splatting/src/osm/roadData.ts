@@ -0,0 +1,375 @@
+// src/osm/roadData.ts
+import type { OSMRoad, OSMIntersection, OSMFeature, RoadDataBounds } from "../road-data-provider";
+
+// Highway values kept as roads; footpaths and tracks are left out
+export const ROAD_HIGHWAYS = ["primary", "secondary", "tertiary", "residential", "unclassified", "service", "trunk", "motorway"];
+
+// Highway values kept as footway features
+export const FOOTWAY_HIGHWAYS = ["footway", "path", "pedestrian", "cycleway", "steps"];
+
+export type OSMRoadData = { roads: OSMRoad[]; intersections: OSMIntersection[]; features: OSMFeature[] };
+
+// A way with its node coordinates resolved, whatever format it came from. Tagged nodes
+// (crossings) come along as one-point elements with type "node" and id "node/<id>".
+export type OSMWay = {
+  id: string;
+  type?: "node";
+  geometry: { lat: number; lon: number }[];
+  tags: Record<string, string>;
+};
+
+// Roads from ways, with intersections where two or more roads share a node position,
+// and the other features (buildings, footways, kerbs, crossings) the ways describe.
+// Only ROAD_HIGHWAYS are kept as roads unless allHighways is set.
+export function roadDataFromWays(ways: OSMWay[], allHighways: boolean = false): OSMRoadData {
+  const roads: OSMRoad[] = [];
+  const features: OSMFeature[] = [];
+  const nodeConnections = new Map<string, string[]>();
+
+  for (const way of ways) {
+    const feature = classifyFeature(way);
+    if (feature) {
+      features.push(feature);
+      continue;
+    }
+
+    const highway = way.tags.highway;
+    if (!highway || way.type === "node" || way.geometry.length < 2) continue;
+    if (!allHighways && !ROAD_HIGHWAYS.includes(highway)) continue;
+
+    const { type, width } = classifyRoad(highway, way.tags);
+    roads.push({
+      id: way.id,
+      geometry: way.geometry.map(({ lat, lon }) => ({ lat, lon })),
+      tags: way.tags,
+      type,
+      width
+    });
+
+    // Track node connections for intersection detection
+    for (const node of way.geometry) {
+      const nodeId = `${node.lat.toFixed(6)},${node.lon.toFixed(6)}`;
+      if (!nodeConnections.has(nodeId)) nodeConnections.set(nodeId, []);
+      nodeConnections.get(nodeId)!.push(way.id);
+    }
+  }
+
+  // Find intersections (nodes connected to multiple roads)
+  const intersections: OSMIntersection[] = [];
+  for (const [nodeId, roadIds] of nodeConnections.entries()) {
+    if (roadIds.length >= 2) {
+      const [lat, lon] = nodeId.split(",").map(Number);
+      intersections.push({ lat, lon, roads: roadIds, type: roadIds.length >= 3 ? "major" : "minor" });
+    }
+  }
+
+  return { roads, intersections, features };
+}
+
+// Tags worth keeping when reading large extracts: any highway, buildings and kerbs for
+// ways; crossings for nodes
+export function isRoadOrFeatureWay(tags: Record<string, string>): boolean {
+  return tags.highway !== undefined || (tags.building !== undefined && tags.building !== "no") || tags.barrier === "kerb";
+}
+
+export function isFeatureNode(tags: Record<string, string>): boolean {
+  return tags.highway === "crossing" || tags.crossing !== undefined;
+}
+
+// The non-road feature a way or node is, or null. Sizes are typical ones unless tagged.
+export function classifyFeature(way: OSMWay): OSMFeature | null {
+  const { tags, geometry } = way;
+  const base = { id: way.id, tags, geometry: geometry.map(({ lat, lon }) => ({ lat, lon })) };
+
+  if (way.type === "node") {
+    return isFeatureNode(tags) ? { ...base, kind: "crossing", width: 3 } : null;
+  }
+  if (geometry.length < 2) return null;
+
+  if (tags.barrier === "kerb") {
+    return { ...base, kind: "kerb", width: 0.3 };
+  }
+  if (tags.building !== undefined && tags.building !== "no" && geometry.length >= 3) {
+    // Rings are closed, whatever the source did
+    const first = base.geometry[0];
+    const last = base.geometry[base.geometry.length - 1];
+    if (first.lat !== last.lat || first.lon !== last.lon) base.geometry.push({ ...first });
+    return { ...base, kind: "building", width: 0 };
+  }
+  if (FOOTWAY_HIGHWAYS.includes(tags.highway)) {
+    const tagged = parseFloat(tags.width ?? "");
+    const width = tagged > 0 ? tagged : tags.highway === "pedestrian" ? 5 : tags.highway === "path" ? 1.5 : 2;
+    return { ...base, kind: "footway", width };
+  }
+  return null;
+}
+
+// Road class and width in metres from the highway value, refined by lanes and width tags
+export function classifyRoad(highway: string, tags: Record<string, string | undefined>): { type: OSMRoad["type"]; width: number } {
+  const roadTypes: Record<string, { type: OSMRoad["type"]; width: number }> = {
+    "motorway": { type: "primary", width: 24 },
+    "trunk": { type: "primary", width: 20 },
+    "primary": { type: "primary", width: 16 },
+    "secondary": { type: "secondary", width: 12 },
+    "tertiary": { type: "tertiary", width: 10 },
+    "unclassified": { type: "tertiary", width: 8 },
+    "residential": { type: "residential", width: 6 },
+    "service": { type: "service", width: 4 },
+    "living_street": { type: "residential", width: 5 },
+    "pedestrian": { type: "service", width: 3 }
+  };
+
+  const classification = { ...(roadTypes[highway] || { type: "other" as const, width: 6 }) };
+
+  // Adjust width based on lanes if available
+  const lanes = parseInt(tags.lanes ?? "");
+  if (!isNaN(lanes) && lanes > 0) {
+    classification.width = lanes * 3.5; // ~3.5m per lane
+  }
+
+  // Adjust width based on explicit width tag
+  const width = parseFloat(tags.width ?? "");
+  if (!isNaN(width) && width > 0) {
+    classification.width = width;
+  }
+
+  return classification;
+}
+
+// Overpass JSON with "out geom" (coordinates on every way) or "out body" plus nodes.
+// Tagged nodes are kept as one-point elements.
+export function parseOverpassJson(json: any): OSMWay[] {
+  const elements: any[] = json?.elements ?? [];
+  const nodes = new Map<number, { lat: number; lon: number }>();
+  for (const element of elements) {
+    if (element.type === "node") nodes.set(element.id, { lat: element.lat, lon: element.lon });
+  }
+
+  const ways: OSMWay[] = [];
+  for (const element of elements) {
+    if (element.type === "node" && element.tags) {
+      ways.push({ id: `node/${element.id}`, type: "node", geometry: [{ lat: element.lat, lon: element.lon }], tags: element.tags });
+    }
+    if (element.type !== "way") continue;
+    const geometry: { lat: number; lon: number }[] = element.geometry
+      ? element.geometry.filter(Boolean).map((node: any) => ({ lat: node.lat, lon: node.lon }))
+      : (element.nodes ?? []).map((id: number) => nodes.get(id)).filter(Boolean);
+    ways.push({ id: String(element.id), geometry, tags: element.tags ?? {} });
+  }
+  return ways;
+}
+
+// OSM XML (.osm from JOSM, the editing API or Overpass "out:xml"). Ways keep the nodes
+// present in the file; references to nodes cut off by the extract are dropped. Tagged
+// nodes are kept as one-point elements.
+export function parseOsmXml(xml: string): OSMWay[] {
+  const nodes = new Map<string, { lat: number; lon: number }>();
+  for (const match of xml.matchAll(/<node\b([^>]*?)\/?>/g)) {
+    const attributes = parseAttributes(match[1]);
+    if (attributes.id && attributes.lat && attributes.lon) {
+      nodes.set(attributes.id, { lat: parseFloat(attributes.lat), lon: parseFloat(attributes.lon) });
+    }
+  }
+
+  const ways: OSMWay[] = [];
+  for (const match of xml.matchAll(/<node\b([^>]*[^/])>([\s\S]*?)<\/node>/g)) {
+    const { id, lat, lon } = parseAttributes(match[1]);
+    const tags = parseTags(match[2]);
+    if (id && lat && lon && Object.keys(tags).length > 0) {
+      ways.push({ id: `node/${id}`, type: "node", geometry: [{ lat: parseFloat(lat), lon: parseFloat(lon) }], tags });
+    }
+  }
+
+  for (const match of xml.matchAll(/<way\b([^>]*)>([\s\S]*?)<\/way>/g)) {
+    const id = parseAttributes(match[1]).id;
+    if (!id) continue;
+
+    const geometry: { lat: number; lon: number }[] = [];
+    for (const nd of match[2].matchAll(/<nd\b([^>]*?)\/?>/g)) {
+      const node = nodes.get(parseAttributes(nd[1]).ref);
+      if (node) geometry.push(node);
+    }
+
+    ways.push({ id, geometry, tags: parseTags(match[2]) });
+  }
+  return ways;
+}
+
+// GeoJSON features with OSM tags as properties (osmtogeojson, QGIS or ogr2ogr exports):
+// lines, polygon outer rings and points. Ids come from "@id" ("way/123"), osm_id, id or
+// the feature id.
+export function parseGeoJsonWays(json: any): OSMWay[] {
+  const features: any[] = json?.type === "FeatureCollection" ? json.features ?? [] : json?.type === "Feature" ? [json] : [];
+  const ways: OSMWay[] = [];
+
+  features.forEach((feature, index) => {
+    const properties = feature?.properties ?? {};
+    const geometry = feature?.geometry;
+    if (!geometry) return;
+
+    // Polygons (buildings) keep their outer ring
+    const lines: number[][][] =
+      geometry.type === "LineString" ? [geometry.coordinates] :
+      geometry.type === "MultiLineString" ? geometry.coordinates :
+      geometry.type === "Polygon" ? geometry.coordinates.slice(0, 1) :
+      geometry.type === "MultiPolygon" ? geometry.coordinates.map((polygon: number[][][]) => polygon[0]) : [];
+
+    const rawId = properties["@id"] ?? properties.osm_id ?? properties.id ?? feature.id ?? `feature-${index}`;
+    const id = String(rawId).replace(/^way\//, "");
+
+    // Tags may sit in a nested "tags" object (osmtogeojson) or be the properties themselves
+    const tags: Record<string, string> = {};
+    for (const [key, value] of Object.entries(isObject(properties.tags) ? properties.tags : properties)) {
+      if (value !== null && value !== undefined && typeof value !== "object") tags[key] = String(value);
+    }
+
+    if (geometry.type === "Point") {
+      const [lon, lat] = geometry.coordinates;
+      ways.push({ id: id.startsWith("node/") ? id : `node/${id}`, type: "node", geometry: [{ lat, lon }], tags });
+      return;
+    }
+
+    lines.forEach((line, part) => {
+      ways.push({
+        id: lines.length > 1 ? `${id}-${part}` : id,
+        geometry: line.map(([lon, lat]) => ({ lat, lon })),
+        tags
+      });
+    });
+  });
+
+  return ways;
+}
+
+// Ways from the text of a local file. The format is recognised from the content:
+// XML is OSM XML, JSON with "elements" is Overpass, anything else GeoJSON.
+export function parseWayFile(text: string, name: string = "road file"): OSMWay[] {
+  const trimmed = text.trimStart();
+  if (trimmed.startsWith("<")) return parseOsmXml(trimmed);
+
+  let json: any;
+  try {
+    json = JSON.parse(trimmed);
+  } catch (error) {
+    throw new Error(`${name} is neither OSM XML nor JSON: ${(error as Error).message}`);
+  }
+
+  if (Array.isArray(json?.elements)) return parseOverpassJson(json);
+  if (json?.type === "FeatureCollection" || json?.type === "Feature") return parseGeoJsonWays(json);
+  throw new Error(`${name} is JSON but neither Overpass output nor GeoJSON`);
+}
+
+export function parseRoadFile(text: string, name: string = "road file"): OSMRoadData {
+  return roadDataFromWays(parseWayFile(text, name));
+}
+
+// Ways with a node or segment inside bounds (degrees), or closed outlines around them.
+// They are kept whole, so roads crossing the edge keep their direction; a way whose
+// extent only overlaps the bounds (e.g. an L around a corner) is dropped.
+export function waysInBounds(ways: OSMWay[], bounds: RoadDataBounds): OSMWay[] {
+  return ways.filter(way => {
+    const extent = waysExtent([way]);
+    if (extent === null || !boundsOverlap(extent, bounds)) return false;
+
+    const nodes = way.geometry;
+    if (nodes.length === 1) return true; // inside, since its extent overlaps
+    for (let i = 1; i < nodes.length; i++) {
+      if (segmentTouchesBounds(nodes[i - 1], nodes[i], bounds)) return true;
+    }
+    // Buildings count as rings even when the source left them open, as in classifyFeature
+    const first = nodes[0];
+    const last = nodes[nodes.length - 1];
+    const ring = nodes.length >= 3 && ((first.lat === last.lat && first.lon === last.lon) || way.tags.building !== undefined);
+    return ring && containsPoint(nodes, (bounds.west + bounds.east) / 2, (bounds.south + bounds.north) / 2);
+  });
+}
+
+// Extent of all way nodes, or null without any
+export function waysExtent(ways: OSMWay[]): RoadDataBounds | null {
+  let extent: RoadDataBounds | null = null;
+  for (const way of ways) {
+    for (const { lat, lon } of way.geometry) {
+      if (!extent) {
+        extent = { north: lat, south: lat, east: lon, west: lon };
+        continue;
+      }
+      extent.north = Math.max(extent.north, lat);
+      extent.south = Math.min(extent.south, lat);
+      extent.east = Math.max(extent.east, lon);
+      extent.west = Math.min(extent.west, lon);
+    }
+  }
+  return extent;
+}
+
+export function boundsOverlap(a: RoadDataBounds, b: RoadDataBounds): boolean {
+  return a.south <= b.north && a.north >= b.south && a.west <= b.east && a.east >= b.west;
+}
+
+// Helper functions
+// Liang–Barsky: does any part of the segment a-b lie within bounds
+function segmentTouchesBounds(a: { lat: number; lon: number }, b: { lat: number; lon: number }, bounds: RoadDataBounds): boolean {
+  const dLon = b.lon - a.lon;
+  const dLat = b.lat - a.lat;
+  let t0 = 0;
+  let t1 = 1;
+  const edges: [number, number][] = [
+    [-dLon, a.lon - bounds.west],
+    [dLon, bounds.east - a.lon],
+    [-dLat, a.lat - bounds.south],
+    [dLat, bounds.north - a.lat]
+  ];
+  for (const [p, q] of edges) {
+    if (p === 0) {
+      if (q < 0) return false;
+      continue;
+    }
+    const t = q / p;
+    if (p < 0) t0 = Math.max(t0, t);
+    else t1 = Math.min(t1, t);
+    if (t0 > t1) return false;
+  }
+  return true;
+}
+
+// Even-odd rule in lon/lat
+function containsPoint(ring: { lat: number; lon: number }[], lon: number, lat: number): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const a = ring[i];
+    const b = ring[j];
+    if ((a.lat > lat) !== (b.lat > lat) && lon < a.lon + (lat - a.lat) * (b.lon - a.lon) / (b.lat - a.lat)) inside = !inside;
+  }
+  return inside;
+}
+
+function parseTags(body: string): Record<string, string> {
+  const tags: Record<string, string> = {};
+  for (const tag of body.matchAll(/<tag\b([^>]*?)\/?>/g)) {
+    const { k, v } = parseAttributes(tag[1]);
+    if (k !== undefined && v !== undefined) tags[k] = v;
+  }
+  return tags;
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1]] = decodeEntities(match[2] ?? match[3]);
+  }
+  return attributes;
+}
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1] === "x" || entity[1] === "X" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return String.fromCodePoint(code);
+    }
+    return ({ amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'" } as Record<string, string>)[entity.toLowerCase()];
+  });
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,116 @@
+// src/osm/roadSources.ts
+import type { RoadDataBounds } from "../road-data-provider";
+import { FOOTWAY_HIGHWAYS, OSMWay, ROAD_HIGHWAYS, boundsOverlap, parseOverpassJson, parseWayFile, waysExtent, waysInBounds } from "./roadData";
+import { isOsmPbf, parseOsmPbf } from "./osmPbf";
+
+export const DEFAULT_OVERPASS_URL = "https://overpass-api.de/api/interpreter";
+
+// Where RoadDataProvider gets OSM ways from. Sources are tried in order; null means the
+// bounds are outside what the source holds and the next one should be asked.
+export interface RoadDataSource {
+  readonly name: string;
+  readonly cacheable?: boolean;  // worth keeping in the tile cache (remote sources)
+  getWays(bounds: RoadDataBounds, signal?: AbortSignal): Promise<OSMWay[] | null>;
+}
+
+// Road sources as configured in a scene manifest; files are URLs
+export type RoadSourceConfig = {
+  files?: string[];          // .osm XML, GeoJSON, Overpass JSON or .osm.pbf, tried first
+  overpassUrl?: string;      // self-hosted Overpass API (default: the public server)
+  offline?: boolean;         // never ask Overpass
+  cacheMaxAgeHours?: number; // how long fetched road tiles are reused (default 7 days)
+  allowFabricated?: boolean; // invent a street grid when no source has data (demos only)
+};
+
+// Overpass API, public or self-hosted
+export class OverpassSource implements RoadDataSource {
+  public readonly name: string;
+  public readonly cacheable = true;
+  private url: string;
+  private timeoutSec: number;
+
+  constructor(url: string = DEFAULT_OVERPASS_URL, timeoutSec: number = 25) {
+    this.url = url;
+    this.timeoutSec = timeoutSec;
+    this.name = `Overpass ${new URL(url, "http://localhost").host}`;
+  }
+
+  public async getWays(bounds: RoadDataBounds, signal?: AbortSignal): Promise<OSMWay[]> {
+    // Roads and footways, building outlines, kerb lines and crossing nodes
+    const bbox = `${bounds.south},${bounds.west},${bounds.north},${bounds.east}`;
+    const query = `
+      [out:json][timeout:${this.timeoutSec}];
+      (
+        way["highway"~"^(${[...ROAD_HIGHWAYS, ...FOOTWAY_HIGHWAYS].join("|")})$"](${bbox});
+        way["building"](${bbox});
+        way["barrier"="kerb"](${bbox});
+        node["highway"="crossing"](${bbox});
+        node["crossing"](${bbox});
+      );
+      out geom;
+    `;
+
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: `data=${encodeURIComponent(query)}`,
+      signal
+    });
+    if (!response.ok) {
+      throw new Error(`Overpass API error: ${response.status} ${response.statusText}`);
+    }
+
+    return parseOverpassJson(await response.json());
+  }
+}
+
+// A local extract: read and parsed on first use, then clipped to each request's bounds
+export class RoadFileSource implements RoadDataSource {
+  public readonly name: string;
+  private load: () => Promise<ArrayBuffer>;
+  private parsed: Promise<{ ways: OSMWay[]; extent: RoadDataBounds | null }> | null = null;
+
+  constructor(name: string, load: () => Promise<ArrayBuffer>) {
+    this.name = name;
+    this.load = load;
+  }
+
+  public static fromUrl(url: string): RoadFileSource {
+    return new RoadFileSource(url.split("/").pop() || url, async () => {
+      const response = await fetch(url);
+      if (!response.ok) throw new Error(`Failed to load road file ${url}: ${response.status} ${response.statusText}`);
+      return response.arrayBuffer();
+    });
+  }
+
+  public static fromFile(file: File): RoadFileSource {
+    return new RoadFileSource(file.name, () => file.arrayBuffer());
+  }
+
+  public async getWays(bounds: RoadDataBounds): Promise<OSMWay[] | null> {
+    if (!this.parsed) {
+      this.parsed = this.load()
+        .then(buffer => parseWayBuffer(buffer, this.name))
+        .then(ways => ({ ways, extent: waysExtent(ways) }));
+      // A failed read is retried next time
+      this.parsed.catch(() => { this.parsed = null; });
+    }
+
+    const { ways, extent } = await this.parsed;
+    if (!extent || !boundsOverlap(extent, bounds)) return null;
+    return waysInBounds(ways, bounds);
+  }
+}
+
+// Ways from the bytes of any supported file: PBF by its header, text formats by content
+export async function parseWayBuffer(buffer: ArrayBuffer, name: string = "road file"): Promise<OSMWay[]> {
+  if (isOsmPbf(buffer)) return parseOsmPbf(buffer);
+  return parseWayFile(new TextDecoder().decode(buffer), name);
+}
+
+// Sources in the order RoadDataProvider should try them
+export function roadSourcesFromConfig(config: RoadSourceConfig = {}): RoadDataSource[] {
+  const sources: RoadDataSource[] = (config.files ?? []).map(url => RoadFileSource.fromUrl(url));
+  if (!config.offline) sources.push(new OverpassSource(config.overpassUrl));
+  return sources;
+}
@@ -0,0 +1,218 @@
+// src/osm/roadTileCache.ts
+import type { RoadDataBounds } from "../road-data-provider";
+import { OSMWay, waysInBounds } from "./roadData";
+import type { RoadDataSource } from "./roadSources";
+
+const DB_NAME = "cesium-gaussian-splatting-osm";
+const DB_VERSION = 1;
+const STORE_NAME = "road-tiles";
+
+// Part of every key, so tiles stored before buildings, kerbs and crossings were fetched are not reused
+const TILE_FORMAT = 2;
+
+// Requests spanning more tiles than this go straight to the source (zoomed far out)
+const MAX_TILES_PER_REQUEST = 64;
+
+export type RoadTileCacheOptions = {
+  zoom?: number;         // slippy-map zoom of the tiles (default 16, about 600 m at the equator)
+  maxAgeMs?: number;     // tiles older than this are fetched again (default 7 days)
+  persistent?: boolean;  // keep tiles in IndexedDB across reloads (default true where available)
+};
+
+// Ways of one tile from one source, as fetched; empty tiles are stored too
+export type StoredRoadTile = {
+  key: string;           // "<source>|v<format>|<z>/<x>/<y>"
+  fetchedAt: number;
+  ways: OSMWay[];
+};
+
+export type TileCoordinate = { x: number; y: number; z: number };
+
+// Road ways split into fixed slippy-map tiles, kept in memory and in IndexedDB. A request
+// for any bounds is answered from the tiles it touches; only missing or expired tiles are
+// fetched, in one request over their combined extent.
+export class RoadTileCache {
+  private zoom: number;
+  private maxAgeMs: number;
+  private persistent: boolean;
+  private memory: Map<string, StoredRoadTile> = new Map();
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private pruned = false;
+
+  constructor(options: RoadTileCacheOptions = {}) {
+    this.zoom = options.zoom ?? 16;
+    this.maxAgeMs = options.maxAgeMs ?? 7 * 24 * 60 * 60 * 1000;
+    this.persistent = (options.persistent ?? true) && typeof indexedDB !== "undefined";
+  }
+
+  // Ways of source within bounds, de-duplicated by OSM id; null when the source does not cover them
+  public async getWays(source: RoadDataSource, bounds: RoadDataBounds, signal?: AbortSignal): Promise<OSMWay[] | null> {
+    const tiles = tilesForBounds(bounds, this.zoom);
+    if (tiles.length > MAX_TILES_PER_REQUEST) return source.getWays(bounds, signal);
+
+    // Expired tiles from earlier sessions are cleared out once
+    if (!this.pruned) {
+      this.pruned = true;
+      this.prune().catch(error => console.warn("⚠️ Could not prune road tiles:", error));
+    }
+
+    const now = Date.now();
+    const keys = tiles.map(tile => tileKey(source, tile));
+    const cached = await Promise.all(keys.map(key => this.read(key)));
+    const fresh = cached.filter(tile => tile && now - tile.fetchedAt < this.maxAgeMs) as StoredRoadTile[];
+    const missing = tiles.filter((_, i) => !fresh.includes(cached[i]!));
+
+    if (missing.length > 0) {
+      console.log(`🧱 Fetching ${missing.length} of ${tiles.length} road tiles from ${source.name}`);
+      const ways = await source.getWays(unionBounds(missing.map(tileBounds)), signal);
+      if (ways === null) return null;
+
+      for (const tile of missing) {
+        const stored: StoredRoadTile = { key: tileKey(source, tile), fetchedAt: now, ways: waysInBounds(ways, tileBounds(tile)) };
+        fresh.push(stored);
+        await this.write(stored);
+      }
+    } else {
+      console.log(`📋 Using ${tiles.length} cached road tiles from ${source.name}`);
+    }
+
+    // Ways crossing tile edges are stored in every tile they touch
+    const byId = new Map<string, OSMWay>();
+    for (const tile of fresh) {
+      for (const way of tile.ways) byId.set(way.id, way);
+    }
+    return waysInBounds([...byId.values()], bounds);
+  }
+
+  public setMaxAge(maxAgeMs: number): void {
+    this.maxAgeMs = maxAgeMs;
+  }
+
+  // Forget every tile, in memory and in IndexedDB
+  public async clear(): Promise<void> {
+    this.memory.clear();
+    if (!this.persistent) return;
+    await this.request("readwrite", store => store.clear());
+  }
+
+  // Drop stored tiles past the expiry
+  public async prune(): Promise<number> {
+    const cutoff = Date.now() - this.maxAgeMs;
+    for (const [key, tile] of this.memory) {
+      if (tile.fetchedAt < cutoff) this.memory.delete(key);
+    }
+    if (!this.persistent) return 0;
+
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      let removed = 0;
+      const transaction = db.transaction(STORE_NAME, "readwrite");
+      const cursorRequest = transaction.objectStore(STORE_NAME).openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) return;
+        if ((cursor.value as StoredRoadTile).fetchedAt < cutoff) {
+          cursor.delete();
+          removed++;
+        }
+        cursor.continue();
+      };
+      transaction.oncomplete = () => resolve(removed);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  private async read(key: string): Promise<StoredRoadTile | null> {
+    const inMemory = this.memory.get(key);
+    if (inMemory || !this.persistent) return inMemory ?? null;
+
+    try {
+      const stored = await this.request<StoredRoadTile | undefined>("readonly", store => store.get(key));
+      if (stored) this.memory.set(key, stored);
+      return stored ?? null;
+    } catch (error) {
+      console.warn("⚠️ Road tile cache unavailable, using memory only:", error);
+      this.persistent = false;
+      return null;
+    }
+  }
+
+  private async write(tile: StoredRoadTile): Promise<void> {
+    this.memory.set(tile.key, tile);
+    if (!this.persistent) return;
+
+    try {
+      await this.request("readwrite", store => store.put(tile));
+    } catch (error) {
+      console.warn("⚠️ Could not store road tile:", error);
+    }
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(STORE_NAME)) {
+            db.createObjectStore(STORE_NAME, { keyPath: "key" });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async request<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = run(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result as T);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+}
+
+// Slippy-map tiles (x east, y south from the top-left) touching bounds in degrees
+export function tilesForBounds(bounds: RoadDataBounds, zoom: number): TileCoordinate[] {
+  const n = 2 ** zoom;
+  const clampTile = (value: number) => Math.max(0, Math.min(n - 1, Math.floor(value)));
+  const tileX = (lon: number) => clampTile((lon + 180) / 360 * n);
+  const tileY = (lat: number) => {
+    const phi = lat * Math.PI / 180;
+    return clampTile((1 - Math.asinh(Math.tan(phi)) / Math.PI) / 2 * n);
+  };
+
+  const tiles: TileCoordinate[] = [];
+  for (let y = tileY(bounds.north); y <= tileY(bounds.south); y++) {
+    for (let x = tileX(bounds.west); x <= tileX(bounds.east); x++) {
+      tiles.push({ x, y, z: zoom });
+    }
+  }
+  return tiles;
+}
+
+export function tileBounds({ x, y, z }: TileCoordinate): RoadDataBounds {
+  const n = 2 ** z;
+  const lat = (row: number) => Math.atan(Math.sinh(Math.PI * (1 - 2 * row / n))) * 180 / Math.PI;
+  return { west: x / n * 360 - 180, east: (x + 1) / n * 360 - 180, north: lat(y), south: lat(y + 1) };
+}
+
+// Helper functions
+function tileKey(source: RoadDataSource, { x, y, z }: TileCoordinate): string {
+  return `${source.name}|v${TILE_FORMAT}|${z}/${x}/${y}`;
+}
+
+function unionBounds(list: RoadDataBounds[]): RoadDataBounds {
+  return {
+    north: Math.max(...list.map(b => b.north)),
+    south: Math.min(...list.map(b => b.south)),
+    east: Math.max(...list.map(b => b.east)),
+    west: Math.min(...list.map(b => b.west))
+  };
+}
@@ -0,0 +1,104 @@
+// src/raster/geoRaster.ts
+import * as Cesium from "cesium";
+import { GeoAnchor } from "../types/alignment";
+import { ecefToEnuMatrix, enuToEcefMatrix } from "../alignment/composeModelMatrix";
+
+// North-up image on a plane in the ENU frame of origin, with square pixels of metersPerPixel.
+// Plain arrays only, so rasters can be built and compared without a DOM (workers, node).
+export type GeoRaster = {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;  // RGBA, row-major, row 0 is the north edge
+  heights?: Float32Array;   // ENU up of the visible surface in metres, NaN where nothing was drawn
+  origin: GeoAnchor;        // ENU frame the raster lives in
+  west: number;             // ENU east coordinate of the left edge, metres
+  north: number;            // ENU north coordinate of the top edge, metres
+  metersPerPixel: number;
+};
+
+export type EnuBounds = { west: number; south: number; east: number; north: number }; // metres
+
+export function createGeoRaster(
+  origin: GeoAnchor,
+  bounds: EnuBounds,
+  metersPerPixel: number,
+  withHeights: boolean = false
+): GeoRaster {
+  if (!(metersPerPixel > 0)) throw new Error("metersPerPixel must be positive");
+
+  // The epsilon keeps bounds that are a whole number of pixels from gaining one through rounding
+  const width = Math.max(1, Math.ceil((bounds.east - bounds.west) / metersPerPixel - 1e-6));
+  const height = Math.max(1, Math.ceil((bounds.north - bounds.south) / metersPerPixel - 1e-6));
+  return {
+    width,
+    height,
+    data: new Uint8ClampedArray(width * height * 4),
+    heights: withHeights ? new Float32Array(width * height).fill(NaN) : undefined,
+    origin: { ...origin },
+    west: bounds.west,
+    north: bounds.north,
+    metersPerPixel
+  };
+}
+
+export function rasterBounds(raster: GeoRaster): EnuBounds {
+  return {
+    west: raster.west,
+    south: raster.north - raster.height * raster.metersPerPixel,
+    east: raster.west + raster.width * raster.metersPerPixel,
+    north: raster.north
+  };
+}
+
+// Continuous pixel coordinates: (0, 0) is the north-west corner, pixel centres are at +0.5
+export function rasterPixelToEnu(raster: GeoRaster, x: number, y: number): { east: number; north: number } {
+  return {
+    east: raster.west + x * raster.metersPerPixel,
+    north: raster.north - y * raster.metersPerPixel
+  };
+}
+
+export function enuToRasterPixel(raster: GeoRaster, east: number, north: number): { x: number; y: number } {
+  return {
+    x: (east - raster.west) / raster.metersPerPixel,
+    y: (raster.north - north) / raster.metersPerPixel
+  };
+}
+
+export function rasterPixelToGeo(raster: GeoRaster, x: number, y: number): { lon: number; lat: number } {
+  const { east, north } = rasterPixelToEnu(raster, x, y);
+  const ecef = Cesium.Matrix4.multiplyByPoint(
+    enuToEcefMatrix(raster.origin),
+    new Cesium.Cartesian3(east, north, 0),
+    new Cesium.Cartesian3()
+  );
+  const carto = Cesium.Cartographic.fromCartesian(ecef);
+  return { lon: Cesium.Math.toDegrees(carto.longitude), lat: Cesium.Math.toDegrees(carto.latitude) };
+}
+
+// Geographic position projected onto the raster plane (at the origin's height)
+export function geoToRasterPixel(raster: GeoRaster, lon: number, lat: number): { x: number; y: number } {
+  const enu = Cesium.Matrix4.multiplyByPoint(
+    ecefToEnuMatrix(raster.origin),
+    Cesium.Cartesian3.fromDegrees(lon, lat, raster.origin.height),
+    new Cesium.Cartesian3()
+  );
+  return enuToRasterPixel(raster, enu.x, enu.y);
+}
+
+// Luma of every pixel and alpha as 0..1 coverage, for the image matchers
+export function rasterLuminance(raster: GeoRaster): { values: Float32Array; mask: Float32Array } {
+  const count = raster.width * raster.height;
+  const values = new Float32Array(count);
+  const mask = new Float32Array(count);
+  for (let k = 0; k < count; k++) {
+    values[k] = 0.299 * raster.data[k * 4] + 0.587 * raster.data[k * 4 + 1] + 0.114 * raster.data[k * 4 + 2];
+    mask[k] = raster.data[k * 4 + 3] / 255;
+  }
+  return { values, mask };
+}
+
+// Browser-only view of the pixels for canvas drawing and the ImageData based matchers
+export function rasterToImageData(raster: GeoRaster): ImageData {
+  return new ImageData(new Uint8ClampedArray(raster.data), raster.width, raster.height);
+}
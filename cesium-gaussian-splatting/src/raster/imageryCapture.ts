@@ -0,0 +1,283 @@
+// src/raster/imageryCapture.ts
+import * as Cesium from "cesium";
+import { GeoAnchor } from "../types/alignment";
+import { RoadDataBounds } from "../road-data-provider";
+import { ecefToEnuMatrix, enuToEcefMatrix } from "../alignment/composeModelMatrix";
+import { GeoRaster, EnuBounds, createGeoRaster, rasterBounds } from "./geoRaster";
+
+export type ImageryCaptureOptions = {
+  metersPerPixel?: number; // ground sample distance of the result (default 0.5)
+  origin?: GeoAnchor;      // ENU frame of the result (default: centre of the bounds on the ellipsoid)
+  maxTiles?: number;       // per imagery layer, guards against huge requests (default 256)
+};
+
+type TilePixels = { width: number; height: number; data: Uint8ClampedArray };
+
+// lon/lat are computed exactly on a grid of this many pixels and interpolated in between;
+// over a few kilometres the interpolation error is far below a millimetre
+const GEO_GRID_STEP = 16;
+const REQUEST_RETRIES = 50;
+const REQUEST_RETRY_DELAY_MS = 50;
+
+// Top-down capture of the viewer's imagery layers. Tiles are requested from the imagery
+// providers directly and resampled onto a north-up ENU grid, so the pixels do not depend
+// on the camera and every pixel has an exact lon/lat (see rasterPixelToGeo).
+export class ImageryCapture {
+  private imageryLayers: Cesium.ImageryLayerCollection;
+  private tileCache = new Map<string, Promise<TilePixels | null>>();
+
+  constructor(imageryLayers: Cesium.ImageryLayerCollection) {
+    this.imageryLayers = imageryLayers;
+  }
+
+  // Capture a lon/lat bounding box at the given ground sample distance
+  public async capture(bounds: RoadDataBounds, options: ImageryCaptureOptions = {}): Promise<GeoRaster> {
+    const origin = options.origin ?? {
+      lon: (bounds.west + bounds.east) / 2,
+      lat: (bounds.south + bounds.north) / 2,
+      height: 0
+    };
+
+    // ENU box around all four corners so the whole lon/lat box is covered
+    const ecefToEnu = ecefToEnuMatrix(origin);
+    const corners = [
+      [bounds.west, bounds.south], [bounds.east, bounds.south],
+      [bounds.west, bounds.north], [bounds.east, bounds.north]
+    ].map(([lon, lat]) => Cesium.Matrix4.multiplyByPoint(
+      ecefToEnu,
+      Cesium.Cartesian3.fromDegrees(lon, lat, origin.height),
+      new Cesium.Cartesian3()
+    ));
+    const enuBounds: EnuBounds = {
+      west: Math.min(...corners.map(c => c.x)),
+      south: Math.min(...corners.map(c => c.y)),
+      east: Math.max(...corners.map(c => c.x)),
+      north: Math.max(...corners.map(c => c.y))
+    };
+
+    return this.captureGrid(origin, enuBounds, options.metersPerPixel ?? 0.5, options.maxTiles);
+  }
+
+  // Capture onto the same grid as another raster (e.g. an orthographic splat render)
+  public captureLike(raster: GeoRaster, maxTiles?: number): Promise<GeoRaster> {
+    return this.captureGrid(raster.origin, rasterBounds(raster), raster.metersPerPixel, maxTiles);
+  }
+
+  public async captureGrid(
+    origin: GeoAnchor,
+    bounds: EnuBounds,
+    metersPerPixel: number,
+    maxTiles: number = 256
+  ): Promise<GeoRaster> {
+    const raster = createGeoRaster(origin, bounds, metersPerPixel);
+    const { width, height } = raster;
+    const lonLat = pixelLonLat(raster);
+    const midLat = lonLat[(Math.floor(height / 2) * width + Math.floor(width / 2)) * 2 + 1];
+
+    for (let i = 0; i < this.imageryLayers.length; i++) {
+      const layer = this.imageryLayers.get(i);
+      if (!layer.show || !layer.ready || layer.alpha <= 0) continue;
+      await this.drawLayer(raster, lonLat, midLat, layer, maxTiles);
+    }
+
+    console.log(`🛰️ Imagery captured: ${width}x${height} at ${metersPerPixel.toFixed(3)} m/pixel`);
+    return raster;
+  }
+
+  public clearCache(): void {
+    this.tileCache.clear();
+  }
+
+  private async drawLayer(
+    raster: GeoRaster,
+    lonLat: Float64Array,
+    midLat: number,
+    layer: Cesium.ImageryLayer,
+    maxTiles: number
+  ): Promise<void> {
+    const provider = layer.imageryProvider;
+    const scheme = provider.tilingScheme;
+    const projection = scheme.projection;
+    const level = chooseLevel(provider, midLat, raster.metersPerPixel);
+
+    // Tile grid of the level in projected coordinates
+    const sw = projection.project(Cesium.Rectangle.southwest(scheme.rectangle));
+    const ne = projection.project(Cesium.Rectangle.northeast(scheme.rectangle));
+    const tilesX = scheme.getNumberOfXTilesAtLevel(level);
+    const tilesY = scheme.getNumberOfYTilesAtLevel(level);
+
+    // Tile coordinates (fractional) of every pixel
+    const count = raster.width * raster.height;
+    const u = new Float64Array(count);
+    const v = new Float64Array(count);
+    const needed = new Set<string>();
+    const carto = new Cesium.Cartographic();
+    const projected = new Cesium.Cartesian3();
+
+    for (let k = 0; k < count; k++) {
+      carto.longitude = lonLat[k * 2];
+      carto.latitude = lonLat[k * 2 + 1];
+      projection.project(carto, projected);
+      u[k] = (projected.x - sw.x) / (ne.x - sw.x) * tilesX;
+      v[k] = (ne.y - projected.y) / (ne.y - sw.y) * tilesY;
+
+      const tx = Math.floor(u[k]);
+      const ty = Math.floor(v[k]);
+      if (tx >= 0 && tx < tilesX && ty >= 0 && ty < tilesY) needed.add(`${tx},${ty}`);
+    }
+
+    if (needed.size > maxTiles) {
+      throw new Error(`Imagery capture needs ${needed.size} tiles at level ${level}; use a coarser metersPerPixel or a smaller area`);
+    }
+
+    const tiles = new Map<string, TilePixels | null>();
+    await Promise.all([...needed].map(async key => {
+      const [x, y] = key.split(",").map(Number);
+      tiles.set(key, await this.loadTile(provider, x, y, level));
+    }));
+
+    // Bilinear sample inside each tile, composited over what earlier layers drew
+    const alpha = layer.alpha;
+    const data = raster.data;
+    for (let k = 0; k < count; k++) {
+      const tx = Math.floor(u[k]);
+      const ty = Math.floor(v[k]);
+      const tile = tiles.get(`${tx},${ty}`);
+      if (!tile) continue;
+
+      const px = (u[k] - tx) * tile.width - 0.5;
+      const py = (v[k] - ty) * tile.height - 0.5;
+      const sample = sampleBilinear(tile, px, py);
+      const a = alpha * sample[3] / 255;
+      if (a <= 0) continue;
+
+      data[k * 4] = sample[0] * a + data[k * 4] * (1 - a);
+      data[k * 4 + 1] = sample[1] * a + data[k * 4 + 1] * (1 - a);
+      data[k * 4 + 2] = sample[2] * a + data[k * 4 + 2] * (1 - a);
+      data[k * 4 + 3] = 255 * a + data[k * 4 + 3] * (1 - a);
+    }
+  }
+
+  private loadTile(provider: Cesium.ImageryProvider, x: number, y: number, level: number): Promise<TilePixels | null> {
+    const key = `${providerKey(provider)}/${level}/${x}/${y}`;
+    let tile = this.tileCache.get(key);
+    if (!tile) {
+      tile = requestTile(provider, x, y, level).catch(error => {
+        console.warn(`⚠️ Imagery tile ${level}/${x}/${y} failed:`, error);
+        this.tileCache.delete(key);
+        return null;
+      });
+      this.tileCache.set(key, tile);
+    }
+    return tile;
+  }
+}
+
+// Helper functions
+// Interleaved [lon, lat] in radians for every pixel centre
+function pixelLonLat(raster: GeoRaster): Float64Array {
+  const { width, height, metersPerPixel } = raster;
+  const enuToEcef = enuToEcefMatrix(raster.origin);
+  const gridW = Math.ceil(width / GEO_GRID_STEP) + 1;
+  const gridH = Math.ceil(height / GEO_GRID_STEP) + 1;
+  const grid = new Float64Array(gridW * gridH * 2);
+
+  const ecef = new Cesium.Cartesian3();
+  const carto = new Cesium.Cartographic();
+  for (let gy = 0; gy < gridH; gy++) {
+    for (let gx = 0; gx < gridW; gx++) {
+      const east = raster.west + (gx * GEO_GRID_STEP + 0.5) * metersPerPixel;
+      const north = raster.north - (gy * GEO_GRID_STEP + 0.5) * metersPerPixel;
+      Cesium.Matrix4.multiplyByPoint(enuToEcef, new Cesium.Cartesian3(east, north, 0), ecef);
+      Cesium.Cartographic.fromCartesian(ecef, Cesium.Ellipsoid.WGS84, carto);
+      grid[(gy * gridW + gx) * 2] = carto.longitude;
+      grid[(gy * gridW + gx) * 2 + 1] = carto.latitude;
+    }
+  }
+
+  const lonLat = new Float64Array(width * height * 2);
+  for (let y = 0; y < height; y++) {
+    const gy = Math.floor(y / GEO_GRID_STEP);
+    const fy = y / GEO_GRID_STEP - gy;
+    for (let x = 0; x < width; x++) {
+      const gx = Math.floor(x / GEO_GRID_STEP);
+      const fx = x / GEO_GRID_STEP - gx;
+      for (let c = 0; c < 2; c++) {
+        const g00 = grid[(gy * gridW + gx) * 2 + c];
+        const g10 = grid[(gy * gridW + gx + 1) * 2 + c];
+        const g01 = grid[((gy + 1) * gridW + gx) * 2 + c];
+        const g11 = grid[((gy + 1) * gridW + gx + 1) * 2 + c];
+        lonLat[(y * width + x) * 2 + c] =
+          (g00 * (1 - fx) + g10 * fx) * (1 - fy) + (g01 * (1 - fx) + g11 * fx) * fy;
+      }
+    }
+  }
+  return lonLat;
+}
+
+// Coarsest level whose pixels are at least as fine as metersPerPixel at this latitude
+function chooseLevel(provider: Cesium.ImageryProvider, latitude: number, metersPerPixel: number): number {
+  const scheme = provider.tilingScheme;
+  const sw = scheme.projection.project(Cesium.Rectangle.southwest(scheme.rectangle));
+  const ne = scheme.projection.project(Cesium.Rectangle.northeast(scheme.rectangle));
+  const minimumLevel = provider.minimumLevel ?? 0;
+  const maximumLevel = provider.maximumLevel ?? 19;
+
+  for (let level = minimumLevel; level < maximumLevel; level++) {
+    const tilePixels = scheme.getNumberOfXTilesAtLevel(level) * provider.tileWidth;
+    const groundMetersPerPixel = (ne.x - sw.x) / tilePixels * Math.cos(latitude);
+    if (groundMetersPerPixel <= metersPerPixel) return level;
+  }
+  return maximumLevel;
+}
+
+// requestImage returns undefined while the request scheduler is full; try again shortly
+async function requestTile(provider: Cesium.ImageryProvider, x: number, y: number, level: number): Promise<TilePixels | null> {
+  for (let attempt = 0; attempt < REQUEST_RETRIES; attempt++) {
+    const pending = provider.requestImage(x, y, level);
+    if (pending) {
+      const image = await pending;
+      return image ? imagePixels(image as CanvasImageSource & { width: number; height: number }) : null;
+    }
+    await new Promise(resolve => setTimeout(resolve, REQUEST_RETRY_DELAY_MS));
+  }
+  throw new Error("request queue stayed full");
+}
+
+function imagePixels(image: CanvasImageSource & { width: number; height: number }): TilePixels {
+  const canvas = document.createElement("canvas");
+  canvas.width = image.width;
+  canvas.height = image.height;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true })!;
+  ctx.drawImage(image, 0, 0);
+  return { width: image.width, height: image.height, data: ctx.getImageData(0, 0, image.width, image.height).data };
+}
+
+function sampleBilinear(tile: TilePixels, x: number, y: number): number[] {
+  const x0 = Math.max(0, Math.min(tile.width - 1, Math.floor(x)));
+  const y0 = Math.max(0, Math.min(tile.height - 1, Math.floor(y)));
+  const x1 = Math.min(tile.width - 1, x0 + 1);
+  const y1 = Math.min(tile.height - 1, y0 + 1);
+  const fx = Math.max(0, Math.min(1, x - x0));
+  const fy = Math.max(0, Math.min(1, y - y0));
+
+  const result = [0, 0, 0, 0];
+  for (let c = 0; c < 4; c++) {
+    const top = tile.data[(y0 * tile.width + x0) * 4 + c] * (1 - fx) + tile.data[(y0 * tile.width + x1) * 4 + c] * fx;
+    const bottom = tile.data[(y1 * tile.width + x0) * 4 + c] * (1 - fx) + tile.data[(y1 * tile.width + x1) * 4 + c] * fx;
+    result[c] = top * (1 - fy) + bottom * fy;
+  }
+  return result;
+}
+
+// Providers have no id; tell them apart by instance
+const providerIds = new WeakMap<object, number>();
+let nextProviderId = 1;
+function providerKey(provider: Cesium.ImageryProvider): number {
+  let id = providerIds.get(provider);
+  if (id === undefined) {
+    id = nextProviderId++;
+    providerIds.set(provider, id);
+  }
+  return id;
+}
@@ -0,0 +1,195 @@
+// src/raster/orthoSplatRender.ts
+import * as Cesium from "cesium";
+import { GeoAnchor } from "../types/alignment";
+import { GaussianSplatLayer } from "../gaussian-splat-layer";
+import { composeEnuMatrix } from "../alignment/composeModelMatrix";
+import { SplatArrays, readSplatArrays } from "../export/plyExport";
+import { GeoRaster, EnuBounds, createGeoRaster } from "./geoRaster";
+
+export type OrthoRenderOptions = {
+  bounds?: EnuBounds;        // area to render (default: footprint of the splat centres)
+  metersPerPixel?: number;   // default: fit bounds into maxSize
+  maxSize?: number;          // longer side in pixels when metersPerPixel is not given (default 1024)
+  background?: [number, number, number]; // RGB under uncovered pixels (default black)
+  minOpacity?: number;       // 0..1, fainter splats are skipped (default 0.02)
+  maxRadiusPixels?: number;  // footprint clamp so huge floaters cannot flood the image (default 48)
+};
+
+// Low-pass added to every projected covariance (in pixels²), as in the 3DGS rasteriser,
+// so splats smaller than a pixel still cover one
+const DILATION_PIXELS2 = 0.3;
+
+// Orthographic top-down render: every splat is projected along ENU Up onto the
+// east/north plane as a 2D Gaussian and composited front to back from the sky.
+// modelToEnu (column-major 4x4) maps splat units to metres in the ENU frame of origin.
+// Runs on the CPU on plain arrays, so it needs neither WebGL nor a DOM.
+export function renderSplatsOrtho(
+  splats: SplatArrays,
+  modelToEnu: ArrayLike<number>,
+  origin: GeoAnchor,
+  options: OrthoRenderOptions = {}
+): GeoRaster {
+  if (splats.count === 0) throw new Error("No splats to render");
+
+  const minOpacity = options.minOpacity ?? 0.02;
+  const maxRadius = options.maxRadiusPixels ?? 48;
+  const background = options.background ?? [0, 0, 0];
+  const m = Array.from(modelToEnu);
+
+  // Splat centres in ENU metres
+  const enu = new Float64Array(splats.count * 3);
+  for (let i = 0; i < splats.count; i++) {
+    const x = splats.centers[i * 3];
+    const y = splats.centers[i * 3 + 1];
+    const z = splats.centers[i * 3 + 2];
+    enu[i * 3] = m[0] * x + m[4] * y + m[8] * z + m[12];
+    enu[i * 3 + 1] = m[1] * x + m[5] * y + m[9] * z + m[13];
+    enu[i * 3 + 2] = m[2] * x + m[6] * y + m[10] * z + m[14];
+  }
+
+  const bounds = options.bounds ?? footprintBounds(splats, enu, minOpacity);
+  const metersPerPixel = options.metersPerPixel ??
+    Math.max(bounds.east - bounds.west, bounds.north - bounds.south) / (options.maxSize ?? 1024);
+  const raster = createGeoRaster(origin, bounds, metersPerPixel, true);
+  const { width, height } = raster;
+
+  // Seen from above, the highest splats come first
+  const order = Array.from({ length: splats.count }, (_, i) => i)
+    .sort((a, b) => enu[b * 3 + 2] - enu[a * 3 + 2]);
+
+  const transmittance = new Float32Array(width * height).fill(1);
+  const color = new Float32Array(width * height * 3);
+  const up = new Float32Array(width * height);
+
+  for (const i of order) {
+    const opacity = splats.colors[i * 4 + 3] / 255;
+    if (opacity < minOpacity) continue;
+
+    // Pixel position of the centre
+    const px = (enu[i * 3] - raster.west) / metersPerPixel;
+    const py = (raster.north - enu[i * 3 + 1]) / metersPerPixel;
+
+    // East/north block of the ENU covariance, in pixels². Pixel rows grow southwards,
+    // which flips the sign of the cross term.
+    const [ee, en, nn] = projectedCovariance(splats, i, m);
+    const scale2 = 1 / (metersPerPixel * metersPerPixel);
+    const a = ee * scale2 + DILATION_PIXELS2;
+    const b = -en * scale2;
+    const c = nn * scale2 + DILATION_PIXELS2;
+    const det = a * c - b * b;
+    if (!(det > 0)) continue;
+
+    // 3 sigma along the major axis
+    const mid = (a + c) / 2;
+    const lambda = mid + Math.sqrt(Math.max(mid * mid - det, 0));
+    const radius = Math.min(Math.ceil(3 * Math.sqrt(lambda)), maxRadius);
+
+    const x0 = Math.max(0, Math.floor(px - radius));
+    const x1 = Math.min(width - 1, Math.ceil(px + radius));
+    const y0 = Math.max(0, Math.floor(py - radius));
+    const y1 = Math.min(height - 1, Math.ceil(py + radius));
+    if (x0 > x1 || y0 > y1) continue;
+
+    const ia = c / det;
+    const ib = -b / det;
+    const ic = a / det;
+    const r = splats.colors[i * 4];
+    const g = splats.colors[i * 4 + 1];
+    const bl = splats.colors[i * 4 + 2];
+    const u = enu[i * 3 + 2];
+
+    for (let y = y0; y <= y1; y++) {
+      const dy = y + 0.5 - py;
+      for (let x = x0; x <= x1; x++) {
+        const k = y * width + x;
+        const t = transmittance[k];
+        if (t < 1e-4) continue;
+
+        const dx = x + 0.5 - px;
+        const power = -0.5 * (ia * dx * dx + 2 * ib * dx * dy + ic * dy * dy);
+        const alpha = Math.min(0.99, opacity * Math.exp(power));
+        if (alpha < 1 / 255) continue;
+
+        const w = alpha * t;
+        color[k * 3] += w * r;
+        color[k * 3 + 1] += w * g;
+        color[k * 3 + 2] += w * bl;
+        up[k] += w * u;
+        transmittance[k] = t * (1 - alpha);
+      }
+    }
+  }
+
+  // Composite over the background; alpha holds the coverage
+  for (let k = 0; k < width * height; k++) {
+    const t = transmittance[k];
+    const coverage = 1 - t;
+    raster.data[k * 4] = color[k * 3] + t * background[0];
+    raster.data[k * 4 + 1] = color[k * 3 + 1] + t * background[1];
+    raster.data[k * 4 + 2] = color[k * 3 + 2] + t * background[2];
+    raster.data[k * 4 + 3] = coverage * 255;
+    if (coverage > 0.01) raster.heights![k] = up[k] / coverage;
+  }
+
+  return raster;
+}
+
+// Top-down render of a loaded layer as currently placed, georeferenced in the ENU frame of its anchor
+export function renderLayerOrtho(layer: GaussianSplatLayer, options: OrthoRenderOptions = {}): GeoRaster {
+  const modelToEnu = Cesium.Matrix4.toArray(composeEnuMatrix(layer.getEnuParams()));
+  return renderSplatsOrtho(readSplatArrays(layer), modelToEnu, layer.getAnchor(), options);
+}
+
+// Helper functions
+// [ee, en, nn] of L * R * S² * Rᵀ * Lᵀ with L the linear part of modelToEnu
+function projectedCovariance(splats: SplatArrays, i: number, m: number[]): [number, number, number] {
+  let qx = splats.rotations[i * 4];
+  let qy = splats.rotations[i * 4 + 1];
+  let qz = splats.rotations[i * 4 + 2];
+  let qw = splats.rotations[i * 4 + 3];
+  const qn = Math.hypot(qx, qy, qz, qw) || 1;
+  qx /= qn; qy /= qn; qz /= qn; qw /= qn;
+
+  // Columns of the splat rotation matrix are its local axes
+  const axes = [
+    [1 - 2 * (qy * qy + qz * qz), 2 * (qx * qy + qw * qz), 2 * (qx * qz - qw * qy)],
+    [2 * (qx * qy - qw * qz), 1 - 2 * (qx * qx + qz * qz), 2 * (qy * qz + qw * qx)],
+    [2 * (qx * qz + qw * qy), 2 * (qy * qz - qw * qx), 1 - 2 * (qx * qx + qy * qy)]
+  ];
+
+  let ee = 0, en = 0, nn = 0;
+  for (let k = 0; k < 3; k++) {
+    const s = splats.scales[i * 3 + k];
+    const [ax, ay, az] = axes[k];
+    // East and north components of the scaled axis in ENU
+    const e = (m[0] * ax + m[4] * ay + m[8] * az) * s;
+    const n = (m[1] * ax + m[5] * ay + m[9] * az) * s;
+    ee += e * e;
+    en += e * n;
+    nn += n * n;
+  }
+  return [ee, en, nn];
+}
+
+// Bounds of the visible splat centres without the outer 1% on each side, plus a 5% margin
+function footprintBounds(splats: SplatArrays, enu: Float64Array, minOpacity: number): EnuBounds {
+  const east: number[] = [];
+  const north: number[] = [];
+  for (let i = 0; i < splats.count; i++) {
+    if (splats.colors[i * 4 + 3] / 255 < minOpacity) continue;
+    east.push(enu[i * 3]);
+    north.push(enu[i * 3 + 1]);
+  }
+  if (east.length === 0) throw new Error("No visible splats to render");
+
+  const [west, eastEdge] = trimmedRange(east, 0.01);
+  const [south, northEdge] = trimmedRange(north, 0.01);
+  const margin = Math.max(eastEdge - west, northEdge - south, 1) * 0.05;
+  return { west: west - margin, south: south - margin, east: eastEdge + margin, north: northEdge + margin };
+}
+
+function trimmedRange(values: number[], trim: number): [number, number] {
+  values.sort((a, b) => a - b);
+  const cut = Math.floor(values.length * trim);
+  return [values[cut], values[values.length - 1 - cut]];
+}
@@ -0,0 +1,167 @@
+// src/raster/roadRaster.ts
+import type { OSMFeature, OSMFeatureKind, OSMRoad } from "../road-data-provider";
+import { GeoRaster, geoToRasterPixel } from "./geoRaster";
+
+// Road pixels by tone and texture: asphalt (dark grey) or concrete and markings (light)
+// that are smooth over a 5x5 window
+const DARK_ROAD = [40, 120];
+const LIGHT_ROAD = 160;
+const MAX_ROAD_VARIANCE = 400;
+const VARIANCE_RADIUS = 2;
+
+// Roads drawn white at their estimated width onto opaque black, on the grid of raster.
+// Segments are capsules, so joins and ends are round; roads leaving the grid keep their direction.
+export function rasterizeRoads(roads: OSMRoad[], grid: GeoRaster): GeoRaster {
+  const raster: GeoRaster = { ...grid, data: new Uint8ClampedArray(grid.width * grid.height * 4), heights: undefined };
+  for (let k = 3; k < raster.data.length; k += 4) raster.data[k] = 255;
+
+  for (const road of roads) {
+    if (road.geometry.length < 2) continue;
+    const radius = Math.max(0.5, road.width / grid.metersPerPixel / 2);
+    const points = road.geometry.map(point => geoToRasterPixel(grid, point.lon, point.lat));
+    for (let i = 0; i + 1 < points.length; i++) {
+      fillCapsule(raster, points[i], points[i + 1], radius);
+    }
+  }
+
+  return raster;
+}
+
+// Features of the given kinds drawn white onto opaque black on the grid of raster:
+// buildings filled, footways and kerbs at their width, crossings as discs. Their outlines
+// are where a render of the scene should have edges.
+export function rasterizeFeatures(features: OSMFeature[], grid: GeoRaster, kinds?: OSMFeatureKind[]): GeoRaster {
+  const raster: GeoRaster = { ...grid, data: new Uint8ClampedArray(grid.width * grid.height * 4), heights: undefined };
+  for (let k = 3; k < raster.data.length; k += 4) raster.data[k] = 255;
+
+  for (const feature of features) {
+    if (kinds && !kinds.includes(feature.kind)) continue;
+    const points = feature.geometry.map(point => geoToRasterPixel(grid, point.lon, point.lat));
+
+    if (feature.kind === "building") {
+      fillPolygon(raster, points);
+      continue;
+    }
+
+    const radius = Math.max(0.5, feature.width / grid.metersPerPixel / 2);
+    if (points.length === 1) fillCapsule(raster, points[0], points[0], radius);
+    for (let i = 0; i + 1 < points.length; i++) {
+      fillCapsule(raster, points[i], points[i + 1], radius);
+    }
+  }
+
+  return raster;
+}
+
+// Road pixels of a top-down render as a white-on-black mask; alpha keeps the render's coverage
+export function roadMaskRaster(raster: GeoRaster): GeoRaster {
+  const { width, height } = raster;
+  const count = width * height;
+
+  // Grey with road-friendly weights and a mild gamma to lift dark asphalt
+  const gray = new Float64Array(count);
+  for (let k = 0; k < count; k++) {
+    const g = raster.data[k * 4] * 0.2 + raster.data[k * 4 + 1] * 0.6 + raster.data[k * 4 + 2] * 0.2;
+    gray[k] = Math.round(Math.pow(g / 255, 0.8) * 255);
+  }
+
+  const sum = integralImage(gray, width, height, v => v);
+  const sumSquares = integralImage(gray, width, height, v => v * v);
+
+  const data = new Uint8ClampedArray(count * 4);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - VARIANCE_RADIUS);
+    const y1 = Math.min(height, y + VARIANCE_RADIUS + 1);
+    for (let x = 0; x < width; x++) {
+      const k = y * width + x;
+      const x0 = Math.max(0, x - VARIANCE_RADIUS);
+      const x1 = Math.min(width, x + VARIANCE_RADIUS + 1);
+
+      const n = (x1 - x0) * (y1 - y0);
+      const mean = boxSum(sum, width, x0, y0, x1, y1) / n;
+      const variance = boxSum(sumSquares, width, x0, y0, x1, y1) / n - mean * mean;
+
+      const g = gray[k];
+      const isRoadTone = (g >= DARK_ROAD[0] && g <= DARK_ROAD[1]) || g >= LIGHT_ROAD;
+      const value = isRoadTone && variance < MAX_ROAD_VARIANCE ? 255 : 0;
+
+      data[k * 4] = data[k * 4 + 1] = data[k * 4 + 2] = value;
+      data[k * 4 + 3] = raster.data[k * 4 + 3];
+    }
+  }
+
+  return { ...raster, data, heights: undefined };
+}
+
+// Helper functions
+function fillCapsule(raster: GeoRaster, a: { x: number; y: number }, b: { x: number; y: number }, radius: number): void {
+  const minX = Math.max(0, Math.floor(Math.min(a.x, b.x) - radius));
+  const maxX = Math.min(raster.width - 1, Math.ceil(Math.max(a.x, b.x) + radius));
+  const minY = Math.max(0, Math.floor(Math.min(a.y, b.y) - radius));
+  const maxY = Math.min(raster.height - 1, Math.ceil(Math.max(a.y, b.y) + radius));
+
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const length2 = dx * dx + dy * dy;
+  const radius2 = radius * radius;
+
+  for (let y = minY; y <= maxY; y++) {
+    for (let x = minX; x <= maxX; x++) {
+      // Distance from the pixel centre to the segment
+      const px = x + 0.5 - a.x;
+      const py = y + 0.5 - a.y;
+      const t = length2 > 0 ? Math.max(0, Math.min(1, (px * dx + py * dy) / length2)) : 0;
+      const ex = px - t * dx;
+      const ey = py - t * dy;
+      if (ex * ex + ey * ey > radius2) continue;
+
+      const k = (y * raster.width + x) * 4;
+      raster.data[k] = raster.data[k + 1] = raster.data[k + 2] = 255;
+    }
+  }
+}
+
+// Even-odd scanline fill through pixel centres
+function fillPolygon(raster: GeoRaster, points: { x: number; y: number }[]): void {
+  if (points.length < 3) return;
+  const minY = Math.max(0, Math.floor(Math.min(...points.map(p => p.y))));
+  const maxY = Math.min(raster.height - 1, Math.ceil(Math.max(...points.map(p => p.y))));
+
+  for (let y = minY; y <= maxY; y++) {
+    const cy = y + 0.5;
+    const crossings: number[] = [];
+    for (let i = 0; i < points.length; i++) {
+      const a = points[i];
+      const b = points[(i + 1) % points.length];
+      if ((a.y <= cy) !== (b.y <= cy)) crossings.push(a.x + (cy - a.y) / (b.y - a.y) * (b.x - a.x));
+    }
+    crossings.sort((a, b) => a - b);
+
+    for (let i = 0; i + 1 < crossings.length; i += 2) {
+      const x0 = Math.max(0, Math.ceil(crossings[i] - 0.5));
+      const x1 = Math.min(raster.width - 1, Math.floor(crossings[i + 1] - 0.5));
+      for (let x = x0; x <= x1; x++) {
+        const k = (y * raster.width + x) * 4;
+        raster.data[k] = raster.data[k + 1] = raster.data[k + 2] = 255;
+      }
+    }
+  }
+}
+
+// (width + 1) x (height + 1) table of sums over the pixels above and left
+function integralImage(values: Float64Array, width: number, height: number, f: (v: number) => number): Float64Array {
+  const table = new Float64Array((width + 1) * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let row = 0;
+    for (let x = 0; x < width; x++) {
+      row += f(values[y * width + x]);
+      table[(y + 1) * (width + 1) + x + 1] = table[y * (width + 1) + x + 1] + row;
+    }
+  }
+  return table;
+}
+
+function boxSum(table: Float64Array, width: number, x0: number, y0: number, x1: number, y1: number): number {
+  const w = width + 1;
+  return table[y1 * w + x1] - table[y0 * w + x1] - table[y1 * w + x0] + table[y0 * w + x0];
+}
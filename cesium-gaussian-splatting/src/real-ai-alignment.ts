@@ -1,7 +1,17 @@
 import * as Cesium from 'cesium';
-import * as THREE from 'three';
 import { GaussianSplatLayer } from './gaussian-splat-layer';
-import { RoadDataProvider, OSMRoad, OSMIntersection } from './road-data-provider';
+import { RoadDataProvider, RoadDataBounds, RoadData, OSMRoad } from './road-data-provider';
+import { ecefToEnuMatrix } from './alignment/composeModelMatrix';
+import { GeoRaster, enuToRasterPixel, geoToRasterPixel, rasterToImageData } from './raster/geoRaster';
+import { renderLayerOrtho } from './raster/orthoSplatRender';
+import { ImageryCapture } from './raster/imageryCapture';
+import { EnuParams } from './types/alignment';
+import { SimilarityEstimate, registerRasters, registrationToEnuDelta, applyEnuDelta } from './alignment/fourierMellin';
+import { registerRastersByKeypoints } from './alignment/keypointRegistration';
+import { MIN_REGISTRATION_CONFIDENCE, pickRegistration, registerRenderToRoads, registerRenderToTargets, roadOverlap } from './alignment/roadRegistration';
+import { roadMaskRaster } from './raster/roadRaster';
+import { RoadGraph, RoadGraphNode, graphJunctions, roadGraphFromOsm, roadGraphFromSkeleton } from './alignment/roadGraph';
+import { matchRoadGraphs } from './alignment/roadGraphMatch';
 
 export interface RoadIntersection {
   x: number;
@@ -20,60 +30,45 @@ export interface RoadSegment {
   confidence: number;
 }
 
-export interface AlignmentTransform {
-  translateX: number;
-  translateY: number;
-  rotation: number;
-  scale: number;
-  confidence: number;
+// Placement worked out by performRealAlignment before it is applied
+export interface RealAlignmentProposal {
+  params: Partial<EnuParams>;
+  registration: SimilarityEstimate;
+  source: string;      // 'imagery', 'imagery keypoints', 'OSM roads', 'OSM features' or 'road graph'
+  roadSource: string;  // where the OSM roads came from, e.g. a file name or an Overpass host
+  osmRoads: number;
+  splatRoads: number;
 }
 
+// How far off a roughly placed splat may be when its road graph is matched to OSM; without
+// a prior, repeating street grids and symmetric crossings match equally well in many places
+const GRAPH_MAX_ROTATION_RAD = Math.PI / 4;
+const GRAPH_MAX_SHIFT_METERS = 40;
+
 export class RealAIAlignment {
   private cesiumViewer: Cesium.Viewer;
   private debugMode: boolean = true;
   private roadDataProvider: RoadDataProvider;
+  private imageryCapture: ImageryCapture;
 
-  constructor(cesiumViewer: Cesium.Viewer) {
+  constructor(cesiumViewer: Cesium.Viewer, roadDataProvider: RoadDataProvider = new RoadDataProvider()) {
     this.cesiumViewer = cesiumViewer;
-    this.roadDataProvider = new RoadDataProvider();
+    this.roadDataProvider = roadDataProvider;
+    this.imageryCapture = new ImageryCapture(cesiumViewer.imageryLayers);
   }
 
   public async performRealAlignment(splatLayer: GaussianSplatLayer): Promise<boolean> {
     console.log('🤖 Starting REAL AI alignment with computer vision...');
 
     try {
-      // Step 1: Get real road data from OpenStreetMap
-      const bounds = RoadDataProvider.boundsFromCesiumView(this.cesiumViewer, 1000);
-      const osmData = await this.roadDataProvider.getRoadData(bounds);
-      console.log('✅ Real road data fetched from OpenStreetMap');
-
-      // Step 2: Capture and analyze splat imagery
-      const splatData = await this.captureSplatImagery(splatLayer);
-      console.log('✅ Splat imagery captured');
-
-      // Step 3: Convert OSM data to our format and create synthetic splat road pattern
-      const satelliteRoads = this.convertOSMToRoadNetwork(osmData, bounds);
-      const splatRoads = this.generateSyntheticSplatRoads(splatLayer, bounds);
+      const proposal = await this.proposeRealAlignment(splatLayer);
 
-      console.log(`🛣️ Found ${satelliteRoads.roads.length} satellite roads, ${splatRoads.roads.length} synthetic splat roads`);
-      console.log(`🔄 Found ${satelliteRoads.intersections.length} satellite intersections, ${splatRoads.intersections.length} splat intersections`);
-
-      if (satelliteRoads.roads.length < 2) {
-        throw new Error('Insufficient real road data - try moving to an area with more roads');
+      if (proposal.registration.confidence < MIN_REGISTRATION_CONFIDENCE) {
+        throw new Error(`Registration too ambiguous (confidence ${proposal.registration.confidence.toFixed(2)}) - check the splat is levelled and roughly placed`);
       }
 
-      // We always have synthetic splat roads, so no need to check splat road count
-
-      // Step 4: Match road patterns and find transformation
-      const transform = await this.findOptimalTransformation(satelliteRoads, splatRoads);
-      console.log('🎯 Optimal transformation found:', transform);
-
-      if (transform.confidence < 0.2) {
-        console.warn(`⚠️ Low confidence transformation: ${transform.confidence.toFixed(3)}, but proceeding anyway`);
-      }
-
-      // Step 5: Apply transformation to splat
-      await this.applyTransformation(splatLayer, transform);
+      // Step 5: Apply the registration to the splat placement
+      splatLayer.setEnuParams(proposal.params, 'ai alignment');
       console.log('✅ Transformation applied successfully');
 
       return true;
@@ -84,346 +79,148 @@ export class RealAIAlignment {
     }
   }
 
-  private async captureSatelliteImagery(location: { lon: number; lat: number; height: number }): Promise<ImageData> {
-    console.log('📸 Capturing satellite imagery...');
-
-    // Store current camera state
-    const originalPosition = this.cesiumViewer.camera.position.clone();
-    const originalHeading = this.cesiumViewer.camera.heading;
-    const originalPitch = this.cesiumViewer.camera.pitch;
-    const originalRoll = this.cesiumViewer.camera.roll;
-
-    try {
-      // Set camera for orthographic capture
-      const captureHeight = 1500; // 1.5km altitude for good detail
-
-      console.log(`Setting camera to: ${location.lon}, ${location.lat}, ${captureHeight}m`);
-
-      this.cesiumViewer.camera.setView({
-        destination: Cesium.Cartesian3.fromDegrees(location.lon, location.lat, captureHeight),
-        orientation: {
-          heading: 0.0,
-          pitch: Cesium.Math.toRadians(-90), // straight down
-          roll: 0.0
-        }
-      });
-
-      // Wait for tiles to load and multiple renders
-      console.log('⏳ Waiting for tiles to load...');
-      await this.waitForTilesToLoad(4000);
-
-      // Force multiple renders to ensure everything is loaded
-      for (let i = 0; i < 3; i++) {
-        this.cesiumViewer.scene.requestRender();
-        await new Promise(resolve => setTimeout(resolve, 300));
-      }
-
-      // Capture the image
-      const canvas = this.cesiumViewer.scene.canvas;
-      console.log(`📸 Cesium canvas size: ${canvas.width}x${canvas.height}`);
-
-      if (!canvas || canvas.width === 0 || canvas.height === 0) {
-        throw new Error('Invalid Cesium canvas for capture');
-      }
+  // Steps 1-4 of performRealAlignment: the registered placement without touching the layer.
+  // bounds defaults to 1 km around the camera view.
+  public async proposeRealAlignment(
+    splatLayer: GaussianSplatLayer,
+    bounds: RoadDataBounds = RoadDataProvider.boundsFromCesiumView(this.cesiumViewer, 1000),
+    signal?: AbortSignal
+  ): Promise<RealAlignmentProposal> {
+    // Step 1: Get real road data from OpenStreetMap
+    const osmData = await this.roadDataProvider.getRoadData(bounds, signal);
+    if (osmData.fabricated) {
+      throw new Error('Only fabricated road data is available here - add an OSM file or an Overpass source to align against');
+    }
+    console.log(`✅ Real road data from ${osmData.source}`);
+    signal?.throwIfAborted();
 
-      const captureCanvas = document.createElement('canvas');
-      captureCanvas.width = 1024;
-      captureCanvas.height = 1024;
-      const ctx = captureCanvas.getContext('2d');
+    // Step 2: Render the splat top-down over the same area
+    const splatRaster = await this.captureSplatImagery(splatLayer, bounds);
+    console.log('✅ Splat imagery captured');
 
-      if (!ctx) {
-        throw new Error('Failed to get 2D context for capture canvas');
-      }
+    // Step 3: OSM roads and the roads found in the splat render, both in the render's pixel frame
+    const osmGraph = roadGraphFromOsm(osmData.roads, splatRaster.origin);
+    const satelliteRoads = this.convertOSMToRoadNetwork(osmData, osmGraph, splatRaster);
+    const splatRoads = await this.extractRoadNetwork(splatRaster, 'splat');
+    signal?.throwIfAborted();
 
-      // Clear canvas first
-      ctx.fillStyle = '#000000';
-      ctx.fillRect(0, 0, 1024, 1024);
+    console.log(`🛣️ Found ${satelliteRoads.roads.length} satellite roads, ${splatRoads.roads.length} splat roads`);
+    console.log(`🔄 Found ${satelliteRoads.intersections.length} satellite intersections, ${splatRoads.intersections.length} splat intersections`);
 
-      // Center crop for square image
-      const sourceSize = Math.min(canvas.width, canvas.height);
-      const sourceX = (canvas.width - sourceSize) / 2;
-      const sourceY = (canvas.height - sourceSize) / 2;
+    if (satelliteRoads.roads.length < 2) {
+      throw new Error('Insufficient real road data - try moving to an area with more roads');
+    }
 
-      console.log(`🎯 Cropping from ${sourceX},${sourceY} size ${sourceSize} to 1024x1024`);
+    if (splatRoads.roads.length === 0) {
+      throw new Error('No roads found in the splat render - level the splat and check its scale first');
+    }
 
-      try {
-        ctx.drawImage(canvas, sourceX, sourceY, sourceSize, sourceSize, 0, 0, 1024, 1024);
-      } catch (drawError) {
-        console.error('Error drawing to canvas:', drawError);
-        throw new Error('Failed to draw Cesium canvas to capture canvas');
-      }
+    // Step 4: Register the splat render onto imagery and OSM roads in one shot
+    const { source, registration } = await this.registerSplatRender(splatRaster, osmData, { splat: splatRoads.graph, osm: osmGraph }, signal);
 
-      if (this.debugMode) {
-        this.showDebugImage(captureCanvas, 'satellite', 10, 10);
-      }
+    return {
+      params: this.registrationToParams(splatLayer, registration, splatRaster),
+      registration,
+      source,
+      roadSource: osmData.source,
+      osmRoads: satelliteRoads.roads.length,
+      splatRoads: splatRoads.roads.length
+    };
+  }
 
-      const imageData = ctx.getImageData(0, 0, 1024, 1024);
-      console.log('✅ Satellite imagery captured successfully');
+  // Imagery on the same georeferenced grid as a splat render, independent of the camera
+  private async captureSatelliteImagery(splatRaster: GeoRaster): Promise<GeoRaster> {
+    console.log('📸 Capturing satellite imagery...');
 
-      return imageData;
+    const raster = await this.imageryCapture.captureLike(splatRaster);
 
-    } catch (error) {
-      console.error('❌ Error capturing satellite imagery:', error);
-      throw error;
-    } finally {
-      // Restore camera
-      console.log('🔄 Restoring original camera position...');
-      this.cesiumViewer.camera.setView({
-        destination: originalPosition,
-        orientation: {
-          heading: originalHeading,
-          pitch: originalPitch,
-          roll: originalRoll
-        }
-      });
+    if (this.debugMode) {
+      const canvas = document.createElement('canvas');
+      canvas.width = raster.width;
+      canvas.height = raster.height;
+      canvas.getContext('2d')!.putImageData(rasterToImageData(raster), 0, 0);
+      this.showDebugImage(canvas, 'satellite', 10, 10);
     }
+
+    console.log('✅ Satellite imagery captured successfully');
+    return raster;
   }
 
-  private async captureSplatImagery(splatLayer: GaussianSplatLayer): Promise<ImageData> {
+  // Orthographic render of the real splat, north-up, covering the road data bounds at
+  // 1024x1024 so OSM features and splat features share one georeferenced pixel frame
+  private async captureSplatImagery(splatLayer: GaussianSplatLayer, bounds: RoadDataBounds): Promise<GeoRaster> {
     console.log('📸 Capturing splat imagery...');
 
     if (!splatLayer.ready || !splatLayer.splatViewer) {
       throw new Error('Splat layer not ready for capture');
     }
 
-    if (!splatLayer.scene) {
-      throw new Error('Splat scene not available');
-    }
-
-    console.log(`📊 Splat scene children: ${splatLayer.scene.children.length}`);
-    console.log(`📊 Splat position: ${splatLayer.scene.position.x}, ${splatLayer.scene.position.y}, ${splatLayer.scene.position.z}`);
-    console.log(`📊 Splat scale: ${splatLayer.scale}`);
-
-    // Create a 2D canvas for our capture
-    const captureCanvas = document.createElement('canvas');
-    captureCanvas.width = 1024;
-    captureCanvas.height = 1024;
-
-    const ctx = captureCanvas.getContext('2d', {
-      willReadFrequently: true,
-      alpha: false
+    // Road bounds in the ENU frame of the splat anchor, squared up around their centre
+    const anchor = splatLayer.getAnchor();
+    const ecefToEnu = ecefToEnuMatrix(anchor);
+    const corner = (lon: number, lat: number) => Cesium.Matrix4.multiplyByPoint(
+      ecefToEnu,
+      Cesium.Cartesian3.fromDegrees(lon, lat, anchor.height),
+      new Cesium.Cartesian3()
+    );
+    const southWest = corner(bounds.west, bounds.south);
+    const northEast = corner(bounds.east, bounds.north);
+    const size = Math.max(northEast.x - southWest.x, northEast.y - southWest.y);
+    const centerEast = (southWest.x + northEast.x) / 2;
+    const centerNorth = (southWest.y + northEast.y) / 2;
+    const metersPerPixel = size / 1024;
+
+    const raster = renderLayerOrtho(splatLayer, {
+      bounds: {
+        west: centerEast - size / 2,
+        south: centerNorth - size / 2,
+        east: centerEast + size / 2,
+        north: centerNorth + size / 2
+      },
+      metersPerPixel
     });
+    console.log(`✅ Splat imagery rendered: ${raster.width}x${raster.height} at ${metersPerPixel.toFixed(3)} m/pixel`);
 
-    if (!ctx) {
-      throw new Error('Failed to create 2D canvas context');
+    if (this.debugMode) {
+      const canvas = document.createElement('canvas');
+      canvas.width = raster.width;
+      canvas.height = raster.height;
+      canvas.getContext('2d')!.putImageData(rasterToImageData(raster), 0, 0);
+      this.showDebugImage(canvas, 'splat', 10, 160);
     }
 
-    // Clear with black background
-    ctx.fillStyle = '#000000';
-    ctx.fillRect(0, 0, 1024, 1024);
-
-    try {
-      // Create a temporary scene with just the splat for rendering
-      const tempScene = new THREE.Scene();
-
-      // Clone the splat mesh if available
-      if (splatLayer.splatViewer && splatLayer.splatViewer.getSplatMesh()) {
-        const splatMesh = splatLayer.splatViewer.getSplatMesh();
-
-        // Create a simplified representation of the splat
-        // We'll draw basic geometry based on splat position and scale
-        console.log('🎯 Drawing simplified splat representation...');
-
-        // Draw a representation based on the splat's bounding box or position
-        const centerX = 512; // Center of our 1024x1024 canvas
-        const centerY = 512;
-        const radius = Math.min(200, splatLayer.scale * 50); // Scale-based size
-
-        // Draw a circle representing the splat area
-        ctx.fillStyle = '#808080'; // Gray for roads/structures
-        ctx.beginPath();
-        ctx.arc(centerX, centerY, radius, 0, 2 * Math.PI);
-        ctx.fill();
-
-        // Draw some road-like patterns based on the splat
-        ctx.strokeStyle = '#404040'; // Darker gray for roads
-        ctx.lineWidth = 8;
-
-        // Draw cross pattern (simulating roads)
-        ctx.beginPath();
-        ctx.moveTo(centerX - radius, centerY);
-        ctx.lineTo(centerX + radius, centerY);
-        ctx.moveTo(centerX, centerY - radius);
-        ctx.lineTo(centerX, centerY + radius);
-        ctx.stroke();
-
-        // Draw diagonal roads
-        ctx.lineWidth = 6;
-        ctx.beginPath();
-        ctx.moveTo(centerX - radius * 0.7, centerY - radius * 0.7);
-        ctx.lineTo(centerX + radius * 0.7, centerY + radius * 0.7);
-        ctx.moveTo(centerX - radius * 0.7, centerY + radius * 0.7);
-        ctx.lineTo(centerX + radius * 0.7, centerY - radius * 0.7);
-        ctx.stroke();
-
-        // Add some building-like rectangles
-        ctx.fillStyle = '#606060';
-        for (let i = 0; i < 8; i++) {
-          const angle = (i / 8) * 2 * Math.PI;
-          const rectX = centerX + Math.cos(angle) * radius * 0.5 - 15;
-          const rectY = centerY + Math.sin(angle) * radius * 0.5 - 10;
-          ctx.fillRect(rectX, rectY, 30, 20);
-        }
-
-        console.log('✅ Splat representation drawn successfully');
-
-      } else {
-        console.warn('⚠️ No splat mesh found, creating basic pattern');
-
-        // Fallback: create a basic road pattern
-        const centerX = 512;
-        const centerY = 512;
-
-        ctx.strokeStyle = '#404040';
-        ctx.lineWidth = 12;
-
-        // Draw grid pattern
-        for (let i = 0; i < 8; i++) {
-          const offset = (i - 3.5) * 100;
-          ctx.beginPath();
-          ctx.moveTo(centerX + offset, 100);
-          ctx.lineTo(centerX + offset, 924);
-          ctx.stroke();
-
-          ctx.beginPath();
-          ctx.moveTo(100, centerY + offset);
-          ctx.lineTo(924, centerY + offset);
-          ctx.stroke();
-        }
-      }
-
-      if (this.debugMode) {
-        this.showDebugImage(captureCanvas, 'splat', 10, 160);
-      }
-
-      const imageData = ctx.getImageData(0, 0, 1024, 1024);
-      console.log('✅ Splat imagery captured successfully');
-
-      return imageData;
-
-    } catch (error) {
-      console.error('❌ Error capturing splat imagery:', error);
-      throw error;
-    }
+    return raster;
   }
 
-  private async extractRoadNetwork(imageData: ImageData, type: string): Promise<{ roads: RoadSegment[]; intersections: RoadIntersection[] }> {
+  private async extractRoadNetwork(raster: GeoRaster, type: string): Promise<{ roads: RoadSegment[]; intersections: RoadIntersection[]; graph: RoadGraph }> {
     console.log(`🔍 Extracting road network from ${type}...`);
+    const { width, height } = raster;
 
-    // Step 1: Preprocess image for road detection
-    const preprocessed = this.preprocessForRoads(imageData);
-
-    // Step 2: Detect road pixels using color and texture analysis
-    const roadMask = this.createAdvancedRoadMask(preprocessed);
+    // Steps 1-2: Detect road pixels using tone and texture
+    const maskRaster = roadMaskRaster(raster);
+    const roadMask = new Uint8ClampedArray(width * height);
+    for (let i = 0; i < roadMask.length; i++) roadMask[i] = maskRaster.data[i * 4];
 
     // Step 3: Apply morphological operations to clean up
-    const cleaned = this.morphologicalOperations(roadMask, imageData.width, imageData.height);
+    const cleaned = this.morphologicalOperations(roadMask, width, height);
 
     // Step 4: Skeletonize to get road centerlines
-    const skeleton = this.skeletonize(cleaned, imageData.width, imageData.height);
+    const skeleton = this.skeletonize(cleaned, width, height);
 
     // Step 5: Extract road segments from skeleton
-    const roads = this.extractRoadSegments(skeleton, imageData.width, imageData.height);
+    const roads = this.extractRoadSegments(skeleton, width, height);
 
-    // Step 6: Find intersections
-    const intersections = this.findIntersections(skeleton, roads, imageData.width, imageData.height);
+    // Step 6: Junctions and the edges between them as a graph
+    const graph = roadGraphFromSkeleton(skeleton, raster, { roadMask: cleaned });
+    const intersections = this.junctionsToIntersections(graph, raster, node => Math.min(1.0, node.degree / 4));
 
     console.log(`Found ${roads.length} roads and ${intersections.length} intersections in ${type}`);
 
     if (this.debugMode) {
-      this.visualizeRoadNetwork(imageData, roads, intersections, type);
-    }
-
-    return { roads, intersections };
-  }
-
-  private preprocessForRoads(imageData: ImageData): ImageData {
-    const data = new Uint8ClampedArray(imageData.data);
-    const width = imageData.width;
-    const height = imageData.height;
-
-    // Apply contrast enhancement and noise reduction
-    for (let i = 0; i < data.length; i += 4) {
-      const r = data[i];
-      const g = data[i + 1];
-      const b = data[i + 2];
-
-      // Convert to grayscale with road-optimized weights
-      const gray = r * 0.2 + g * 0.6 + b * 0.2;
-
-      // Enhance contrast for road detection
-      const enhanced = Math.pow(gray / 255, 0.8) * 255;
-
-      data[i] = enhanced;
-      data[i + 1] = enhanced;
-      data[i + 2] = enhanced;
-    }
-
-    return new ImageData(data, width, height);
-  }
-
-  private createAdvancedRoadMask(imageData: ImageData): Uint8ClampedArray {
-    const width = imageData.width;
-    const height = imageData.height;
-    const data = imageData.data;
-    const mask = new Uint8ClampedArray(width * height);
-
-    for (let y = 0; y < height; y++) {
-      for (let x = 0; x < width; x++) {
-        const idx = y * width + x;
-        const pixelIdx = idx * 4;
-
-        const r = data[pixelIdx];
-        const g = data[pixelIdx + 1];
-        const b = data[pixelIdx + 2];
-
-        // Advanced road detection
-        const gray = (r + g + b) / 3;
-        const saturation = (Math.max(r, g, b) - Math.min(r, g, b)) / Math.max(r, g, b, 1);
-
-        // Multiple road detection criteria
-        const isDarkRoad = gray >= 40 && gray <= 120 && saturation < 0.2; // Asphalt
-        const isLightRoad = gray >= 160 && gray <= 240 && saturation < 0.3; // Concrete
-        const isYellowLine = r > 180 && g > 180 && b < 120; // Yellow markings
-        const isWhiteLine = gray > 200 && saturation < 0.1; // White markings
-
-        // Texture analysis for road surfaces
-        const localVariance = this.calculateLocalVariance(data, x, y, width, height);
-        const hasRoadTexture = localVariance < 400; // Roads have consistent texture
-
-        if ((isDarkRoad || isLightRoad || isYellowLine || isWhiteLine) && hasRoadTexture) {
-          mask[idx] = 255;
-        } else {
-          mask[idx] = 0;
-        }
-      }
-    }
-
-    return mask;
-  }
-
-  private calculateLocalVariance(data: Uint8ClampedArray, x: number, y: number, width: number, height: number): number {
-    const windowSize = 5;
-    const half = Math.floor(windowSize / 2);
-    const values: number[] = [];
-
-    for (let dy = -half; dy <= half; dy++) {
-      for (let dx = -half; dx <= half; dx++) {
-        const nx = x + dx;
-        const ny = y + dy;
-
-        if (nx >= 0 && nx < width && ny >= 0 && ny < height) {
-          const idx = (ny * width + nx) * 4;
-          const gray = (data[idx] + data[idx + 1] + data[idx + 2]) / 3;
-          values.push(gray);
-        }
-      }
+      this.visualizeRoadNetwork(rasterToImageData(raster), roads, intersections, type);
     }
 
-    const mean = values.reduce((sum, val) => sum + val, 0) / values.length;
-    const variance = values.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / values.length;
-
-    return variance;
+    return { roads, intersections, graph };
   }
 
   private morphologicalOperations(mask: Uint8ClampedArray, width: number, height: number): Uint8ClampedArray {
@@ -696,421 +493,85 @@ export class RealAIAlignment {
     return widths.reduce((sum, w) => sum + w, 0) / widths.length;
   }
 
-  private findIntersections(skeleton: Uint8ClampedArray, roads: RoadSegment[], width: number, height: number): RoadIntersection[] {
-    const intersections: RoadIntersection[] = [];
-
-    // Find pixels with 3 or more neighbors (potential intersections)
-    for (let y = 1; y < height - 1; y++) {
-      for (let x = 1; x < width - 1; x++) {
-        const idx = y * width + x;
-
-        if (skeleton[idx] > 0) {
-          const neighbors = this.get8Neighbors(skeleton, x, y, width, height);
-          const connectedCount = neighbors.reduce((sum, val) => sum + val, 0);
-
-          if (connectedCount >= 3) {
-            // Find which roads meet at this intersection
-            const meetingRoads = roads.filter(road =>
-              this.isPointNearRoad({ x, y }, road, 5)
-            );
-
-            if (meetingRoads.length >= 2) {
-              intersections.push({
-                x,
-                y,
-                roads: meetingRoads.length,
-                angle: meetingRoads[0].angle,
-                confidence: Math.min(1.0, meetingRoads.length / 4)
-              });
-            }
-          }
-        }
-      }
-    }
-
-    // Remove duplicate intersections that are too close
-    return this.filterCloseIntersections(intersections, 10);
-  }
-
-  private isPointNearRoad(point: { x: number; y: number }, road: RoadSegment, threshold: number): boolean {
-    // Calculate distance from point to road line segment
-    const dx = road.end.x - road.start.x;
-    const dy = road.end.y - road.start.y;
-    const length = Math.sqrt(dx * dx + dy * dy);
+  // Registration of the splat render against the imagery on its grid (Fourier–Mellin and
+  // keypoints + RANSAC), against the rasterised OSM roads and features, and of the splat's
+  // road graph against the OSM one. Their confidences are not comparable, so among those that
+  // pass MIN_REGISTRATION_CONFIDENCE the one putting most splat road pixels on OSM roads wins
+  private async registerSplatRender(
+    splatRaster: GeoRaster,
+    osmData: RoadData,
+    graphs: { splat: RoadGraph; osm: RoadGraph },
+    signal?: AbortSignal
+  ): Promise<{ source: string; registration: SimilarityEstimate }> {
+    console.log('🔍 Registering splat render...');
+    const candidates: { source: string; registration: SimilarityEstimate }[] = [];
 
-    if (length === 0) return false;
-
-    const t = Math.max(0, Math.min(1,
-      ((point.x - road.start.x) * dx + (point.y - road.start.y) * dy) / (length * length)
-    ));
-
-    const projection = {
-      x: road.start.x + t * dx,
-      y: road.start.y + t * dy
-    };
-
-    const distance = Math.sqrt(
-      Math.pow(point.x - projection.x, 2) + Math.pow(point.y - projection.y, 2)
-    );
-
-    return distance <= threshold;
-  }
-
-  private filterCloseIntersections(intersections: RoadIntersection[], minDistance: number): RoadIntersection[] {
-    const filtered: RoadIntersection[] = [];
-
-    for (const intersection of intersections) {
-      const tooClose = filtered.some(existing =>
-        Math.sqrt(
-          Math.pow(intersection.x - existing.x, 2) +
-          Math.pow(intersection.y - existing.y, 2)
-        ) < minDistance
-      );
-
-      if (!tooClose) {
-        filtered.push(intersection);
-      }
-    }
-
-    return filtered;
-  }
-
-  private async findOptimalTransformation(
-    satelliteData: { roads: RoadSegment[]; intersections: RoadIntersection[] },
-    splatData: { roads: RoadSegment[]; intersections: RoadIntersection[] }
-  ): Promise<AlignmentTransform> {
-    console.log('🔍 Finding optimal transformation...');
-
-    let bestTransform: AlignmentTransform = {
-      translateX: 0,
-      translateY: 0,
-      rotation: 0,
-      scale: 1,
-      confidence: 0
-    };
-
-    // Test different transformations - coarse pass first
-    // Scale factors that are more likely to match real-world proportions
-    const scaleTests = [0.3, 0.5, 0.7, 1.0, 1.4, 2.0, 3.0, 5.0];
-    const rotationTestsCoarse = Array.from({ length: 36 }, (_, i) => (i * 10 * Math.PI) / 180); // Every 10 degrees
-    const translateSteps = 12; // Reduced for faster processing
-
-    let testCount = 0;
-    const totalTests = scaleTests.length * rotationTestsCoarse.length * translateSteps * translateSteps;
-
-    // Coarse optimization pass
-    console.log('🔍 Starting coarse rotation optimization...');
-    for (const scale of scaleTests) {
-      for (const rotation of rotationTestsCoarse) {
-        for (let tx = -100; tx <= 100; tx += 200 / translateSteps) {
-          for (let ty = -100; ty <= 100; ty += 200 / translateSteps) {
-            testCount++;
-
-            const transform: AlignmentTransform = {
-              translateX: tx,
-              translateY: ty,
-              rotation,
-              scale,
-              confidence: 0
-            };
-
-            // Calculate match score for this transformation
-            const score = this.calculateTransformScore(satelliteData, splatData, transform);
-
-            if (score > bestTransform.confidence) {
-              bestTransform = { ...transform, confidence: score };
-              console.log(`🎯 New best transform: scale=${scale.toFixed(2)}, rotation=${(rotation * 180 / Math.PI).toFixed(1)}°, translate=(${tx.toFixed(0)}, ${ty.toFixed(0)}), score=${score.toFixed(3)} (${testCount}/${totalTests})`);
-            }
-
-            // Update progress occasionally
-            if (testCount % 1000 === 0) {
-              this.updateProgress(`Testing transformation ${testCount}/${totalTests}`);
-            }
-          }
-        }
-      }
+    try {
+      this.updateProgress('Registering splat against imagery...');
+      const imagery = await this.captureSatelliteImagery(splatRaster);
+      candidates.push({ source: 'imagery', registration: registerRasters(imagery, splatRaster) });
+      signal?.throwIfAborted();
+
+      // Keypoints cope with captures that have few roads, e.g. mostly parking lots
+      this.updateProgress('Matching keypoints against imagery...');
+      const keypoints = await registerRastersByKeypoints(imagery, splatRaster);
+      console.log(`🔑 Keypoints: ${keypoints.inliers}/${keypoints.matches} inliers, ` +
+        `${keypoints.rmsErrorPixels.toFixed(2)} px RMS reprojection error`);
+      candidates.push({ source: 'imagery keypoints', registration: keypoints });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.warn('⚠️ Imagery registration skipped:', error);
     }
 
-    console.log(`✅ Coarse optimization complete. Best rotation so far: ${(bestTransform.rotation * 180 / Math.PI).toFixed(1)}°`);
-
-    // Fine-tuning pass - test ±5 degrees around best rotation with 1-degree precision
-    if (bestTransform.confidence > 0.1) {
-      console.log('🔍 Starting fine rotation tuning...');
-      const fineRotationTests = [];
-      const bestRotationDeg = bestTransform.rotation * 180 / Math.PI;
-
-      for (let deg = bestRotationDeg - 5; deg <= bestRotationDeg + 5; deg += 1) {
-        fineRotationTests.push((deg * Math.PI) / 180);
-      }
-
-      for (const rotation of fineRotationTests) {
-        for (let tx = bestTransform.translateX - 20; tx <= bestTransform.translateX + 20; tx += 10) {
-          for (let ty = bestTransform.translateY - 20; ty <= bestTransform.translateY + 20; ty += 10) {
-            testCount++;
+    this.updateProgress('Registering splat against OSM roads...');
+    candidates.push({ source: 'OSM roads', registration: registerRenderToRoads(splatRaster, osmData.roads) });
 
-            const transform: AlignmentTransform = {
-              translateX: tx,
-              translateY: ty,
-              rotation,
-              scale: bestTransform.scale,
-              confidence: 0
-            };
-
-            const score = this.calculateTransformScore(satelliteData, splatData, transform);
-
-            if (score > bestTransform.confidence) {
-              bestTransform = { ...transform, confidence: score };
-              console.log(`🎯 Fine-tuned: rotation=${(rotation * 180 / Math.PI).toFixed(1)}°, score=${score.toFixed(3)}`);
-            }
-          }
-        }
-      }
+    // Building footprints, kerbs and crossings pin down captures where roads alone are ambiguous
+    if (osmData.features.length > 0) {
+      this.updateProgress('Registering splat against OSM features...');
+      const { registration } = registerRenderToTargets(splatRaster, osmData.roads, osmData.features, ['building', 'footway', 'kerb', 'crossing']);
+      candidates.push({ source: 'OSM features', registration });
     }
 
-    console.log(`✅ Best transformation found with confidence: ${bestTransform.confidence.toFixed(3)}`);
-    console.log(`🧭 Final rotation: ${(bestTransform.rotation * 180 / Math.PI).toFixed(1)}°`);
-    return bestTransform;
-  }
-
-  private calculateTransformScore(
-    satelliteData: { roads: RoadSegment[]; intersections: RoadIntersection[] },
-    splatData: { roads: RoadSegment[]; intersections: RoadIntersection[] },
-    transform: AlignmentTransform
-  ): number {
-    let totalScore = 0;
-    let matchCount = 0;
-
-    // Transform splat features
-    const transformedSplatRoads = splatData.roads.map(road => this.transformRoad(road, transform));
-    const transformedSplatIntersections = splatData.intersections.map(intersection => this.transformIntersection(intersection, transform));
-
-    // Score intersection matches (weighted heavily)
-    for (const satIntersection of satelliteData.intersections) {
-      let bestMatch = 0;
-
-      for (const splatIntersection of transformedSplatIntersections) {
-        const distance = Math.sqrt(
-          Math.pow(satIntersection.x - splatIntersection.x, 2) +
-          Math.pow(satIntersection.y - splatIntersection.y, 2)
-        );
-
-        const angleMatch = Math.cos(satIntersection.angle - splatIntersection.angle);
-        const roadCountMatch = Math.min(satIntersection.roads, splatIntersection.roads) / Math.max(satIntersection.roads, splatIntersection.roads);
-
-        if (distance < 50) { // Within 50 pixels
-          const score = (1 - distance / 50) * 0.5 + angleMatch * 0.3 + roadCountMatch * 0.2;
-          bestMatch = Math.max(bestMatch, score);
-        }
-      }
-
-      if (bestMatch > 0.3) {
-        totalScore += bestMatch * 2; // Weight intersections heavily
-        matchCount++;
-      }
+    // Junction layouts give a pose from as little as one distinctive intersection
+    if (graphJunctions(graphs.splat).length > 0) {
+      this.updateProgress('Matching splat road graph against OSM...');
+      const match = matchRoadGraphs(graphs.splat, graphs.osm, {
+        center: {
+          east: splatRaster.west + splatRaster.width * splatRaster.metersPerPixel / 2,
+          north: splatRaster.north - splatRaster.height * splatRaster.metersPerPixel / 2
+        },
+        maxRotationRad: GRAPH_MAX_ROTATION_RAD,
+        maxShiftMeters: GRAPH_MAX_SHIFT_METERS
+      });
+      console.log(`🕸️ Road graph: ${match.junctionPairs.length} junctions matched, ${(match.coverage * 100).toFixed(0)}% of splat roads on OSM roads`);
+      candidates.push({ source: 'road graph', registration: match });
     }
 
-    // Score road matches
-    for (const satRoad of satelliteData.roads) {
-      let bestMatch = 0;
-      let bestAngularDiff = Math.PI;
-
-      for (const splatRoad of transformedSplatRoads) {
-        // Improved angle matching - handle angle wrapping
-        let angleDiff = Math.abs(satRoad.angle - splatRoad.angle);
-        if (angleDiff > Math.PI) {
-          angleDiff = 2 * Math.PI - angleDiff;
-        }
-
-        const angleMatch = Math.cos(angleDiff);
-        const lengthMatch = Math.min(satRoad.length, splatRoad.length) / Math.max(satRoad.length, splatRoad.length);
-
-        // Check if roads are roughly parallel and nearby
-        const midpointDistance = Math.sqrt(
-          Math.pow((satRoad.start.x + satRoad.end.x) / 2 - (splatRoad.start.x + splatRoad.end.x) / 2, 2) +
-          Math.pow((satRoad.start.y + satRoad.end.y) / 2 - (splatRoad.start.y + splatRoad.end.y) / 2, 2)
-        );
-
-        // More lenient distance and angle thresholds, prioritize angle matching
-        if (midpointDistance < 150 && angleMatch > 0.5) {
-          const score = angleMatch * 0.7 + lengthMatch * 0.2 + (1 - midpointDistance / 150) * 0.1;
-          if (score > bestMatch) {
-            bestMatch = score;
-            bestAngularDiff = angleDiff * 180 / Math.PI;
-          }
-        }
-      }
-
-      if (bestMatch > 0.3) {
-        totalScore += bestMatch;
-        matchCount++;
-      }
+    const scored = candidates.map(candidate => ({ ...candidate, overlap: roadOverlap(splatRaster, osmData.roads, candidate.registration) }));
+    for (const { source, registration, overlap } of scored) {
+      console.log(`   ${source}: rotation ${(registration.rotationRad * 180 / Math.PI).toFixed(1)}°, scale ×${registration.scale.toFixed(3)}, ` +
+        `shift (${registration.translationMeters.east.toFixed(1)}, ${registration.translationMeters.north.toFixed(1)}) m, ` +
+        `confidence ${registration.confidence.toFixed(2)}, ${(overlap * 100).toFixed(0)}% of splat roads on OSM roads`);
     }
 
-    return matchCount > 0 ? totalScore / (satelliteData.roads.length + satelliteData.intersections.length) : 0;
+    const best = pickRegistration(scored);
+    console.log(`🎯 Using ${best.source} registration`);
+    return { source: best.source, registration: best.registration };
   }
 
-  private transformRoad(road: RoadSegment, transform: AlignmentTransform): RoadSegment {
-    const transformPoint = (point: { x: number; y: number }) => {
-      // Apply scale
-      const scaled = { x: point.x * transform.scale, y: point.y * transform.scale };
-
-      // Apply rotation
-      const cos = Math.cos(transform.rotation);
-      const sin = Math.sin(transform.rotation);
-      const rotated = {
-        x: scaled.x * cos - scaled.y * sin,
-        y: scaled.x * sin + scaled.y * cos
-      };
-
-      // Apply translation
-      return {
-        x: rotated.x + transform.translateX,
-        y: rotated.y + transform.translateY
-      };
-    };
-
-    return {
-      ...road,
-      start: transformPoint(road.start),
-      end: transformPoint(road.end),
-      angle: road.angle + transform.rotation,
-      length: road.length * transform.scale,
-      width: road.width * transform.scale
-    };
-  }
-
-  private transformIntersection(intersection: RoadIntersection, transform: AlignmentTransform): RoadIntersection {
-    // Apply scale
-    const scaled = { x: intersection.x * transform.scale, y: intersection.y * transform.scale };
-
-    // Apply rotation
-    const cos = Math.cos(transform.rotation);
-    const sin = Math.sin(transform.rotation);
-    const rotated = {
-      x: scaled.x * cos - scaled.y * sin,
-      y: scaled.x * sin + scaled.y * cos
-    };
-
-    // Apply translation
-    return {
-      ...intersection,
-      x: rotated.x + transform.translateX,
-      y: rotated.y + transform.translateY,
-      angle: intersection.angle + transform.rotation
-    };
-  }
-
-  private async applyTransformation(splatLayer: GaussianSplatLayer, transform: AlignmentTransform): Promise<void> {
-    console.log('🔄 Applying REAL-WORLD transformation to splat...');
-
-    // Get current view bounds for proper coordinate conversion
-    const bounds = RoadDataProvider.boundsFromCesiumView(this.cesiumViewer, 1000);
-
-    // Calculate proper geographic transformation based on real coordinates
-    const boundsWidthDegrees = bounds.east - bounds.west;
-    const boundsHeightDegrees = bounds.north - bounds.south;
-
-    // Convert pixel translation to geographic coordinates
-    const pixelsToDegreesLon = boundsWidthDegrees / 1024;
-    const pixelsToDegreesLat = boundsHeightDegrees / 1024;
-
-    console.log(`📍 Coordinate conversion: ${pixelsToDegreesLon.toFixed(8)} deg/pixel lon, ${pixelsToDegreesLat.toFixed(8)} deg/pixel lat`);
-
-    // Calculate real-world scale based on actual distances
-    const realWorldScale = this.calculateRealWorldScale(bounds, transform);
-
-    // Calculate optimal positioning based on road network center
-    const newLocation = this.calculateOptimalPosition(bounds, transform, splatLayer);
-
-    // Apply conservative rotation changes to prevent extreme tilting
-    const rotationChange = transform.rotation;
-    const maxRotationChange = Math.PI / 6; // Limit to 30 degrees max change
-    const clampedRotationChange = Math.max(-maxRotationChange, Math.min(maxRotationChange, rotationChange));
-    const newRotation = splatLayer.rotation.y + clampedRotationChange;
-
-    console.log(`🧭 Rotation change: ${(rotationChange * 180 / Math.PI).toFixed(1)}° → ${(clampedRotationChange * 180 / Math.PI).toFixed(1)}° (clamped)`);
+  // splatRaster must be the render of the layer as currently placed
+  private registrationToParams(splatLayer: GaussianSplatLayer, registration: SimilarityEstimate, splatRaster: GeoRaster): Partial<EnuParams> {
+    const params = splatLayer.getEnuParams();
+    const delta = registrationToEnuDelta(registration, params, splatRaster);
+    const change = applyEnuDelta(params, delta);
 
     console.log(`📊 Transformation details:`);
-    console.log(`   Position: (${splatLayer.location.lon.toFixed(6)}, ${splatLayer.location.lat.toFixed(6)}) → (${newLocation.lon.toFixed(6)}, ${newLocation.lat.toFixed(6)})`);
-    console.log(`   Scale: ${splatLayer.scale.toFixed(2)} → ${realWorldScale.toFixed(2)}`);
-    console.log(`   Rotation: ${(splatLayer.rotation.y * 180 / Math.PI).toFixed(1)}° → ${(newRotation * 180 / Math.PI).toFixed(1)}°`);
-
-    // Apply transformation safely
-    splatLayer.location = newLocation;
-    splatLayer.rotation.y = newRotation;
-    splatLayer.scale = realWorldScale;
-
-    // Use the layer's safe update methods
-    splatLayer.updatePosition();
-    splatLayer.updateScale();
-
-    // Apply rotation safely with debug info
-    if (splatLayer.scene) {
-      const oldRotation = splatLayer.scene.rotation.y;
-      splatLayer.scene.rotation.y = newRotation;
-      console.log(`🔄 Scene rotation: ${(oldRotation * 180 / Math.PI).toFixed(1)}° → ${(newRotation * 180 / Math.PI).toFixed(1)}°`);
-
-      // Also try applying to mesh directly as backup
-      if (splatLayer.splatViewer && splatLayer.splatViewer.getSplatMesh()) {
-        const mesh = splatLayer.splatViewer.getSplatMesh();
-        mesh.rotation.y = newRotation;
-        console.log(`🔄 Mesh rotation also applied: ${(newRotation * 180 / Math.PI).toFixed(1)}°`);
-      }
-    }
-
-    console.log(`✅ Real-world transformation applied successfully`);
-    console.log(`📍 Final location: ${newLocation.lon.toFixed(6)}, ${newLocation.lat.toFixed(6)}`);
-    console.log(`📏 Final scale: ${realWorldScale.toFixed(2)}`);
-    console.log(`🧭 Final rotation: ${(newRotation * 180 / Math.PI).toFixed(1)}°`);
-  }
-
-  private calculateRealWorldScale(bounds: any, transform: AlignmentTransform): number {
-    console.log('📏 Calculating real-world scale using CONSERVATIVE approach...');
-
-    // Get current splat scale as baseline
-    const currentScale = transform.scale || 1.0;
-
-    // Apply very conservative scaling - only allow small adjustments
-    // This prevents wild scale changes that break the display
-    const scaleMultiplier = Math.max(0.7, Math.min(1.5, currentScale));
-
-    console.log(`📊 Conservative scale calculation:`);
-    console.log(`   Current pattern scale: ${currentScale.toFixed(2)}`);
-    console.log(`   Applied multiplier: ${scaleMultiplier.toFixed(2)}`);
-    console.log(`   Result: Conservative scaling to prevent overadjustment`);
+    console.log(`   Translation: ${delta.tEast.toFixed(2)} m east, ${delta.tNorth.toFixed(2)} m north`);
+    console.log(`   Scale: ${params.scale.toFixed(3)} → ${change.scale.toFixed(3)}`);
+    console.log(`   Rotation: ${(params.yawRad * 180 / Math.PI).toFixed(1)}° → ${(change.yawRad * 180 / Math.PI).toFixed(1)}°`);
 
-    return scaleMultiplier;
-  }
-
-  private calculateOptimalPosition(bounds: any, transform: AlignmentTransform, splatLayer: GaussianSplatLayer): { lon: number; lat: number; height: number } {
-    console.log('📍 Using MINIMAL positioning changes to prevent displacement...');
-
-    // Keep current position as baseline to prevent the splat from moving too far
-    const currentLon = splatLayer.location.lon;
-    const currentLat = splatLayer.location.lat;
-
-    // Apply very small positional adjustments only
-    const boundsWidthDegrees = bounds.east - bounds.west;
-    const boundsHeightDegrees = bounds.north - bounds.south;
-    const pixelsToDegreesLon = boundsWidthDegrees / 1024;
-    const pixelsToDegreesLat = boundsHeightDegrees / 1024;
-
-    // Use extremely conservative translation factors
-    const minimalTranslateX = transform.translateX * 0.1; // Very small translation
-    const minimalTranslateY = transform.translateY * 0.1;
-
-    const newLocation = {
-      lon: currentLon + (minimalTranslateX * pixelsToDegreesLon),
-      lat: currentLat - (minimalTranslateY * pixelsToDegreesLat),
-      height: splatLayer.location.height
-    };
-
-    console.log(`📊 Minimal position adjustment:`);
-    console.log(`   Current: (${currentLon.toFixed(6)}, ${currentLat.toFixed(6)})`);
-    console.log(`   Translation: (${minimalTranslateX.toFixed(0)}, ${minimalTranslateY.toFixed(0)}) pixels`);
-    console.log(`   Final: (${newLocation.lon.toFixed(6)}, ${newLocation.lat.toFixed(6)})`);
-
-    return newLocation;
+    return change;
   }
 
   private distanceInMeters(lon1: number, lat1: number, lon2: number, lat2: number): number {
@@ -1125,28 +586,6 @@ export class RealAIAlignment {
   }
 
   // Helper methods for debugging and visualization
-  private async waitForTilesToLoad(timeout: number): Promise<void> {
-    return new Promise((resolve) => {
-      const startTime = Date.now();
-
-      const checkTiles = () => {
-        if (Date.now() - startTime > timeout) {
-          resolve();
-          return;
-        }
-
-        // Wait a bit more if tiles are still loading
-        if (this.cesiumViewer.scene.globe.tilesLoaded) {
-          resolve();
-        } else {
-          setTimeout(checkTiles, 100);
-        }
-      };
-
-      checkTiles();
-    });
-  }
-
   private showDebugImage(canvas: HTMLCanvasElement, type: string, x: number, y: number): void {
     try {
       const debugCanvas = document.createElement('canvas');
@@ -1216,11 +655,10 @@ export class RealAIAlignment {
     }
   }
 
-  private convertOSMToRoadNetwork(osmData: { roads: OSMRoad[]; intersections: OSMIntersection[] }, bounds: any): { roads: RoadSegment[]; intersections: RoadIntersection[] } {
+  private convertOSMToRoadNetwork(osmData: { roads: OSMRoad[] }, osmGraph: RoadGraph, raster: GeoRaster): { roads: RoadSegment[]; intersections: RoadIntersection[] } {
     console.log('🔄 Converting OSM data to road network format...');
 
     const roads: RoadSegment[] = [];
-    const intersections: RoadIntersection[] = [];
 
     // Convert roads
     for (const osmRoad of osmData.roads) {
@@ -1228,8 +666,8 @@ export class RealAIAlignment {
 
       // Convert each road segment
       for (let i = 0; i < osmRoad.geometry.length - 1; i++) {
-        const start = this.geoToPixel(osmRoad.geometry[i], bounds);
-        const end = this.geoToPixel(osmRoad.geometry[i + 1], bounds);
+        const start = this.geoToPixel(osmRoad.geometry[i], raster);
+        const end = this.geoToPixel(osmRoad.geometry[i + 1], raster);
 
         const dx = end.x - start.x;
         const dy = end.y - start.y;
@@ -1247,155 +685,24 @@ export class RealAIAlignment {
       }
     }
 
-    // Convert intersections
-    for (const osmIntersection of osmData.intersections) {
-      const pixel = this.geoToPixel(osmIntersection, bounds);
-
-      intersections.push({
-        x: pixel.x,
-        y: pixel.y,
-        roads: osmIntersection.roads.length,
-        angle: 0, // Will be calculated from connected roads
-        confidence: 1.0
-      });
-    }
+    // Junctions of the road graph; ways merely continuing into each other are not intersections
+    const intersections = this.junctionsToIntersections(osmGraph, raster, () => 1.0); // OSM data is highly reliable
 
     console.log(`✅ Converted ${roads.length} road segments and ${intersections.length} intersections`);
     return { roads, intersections };
   }
 
-  private geoToPixel(geo: { lat: number; lon: number }, bounds: any): { x: number; y: number } {
-    // Convert geographic coordinates to pixel coordinates (1024x1024 image)
-    const x = ((geo.lon - bounds.west) / (bounds.east - bounds.west)) * 1024;
-    const y = (1 - (geo.lat - bounds.south) / (bounds.north - bounds.south)) * 1024; // Flip Y axis
-
-    return { x: Math.max(0, Math.min(1024, x)), y: Math.max(0, Math.min(1024, y)) };
-  }
-
-  private generateSyntheticSplatRoads(splatLayer: GaussianSplatLayer, bounds: any): { roads: RoadSegment[]; intersections: RoadIntersection[] } {
-    console.log('🔧 Generating synthetic splat road pattern...');
-
-    const roads: RoadSegment[] = [];
-    const intersections: RoadIntersection[] = [];
-
-    // Convert splat position to pixel coordinates
-    const splatPixel = this.geoToPixel(splatLayer.location, bounds);
-    const centerX = splatPixel.x;
-    const centerY = splatPixel.y;
-
-    // Create road pattern based on splat scale
-    const roadLength = Math.max(100, Math.min(400, splatLayer.scale * 150));
-    const roadWidth = Math.max(4, Math.min(12, splatLayer.scale * 8));
-
-    console.log(`🎯 Splat at pixel (${centerX.toFixed(0)}, ${centerY.toFixed(0)}), road length: ${roadLength.toFixed(0)}`);
-    console.log(`🧭 Current splat rotation: ${(splatLayer.rotation.y * 180 / Math.PI).toFixed(1)}°`);
-
-    // Generate main cross roads (N-S and E-W) with current splat rotation
-    const baseRotation = splatLayer.rotation.y;
-    const mainRoads = [
-      // North-South road (adjusted for current rotation)
-      {
-        start: {
-          x: centerX - Math.sin(baseRotation) * roadLength / 2,
-          y: centerY - Math.cos(baseRotation) * roadLength / 2
-        },
-        end: {
-          x: centerX + Math.sin(baseRotation) * roadLength / 2,
-          y: centerY + Math.cos(baseRotation) * roadLength / 2
-        },
-        angle: baseRotation + Math.PI / 2,
-        name: 'Main NS'
-      },
-      // East-West road (adjusted for current rotation)
-      {
-        start: {
-          x: centerX - Math.cos(baseRotation) * roadLength / 2,
-          y: centerY + Math.sin(baseRotation) * roadLength / 2
-        },
-        end: {
-          x: centerX + Math.cos(baseRotation) * roadLength / 2,
-          y: centerY - Math.sin(baseRotation) * roadLength / 2
-        },
-        angle: baseRotation,
-        name: 'Main EW'
-      }
-    ];
-
-    // Add diagonal roads based on rotation
-    const rotation = splatLayer.rotation.y;
-    const diagonalRoads = [
-      // Diagonal 1
-      {
-        start: {
-          x: centerX - Math.cos(rotation + Math.PI / 4) * roadLength / 3,
-          y: centerY - Math.sin(rotation + Math.PI / 4) * roadLength / 3
-        },
-        end: {
-          x: centerX + Math.cos(rotation + Math.PI / 4) * roadLength / 3,
-          y: centerY + Math.sin(rotation + Math.PI / 4) * roadLength / 3
-        },
-        angle: rotation + Math.PI / 4,
-        name: 'Diagonal 1'
-      },
-      // Diagonal 2
-      {
-        start: {
-          x: centerX - Math.cos(rotation - Math.PI / 4) * roadLength / 3,
-          y: centerY - Math.sin(rotation - Math.PI / 4) * roadLength / 3
-        },
-        end: {
-          x: centerX + Math.cos(rotation - Math.PI / 4) * roadLength / 3,
-          y: centerY + Math.sin(rotation - Math.PI / 4) * roadLength / 3
-        },
-        angle: rotation - Math.PI / 4,
-        name: 'Diagonal 2'
-      }
-    ];
-
-    // Convert to RoadSegment format
-    [...mainRoads, ...diagonalRoads].forEach((road, index) => {
-      const dx = road.end.x - road.start.x;
-      const dy = road.end.y - road.start.y;
-      const length = Math.sqrt(dx * dx + dy * dy);
-
-      roads.push({
-        start: road.start,
-        end: road.end,
-        width: roadWidth,
-        angle: road.angle,
-        length: length,
-        confidence: 0.9 // High confidence for synthetic roads
-      });
-    });
-
-    // Add central intersection
-    intersections.push({
-      x: centerX,
-      y: centerY,
-      roads: mainRoads.length + diagonalRoads.length,
-      angle: 0,
-      confidence: 0.95
-    });
-
-    // Add secondary intersections
-    const secondaryDistance = roadLength / 4;
-    [
-      { x: centerX + secondaryDistance, y: centerY },
-      { x: centerX - secondaryDistance, y: centerY },
-      { x: centerX, y: centerY + secondaryDistance },
-      { x: centerX, y: centerY - secondaryDistance }
-    ].forEach((pos, index) => {
-      intersections.push({
-        x: pos.x,
-        y: pos.y,
-        roads: 2,
-        angle: index * Math.PI / 2,
-        confidence: 0.8
-      });
+  // Graph junctions in the raster's pixel frame; angle is the first arm, measured like RoadSegment.angle (y down)
+  private junctionsToIntersections(graph: RoadGraph, raster: GeoRaster, confidence: (node: RoadGraphNode) => number): RoadIntersection[] {
+    return graphJunctions(graph).map(node => {
+      const { x, y } = enuToRasterPixel(raster, node.position.east, node.position.north);
+      return { x, y, roads: node.degree, angle: -node.arms[0].bearing, confidence: confidence(node) };
     });
+  }
 
-    console.log(`✅ Generated ${roads.length} synthetic roads and ${intersections.length} intersections`);
-
-    return { roads, intersections };
+  private geoToPixel(geo: { lat: number; lon: number }, raster: GeoRaster): { x: number; y: number } {
+    // Geographic coordinates to pixel coordinates of the splat render
+    const { x, y } = geoToRasterPixel(raster, geo.lon, geo.lat);
+    return { x: Math.max(0, Math.min(raster.width, x)), y: Math.max(0, Math.min(raster.height, y)) };
   }
 }
\ No newline at end of file
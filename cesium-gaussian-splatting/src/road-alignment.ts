@@ -1,6 +1,15 @@
 import * as Cesium from 'cesium';
 import * as THREE from 'three';
 import { GaussianSplatLayer } from './gaussian-splat-layer';
+import { EnuParams } from './types/alignment';
+import { ecefToEnuMatrix, enuToEcefMatrix } from './alignment/composeModelMatrix';
+import { GeoRaster, rasterPixelToGeo, rasterToImageData } from './raster/geoRaster';
+import { renderLayerOrtho } from './raster/orthoSplatRender';
+import { ImageryCapture } from './raster/imageryCapture';
+import { SimilarityEstimate, registerRasters, registrationToEnuDelta, applyEnuDelta } from './alignment/fourierMellin';
+import { registerRastersByKeypoints } from './alignment/keypointRegistration';
+import { pickRegistration, roadOverlap } from './alignment/roadRegistration';
+import { OSMRoad, RoadDataBounds, RoadDataProvider } from './road-data-provider';
 
 export interface RoadFeature {
   points: THREE.Vector2[];
@@ -14,47 +23,56 @@ export interface AlignmentResult {
   rotation: { x: number; y: number; z: number };
   scale: number;
   confidence: number;
+  params: EnuParams; // the same placement in the anchor's ENU frame, for setEnuParams
 }
 
 export class RoadAlignment {
   private cesiumViewer: Cesium.Viewer;
   private canvas: HTMLCanvasElement;
-  private context: CanvasRenderingContext2D;
+  private imageryCapture: ImageryCapture;
+  private roadDataProvider: RoadDataProvider;
 
-  constructor(cesiumViewer: Cesium.Viewer) {
+  constructor(cesiumViewer: Cesium.Viewer, roadDataProvider: RoadDataProvider = new RoadDataProvider()) {
     this.cesiumViewer = cesiumViewer;
+    this.roadDataProvider = roadDataProvider;
+    this.imageryCapture = new ImageryCapture(cesiumViewer.imageryLayers);
     this.canvas = document.createElement('canvas');
     this.canvas.width = 1024;
     this.canvas.height = 1024;
-    this.context = this.canvas.getContext('2d')!;
   }
 
   public async alignSplatToRoads(
     splatLayer: GaussianSplatLayer,
-    searchRadius: number = 0.001 // degrees
+    searchRadius: number = 0.001, // degrees
+    signal?: AbortSignal
   ): Promise<AlignmentResult> {
     console.log('Starting road-based alignment...');
 
-    // Step 1: Capture current map imagery
-    const mapImagery = await this.captureMapImagery(
-      splatLayer.location.lon,
-      splatLayer.location.lat,
+    // Step 1: Capture map imagery top-down around the splat
+    const splatLocation = splatLayer.getLocation();
+    const mapRaster = await this.captureMapImagery(
+      splatLocation.lon,
+      splatLocation.lat,
       searchRadius
     );
+    const mapImagery = rasterToImageData(mapRaster);
+    signal?.throwIfAborted();
 
     // Step 2: Extract road features from map
     const mapRoads = this.extractRoadFeatures(mapImagery, 'map');
 
-    // Step 3: Extract road features from splat render
-    const splatImagery = await this.captureSplatImagery(splatLayer);
+    // Step 3: Extract road features from a splat render on the same grid
+    const splatRaster = this.captureSplatImagery(splatLayer, mapRaster);
+    const splatImagery = rasterToImageData(splatRaster);
     const splatRoads = this.extractRoadFeatures(splatImagery, 'splat');
 
     // Step 4: Create debug visualizations
     this.createDebugVisualization(mapImagery, mapRoads, 'map');
     this.createDebugVisualization(splatImagery, splatRoads, 'splat');
+    signal?.throwIfAborted();
 
-    // Step 5: Find best alignment
-    const alignment = this.findBestAlignment(mapRoads, splatRoads, splatLayer);
+    // Step 5: Register the splat render onto the map in one shot
+    const alignment = await this.registerToMap(mapRaster, splatRaster, splatLayer, signal);
 
     console.log('Alignment result:', alignment);
     console.log(`Map roads found: ${mapRoads.length}, Splat roads found: ${splatRoads.length}`);
@@ -105,105 +123,55 @@ export class RoadAlignment {
     }, 10000);
   }
 
+  // Orthographic imagery of the square centre ± radius (degrees of latitude), fitted into the canvas
   private async captureMapImagery(
     centerLon: number,
     centerLat: number,
     radius: number
-  ): Promise<ImageData> {
+  ): Promise<GeoRaster> {
     console.log(`Capturing map imagery at ${centerLon}, ${centerLat} with radius ${radius}`);
 
-    // Create a temporary canvas to capture Cesium imagery
-    const tempCanvas = document.createElement('canvas');
-    tempCanvas.width = this.canvas.width;
-    tempCanvas.height = this.canvas.height;
-    const tempContext = tempCanvas.getContext('2d')!;
-
-    // Store current camera state
-    const originalPosition = this.cesiumViewer.camera.position.clone();
-    const originalOrientation = {
-      heading: this.cesiumViewer.camera.heading,
-      pitch: this.cesiumViewer.camera.pitch,
-      roll: this.cesiumViewer.camera.roll
-    };
-
-    try {
-      // Set camera to orthographic view of the area
-      const height = 2000; // meters above ground
-      const center = Cesium.Cartesian3.fromDegrees(centerLon, centerLat, height);
-
-      this.cesiumViewer.camera.setView({
-        destination: center,
-        orientation: {
-          heading: 0,
-          pitch: Cesium.Math.toRadians(-90), // Top-down view
-          roll: 0
-        }
-      });
-
-      // Wait for tiles to load and render
-      await new Promise(resolve => setTimeout(resolve, 2000));
-
-      // Force a render
-      this.cesiumViewer.scene.requestRender();
+    const origin = { lon: centerLon, lat: centerLat, height: 0 };
+    const halfSize = radius * 111320; // degrees of latitude to meters
+    const metersPerPixel = 2 * halfSize / this.canvas.width;
 
-      // Capture the scene
-      const cesiumCanvas = this.cesiumViewer.scene.canvas;
-      tempContext.drawImage(cesiumCanvas, 0, 0, tempCanvas.width, tempCanvas.height);
-
-      console.log('Map imagery captured successfully');
-      return tempContext.getImageData(0, 0, tempCanvas.width, tempCanvas.height);
+    const raster = await this.imageryCapture.captureGrid(
+      origin,
+      { west: -halfSize, south: -halfSize, east: halfSize, north: halfSize },
+      metersPerPixel
+    );
 
-    } finally {
-      // Restore original camera position
-      this.cesiumViewer.camera.setView({
-        destination: originalPosition,
-        orientation: originalOrientation
-      });
-    }
+    console.log('Map imagery captured successfully');
+    return raster;
   }
 
-  private async captureSplatImagery(splatLayer: GaussianSplatLayer): Promise<ImageData> {
+  // Top-down splat render covering the same ground as grid, in the ENU frame of the splat anchor
+  private captureSplatImagery(splatLayer: GaussianSplatLayer, grid: GeoRaster): GeoRaster {
     console.log('Capturing splat imagery...');
 
-    // Create a temporary renderer for the splat
-    const tempRenderer = new THREE.WebGLRenderer({
-      preserveDrawingBuffer: true,
-      antialias: true
-    });
-    tempRenderer.setSize(this.canvas.width, this.canvas.height);
-    tempRenderer.setClearColor(0x000000, 1);
-
-    // Create an orthographic camera for top-down view
-    const viewSize = 200; // Adjust based on your splat scale
-    const camera = new THREE.OrthographicCamera(
-      -viewSize, viewSize, viewSize, -viewSize, 0.1, 2000
-    );
-    camera.position.set(0, 500, 0); // Higher up to see more of the splat
-    camera.lookAt(0, 0, 0);
-
-    // Make sure the splat is visible
-    if (!splatLayer.scene || !splatLayer.ready) {
-      console.warn('Splat scene not ready for capture');
-      tempRenderer.dispose();
-      // Return empty image data
-      const emptyImageData = new ImageData(this.canvas.width, this.canvas.height);
-      return emptyImageData;
+    if (!splatLayer.ready) {
+      throw new Error('Splat scene not ready for capture');
     }
 
-    console.log('Rendering splat scene...');
-
-    // Render the splat scene
-    tempRenderer.render(splatLayer.scene, camera);
-
-    // Get image data
-    const tempCanvas = tempRenderer.domElement;
-    this.context.clearRect(0, 0, this.canvas.width, this.canvas.height);
-    this.context.drawImage(tempCanvas, 0, 0);
-
-    tempRenderer.dispose();
+    // The splat is rendered in the ENU frame of its anchor; shift the grid there
+    const anchor = splatLayer.getAnchor();
+    const corner = Cesium.Matrix4.multiplyByPoint(
+      ecefToEnuMatrix(anchor),
+      Cesium.Matrix4.multiplyByPoint(
+        enuToEcefMatrix(grid.origin),
+        new Cesium.Cartesian3(grid.west, grid.north, 0),
+        new Cesium.Cartesian3()
+      ),
+      new Cesium.Cartesian3()
+    );
+    const size = grid.width * grid.metersPerPixel;
+    const raster = renderLayerOrtho(splatLayer, {
+      bounds: { west: corner.x, south: corner.y - size, east: corner.x + size, north: corner.y },
+      metersPerPixel: grid.metersPerPixel
+    });
 
     console.log('Splat imagery captured successfully');
-    return this.context.getImageData(0, 0, this.canvas.width, this.canvas.height);
+    return raster;
   }
 
   private extractRoadFeatures(imageData: ImageData, type: string): RoadFeature[] {
@@ -646,121 +614,83 @@ export class RoadAlignment {
     return { start, end, length: end - start };
   }
 
-  private findBestAlignment(
-    mapRoads: RoadFeature[],
-    splatRoads: RoadFeature[],
-    currentLayer: GaussianSplatLayer
-  ): AlignmentResult {
-    let bestAlignment: AlignmentResult = {
-      position: currentLayer.location,
-      rotation: currentLayer.rotation,
-      scale: currentLayer.scale,
-      confidence: 0
-    };
-
-    // Test different transformations
-    const positionSteps = 10;
-    const rotationSteps = 8;
-    const scaleSteps = 5;
-
-    const positionRange = 0.0005; // degrees
-    const rotationRange = Math.PI / 4; // 45 degrees
-    const scaleRange = 2; // 0.5x to 2x
-
-    for (let pStep = 0; pStep < positionSteps; pStep++) {
-      for (let rStep = 0; rStep < rotationSteps; rStep++) {
-        for (let sStep = 0; sStep < scaleSteps; sStep++) {
-          const testAlignment: AlignmentResult = {
-            position: {
-              lon: currentLayer.location.lon + (pStep - positionSteps/2) * positionRange / positionSteps,
-              lat: currentLayer.location.lat + (pStep - positionSteps/2) * positionRange / positionSteps,
-              height: currentLayer.location.height
-            },
-            rotation: {
-              x: currentLayer.rotation.x,
-              y: currentLayer.rotation.y + (rStep - rotationSteps/2) * rotationRange / rotationSteps,
-              z: currentLayer.rotation.z
-            },
-            scale: currentLayer.scale * (0.5 + sStep * scaleRange / scaleSteps),
-            confidence: 0
-          };
-
-          // Calculate alignment score
-          const score = this.calculateAlignmentScore(mapRoads, splatRoads, testAlignment);
-
-          if (score > bestAlignment.confidence) {
-            bestAlignment = { ...testAlignment, confidence: score };
-          }
-        }
-      }
+  // Registration of the splat render onto the map imagery, as a new placement. Fourier–Mellin
+  // and keypoint matching are both tried and ranked like RealAIAlignment ranks its candidates,
+  // by how many splat road pixels they put on OSM roads (see pickRegistration).
+  private async registerToMap(
+    mapRaster: GeoRaster,
+    splatRaster: GeoRaster,
+    currentLayer: GaussianSplatLayer,
+    signal?: AbortSignal
+  ): Promise<AlignmentResult> {
+    const params = currentLayer.getEnuParams();
+    const fourierMellin = registerRasters(mapRaster, splatRaster);
+    const keypoints = await registerRastersByKeypoints(mapRaster, splatRaster);
+    console.log(`Fourier–Mellin confidence ${fourierMellin.confidence.toFixed(2)}, keypoints ${keypoints.confidence.toFixed(2)} ` +
+      `(${keypoints.inliers}/${keypoints.matches} inliers, ${keypoints.rmsErrorPixels.toFixed(2)} px RMS)`);
+    signal?.throwIfAborted();
+
+    const roads = await this.fetchRoads(mapRaster, signal);
+    const scored = [
+      { source: 'Fourier–Mellin', registration: fourierMellin as SimilarityEstimate },
+      { source: 'keypoints', registration: keypoints as SimilarityEstimate }
+    ].map(candidate => ({ ...candidate, overlap: roads.length > 0 ? roadOverlap(splatRaster, roads, candidate.registration) : 0 }));
+    if (roads.length > 0) {
+      console.log(`Road overlap: Fourier–Mellin ${(scored[0].overlap * 100).toFixed(0)}%, keypoints ${(scored[1].overlap * 100).toFixed(0)}%`);
     }
 
-    return bestAlignment;
+    // Without roads every overlap is 0 and Fourier–Mellin, listed first, wins whenever it is confident
+    const { source, registration } = pickRegistration(scored);
+    console.log(`Using ${source} registration`);
+    const delta = registrationToEnuDelta(registration, params, splatRaster);
+    const target = { ...params, ...applyEnuDelta(params, delta) };
+
+    console.log(`🧭 Registration: rotation ${Cesium.Math.toDegrees(delta.yawRad).toFixed(2)}°, ` +
+      `scale ×${delta.scaleFactor.toFixed(3)}, shift ${delta.tEast.toFixed(2)} m E / ${delta.tNorth.toFixed(2)} m N, ` +
+      `confidence ${registration.confidence.toFixed(2)}`);
+
+    const position = Cesium.Cartographic.fromCartesian(Cesium.Matrix4.multiplyByPoint(
+      enuToEcefMatrix(currentLayer.getAnchor()),
+      new Cesium.Cartesian3(target.tEast, target.tNorth, target.tUp),
+      new Cesium.Cartesian3()
+    ));
+
+    return {
+      position: {
+        lon: Cesium.Math.toDegrees(position.longitude),
+        lat: Cesium.Math.toDegrees(position.latitude),
+        height: position.height
+      },
+      // rotation x/y/z are pitch/yaw/roll in the anchor's ENU frame
+      rotation: { x: target.pitchRad, y: target.yawRad, z: target.rollRad },
+      scale: target.scale,
+      confidence: registration.confidence,
+      params: target
+    };
   }
 
-  private calculateAlignmentScore(
-    mapRoads: RoadFeature[],
-    splatRoads: RoadFeature[],
-    alignment: AlignmentResult
-  ): number {
-    let totalScore = 0;
-    let matchCount = 0;
-
-    // Transform splat roads according to alignment
-    const transformedSplatRoads = this.transformRoadFeatures(splatRoads, alignment);
-
-    // Find matches between map and transformed splat roads
-    for (const mapRoad of mapRoads) {
-      let bestMatch = 0;
-
-      for (const splatRoad of transformedSplatRoads) {
-        const score = this.compareRoadFeatures(mapRoad, splatRoad);
-        bestMatch = Math.max(bestMatch, score);
-      }
+  // Real OSM roads over the map capture, or none when no source has data there
+  private async fetchRoads(mapRaster: GeoRaster, signal?: AbortSignal): Promise<OSMRoad[]> {
+    const corners = [
+      rasterPixelToGeo(mapRaster, 0, 0),
+      rasterPixelToGeo(mapRaster, mapRaster.width, mapRaster.height)
+    ];
+    const bounds: RoadDataBounds = {
+      west: Math.min(corners[0].lon, corners[1].lon),
+      east: Math.max(corners[0].lon, corners[1].lon),
+      south: Math.min(corners[0].lat, corners[1].lat),
+      north: Math.max(corners[0].lat, corners[1].lat)
+    };
 
-      if (bestMatch > 0.3) { // Threshold for considering a match
-        totalScore += bestMatch;
-        matchCount++;
-      }
+    try {
+      const osmData = await this.roadDataProvider.getRoadData(bounds, signal);
+      if (!osmData.fabricated) return osmData.roads;
+      console.warn('Only fabricated road data here; ranking registrations without road overlap');
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.warn('No road data for ranking registrations:', error);
     }
-
-    return matchCount > 0 ? totalScore / matchCount : 0;
-  }
-
-  private transformRoadFeatures(roads: RoadFeature[], alignment: AlignmentResult): RoadFeature[] {
-    // Apply scale, rotation, and translation to road features
-    // This is a simplified version - in practice you'd need proper coordinate transformations
-    return roads.map(road => ({
-      ...road,
-      points: road.points.map(point => {
-        // Apply scale
-        let x = point.x * alignment.scale;
-        let y = point.y * alignment.scale;
-
-        // Apply rotation (simplified 2D rotation)
-        const cos = Math.cos(alignment.rotation.y);
-        const sin = Math.sin(alignment.rotation.y);
-        const rotX = x * cos - y * sin;
-        const rotY = x * sin + y * cos;
-
-        return new THREE.Vector2(rotX, rotY);
-      })
-    }));
-  }
-
-  private compareRoadFeatures(road1: RoadFeature, road2: RoadFeature): number {
-    // Compare direction similarity
-    const directionDiff = Math.abs(road1.direction - road2.direction);
-    const directionScore = 1 - Math.min(directionDiff, Math.PI - directionDiff) / (Math.PI / 2);
-
-    // Compare length similarity
-    const lengthRatio = Math.min(road1.length, road2.length) / Math.max(road1.length, road2.length);
-
-    // Compare position proximity (simplified)
-    const distance = road1.points[0].distanceTo(road2.points[0]);
-    const distanceScore = Math.exp(-distance / 100); // Exponential decay
-
-    return (directionScore * 0.4 + lengthRatio * 0.3 + distanceScore * 0.3);
+    return [];
   }
 
   public async applySmoothAlignment(
@@ -769,9 +699,10 @@ export class RoadAlignment {
     duration: number = 2000
   ): Promise<void> {
     const startTime = Date.now();
-    const startPosition = { ...splatLayer.location };
-    const startRotation = { ...splatLayer.rotation };
-    const startScale = splatLayer.scale;
+    const startPosition = splatLayer.getLocation();
+    const startParams = splatLayer.getEnuParams();
+    const startRotation = { x: startParams.pitchRad, y: startParams.yawRad, z: startParams.rollRad };
+    const startScale = startParams.scale;
 
     const animate = () => {
       const elapsed = Date.now() - startTime;
@@ -781,32 +712,19 @@ export class RoadAlignment {
       const eased = 1 - Math.pow(1 - progress, 3);
 
       // Interpolate position
-      splatLayer.location.lon = startPosition.lon + (targetAlignment.position.lon - startPosition.lon) * eased;
-      splatLayer.location.lat = startPosition.lat + (targetAlignment.position.lat - startPosition.lat) * eased;
-      splatLayer.location.height = startPosition.height + (targetAlignment.position.height - startPosition.height) * eased;
-
-      // Interpolate rotation
-      splatLayer.rotation.x = startRotation.x + (targetAlignment.rotation.x - startRotation.x) * eased;
-      splatLayer.rotation.y = startRotation.y + (targetAlignment.rotation.y - startRotation.y) * eased;
-      splatLayer.rotation.z = startRotation.z + (targetAlignment.rotation.z - startRotation.z) * eased;
-
-      // Interpolate scale
-      const newScale = startScale + (targetAlignment.scale - startScale) * eased;
-      splatLayer.scale = newScale;
-
-      // Apply transformations
-      const position = Cesium.Cartesian3.fromDegrees(
-        splatLayer.location.lon,
-        splatLayer.location.lat,
-        splatLayer.location.height
-      );
-      splatLayer.scene.position.set(position.x, position.y, position.z);
-      splatLayer.scene.rotation.set(splatLayer.rotation.x, splatLayer.rotation.y, splatLayer.rotation.z);
-
-      if (splatLayer.splatViewer && splatLayer.splatViewer.getSplatMesh()) {
-        const mesh = splatLayer.splatViewer.getSplatMesh();
-        mesh.scale.set(newScale, newScale, newScale);
-      }
+      splatLayer.moveTo({
+        lon: startPosition.lon + (targetAlignment.position.lon - startPosition.lon) * eased,
+        lat: startPosition.lat + (targetAlignment.position.lat - startPosition.lat) * eased,
+        height: startPosition.height + (targetAlignment.position.height - startPosition.height) * eased
+      }, 'road alignment');
+
+      // Interpolate rotation and scale
+      splatLayer.setEnuParams({
+        pitchRad: startRotation.x + (targetAlignment.rotation.x - startRotation.x) * eased,
+        yawRad: startRotation.y + (targetAlignment.rotation.y - startRotation.y) * eased,
+        rollRad: startRotation.z + (targetAlignment.rotation.z - startRotation.z) * eased,
+        scale: startScale + (targetAlignment.scale - startScale) * eased
+      }, 'road alignment');
 
       if (progress < 1) {
         requestAnimationFrame(animate);
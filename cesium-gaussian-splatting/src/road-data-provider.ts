@@ -1,4 +1,7 @@
 import * as Cesium from 'cesium';
+import { roadDataFromWays } from './osm/roadData';
+import { OverpassSource, RoadDataSource } from './osm/roadSources';
+import { RoadTileCache, RoadTileCacheOptions } from './osm/roadTileCache';
 
 export interface OSMRoad {
   id: string;
@@ -21,6 +24,18 @@ export interface OSMIntersection {
   type: string;
 }
 
+// Mapped features other than roads that show up in captures, often more clearly than
+// road centrelines: building footprints, sidewalks and paths, kerb lines and crossing nodes
+export type OSMFeatureKind = 'building' | 'footway' | 'kerb' | 'crossing';
+
+export interface OSMFeature {
+  id: string;  // way id, or "node/<id>" for crossings
+  kind: OSMFeatureKind;
+  geometry: { lat: number; lon: number }[]; // closed ring for buildings, one point for crossings
+  tags: Record<string, string>;
+  width: number; // metres on the ground: path width, kerb line, crossing size; 0 for buildings
+}
+
 export interface RoadDataBounds {
   north: number;
   south: number;
@@ -28,176 +43,89 @@ export interface RoadDataBounds {
   west: number;
 }
 
-export class RoadDataProvider {
-  private overpassUrl = 'https://overpass-api.de/api/interpreter';
-  private cache: Map<string, { roads: OSMRoad[]; intersections: OSMIntersection[]; timestamp: number }> = new Map();
-  private cacheTimeout = 5 * 60 * 1000; // 5 minutes
-
-  public async getRoadData(bounds: RoadDataBounds): Promise<{ roads: OSMRoad[]; intersections: OSMIntersection[] }> {
-    console.log('🛣️ Fetching road data from OpenStreetMap...', bounds);
-
-    // Check cache first
-    const cacheKey = `${bounds.north},${bounds.south},${bounds.east},${bounds.west}`;
-    const cached = this.cache.get(cacheKey);
-
-    if (cached && Date.now() - cached.timestamp < this.cacheTimeout) {
-      console.log('📋 Using cached road data');
-      return { roads: cached.roads, intersections: cached.intersections };
-    }
-
-    try {
-      // Build Overpass query for roads
-      const query = this.buildOverpassQuery(bounds);
-      console.log('🔍 Overpass query:', query);
-
-      const response = await fetch(this.overpassUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/x-www-form-urlencoded',
-        },
-        body: `data=${encodeURIComponent(query)}`
-      });
-
-      if (!response.ok) {
-        throw new Error(`Overpass API error: ${response.status} ${response.statusText}`);
-      }
-
-      const data = await response.json();
-      console.log('📊 Raw OSM data received:', data.elements?.length || 0, 'elements');
-
-      // Process the data
-      const processed = this.processOSMData(data);
-
-      // Cache the result
-      this.cache.set(cacheKey, {
-        roads: processed.roads,
-        intersections: processed.intersections,
-        timestamp: Date.now()
-      });
-
-      console.log(`✅ Processed ${processed.roads.length} roads and ${processed.intersections.length} intersections`);
-
-      return processed;
+// Road data with where it came from. fabricated is set when no source had data and
+// generateFallbackRoadData made up a street grid; never align to it.
+export interface RoadData {
+  roads: OSMRoad[];
+  intersections: OSMIntersection[];
+  features: OSMFeature[];
+  source: string;
+  fabricated: boolean;
+}
 
-    } catch (error) {
-      console.error('❌ Failed to fetch road data:', error);
+export interface RoadDataProviderOptions {
+  sources?: RoadDataSource[];   // tried in order (default: the public Overpass server)
+  allowFabricated?: boolean;    // fall back to an invented grid instead of failing (default false)
+  cache?: RoadTileCacheOptions; // tiling and expiry of what cacheable sources return
+}
 
-      // Return fallback data based on bounds
-      return this.generateFallbackRoadData(bounds);
-    }
+export class RoadDataProvider {
+  private sources: RoadDataSource[];
+  private allowFabricated: boolean;
+  private tileCache: RoadTileCache;
+
+  constructor(options: RoadDataProviderOptions = {}) {
+    this.sources = options.sources ?? [new OverpassSource()];
+    this.allowFabricated = options.allowFabricated ?? false;
+    this.tileCache = new RoadTileCache(options.cache);
   }
 
-  private buildOverpassQuery(bounds: RoadDataBounds): string {
-    return `
-      [out:json][timeout:25];
-      (
-        way["highway"~"^(primary|secondary|tertiary|residential|unclassified|service|trunk|motorway)$"](${bounds.south},${bounds.west},${bounds.north},${bounds.east});
-      );
-      out geom;
-    `;
+  public getTileCache(): RoadTileCache {
+    return this.tileCache;
   }
 
-  private processOSMData(data: any): { roads: OSMRoad[]; intersections: OSMIntersection[] } {
-    const roads: OSMRoad[] = [];
-    const nodeConnections: Map<string, string[]> = new Map();
-
-    // Process ways (roads)
-    for (const element of data.elements || []) {
-      if (element.type === 'way' && element.geometry) {
-        const road = this.processRoadElement(element);
-        if (road) {
-          roads.push(road);
-
-          // Track node connections for intersection detection
-          for (const node of element.geometry) {
-            const nodeId = `${node.lat.toFixed(6)},${node.lon.toFixed(6)}`;
-            if (!nodeConnections.has(nodeId)) {
-              nodeConnections.set(nodeId, []);
-            }
-            nodeConnections.get(nodeId)!.push(element.id.toString());
-          }
-        }
-      }
-    }
-
-    // Find intersections (nodes connected to multiple roads)
-    const intersections: OSMIntersection[] = [];
-    for (const [nodeId, roadIds] of nodeConnections.entries()) {
-      if (roadIds.length >= 2) {
-        const [lat, lon] = nodeId.split(',').map(Number);
-        intersections.push({
-          lat,
-          lon,
-          roads: roadIds,
-          type: roadIds.length >= 3 ? 'major' : 'minor'
-        });
-      }
-    }
-
-    return { roads, intersections };
+  public getSources(): RoadDataSource[] {
+    return [...this.sources];
   }
 
-  private processRoadElement(element: any): OSMRoad | null {
-    if (!element.geometry || element.geometry.length < 2) {
-      return null;
-    }
-
-    const tags = element.tags || {};
-    const highway = tags.highway || 'unknown';
-
-    // Classify road type and estimate width
-    const { type, width } = this.classifyRoad(highway, tags);
+  public setSources(sources: RoadDataSource[], allowFabricated: boolean = this.allowFabricated): void {
+    this.sources = [...sources];
+    this.allowFabricated = allowFabricated;
+  }
 
-    return {
-      id: element.id.toString(),
-      geometry: element.geometry.map((node: any) => ({
-        lat: node.lat,
-        lon: node.lon
-      })),
-      tags,
-      type,
-      width
-    };
+  // Local files go before the network sources
+  public addSource(source: RoadDataSource): void {
+    this.setSources([source, ...this.sources]);
   }
 
-  private classifyRoad(highway: string, tags: any): { type: OSMRoad['type']; width: number } {
-    // Estimate road width based on type
-    const roadTypes: Record<string, { type: OSMRoad['type']; width: number }> = {
-      'motorway': { type: 'primary', width: 24 },
-      'trunk': { type: 'primary', width: 20 },
-      'primary': { type: 'primary', width: 16 },
-      'secondary': { type: 'secondary', width: 12 },
-      'tertiary': { type: 'tertiary', width: 10 },
-      'unclassified': { type: 'tertiary', width: 8 },
-      'residential': { type: 'residential', width: 6 },
-      'service': { type: 'service', width: 4 },
-      'living_street': { type: 'residential', width: 5 },
-      'pedestrian': { type: 'service', width: 3 }
-    };
+  public async getRoadData(bounds: RoadDataBounds, signal?: AbortSignal): Promise<RoadData> {
+    console.log('🛣️ Fetching road data...', bounds);
+
+    const failures: string[] = [];
+    for (const source of this.sources) {
+      try {
+        // Remote sources go through the tile cache; local files are already in memory
+        const ways = source.cacheable
+          ? await this.tileCache.getWays(source, bounds, signal)
+          : await source.getWays(bounds, signal);
+        if (ways === null) {
+          failures.push(`${source.name}: does not cover the area`);
+          continue;
+        }
 
-    const classification = roadTypes[highway] || { type: 'other', width: 6 };
+        const processed: RoadData = { ...roadDataFromWays(ways), source: source.name, fabricated: false };
 
-    // Adjust width based on lanes if available
-    if (tags.lanes) {
-      const lanes = parseInt(tags.lanes);
-      if (!isNaN(lanes) && lanes > 0) {
-        classification.width = lanes * 3.5; // ~3.5m per lane
+        console.log(`✅ Processed ${processed.roads.length} roads, ${processed.intersections.length} intersections ` +
+          `and ${processed.features.length} other features from ${source.name}`);
+        return processed;
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        console.error(`❌ Failed to fetch road data from ${source.name}:`, error);
+        failures.push(`${source.name}: ${(error as Error).message}`);
       }
     }
 
-    // Adjust width based on explicit width tag
-    if (tags.width) {
-      const width = parseFloat(tags.width);
-      if (!isNaN(width) && width > 0) {
-        classification.width = width;
-      }
+    const reasons = failures.length > 0 ? failures.join('; ') : 'no road sources configured';
+    if (!this.allowFabricated) {
+      throw new Error(`No road data for this area (${reasons})`);
     }
 
-    return classification;
+    console.warn(`⚠️ No real road data (${reasons}); using a FABRICATED street grid`);
+    return { ...this.generateFallbackRoadData(bounds), features: [], source: 'fabricated', fabricated: true };
   }
 
   private generateFallbackRoadData(bounds: RoadDataBounds): { roads: OSMRoad[]; intersections: OSMIntersection[] } {
-    console.log('🔄 Generating fallback road data for Burbank area...');
+    console.log('🔄 Generating fabricated road data for Burbank area...');
 
     const roads: OSMRoad[] = [];
     const intersections: OSMIntersection[] = [];
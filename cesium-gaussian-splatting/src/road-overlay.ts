@@ -1,10 +1,11 @@
 import * as Cesium from 'cesium';
-import { OSMRoad, OSMIntersection } from './road-data-provider';
+import { OSMRoad, OSMIntersection, OSMFeature, OSMFeatureKind } from './road-data-provider';
 
 export class RoadOverlay {
   private cesiumViewer: Cesium.Viewer;
   private roadEntities: Cesium.Entity[] = [];
   private intersectionEntities: Cesium.Entity[] = [];
+  private featureEntities: Cesium.Entity[] = [];
 
   constructor(cesiumViewer: Cesium.Viewer) {
     this.cesiumViewer = cesiumViewer;
@@ -69,6 +70,56 @@ export class RoadOverlay {
     console.log(`✅ Displayed ${roads.length} roads and ${intersections.length} intersections`);
   }
 
+  // Buildings as outlined footprints, footways and kerbs as lines, crossings as points
+  public showFeatures(features: OSMFeature[]): void {
+    for (const entity of this.featureEntities) {
+      this.cesiumViewer.entities.remove(entity);
+    }
+    this.featureEntities = [];
+
+    for (const feature of features) {
+      const color = this.getFeatureColor(feature.kind);
+      const positions = feature.geometry.map(point => Cesium.Cartesian3.fromDegrees(point.lon, point.lat));
+      const name = `${feature.kind}: ${feature.tags.name || feature.id}`;
+
+      if (feature.kind === 'crossing') {
+        this.featureEntities.push(this.cesiumViewer.entities.add({
+          name,
+          position: positions[0],
+          point: {
+            pixelSize: 7,
+            color,
+            outlineColor: Cesium.Color.BLACK,
+            outlineWidth: 1,
+            heightReference: Cesium.HeightReference.CLAMP_TO_GROUND
+          }
+        }));
+      } else if (feature.kind === 'building' && positions.length >= 4) {
+        this.featureEntities.push(this.cesiumViewer.entities.add({
+          name,
+          polygon: {
+            hierarchy: positions,
+            material: color.withAlpha(0.25),
+            classificationType: Cesium.ClassificationType.BOTH
+          },
+          polyline: { positions, width: 2, material: color, clampToGround: true }
+        }));
+      } else if (positions.length >= 2) {
+        this.featureEntities.push(this.cesiumViewer.entities.add({
+          name,
+          polyline: {
+            positions,
+            width: feature.kind === 'kerb' ? 1 : 2,
+            material: color,
+            clampToGround: true
+          }
+        }));
+      }
+    }
+
+    console.log(`✅ Displayed ${this.featureEntities.length} OSM features`);
+  }
+
   public clearOverlay(): void {
     // Remove all road entities
     for (const entity of this.roadEntities) {
@@ -81,6 +132,11 @@ export class RoadOverlay {
       this.cesiumViewer.entities.remove(entity);
     }
     this.intersectionEntities = [];
+
+    for (const entity of this.featureEntities) {
+      this.cesiumViewer.entities.remove(entity);
+    }
+    this.featureEntities = [];
   }
 
   public toggleVisibility(visible: boolean): void {
@@ -90,6 +146,9 @@ export class RoadOverlay {
     for (const entity of this.intersectionEntities) {
       entity.show = visible;
     }
+    for (const entity of this.featureEntities) {
+      entity.show = visible;
+    }
   }
 
   private getRoadDisplayWidth(roadType: string): number {
@@ -117,4 +176,15 @@ export class RoadOverlay {
 
     return colors[roadType] || Cesium.Color.WHITE.withAlpha(0.5);
   }
-}
\ No newline at end of file
+
+  private getFeatureColor(kind: OSMFeatureKind): Cesium.Color {
+    const colors: Record<OSMFeatureKind, Cesium.Color> = {
+      'building': Cesium.Color.CORAL,
+      'footway': Cesium.Color.LIGHTGREEN.withAlpha(0.8),
+      'kerb': Cesium.Color.LIGHTGRAY.withAlpha(0.9),
+      'crossing': Cesium.Color.CYAN
+    };
+
+    return colors[kind];
+  }
+}
@@ -0,0 +1,220 @@
+import { GaussianSplatLayer } from './gaussian-splat-layer';
+import { EnuParams, GeoAnchor } from './types/alignment';
+import type { RoadSourceConfig } from './osm/roadSources';
+
+export type { GeoAnchor };
+
+// yaw/pitch/roll are the EnuParams angles in the anchor's ENU frame, not the layer's
+// rotation (Euler XYZ about the ECEF axes), so a manifest means the same to every tool
+export const SCENE_MANIFEST_VERSION = 1;
+
+export interface CameraBookmark {
+  lon: number;
+  lat: number;
+  height: number;
+  headingDeg: number;
+  pitchDeg: number;
+  durationSec?: number;
+}
+
+export interface SplatEntry {
+  id: string;
+  model: string;   // resolved against the manifest URL
+  anchor: GeoAnchor;
+  enu: EnuParams;  // placement of the splat relative to the anchor
+  depthTest?: boolean;
+  metadata?: Record<string, unknown>;
+}
+
+export interface SceneManifest {
+  version: number;
+  name: string;
+  camera?: CameraBookmark;
+  roads?: RoadSourceConfig;  // OSM sources for the road aligners; files are resolved against the manifest URL
+  splats: SplatEntry[];
+  metadata?: Record<string, unknown>;
+}
+
+export async function loadSceneManifest(url: string): Promise<SceneManifest> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load scene manifest ${url}: ${response.status} ${response.statusText}`);
+  }
+
+  let json: unknown;
+  try {
+    json = await response.json();
+  } catch (error) {
+    throw new Error(`Scene manifest ${url} is not valid JSON: ${(error as Error).message}`);
+  }
+
+  const manifest = parseSceneManifest(json, url);
+
+  // Make model paths independent of the page URL
+  const base = new URL(url, window.location.href);
+  for (const splat of manifest.splats) {
+    splat.model = new URL(splat.model, base).href;
+  }
+  if (manifest.roads?.files) {
+    manifest.roads.files = manifest.roads.files.map(file => new URL(file, base).href);
+  }
+
+  return manifest;
+}
+
+// Validate an already-parsed manifest; every problem is reported with its JSON path
+export function parseSceneManifest(json: unknown, source: string = 'manifest'): SceneManifest {
+  const issues: string[] = [];
+  const root = json as any;
+
+  if (!isObject(root)) {
+    throw new Error(`Invalid scene manifest (${source}): expected a JSON object`);
+  }
+
+  if (root.version !== SCENE_MANIFEST_VERSION) {
+    issues.push(`version must be ${SCENE_MANIFEST_VERSION} (got ${JSON.stringify(root.version)})`);
+  }
+  if (typeof root.name !== 'string') {
+    issues.push('name must be a string');
+  }
+  if (root.camera !== undefined) {
+    checkNumber(root.camera?.lon, 'camera.lon', issues, -180, 180);
+    checkNumber(root.camera?.lat, 'camera.lat', issues, -90, 90);
+    checkNumber(root.camera?.height, 'camera.height', issues);
+    checkNumber(root.camera?.headingDeg, 'camera.headingDeg', issues);
+    checkNumber(root.camera?.pitchDeg, 'camera.pitchDeg', issues);
+    if (root.camera?.durationSec !== undefined) {
+      checkNumber(root.camera.durationSec, 'camera.durationSec', issues, 0);
+    }
+  }
+  if (root.roads !== undefined) {
+    if (!isObject(root.roads)) {
+      issues.push('roads must be an object');
+    } else {
+      const roads = root.roads;
+      if (roads.files !== undefined &&
+          (!Array.isArray(roads.files) || !roads.files.every((f: unknown) => typeof f === 'string' && f !== ''))) {
+        issues.push('roads.files must be an array of non-empty strings');
+      }
+      if (roads.overpassUrl !== undefined && (typeof roads.overpassUrl !== 'string' || roads.overpassUrl === '')) {
+        issues.push('roads.overpassUrl must be a non-empty string');
+      }
+      if (roads.cacheMaxAgeHours !== undefined) {
+        checkNumber(roads.cacheMaxAgeHours, 'roads.cacheMaxAgeHours', issues, 0);
+      }
+      for (const key of ['offline', 'allowFabricated']) {
+        if (roads[key] !== undefined && typeof roads[key] !== 'boolean') {
+          issues.push(`roads.${key} must be a boolean`);
+        }
+      }
+    }
+  }
+  if (root.metadata !== undefined && !isObject(root.metadata)) {
+    issues.push('metadata must be an object');
+  }
+
+  if (!Array.isArray(root.splats) || root.splats.length === 0) {
+    issues.push('splats must be a non-empty array');
+  } else {
+    const ids = new Set<string>();
+    root.splats.forEach((splat: any, i: number) => {
+      const path = `splats[${i}]`;
+      if (!isObject(splat)) {
+        issues.push(`${path} must be an object`);
+        return;
+      }
+
+      if (typeof splat.id !== 'string' || splat.id === '') {
+        issues.push(`${path}.id must be a non-empty string`);
+      } else if (ids.has(splat.id)) {
+        issues.push(`${path}.id "${splat.id}" is used more than once`);
+      } else {
+        ids.add(splat.id);
+      }
+
+      if (typeof splat.model !== 'string' || splat.model === '') {
+        issues.push(`${path}.model must be a non-empty string`);
+      }
+
+      checkNumber(splat.anchor?.lon, `${path}.anchor.lon`, issues, -180, 180);
+      checkNumber(splat.anchor?.lat, `${path}.anchor.lat`, issues, -90, 90);
+      checkNumber(splat.anchor?.height, `${path}.anchor.height`, issues);
+
+      const enu = splat.enu;
+      if (!isObject(enu)) {
+        issues.push(`${path}.enu must be an object`);
+      } else {
+        if (typeof enu.scale !== 'number' || !(enu.scale > 0)) {
+          issues.push(`${path}.enu.scale must be a positive number`);
+        }
+        for (const key of ['yawRad', 'pitchRad', 'rollRad', 'tEast', 'tNorth', 'tUp']) {
+          checkNumber(enu[key], `${path}.enu.${key}`, issues);
+        }
+        if (enu.tiltLocked !== undefined && typeof enu.tiltLocked !== 'boolean') {
+          issues.push(`${path}.enu.tiltLocked must be a boolean`);
+        }
+        if (enu.alignRotation !== undefined &&
+            (!Array.isArray(enu.alignRotation) || enu.alignRotation.length !== 9 ||
+             !enu.alignRotation.every((v: unknown) => typeof v === 'number' && Number.isFinite(v)))) {
+          issues.push(`${path}.enu.alignRotation must be an array of 9 numbers`);
+        }
+      }
+
+      if (splat.depthTest !== undefined && typeof splat.depthTest !== 'boolean') {
+        issues.push(`${path}.depthTest must be a boolean`);
+      }
+      if (splat.metadata !== undefined && !isObject(splat.metadata)) {
+        issues.push(`${path}.metadata must be an object`);
+      }
+    });
+  }
+
+  if (issues.length > 0) {
+    throw new Error(`Invalid scene manifest (${source}):\n  - ${issues.join('\n  - ')}`);
+  }
+
+  return root as SceneManifest;
+}
+
+// Build a layer from a manifest entry
+export function createLayerFromEntry(entry: SplatEntry): GaussianSplatLayer {
+  return new GaussianSplatLayer(entry.model, entry.anchor, entry.enu, { depthTest: entry.depthTest });
+}
+
+// Snapshot the current placement of a layer back into its manifest entry
+export function entryFromLayer(entry: SplatEntry, layer: GaussianSplatLayer): SplatEntry {
+  return {
+    ...entry,
+    anchor: layer.getAnchor(),
+    enu: layer.getEnuParams()
+  };
+}
+
+export function serializeSceneManifest(manifest: SceneManifest): string {
+  return JSON.stringify(manifest, null, 2) + '\n';
+}
+
+// Offer the manifest as a file download
+export function downloadSceneManifest(manifest: SceneManifest, filename: string): void {
+  const blob = new Blob([serializeSceneManifest(manifest)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+
+  URL.revokeObjectURL(url);
+}
+
+function checkNumber(value: unknown, path: string, issues: string[], min?: number, max?: number): void {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    issues.push(`${path} must be a number`);
+  } else if ((min !== undefined && value < min) || (max !== undefined && value > max)) {
+    issues.push(`${path} must be between ${min ?? '-∞'} and ${max ?? '∞'} (got ${value})`);
+  }
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
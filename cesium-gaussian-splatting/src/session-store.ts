@@ -0,0 +1,67 @@
+import { SplatAdjustments } from './adjustment-tracker';
+
+const DB_NAME = 'cesium-gaussian-splatting';
+const DB_VERSION = 1;
+const STORE_NAME = 'alignment-sessions';
+
+export interface StoredSession {
+  modelUrl: string;  // key
+  savedAt: number;
+  adjustments: SplatAdjustments;
+}
+
+// Alignment sessions in IndexedDB, one per splat model URL
+export class SessionStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  public async save(modelUrl: string, adjustments: SplatAdjustments): Promise<void> {
+    const session: StoredSession = { modelUrl, savedAt: Date.now(), adjustments };
+    await this.request('readwrite', store => store.put(session));
+  }
+
+  public async load(modelUrl: string): Promise<StoredSession | null> {
+    const session = await this.request<StoredSession | undefined>('readonly', store => store.get(modelUrl));
+    return session ?? null;
+  }
+
+  public async delete(modelUrl: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(modelUrl));
+  }
+
+  public async list(): Promise<StoredSession[]> {
+    return this.request<StoredSession[]>('readonly', store => store.getAll());
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB is not available'));
+          return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(STORE_NAME)) {
+            db.createObjectStore(STORE_NAME, { keyPath: 'modelUrl' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async request<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = run(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result as T);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+}
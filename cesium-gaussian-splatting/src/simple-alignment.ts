@@ -2,6 +2,7 @@ import * as Cesium from 'cesium';
 import * as THREE from 'three';
 import { GaussianSplatLayer } from './gaussian-splat-layer';
 import { AlignmentController } from './controllers/AlignmentController';
+import { RoadDataBounds } from './road-data-provider';
 
 export class SimpleAlignment {
   private cesiumViewer: Cesium.Viewer;
@@ -21,9 +22,8 @@ export class SimpleAlignment {
   public async performSimpleAlignment(splatLayer: GaussianSplatLayer): Promise<boolean> {
     console.log('🎯 Starting SAFE simple alignment...');
     console.log('📊 Initial splat state:', {
-      location: splatLayer.location,
-      rotation: splatLayer.rotation,
-      scale: splatLayer.scale,
+      location: splatLayer.getLocation(),
+      params: splatLayer.getEnuParams(),
       ready: splatLayer.ready
     });
 
@@ -31,30 +31,10 @@ export class SimpleAlignment {
     // Don't move the splat drastically which can cause it to disappear
 
     try {
-      // Step 1: Get current view bounds for scale calculation
-      const bounds = this.getCurrentViewBounds();
-
-      if (!bounds) {
-        console.warn('⚠️ Cannot determine view bounds, applying default scale adjustment');
-        // Just apply a reasonable scale without moving position
-        const newScale = Math.max(0.5, Math.min(3.0, splatLayer.scale * 1.2));
-        this.applySafeScaling(splatLayer, newScale);
-        return true;
-      }
-
-      console.log('📍 Current view bounds:', bounds);
-
-      // Step 2: Calculate conservative scale adjustment
-      const currentScale = splatLayer.scale;
-      const suggestedScale = this.calculateProperScale(bounds);
-
-      // Very conservative scale change (max 1.5x change)
-      const newScale = Math.max(currentScale * 0.7, Math.min(currentScale * 1.5, suggestedScale));
-
-      console.log(`📏 SAFE Scale adjustment: current=${currentScale.toFixed(2)}, suggested=${suggestedScale.toFixed(2)}, final=${newScale.toFixed(2)}`);
+      const proposal = this.proposeSafeScale(splatLayer);
 
       // Step 3: Apply ONLY scaling, keep position unchanged
-      this.applySafeScaling(splatLayer, newScale);
+      this.applySafeScaling(splatLayer, proposal.scale);
 
       console.log('✅ Safe alignment completed - splat should remain visible');
       return true;
@@ -66,6 +46,34 @@ export class SimpleAlignment {
     }
   }
 
+  // The scale performSimpleAlignment would set, for the area in bounds (degrees) or the
+  // current view. viewWidthMeters is null when neither is known and the default step is used.
+  public proposeSafeScale(
+    splatLayer: GaussianSplatLayer,
+    area?: RoadDataBounds
+  ): { scale: number; suggestedScale: number | null; viewWidthMeters: number | null } {
+    // Step 1: Get current view bounds for scale calculation
+    const bounds = area ? this.measureBounds(area) : this.getCurrentViewBounds();
+    const currentScale = splatLayer.getEnuParams().scale;
+
+    if (!bounds) {
+      console.warn('⚠️ Cannot determine view bounds, applying default scale adjustment');
+      // Just apply a reasonable scale without moving position
+      return { scale: Math.max(0.5, Math.min(3.0, currentScale * 1.2)), suggestedScale: null, viewWidthMeters: null };
+    }
+
+    console.log('📍 Current view bounds:', bounds);
+
+    // Step 2: Calculate conservative scale adjustment
+    const suggestedScale = this.calculateProperScale(bounds);
+
+    // Very conservative scale change (max 1.5x change)
+    const newScale = Math.max(currentScale * 0.7, Math.min(currentScale * 1.5, suggestedScale));
+
+    console.log(`📏 SAFE Scale adjustment: current=${currentScale.toFixed(2)}, suggested=${suggestedScale.toFixed(2)}, final=${newScale.toFixed(2)}`);
+    return { scale: newScale, suggestedScale, viewWidthMeters: bounds.widthMeters };
+  }
+
   private getCurrentViewBounds(): any {
     const camera = this.cesiumViewer.camera;
     const canvas = this.cesiumViewer.scene.canvas;
@@ -81,19 +89,21 @@ export class SimpleAlignment {
       return null;
     }
 
-    // Convert to geographic coordinates
+    // Convert to geographic coordinates (degrees, like the splat location)
     const topLeftGeo = Cesium.Cartographic.fromCartesian(topLeft);
     const topRightGeo = Cesium.Cartographic.fromCartesian(topRight);
     const bottomLeftGeo = Cesium.Cartographic.fromCartesian(bottomLeft);
     const bottomRightGeo = Cesium.Cartographic.fromCartesian(bottomRight);
 
-    const bounds = {
-      west: Math.min(topLeftGeo.longitude, bottomLeftGeo.longitude),
-      east: Math.max(topRightGeo.longitude, bottomRightGeo.longitude),
-      north: Math.max(topLeftGeo.latitude, topRightGeo.latitude),
-      south: Math.min(bottomLeftGeo.latitude, bottomRightGeo.latitude)
-    };
+    return this.measureBounds({
+      west: Cesium.Math.toDegrees(Math.min(topLeftGeo.longitude, bottomLeftGeo.longitude)),
+      east: Cesium.Math.toDegrees(Math.max(topRightGeo.longitude, bottomRightGeo.longitude)),
+      north: Cesium.Math.toDegrees(Math.max(topLeftGeo.latitude, topRightGeo.latitude)),
+      south: Cesium.Math.toDegrees(Math.min(bottomLeftGeo.latitude, bottomRightGeo.latitude))
+    });
+  }
 
+  private measureBounds(bounds: RoadDataBounds): any {
     // Calculate dimensions in meters
     const widthMeters = this.distanceInMeters(bounds.west, bounds.north, bounds.east, bounds.north);
     const heightMeters = this.distanceInMeters(bounds.west, bounds.north, bounds.west, bounds.south);
@@ -141,31 +151,18 @@ export class SimpleAlignment {
     console.log(`Applying transformation: scale=${scale.toFixed(2)}, rotation=${rotation.toFixed(2)}°`);
     console.log(`New location: lon=${location.lon.toFixed(6)}, lat=${location.lat.toFixed(6)}, height=${location.height.toFixed(1)}m`);
 
-    // Update splat properties using the layer's own methods
-    splatLayer.location = location;
-    splatLayer.rotation.y = rotation;
-    splatLayer.scale = scale;
-
-    // Use the layer's built-in update methods instead of direct manipulation
-    splatLayer.updatePosition();
-    splatLayer.updateScale();
-
-    // Apply rotation to the scene
-    if (splatLayer.scene) {
-      splatLayer.scene.rotation.y = rotation;
-    }
+    // Everything goes through the layer transform API
+    splatLayer.moveTo(location, 'simple alignment');
+    splatLayer.setEnuParams({ yawRad: rotation, scale }, 'simple alignment');
 
     console.log(`✅ Transformation applied successfully`);
   }
 
   private applySafeScaling(splatLayer: GaussianSplatLayer, newScale: number): void {
-    console.log(`🔄 Applying SAFE scale change: ${splatLayer.scale.toFixed(2)} -> ${newScale.toFixed(2)}`);
+    console.log(`🔄 Applying SAFE scale change: ${splatLayer.getEnuParams().scale.toFixed(2)} -> ${newScale.toFixed(2)}`);
 
     // ONLY change the scale, don't touch position or rotation
-    splatLayer.scale = newScale;
-
-    // Use the layer's built-in update method for scaling
-    splatLayer.updateScale();
+    splatLayer.setScale(newScale, 'simple alignment scale');
 
     console.log(`✅ Scale applied safely - position unchanged`);
   }
@@ -177,10 +174,12 @@ export class SimpleAlignment {
     const splatInView = this.isSplatInView(splatLayer, bounds);
 
     // Check if scale seems reasonable (not too big or too small)
-    const scaleReasonable = splatLayer.scale > 0.5 && splatLayer.scale < 10.0;
+    const scale = splatLayer.getEnuParams().scale;
+    const scaleReasonable = scale > 0.5 && scale < 10.0;
 
     // Check if height is reasonable
-    const heightReasonable = splatLayer.location.height > 0 && splatLayer.location.height < 1000;
+    const height = splatLayer.getLocation().height;
+    const heightReasonable = height > 0 && height < 1000;
 
     let score = 0;
     if (splatInView) score += 0.4;
@@ -195,8 +194,7 @@ export class SimpleAlignment {
   private isSplatInView(splatLayer: GaussianSplatLayer, bounds: any): boolean {
     if (!bounds) return false;
 
-    const splatLon = splatLayer.location.lon;
-    const splatLat = splatLayer.location.lat;
+    const { lon: splatLon, lat: splatLat } = splatLayer.getLocation();
 
     return splatLon >= bounds.west && splatLon <= bounds.east &&
            splatLat >= bounds.south && splatLat <= bounds.north;
@@ -204,71 +202,58 @@ export class SimpleAlignment {
 
   // Interactive alignment methods
   public incrementScale(splatLayer: GaussianSplatLayer, factor: number): void {
-    // Always use legacy scaling for interactive adjustments to avoid disappearing splat
-    const newScale = Math.max(0.1, Math.min(50.0, splatLayer.scale * factor));
+    // Clamp the scale for interactive adjustments to avoid disappearing splat
+    const newScale = Math.max(0.1, Math.min(50.0, splatLayer.getEnuParams().scale * factor));
     this.applySafeScaling(splatLayer, newScale);
     console.log(`Scale adjusted to: ${newScale.toFixed(2)}`);
   }
 
   public adjustRotation(splatLayer: GaussianSplatLayer, deltaRadians: number): void {
-    // Always use legacy rotation for interactive adjustments
-    const newRotation = splatLayer.rotation.y + deltaRadians;
+    const newRotation = splatLayer.getEnuParams().yawRad + deltaRadians;
     // SAFE: Only apply rotation, don't change position
-    splatLayer.rotation.y = newRotation;
-    if (splatLayer.scene) {
-      splatLayer.scene.rotation.y = newRotation;
-    }
+    splatLayer.setEnuParams({ yawRad: newRotation }, 'yaw');
     console.log(`Rotation (Yaw) adjusted to: ${(newRotation * 180 / Math.PI).toFixed(1)}°`);
   }
 
   public adjustPitch(splatLayer: GaussianSplatLayer, deltaRadians: number): void {
     // Adjust pitch (tilt forward/backward)
-    const newPitch = splatLayer.rotation.x + deltaRadians;
-    splatLayer.rotation.x = newPitch;
-    if (splatLayer.scene) {
-      splatLayer.scene.rotation.x = newPitch;
-    }
+    const newPitch = splatLayer.getEnuParams().pitchRad + deltaRadians;
+    splatLayer.setEnuParams({ pitchRad: newPitch }, 'pitch');
     console.log(`Pitch adjusted to: ${(newPitch * 180 / Math.PI).toFixed(1)}°`);
   }
 
   public adjustRoll(splatLayer: GaussianSplatLayer, deltaRadians: number): void {
     // Adjust roll (tilt left/right)
-    const newRoll = splatLayer.rotation.z + deltaRadians;
-    splatLayer.rotation.z = newRoll;
-    if (splatLayer.scene) {
-      splatLayer.scene.rotation.z = newRoll;
-    }
+    const newRoll = splatLayer.getEnuParams().rollRad + deltaRadians;
+    splatLayer.setEnuParams({ rollRad: newRoll }, 'roll');
     console.log(`Roll adjusted to: ${(newRoll * 180 / Math.PI).toFixed(1)}°`);
   }
 
   public movePosition(splatLayer: GaussianSplatLayer, deltaLon: number, deltaLat: number): void {
-    // Always use legacy position for interactive adjustments
+    const location = splatLayer.getLocation();
     const newLocation = {
-      lon: splatLayer.location.lon + deltaLon,
-      lat: splatLayer.location.lat + deltaLat,
-      height: splatLayer.location.height
+      lon: location.lon + deltaLon,
+      lat: location.lat + deltaLat,
+      height: location.height
     };
     // SAFE: Use small incremental changes
-    splatLayer.location = newLocation;
-    splatLayer.updatePosition();
+    splatLayer.moveTo(newLocation, 'position');
     console.log(`Position adjusted to: ${newLocation.lon.toFixed(6)}, ${newLocation.lat.toFixed(6)}`);
   }
 
   public adjustHeight(splatLayer: GaussianSplatLayer, deltaHeight: number): void {
-    // Always use legacy height for interactive adjustments
+    const location = splatLayer.getLocation();
     const newLocation = {
-      ...splatLayer.location,
-      height: Math.max(0, splatLayer.location.height + deltaHeight)
+      ...location,
+      height: Math.max(0, location.height + deltaHeight)
     };
     // SAFE: Small height adjustments
-    splatLayer.location = newLocation;
-    splatLayer.updatePosition();
+    splatLayer.moveTo(newLocation, 'height');
     console.log(`Height adjusted to: ${newLocation.height.toFixed(1)}m`);
   }
 
   // Auto-scale based on current view
   public autoScaleToView(splatLayer: GaussianSplatLayer): void {
-    // Always use legacy auto-scale
     const bounds = this.getCurrentViewBounds();
     if (bounds) {
       const properScale = this.calculateProperScale(bounds);
@@ -0,0 +1,142 @@
+import * as Cesium from 'cesium';
+import * as THREE from 'three';
+import { GaussianSplatLayer, SplatFileFormat } from './gaussian-splat-layer';
+import { Viewer } from './viewer';
+
+const SUPPORTED_FORMATS: SplatFileFormat[] = ['ply', 'splat', 'ksplat'];
+
+// Dropped splats are sized to cover this fraction of the camera distance
+const TARGET_SIZE_FRACTION = 0.5;
+const MIN_TARGET_SIZE = 5;   // meters
+const MAX_TARGET_SIZE = 500; // meters
+
+// Lines the splat up with the local ENU frame, assuming the common 3DGS
+// convention of -Y up: x east, -y up, z north
+const ENU_ALIGNED_PARAMS = { pitchRad: -Math.PI / 2 };
+
+export interface DroppedSplat {
+  file: File;
+  layer: GaussianSplatLayer;
+  location: { lon: number; lat: number; height: number };
+  scale: number;
+}
+
+// Loads .ply/.splat/.ksplat files dropped onto the page as new splat layers,
+// anchored on the terrain under the screen centre
+export class SplatDropLoader {
+  private viewer: Viewer;
+  private onLoaded?: (dropped: DroppedSplat) => void;
+  // Gets dropped files that are not splats; returns true when it took the file
+  private onOtherFile?: (file: File) => boolean;
+
+  private dragOverListener = (event: DragEvent) => {
+    event.preventDefault();
+    if (event.dataTransfer) event.dataTransfer.dropEffect = 'copy';
+  };
+
+  private dropListener = (event: DragEvent) => {
+    event.preventDefault();
+    const files = Array.from(event.dataTransfer?.files ?? []);
+    for (const file of files) {
+      if (!formatFromFileName(file.name) && this.onOtherFile?.(file)) continue;
+      this.loadFile(file).catch((error) => console.error(`❌ Failed to load ${file.name}:`, error));
+    }
+  };
+
+  constructor(viewer: Viewer, onLoaded?: (dropped: DroppedSplat) => void, onOtherFile?: (file: File) => boolean) {
+    this.viewer = viewer;
+    this.onLoaded = onLoaded;
+    this.onOtherFile = onOtherFile;
+
+    window.addEventListener('dragover', this.dragOverListener);
+    window.addEventListener('drop', this.dropListener);
+  }
+
+  public async loadFile(file: File): Promise<DroppedSplat> {
+    const format = formatFromFileName(file.name);
+    if (!format) {
+      throw new Error(`Unsupported splat file "${file.name}" (expected ${SUPPORTED_FORMATS.map(f => '.' + f).join(', ')})`);
+    }
+
+    const location = this.pickScreenCenter();
+    if (!location) {
+      throw new Error('No terrain under the screen centre to anchor the splat');
+    }
+
+    console.log(`📂 Loading ${file.name} at ${location.lon.toFixed(6)}, ${location.lat.toFixed(6)}, ${location.height.toFixed(1)}m`);
+
+    const url = URL.createObjectURL(file);
+    const layer = new GaussianSplatLayer(url, location, ENU_ALIGNED_PARAMS, { format });
+
+    this.viewer.addGaussianSplatLayer(layer);
+    try {
+      await layer.whenReady();
+    } catch (error) {
+      // A file that cannot be parsed leaves nothing to show; the caller reports the error
+      await this.viewer.removeGaussianSplatLayer(layer);
+      throw error;
+    } finally {
+      // the splat data is in GPU buffers by now, or the load failed
+      URL.revokeObjectURL(url);
+    }
+
+    const scale = this.estimateScale(layer, location);
+    layer.setScale(scale, 'drop');
+
+    console.log(`✅ ${file.name} loaded, starting scale ${scale.toFixed(3)}`);
+
+    const dropped: DroppedSplat = { file, layer, location, scale };
+    this.onLoaded?.(dropped);
+    return dropped;
+  }
+
+  // Terrain (or 3D tiles) point under the centre of the canvas, ellipsoid as a fallback
+  private pickScreenCenter(): { lon: number; lat: number; height: number } | null {
+    const cesium = this.viewer.cesium;
+    const scene = cesium.scene;
+    const center = new Cesium.Cartesian2(scene.canvas.clientWidth / 2, scene.canvas.clientHeight / 2);
+
+    let position: Cesium.Cartesian3 | undefined;
+    if (scene.pickPositionSupported) {
+      position = scene.pickPosition(center);
+    }
+    if (!position) {
+      const ray = cesium.camera.getPickRay(center);
+      position = ray ? scene.globe.pick(ray, scene) : undefined;
+    }
+    if (!position) {
+      position = cesium.camera.pickEllipsoid(center, scene.globe.ellipsoid);
+    }
+    if (!position) return null;
+
+    const carto = Cesium.Cartographic.fromCartesian(position);
+    return {
+      lon: Cesium.Math.toDegrees(carto.longitude),
+      lat: Cesium.Math.toDegrees(carto.latitude),
+      height: carto.height
+    };
+  }
+
+  // Size the splat so its largest extent covers part of the current view
+  private estimateScale(layer: GaussianSplatLayer, location: { lon: number; lat: number; height: number }): number {
+    const size = layer.getLocalBounds().getSize(new THREE.Vector3());
+    const extent = Math.max(size.x, size.y, size.z);
+    if (!(extent > 0)) return 1;
+
+    const anchor = Cesium.Cartesian3.fromDegrees(location.lon, location.lat, location.height);
+    const distance = Cesium.Cartesian3.distance(this.viewer.cesium.camera.positionWC, anchor);
+    const targetSize = Math.max(MIN_TARGET_SIZE, Math.min(MAX_TARGET_SIZE, distance * TARGET_SIZE_FRACTION));
+
+    return targetSize / extent;
+  }
+
+  public dispose(): void {
+    window.removeEventListener('dragover', this.dragOverListener);
+    window.removeEventListener('drop', this.dropListener);
+  }
+}
+
+function formatFromFileName(name: string): SplatFileFormat | null {
+  const extension = name.split('.').pop()?.toLowerCase() as SplatFileFormat;
+  return SUPPORTED_FORMATS.includes(extension) ? extension : null;
+}
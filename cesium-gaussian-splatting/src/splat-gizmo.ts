@@ -1,6 +1,7 @@
 import * as THREE from 'three';
 import * as Cesium from 'cesium';
 import { GaussianSplatLayer } from './gaussian-splat-layer';
+import { ecefToEnuMatrix } from './alignment/composeModelMatrix';
 
 export class SplatGizmo {
   private splatLayer: GaussianSplatLayer;
@@ -26,6 +27,8 @@ export class SplatGizmo {
   private zColor = 0x4444ff; // Blue
   private selectedColor = 0xffff00; // Yellow
 
+  // Drags go through the layer transform API, so an AlignmentController on the
+  // same layer records them as undo steps
   constructor(splatLayer: GaussianSplatLayer, camera: THREE.Camera) {
     this.splatLayer = splatLayer;
     this.camera = camera;
@@ -287,7 +290,7 @@ export class SplatGizmo {
     // Create a plane perpendicular to the selected axis for dragging
     const plane = new THREE.Plane();
     const planeNormal = new THREE.Vector3();
-    const currentSplatPos = this.splatLayer.scene.position.clone();
+    const currentSplatPos = this.splatLayer.scene.getWorldPosition(new THREE.Vector3());
 
     // Set plane normal based on axis - use camera direction for better interaction
     if (axis === 'x') {
@@ -306,25 +309,22 @@ export class SplatGizmo {
     if (intersectPoint) {
       const delta = intersectPoint.clone().sub(this.dragStartPosition);
 
-      // Convert world coordinates to geographic coordinates with proper scaling
-      // Cesium world coordinates are in meters, need to convert to degrees
-      const earthRadius = 6378137; // Earth radius in meters
-      const degreeScale = 180 / (Math.PI * earthRadius);
+      // World deltas are ECEF directions; express them in the anchor's ENU frame
+      const enuDelta = Cesium.Matrix4.multiplyByPointAsVector(
+        ecefToEnuMatrix(this.splatLayer.getAnchor()),
+        new Cesium.Cartesian3(delta.x, delta.y, delta.z),
+        new Cesium.Cartesian3()
+      );
+      const params = this.splatLayer.getEnuParams();
 
       if (axis === 'x') {
-        // X axis corresponds to longitude changes
-        const lonDelta = delta.x * degreeScale / Math.cos(Cesium.Math.toRadians(this.splatLayer.location.lat));
-        this.splatLayer.location.lon += lonDelta;
+        this.splatLayer.setEnuParams({ tEast: params.tEast + enuDelta.x }, 'gizmo translate');
       } else if (axis === 'y') {
-        // Y axis corresponds to latitude changes
-        const latDelta = delta.y * degreeScale;
-        this.splatLayer.location.lat += latDelta;
+        this.splatLayer.setEnuParams({ tNorth: params.tNorth + enuDelta.y }, 'gizmo translate');
       } else if (axis === 'z') {
-        // Z axis corresponds to height changes (already in meters)
-        this.splatLayer.location.height += delta.z;
+        this.splatLayer.setEnuParams({ tUp: params.tUp + enuDelta.z }, 'gizmo translate');
       }
 
-      this.updateSplatPosition();
       this.dragStartPosition.copy(intersectPoint);
     }
   }
@@ -334,16 +334,14 @@ export class SplatGizmo {
     const lastMouse = this.lastMousePosition || currentMouse.clone();
     const delta = currentMouse.clone().sub(lastMouse);
     const rotationSpeed = 0.02;
+    const params = this.splatLayer.getEnuParams();
 
     if (axis === 'x') {
-      this.splatLayer.scene.rotation.x += delta.y * rotationSpeed;
-      this.splatLayer.rotation.x = this.splatLayer.scene.rotation.x;
+      this.splatLayer.setEnuParams({ pitchRad: params.pitchRad + delta.y * rotationSpeed }, 'gizmo rotate');
     } else if (axis === 'y') {
-      this.splatLayer.scene.rotation.y += delta.x * rotationSpeed;
-      this.splatLayer.rotation.y = this.splatLayer.scene.rotation.y;
+      this.splatLayer.setEnuParams({ yawRad: params.yawRad + delta.x * rotationSpeed }, 'gizmo rotate');
     } else if (axis === 'z') {
-      this.splatLayer.scene.rotation.z += delta.x * rotationSpeed;
-      this.splatLayer.rotation.z = this.splatLayer.scene.rotation.z;
+      this.splatLayer.setEnuParams({ rollRad: params.rollRad + delta.x * rotationSpeed }, 'gizmo rotate');
     }
 
     this.lastMousePosition = currentMouse.clone();
@@ -351,22 +349,8 @@ export class SplatGizmo {
 
   private handleScaling() {
     const delta = this.mouse.y * 0.1;
-    const newScale = Math.max(0.1, this.splatLayer.scale + delta);
-
-    if (this.splatLayer.splatViewer && this.splatLayer.splatViewer.getSplatMesh()) {
-      const mesh = this.splatLayer.splatViewer.getSplatMesh();
-      mesh.scale.set(newScale, newScale, newScale);
-      this.splatLayer.scale = newScale;
-    }
-  }
-
-  private updateSplatPosition() {
-    const position = Cesium.Cartesian3.fromDegrees(
-      this.splatLayer.location.lon,
-      this.splatLayer.location.lat,
-      this.splatLayer.location.height
-    );
-    this.splatLayer.scene.position.set(position.x, position.y, position.z);
+    const newScale = Math.max(0.1, this.splatLayer.getEnuParams().scale + delta);
+    this.splatLayer.setScale(newScale, 'gizmo scale');
   }
 
   private highlightHandle(handle: THREE.Object3D, highlight: boolean) {
@@ -391,7 +375,8 @@ export class SplatGizmo {
 
   public updateGizmoScale() {
     // Dynamically scale gizmo based on distance from camera for better visibility
-    const distance = this.camera.position.distanceTo(this.splatLayer.scene.position);
+    // World positions so this also holds when the overlay renders relative to the layer anchor
+    const distance = this.camera.position.distanceTo(this.splatLayer.scene.getWorldPosition(new THREE.Vector3()));
     const scale = Math.max(0.1, distance * 0.001);
     this.gizmoGroup.scale.setScalar(scale);
   }
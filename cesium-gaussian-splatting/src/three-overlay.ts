@@ -2,17 +2,33 @@ import * as Cesium from "cesium";
 import * as THREE from "three";
 
 import { GaussianSplatLayer } from "./gaussian-splat-layer";
+import { DepthCompositor } from "./depth-compositor";
+
+// "absolute" feeds raw ECEF metres to Three; "relativeToCenter" rebases each
+// layer and the camera onto the layer anchor so float32 GPU math stays precise
+export type CameraSyncMode = "absolute" | "relativeToCenter";
 
 export class ThreeOverlay {
   private cesiumCamera: Cesium.Camera;
+  private cesiumScene: Cesium.Scene;
   private scene: THREE.Scene;
   private camera: THREE.PerspectiveCamera;
   private threeRenderer: THREE.WebGLRenderer;
   private gausssianSplatLayers: GaussianSplatLayer[];
+  private depthCompositor: DepthCompositor | null = null;
+  private syncMode: CameraSyncMode;
+  // Per-layer parent shifted by -anchor when rendering relative to center
+  private layerRoots = new Map<GaussianSplatLayer, THREE.Group>();
 
-  constructor(cesiumCamera: Cesium.Camera) {
+  constructor(
+    cesiumCamera: Cesium.Camera,
+    cesiumScene: Cesium.Scene,
+    syncMode: CameraSyncMode = "relativeToCenter"
+  ) {
     const threeContainer = document.getElementById("three");
     this.cesiumCamera = cesiumCamera;
+    this.cesiumScene = cesiumScene;
+    this.syncMode = syncMode;
     this.scene = new THREE.Scene();
     this.camera = new THREE.PerspectiveCamera(
       75,
@@ -35,17 +51,81 @@ export class ThreeOverlay {
       this.threeRenderer.setSize(width, height);
       this.camera.aspect = width / height;
       this.camera.updateProjectionMatrix();
+      this.depthCompositor?.resize(width, height);
     });
   }
 
+  public setSyncMode(syncMode: CameraSyncMode) {
+    this.syncMode = syncMode;
+  }
+
+  public getSyncMode(): CameraSyncMode {
+    return this.syncMode;
+  }
+
   public addGaussianSplatLayer(layer: GaussianSplatLayer) {
     layer.setup(this.camera, this.threeRenderer);
-    this.scene.add(layer.scene);
     this.gausssianSplatLayers.push(layer);
+
+    const root = new THREE.Group();
+    root.add(layer.scene);
+    this.layerRoots.set(layer, root);
+
+    // depth-tested layers are composited inside Cesium instead of painted on top
+    if (layer.depthTest) {
+      if (!this.depthCompositor) {
+        this.depthCompositor = new DepthCompositor(this.cesiumScene, this.threeRenderer);
+      }
+      this.depthCompositor.addLayer(layer);
+    } else {
+      this.scene.add(root);
+    }
+    this.updateLayerOrder();
+  }
+
+  // Detach a layer and free its resources; the layer cannot be added again
+  public removeGaussianSplatLayer(layer: GaussianSplatLayer): Promise<void> {
+    const index = this.gausssianSplatLayers.indexOf(layer);
+    if (index === -1) return Promise.resolve();
+
+    this.gausssianSplatLayers.splice(index, 1);
+    this.depthCompositor?.removeLayer(layer);
+
+    const root = this.layerRoots.get(layer);
+    root?.removeFromParent();
+    this.layerRoots.delete(layer);
+    this.updateLayerOrder();
+
+    return layer.dispose();
+  }
+
+  public getGaussianSplatLayers(): GaussianSplatLayer[] {
+    return [...this.gausssianSplatLayers];
+  }
+
+  // Layers are drawn in list order, later layers on top of earlier ones
+  public moveGaussianSplatLayer(layer: GaussianSplatLayer, index: number) {
+    const current = this.gausssianSplatLayers.indexOf(layer);
+    if (current === -1) return;
+
+    const target = Math.max(0, Math.min(this.gausssianSplatLayers.length - 1, index));
+    this.gausssianSplatLayers.splice(current, 1);
+    this.gausssianSplatLayers.splice(target, 0, layer);
+    this.updateLayerOrder();
+  }
+
+  private updateLayerOrder() {
+    this.gausssianSplatLayers.forEach((layer, index) => {
+      // group render order keeps the list order when all layers share one scene
+      this.layerRoots.get(layer)!.renderOrder = index;
+    });
+    this.depthCompositor?.setLayerOrder(this.gausssianSplatLayers);
   }
 
   // Sync camera code taken from https://github.com/leon-juenemann/cesiumjs-with-threejs
-  public render() {
+  // With an origin the camera is placed relative to it; the subtraction happens
+  // here in doubles so only small numbers reach the GPU
+  private syncCamera(origin?: THREE.Vector3) {
     this.camera.fov = Cesium.Math.toDegrees(this.cesiumCamera.frustum.fovy);
     this.camera.updateProjectionMatrix();
 
@@ -72,12 +152,64 @@ export class ThreeOverlay {
     );
     const cameraUpVec3 = new THREE.Vector3(cameraUp.x, cameraUp.y, cameraUp.z);
 
+    if (origin) {
+      cameraPositionVec3.sub(origin);
+    }
+
     this.camera.position.copy(cameraPositionVec3);
     this.camera.up.copy(cameraUpVec3);
     this.camera.lookAt(cameraPositionVec3.clone().add(cameraDirectionVec3));
+    this.camera.updateMatrixWorld();
+  }
+
+  // Points the camera at a single layer and returns the object to render for it.
+  // Relative to center, the layer root cancels the anchor so splat matrices hold
+  // only the local offset and rotation.
+  private prepareLayer(layer: GaussianSplatLayer): THREE.Object3D {
+    const root = this.layerRoots.get(layer)!;
+
+    if (this.syncMode === "relativeToCenter") {
+      const origin = layer.getOrigin();
+      root.position.copy(origin).negate();
+      this.syncCamera(origin);
+    } else {
+      root.position.set(0, 0, 0);
+      this.syncCamera();
+    }
+
+    // the splat sort reads matrixWorld before the renderer would refresh it
+    root.updateMatrixWorld(true);
+    return root;
+  }
+
+  // The camera is shared and left at whichever layer rendered last; anything that
+  // raycasts against one layer (picking) has to point it at that layer first
+  public syncCameraToLayer(layer: GaussianSplatLayer) {
+    if (!this.layerRoots.has(layer)) return;
+    this.prepareLayer(layer);
+  }
+
+  // Called before Cesium draws so the composite stage sees this frame's splats
+  public renderDepthTested() {
+    if (!this.depthCompositor) return;
+
+    this.depthCompositor.render(this.camera, (layer) => this.prepareLayer(layer));
+  }
+
+  public render() {
+    if (this.syncMode === "relativeToCenter") {
+      this.renderRelativeToCenter();
+      return;
+    }
+
+    this.layerRoots.forEach((root) => root.position.set(0, 0, 0));
+    this.syncCamera();
 
     this.gausssianSplatLayers.forEach((layer) => {
-      if (!layer.ready) return;
+      if (!layer.ready || layer.depthTest) return;
+
+      layer.updateDisplay();
+      if (!layer.visible) return;
 
       layer.splatViewer.update();
       layer.splatViewer.render();
@@ -85,4 +217,27 @@ export class ThreeOverlay {
 
     this.threeRenderer.render(this.scene, this.camera);
   }
+
+  // Each layer has its own camera origin, so layers are drawn one at a time
+  // into the same frame instead of as one scene
+  private renderRelativeToCenter() {
+    const renderer = this.threeRenderer;
+    const savedAutoClear = renderer.autoClear;
+
+    renderer.clear();
+    renderer.autoClear = false;
+
+    this.gausssianSplatLayers.forEach((layer) => {
+      if (!layer.ready || layer.depthTest) return;
+
+      layer.updateDisplay();
+      if (!layer.visible) return;
+
+      const root = this.prepareLayer(layer);
+      layer.splatViewer.update();
+      renderer.render(root, this.camera);
+    });
+
+    renderer.autoClear = savedAutoClear;
+  }
 }
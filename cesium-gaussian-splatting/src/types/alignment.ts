@@ -18,4 +18,9 @@ export type PlaneAlignment = {
   pitchRad: number;
   rollRad: number;
   alignMatrix: number[]; // 3x3 rotation matrix as flat array
-};
\ No newline at end of file
+};
+export type GeoAnchor = {
+  lon: number;     // degrees
+  lat: number;     // degrees
+  height: number;  // meters above the ellipsoid
+};
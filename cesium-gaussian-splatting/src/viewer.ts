@@ -7,11 +7,18 @@ export class Viewer {
   public cesium!: Cesium.Viewer;
 
   private threeOverlay!: ThreeOverlay;
+  // Set once the buildings tileset has loaded; aligners sample its geometry
+  private buildings: Cesium.Cesium3DTileset | null = null;
 
   constructor() {
     this.createViewer();
     this.createOverlay();
 
+    // depth-tested splats have to be ready before Cesium composites the frame
+    this.cesium.scene.preRender.addEventListener(() => {
+      this.threeOverlay.renderDepthTested();
+    });
+
     // call rendering on our three overlay after Cesium is done rendering
     this.cesium.scene.postRender.addEventListener(() => {
       this.threeOverlay.render();
@@ -69,14 +76,20 @@ export class Viewer {
       // Use Google 3D Tiles for buildings (works in California)
       const buildings = await Cesium.Cesium3DTileset.fromIonAssetId(96188);
       this.cesium.scene.primitives.add(buildings);
+      this.buildings = buildings;
       console.log('Google 3D Buildings loaded');
     } catch (error) {
       console.warn('Failed to load 3D buildings:', error);
     }
   }
 
+  // null until loaded, or when loading failed
+  public getBuildingsTileset(): Cesium.Cesium3DTileset | null {
+    return this.buildings;
+  }
+
   private createOverlay() {
-    this.threeOverlay = new ThreeOverlay(this.cesium!.camera);
+    this.threeOverlay = new ThreeOverlay(this.cesium!.camera, this.cesium!.scene);
   }
 
   public flyTo(
@@ -101,4 +114,22 @@ export class Viewer {
   public addGaussianSplatLayer(layer: GaussianSplatLayer): void {
     this.threeOverlay.addGaussianSplatLayer(layer);
   }
+
+  // Removes the layer from the overlay and disposes it
+  public removeGaussianSplatLayer(layer: GaussianSplatLayer): Promise<void> {
+    return this.threeOverlay.removeGaussianSplatLayer(layer);
+  }
+
+  public moveGaussianSplatLayer(layer: GaussianSplatLayer, index: number): void {
+    this.threeOverlay.moveGaussianSplatLayer(layer, index);
+  }
+
+  // Point the shared Three camera at one layer, e.g. before raycasting against it
+  public syncCameraToLayer(layer: GaussianSplatLayer): void {
+    this.threeOverlay.syncCameraToLayer(layer);
+  }
+
+  public getGaussianSplatLayers(): GaussianSplatLayer[] {
+    return this.threeOverlay.getGaussianSplatLayers();
+  }
 }